@@ -0,0 +1,12 @@
+-- Cuentas de usuario con Supabase Auth
+-- Cada fila de users se vincula con la cuenta con la que inicia sesión (auth_user_id)
+-- Ejecuta este SQL en el SQL Editor de Supabase
+
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS auth_user_id text UNIQUE;
+
+COMMENT ON COLUMN public.users.auth_user_id IS 'ID del usuario en el proveedor de autenticación (Supabase Auth, o local:<email> con AUTH_PROVIDER=local)';
+
+-- Comentario: la fila se crea al iniciar sesión por primera vez; si ya existía un usuario
+-- con el mismo correo (por ejemplo "Demo User", demo@knowledgehub.ai) se vincula a esa cuenta
+-- y conserva sus documentos
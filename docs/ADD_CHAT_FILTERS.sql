@@ -0,0 +1,173 @@
+-- Filtros del chat: limitar la búsqueda a departamentos, documentos, tipos de archivo o fechas de subida
+-- Las búsquedas del chat (match_document_chunks y search_document_chunks_fulltext) reciben los filtros
+-- y solo devuelven fragmentos de los documentos que los cumplen
+-- Ejecuta este SQL en el SQL Editor de Supabase
+-- Requiere haber ejecutado antes ADD_DOCUMENT_VISIBILITY.sql
+
+-- Si un documento cumple los filtros del chat; un filtro NULL o vacío no limita nada
+--   document_ids: IDs de grupo de versiones (version_group_id), así incluye todas sus versiones
+--   file_types: extensiones en minúsculas y sin punto (pdf, docx, ...)
+--   uploaded_after incluye esa fecha, uploaded_before no
+-- Las mismas condiciones que matchesFilters en src/backend/lib/rag/retrieval.ts
+CREATE OR REPLACE FUNCTION public.document_matches_filters(
+  doc public.documents,
+  department_ids uuid[],
+  document_ids uuid[],
+  file_types text[],
+  uploaded_after timestamptz,
+  uploaded_before timestamptz
+)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT
+    (COALESCE(cardinality(department_ids), 0) = 0 OR doc.department_id = ANY (department_ids))
+    AND (COALESCE(cardinality(document_ids), 0) = 0 OR doc.version_group_id = ANY (document_ids))
+    AND (
+      COALESCE(cardinality(file_types), 0) = 0
+      OR lower(substring(doc.file_name from '\.([^./]+)$')) = ANY (file_types)
+    )
+    AND (uploaded_after IS NULL OR doc.uploaded_at >= uploaded_after)
+    AND (uploaded_before IS NULL OR doc.uploaded_at < uploaded_before);
+$$;
+
+-- Las funciones RPC reciben los filtros; cambia su firma, así que se recrean
+
+DROP FUNCTION IF EXISTS match_document_chunks(vector, text, float, int, uuid, uuid);
+
+CREATE OR REPLACE FUNCTION match_document_chunks(
+  query_embedding vector,
+  query_model text,
+  match_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 3,
+  filter_document_id uuid DEFAULT NULL,
+  filter_user_id uuid DEFAULT NULL,
+  filter_department_ids uuid[] DEFAULT NULL,
+  filter_document_ids uuid[] DEFAULT NULL,
+  filter_file_types text[] DEFAULT NULL,
+  filter_uploaded_after timestamptz DEFAULT NULL,
+  filter_uploaded_before timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  chunk_index integer,
+  content text,
+  page_start integer,
+  page_end integer,
+  heading_path text[],
+  char_start integer,
+  char_end integer,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    document_chunks.id,
+    document_chunks.document_id,
+    document_chunks.chunk_index,
+    document_chunks.content,
+    document_chunks.page_start,
+    document_chunks.page_end,
+    document_chunks.heading_path,
+    document_chunks.char_start,
+    document_chunks.char_end,
+    1 - (document_chunks.embedding <=> query_embedding) AS similarity
+  FROM document_chunks
+  JOIN documents ON documents.id = document_chunks.document_id
+  WHERE documents.deleted_at IS NULL
+    AND (
+      (filter_document_id IS NULL AND documents.is_current)
+      OR document_chunks.document_id = filter_document_id
+    )
+    AND can_view_document(filter_user_id, documents)
+    AND document_matches_filters(
+      documents,
+      filter_department_ids,
+      filter_document_ids,
+      filter_file_types,
+      filter_uploaded_after,
+      filter_uploaded_before
+    )
+    AND document_chunks.embedding IS NOT NULL
+    AND document_chunks.embedding_model = query_model
+    AND document_chunks.embedding_dimensions = vector_dims(query_embedding)
+    AND 1 - (document_chunks.embedding <=> query_embedding) > match_threshold
+  ORDER BY document_chunks.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS search_document_chunks_fulltext(text, int, uuid, uuid);
+
+CREATE OR REPLACE FUNCTION search_document_chunks_fulltext(
+  query_text text,
+  match_count int DEFAULT 20,
+  filter_document_id uuid DEFAULT NULL,
+  filter_user_id uuid DEFAULT NULL,
+  filter_department_ids uuid[] DEFAULT NULL,
+  filter_document_ids uuid[] DEFAULT NULL,
+  filter_file_types text[] DEFAULT NULL,
+  filter_uploaded_after timestamptz DEFAULT NULL,
+  filter_uploaded_before timestamptz DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  chunk_index integer,
+  content text,
+  page_start integer,
+  page_end integer,
+  heading_path text[],
+  char_start integer,
+  char_end integer,
+  rank float
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT to_tsquery(
+      'simple',
+      replace(websearch_to_tsquery('simple', query_text)::text, ' & ', ' | ')
+    ) AS q
+  )
+  SELECT
+    document_chunks.id,
+    document_chunks.document_id,
+    document_chunks.chunk_index,
+    document_chunks.content,
+    document_chunks.page_start,
+    document_chunks.page_end,
+    document_chunks.heading_path,
+    document_chunks.char_start,
+    document_chunks.char_end,
+    ts_rank_cd(document_chunks.content_tsv, query.q)::float AS rank
+  FROM document_chunks
+  JOIN documents ON documents.id = document_chunks.document_id, query
+  WHERE documents.deleted_at IS NULL
+    AND (
+      (filter_document_id IS NULL AND documents.is_current)
+      OR document_chunks.document_id = filter_document_id
+    )
+    AND can_view_document(filter_user_id, documents)
+    AND document_matches_filters(
+      documents,
+      filter_department_ids,
+      filter_document_ids,
+      filter_file_types,
+      filter_uploaded_after,
+      filter_uploaded_before
+    )
+    AND document_chunks.content_tsv @@ query.q
+  ORDER BY rank DESC
+  LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_document_chunks TO anon;
+GRANT EXECUTE ON FUNCTION match_document_chunks TO authenticated;
+GRANT EXECUTE ON FUNCTION search_document_chunks_fulltext TO anon;
+GRANT EXECUTE ON FUNCTION search_document_chunks_fulltext TO authenticated;
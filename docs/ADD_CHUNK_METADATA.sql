@@ -0,0 +1,105 @@
+-- Metadatos de posición por chunk: páginas, encabezados y offsets de caracteres
+-- Ejecuta este SQL en el SQL Editor de Supabase
+-- Requiere haber ejecutado antes ADD_FULLTEXT_SEARCH.sql
+
+ALTER TABLE public.document_chunks
+ADD COLUMN IF NOT EXISTS page_start integer,
+ADD COLUMN IF NOT EXISTS page_end integer,
+ADD COLUMN IF NOT EXISTS heading_path text[] NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS char_start integer,
+ADD COLUMN IF NOT EXISTS char_end integer;
+
+-- Comentario: page_start/page_end son NULL para formatos sin páginas (TXT, MD)
+-- heading_path guarda los encabezados que contienen al chunk, del más externo al más interno
+-- Los documentos procesados antes de esta migración no tienen estos datos hasta reprocesarlos
+
+-- Las funciones RPC cambian sus columnas de salida, así que hay que recrearlas
+DROP FUNCTION IF EXISTS match_document_chunks(vector, float, int);
+DROP FUNCTION IF EXISTS search_document_chunks_fulltext(text, int);
+
+CREATE OR REPLACE FUNCTION match_document_chunks(
+  query_embedding vector(1536),
+  match_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 3
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  chunk_index integer,
+  content text,
+  page_start integer,
+  page_end integer,
+  heading_path text[],
+  char_start integer,
+  char_end integer,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    document_chunks.id,
+    document_chunks.document_id,
+    document_chunks.chunk_index,
+    document_chunks.content,
+    document_chunks.page_start,
+    document_chunks.page_end,
+    document_chunks.heading_path,
+    document_chunks.char_start,
+    document_chunks.char_end,
+    1 - (document_chunks.embedding <=> query_embedding) AS similarity
+  FROM document_chunks
+  WHERE document_chunks.embedding IS NOT NULL
+    AND 1 - (document_chunks.embedding <=> query_embedding) > match_threshold
+  ORDER BY document_chunks.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION search_document_chunks_fulltext(
+  query_text text,
+  match_count int DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  chunk_index integer,
+  content text,
+  page_start integer,
+  page_end integer,
+  heading_path text[],
+  char_start integer,
+  char_end integer,
+  rank float
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT to_tsquery(
+      'simple',
+      replace(websearch_to_tsquery('simple', query_text)::text, ' & ', ' | ')
+    ) AS q
+  )
+  SELECT
+    document_chunks.id,
+    document_chunks.document_id,
+    document_chunks.chunk_index,
+    document_chunks.content,
+    document_chunks.page_start,
+    document_chunks.page_end,
+    document_chunks.heading_path,
+    document_chunks.char_start,
+    document_chunks.char_end,
+    ts_rank_cd(document_chunks.content_tsv, query.q)::float AS rank
+  FROM document_chunks, query
+  WHERE document_chunks.content_tsv @@ query.q
+  ORDER BY rank DESC
+  LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_document_chunks TO anon;
+GRANT EXECUTE ON FUNCTION match_document_chunks TO authenticated;
+GRANT EXECUTE ON FUNCTION search_document_chunks_fulltext TO anon;
+GRANT EXECUTE ON FUNCTION search_document_chunks_fulltext TO authenticated;
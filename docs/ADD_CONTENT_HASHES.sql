@@ -0,0 +1,36 @@
+-- Reindexado incremental: hash del contenido de cada documento y de cada chunk
+-- Al reprocesar un documento solo se generan embeddings para los chunks cuyo texto cambió;
+-- los chunks idénticos conservan (o copian) su embedding
+-- Ejecuta este SQL en el SQL Editor de Supabase
+-- Requiere haber ejecutado antes ADD_INGESTION_JOBS.sql
+
+ALTER TABLE public.documents
+ADD COLUMN IF NOT EXISTS content_hash text;
+
+COMMENT ON COLUMN public.documents.content_hash IS 'SHA-256 del archivo la última vez que se procesó por completo';
+
+ALTER TABLE public.document_chunks
+ADD COLUMN IF NOT EXISTS content_hash text;
+
+COMMENT ON COLUMN public.document_chunks.content_hash IS 'SHA-256 (hex) del texto del chunk en UTF-8';
+
+-- Los chunks existentes se pueden reutilizar desde el primer reprocesado
+UPDATE public.document_chunks
+SET content_hash = encode(sha256(convert_to(content, 'UTF8')), 'hex')
+WHERE content_hash IS NULL;
+
+-- Busca embeddings ya calculados para un texto idéntico (en cualquier documento)
+CREATE INDEX IF NOT EXISTS document_chunks_content_hash_idx
+ON public.document_chunks (content_hash);
+
+-- Resultado del último procesado de cada trabajo (NULL mientras no termina)
+ALTER TABLE public.ingestion_jobs
+ADD COLUMN IF NOT EXISTS chunks_added integer,
+ADD COLUMN IF NOT EXISTS chunks_kept integer,
+ADD COLUMN IF NOT EXISTS chunks_removed integer;
+
+-- Comentario: chunks_added son los chunks nuevos (con embedding generado o copiado de un
+-- chunk idéntico), chunks_kept los que conservaron su embedding y chunks_removed los que
+-- se borraron porque su texto ya no está en el documento
+-- Un trabajo reintentado conserva los chunks guardados por el intento anterior porque
+-- coinciden por hash: el hash sustituye al chunk_index como checkpoint
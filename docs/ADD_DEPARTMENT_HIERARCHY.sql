@@ -0,0 +1,146 @@
+-- Gestión de departamentos: subdepartamentos (por ejemplo Ventas > EMEA), borrado y fusión
+-- Filtrar por un departamento incluye sus subdepartamentos
+-- Dos subdepartamentos pueden llamarse igual si cuelgan de padres distintos
+-- Borrar un departamento mueve sus documentos a otro y sube sus subdepartamentos un nivel
+-- Los documentos movidos conservan la visibilidad que tenían en su departamento
+-- Fusionar un departamento en otro mueve sus documentos, miembros y subdepartamentos y lo borra
+-- Ejecuta este SQL en el SQL Editor de Supabase
+-- Requiere haber ejecutado antes ADD_ROLES.sql y ADD_DOCUMENT_VISIBILITY.sql
+
+ALTER TABLE public.departments
+ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES public.departments(id);
+
+COMMENT ON COLUMN public.departments.parent_id IS 'Departamento padre; NULL para los departamentos de primer nivel';
+
+CREATE INDEX IF NOT EXISTS departments_parent_id_idx
+ON public.departments (parent_id);
+
+-- El nombre solo es único entre los subdepartamentos del mismo padre (sin distinguir mayúsculas),
+-- así Ventas > EMEA y Soporte > EMEA pueden convivir. Los de primer nivel cuentan como hermanos
+ALTER TABLE public.departments
+DROP CONSTRAINT IF EXISTS departments_name_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS departments_parent_name_idx
+ON public.departments (coalesce(parent_id, '00000000-0000-0000-0000-000000000000'::uuid), lower(name));
+
+-- Un departamento y todos sus subdepartamentos, a cualquier profundidad
+CREATE OR REPLACE FUNCTION public.department_subtree(root uuid)
+RETURNS SETOF uuid
+LANGUAGE sql
+STABLE
+AS $$
+  WITH RECURSIVE subtree AS (
+    SELECT id FROM public.departments WHERE id = root
+    UNION
+    SELECT d.id FROM public.departments d JOIN subtree ON d.parent_id = subtree.id
+  )
+  SELECT id FROM subtree;
+$$;
+
+-- Un departamento no puede colgar de sí mismo ni de uno de sus subdepartamentos
+CREATE OR REPLACE FUNCTION public.check_department_parent()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NEW.parent_id IN (SELECT public.department_subtree(NEW.id)) THEN
+    RAISE EXCEPTION 'Un departamento no puede ser subdepartamento de sí mismo ni de sus subdepartamentos';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_department_parent ON public.departments;
+CREATE TRIGGER check_department_parent
+BEFORE UPDATE OF parent_id ON public.departments
+FOR EACH ROW EXECUTE FUNCTION public.check_department_parent();
+
+-- Antes de mover los documentos de from_department a to_department, fija la visibilidad
+-- de los que usan la de su departamento (visibility NULL) a la de from_department,
+-- así un documento solo del departamento no pasa a ser público al moverlo
+-- No cambia nada si los dos departamentos tienen la misma visibilidad por defecto
+CREATE OR REPLACE FUNCTION public.pin_department_visibility(from_department uuid, to_department uuid)
+RETURNS void
+LANGUAGE sql
+AS $$
+  UPDATE public.documents
+  SET visibility = source.default_visibility
+  FROM public.departments source, public.departments target
+  WHERE source.id = from_department
+    AND target.id = to_department
+    AND source.default_visibility IS DISTINCT FROM target.default_visibility
+    AND documents.department_id = from_department
+    AND documents.visibility IS NULL;
+$$;
+
+-- Borra un departamento; sus documentos (también los de la papelera) pasan a reassign_to
+-- y sus subdepartamentos pasan a su departamento padre. Sus miembros se eliminan
+-- Devuelve false si el departamento no existe
+CREATE OR REPLACE FUNCTION public.delete_department(target_department uuid, reassign_to uuid DEFAULT NULL)
+RETURNS boolean
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target public.departments;
+BEGIN
+  SELECT * INTO target FROM public.departments WHERE id = target_department FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  IF reassign_to = target_department THEN
+    RAISE EXCEPTION 'Los documentos no pueden quedarse en el departamento que se borra';
+  END IF;
+
+  IF reassign_to IS NULL THEN
+    IF EXISTS (SELECT 1 FROM public.documents WHERE department_id = target_department) THEN
+      RAISE EXCEPTION 'El departamento tiene documentos: indica a qué departamento moverlos';
+    END IF;
+  ELSE
+    PERFORM public.pin_department_visibility(target_department, reassign_to);
+    UPDATE public.documents SET department_id = reassign_to WHERE department_id = target_department;
+  END IF;
+
+  UPDATE public.departments SET parent_id = target.parent_id WHERE parent_id = target_department;
+  DELETE FROM public.departments WHERE id = target_department;
+  RETURN true;
+END;
+$$;
+
+-- Fusiona source_department en target_department: mueve sus documentos, sus miembros
+-- (quien ya era miembro de los dos conserva el rol mayor) y sus subdepartamentos, y lo borra
+-- Devuelve false si alguno de los dos no existe
+CREATE OR REPLACE FUNCTION public.merge_departments(source_department uuid, target_department uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  PERFORM 1 FROM public.departments
+  WHERE id IN (source_department, target_department)
+  FOR UPDATE;
+  IF (SELECT count(*) FROM public.departments WHERE id IN (source_department, target_department)) < 2 THEN
+    RETURN false;
+  END IF;
+
+  IF target_department IN (SELECT public.department_subtree(source_department)) THEN
+    RAISE EXCEPTION 'No se puede fusionar un departamento con uno de sus subdepartamentos';
+  END IF;
+
+  PERFORM public.pin_department_visibility(source_department, target_department);
+  UPDATE public.documents SET department_id = target_department WHERE department_id = source_department;
+
+  INSERT INTO public.department_members (department_id, user_id, role)
+  SELECT target_department, user_id, role
+  FROM public.department_members
+  WHERE department_id = source_department
+  ON CONFLICT (department_id, user_id) DO UPDATE
+  SET role = CASE
+    WHEN public.role_rank(EXCLUDED.role) > public.role_rank(department_members.role) THEN EXCLUDED.role
+    ELSE department_members.role
+  END;
+
+  UPDATE public.departments SET parent_id = target_department WHERE parent_id = source_department;
+  DELETE FROM public.departments WHERE id = source_department;
+  RETURN true;
+END;
+$$;
@@ -0,0 +1,18 @@
+-- Modelo de chat por departamento: modelo, temperatura y tokens máximos de las respuestas
+-- Ejecuta este SQL en el SQL Editor de Supabase
+-- NULL usa el valor del despliegue (LLM_MODEL, LLM_TEMPERATURE, LLM_MAX_TOKENS)
+-- El modelo debe ser el de LLM_MODEL o uno de LLM_ALLOWED_MODELS; si no, se ignora
+
+ALTER TABLE public.departments
+  ADD COLUMN IF NOT EXISTS llm_model text,
+  ADD COLUMN IF NOT EXISTS llm_temperature real
+    CHECK (llm_temperature IS NULL OR (llm_temperature >= 0 AND llm_temperature <= 2)),
+  ADD COLUMN IF NOT EXISTS llm_max_tokens integer
+    CHECK (llm_max_tokens IS NULL OR llm_max_tokens > 0);
+
+COMMENT ON COLUMN public.departments.llm_model IS 'Modelo de chat del departamento (nombre del deployment en Azure); NULL usa LLM_MODEL';
+COMMENT ON COLUMN public.departments.llm_temperature IS 'Temperatura de las respuestas (0-2); NULL usa LLM_TEMPERATURE';
+COMMENT ON COLUMN public.departments.llm_max_tokens IS 'Tokens máximos de una respuesta; NULL usa LLM_MAX_TOKENS';
+
+-- Ejemplo: respuestas más precisas y largas para Legal
+-- UPDATE public.departments SET llm_model = 'gpt-4o', llm_temperature = 0.2, llm_max_tokens = 1200 WHERE name = 'Legal';
@@ -0,0 +1,117 @@
+-- Papelera de documentos: borrar un documento lo marca con deleted_at y lo saca de
+-- las búsquedas; pasado el periodo de retención (DOCUMENT_TRASH_RETENTION_DAYS) se borra
+-- definitivamente junto con su archivo, sus chunks y sus trabajos de ingesta
+-- Ejecuta este SQL en el SQL Editor de Supabase
+-- Requiere haber ejecutado antes ADD_EMBEDDING_MODEL.sql
+
+ALTER TABLE public.documents
+ADD COLUMN IF NOT EXISTS deleted_at timestamp with time zone;
+
+COMMENT ON COLUMN public.documents.deleted_at IS 'Fecha en que se movió a la papelera; NULL si no está borrado';
+
+CREATE INDEX IF NOT EXISTS documents_deleted_at_idx
+ON public.documents (deleted_at)
+WHERE deleted_at IS NOT NULL;
+
+-- Borrar un documento borra sus chunks (las instalaciones anteriores a
+-- SUPABASE_SETUP.md actual crearon fk_document sin ON DELETE CASCADE)
+ALTER TABLE public.document_chunks DROP CONSTRAINT IF EXISTS fk_document;
+ALTER TABLE public.document_chunks
+ADD CONSTRAINT fk_document FOREIGN KEY (document_id)
+  REFERENCES public.documents(id) ON DELETE CASCADE;
+
+-- Las funciones RPC ignoran los chunks de documentos en la papelera
+
+CREATE OR REPLACE FUNCTION match_document_chunks(
+  query_embedding vector,
+  query_model text,
+  match_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 3
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  chunk_index integer,
+  content text,
+  page_start integer,
+  page_end integer,
+  heading_path text[],
+  char_start integer,
+  char_end integer,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    document_chunks.id,
+    document_chunks.document_id,
+    document_chunks.chunk_index,
+    document_chunks.content,
+    document_chunks.page_start,
+    document_chunks.page_end,
+    document_chunks.heading_path,
+    document_chunks.char_start,
+    document_chunks.char_end,
+    1 - (document_chunks.embedding <=> query_embedding) AS similarity
+  FROM document_chunks
+  JOIN documents ON documents.id = document_chunks.document_id
+  WHERE documents.deleted_at IS NULL
+    AND document_chunks.embedding IS NOT NULL
+    AND document_chunks.embedding_model = query_model
+    AND document_chunks.embedding_dimensions = vector_dims(query_embedding)
+    AND 1 - (document_chunks.embedding <=> query_embedding) > match_threshold
+  ORDER BY document_chunks.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION search_document_chunks_fulltext(
+  query_text text,
+  match_count int DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  chunk_index integer,
+  content text,
+  page_start integer,
+  page_end integer,
+  heading_path text[],
+  char_start integer,
+  char_end integer,
+  rank float
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT to_tsquery(
+      'simple',
+      replace(websearch_to_tsquery('simple', query_text)::text, ' & ', ' | ')
+    ) AS q
+  )
+  SELECT
+    document_chunks.id,
+    document_chunks.document_id,
+    document_chunks.chunk_index,
+    document_chunks.content,
+    document_chunks.page_start,
+    document_chunks.page_end,
+    document_chunks.heading_path,
+    document_chunks.char_start,
+    document_chunks.char_end,
+    ts_rank_cd(document_chunks.content_tsv, query.q)::float AS rank
+  FROM document_chunks
+  JOIN documents ON documents.id = document_chunks.document_id, query
+  WHERE documents.deleted_at IS NULL
+    AND document_chunks.content_tsv @@ query.q
+  ORDER BY rank DESC
+  LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_document_chunks TO anon;
+GRANT EXECUTE ON FUNCTION match_document_chunks TO authenticated;
+GRANT EXECUTE ON FUNCTION search_document_chunks_fulltext TO anon;
+GRANT EXECUTE ON FUNCTION search_document_chunks_fulltext TO authenticated;
@@ -0,0 +1,186 @@
+-- Versiones de documentos: subir una versión nueva de un documento en lugar de un documento aparte
+-- Cada versión es una fila de documents con sus propios chunks; las versiones de un mismo
+-- documento comparten version_group_id. Las búsquedas solo usan la versión vigente
+-- (is_current), salvo que se pregunte expresamente por una versión anterior
+-- Ejecuta este SQL en el SQL Editor de Supabase
+-- Requiere haber ejecutado antes ADD_DOCUMENT_TRASH.sql
+
+ALTER TABLE public.documents
+ADD COLUMN IF NOT EXISTS version_group_id uuid,
+ADD COLUMN IF NOT EXISTS version_number integer NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS is_current boolean NOT NULL DEFAULT true;
+
+COMMENT ON COLUMN public.documents.version_group_id IS 'Documento lógico: igual para todas sus versiones (el id de la primera)';
+COMMENT ON COLUMN public.documents.is_current IS 'Versión que usan las búsquedas; una nueva versión pasa a vigente al terminar de procesarse';
+
+-- Los documentos existentes son la versión 1 de sí mismos
+UPDATE public.documents SET version_group_id = id WHERE version_group_id IS NULL;
+
+-- Una subida sin version_group_id empieza un documento nuevo
+CREATE OR REPLACE FUNCTION set_document_version_group()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.version_group_id := COALESCE(NEW.version_group_id, NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS documents_version_group ON public.documents;
+CREATE TRIGGER documents_version_group
+BEFORE INSERT ON public.documents
+FOR EACH ROW EXECUTE FUNCTION set_document_version_group();
+
+ALTER TABLE public.documents ALTER COLUMN version_group_id SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS documents_version_number_idx
+ON public.documents (version_group_id, version_number);
+
+-- Como mucho una versión vigente por documento
+CREATE UNIQUE INDEX IF NOT EXISTS documents_current_version_idx
+ON public.documents (version_group_id) WHERE is_current;
+
+-- Hace vigente una versión procesada si es más reciente que la vigente
+-- Devuelve false si ya había una versión vigente igual o más reciente
+CREATE OR REPLACE FUNCTION set_current_document_version(target_document uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target public.documents;
+BEGIN
+  SELECT * INTO target FROM public.documents WHERE id = target_document;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  -- Bloquea las versiones del documento para que dos versiones no se activen a la vez
+  PERFORM 1 FROM public.documents WHERE version_group_id = target.version_group_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.documents
+    WHERE version_group_id = target.version_group_id
+      AND is_current
+      AND version_number >= target.version_number
+  ) THEN
+    RETURN target.is_current;
+  END IF;
+
+  UPDATE public.documents SET is_current = false
+  WHERE version_group_id = target.version_group_id AND is_current;
+  UPDATE public.documents SET is_current = true WHERE id = target_document;
+  RETURN true;
+END;
+$$;
+
+-- Las funciones RPC buscan en las versiones vigentes, o solo en filter_document_id si se indica
+-- (preguntas sobre una versión anterior); cambia su firma, así que se recrean
+
+DROP FUNCTION IF EXISTS match_document_chunks(vector, text, float, int);
+
+CREATE OR REPLACE FUNCTION match_document_chunks(
+  query_embedding vector,
+  query_model text,
+  match_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 3,
+  filter_document_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  chunk_index integer,
+  content text,
+  page_start integer,
+  page_end integer,
+  heading_path text[],
+  char_start integer,
+  char_end integer,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    document_chunks.id,
+    document_chunks.document_id,
+    document_chunks.chunk_index,
+    document_chunks.content,
+    document_chunks.page_start,
+    document_chunks.page_end,
+    document_chunks.heading_path,
+    document_chunks.char_start,
+    document_chunks.char_end,
+    1 - (document_chunks.embedding <=> query_embedding) AS similarity
+  FROM document_chunks
+  JOIN documents ON documents.id = document_chunks.document_id
+  WHERE documents.deleted_at IS NULL
+    AND (
+      (filter_document_id IS NULL AND documents.is_current)
+      OR document_chunks.document_id = filter_document_id
+    )
+    AND document_chunks.embedding IS NOT NULL
+    AND document_chunks.embedding_model = query_model
+    AND document_chunks.embedding_dimensions = vector_dims(query_embedding)
+    AND 1 - (document_chunks.embedding <=> query_embedding) > match_threshold
+  ORDER BY document_chunks.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS search_document_chunks_fulltext(text, int);
+
+CREATE OR REPLACE FUNCTION search_document_chunks_fulltext(
+  query_text text,
+  match_count int DEFAULT 20,
+  filter_document_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  chunk_index integer,
+  content text,
+  page_start integer,
+  page_end integer,
+  heading_path text[],
+  char_start integer,
+  char_end integer,
+  rank float
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT to_tsquery(
+      'simple',
+      replace(websearch_to_tsquery('simple', query_text)::text, ' & ', ' | ')
+    ) AS q
+  )
+  SELECT
+    document_chunks.id,
+    document_chunks.document_id,
+    document_chunks.chunk_index,
+    document_chunks.content,
+    document_chunks.page_start,
+    document_chunks.page_end,
+    document_chunks.heading_path,
+    document_chunks.char_start,
+    document_chunks.char_end,
+    ts_rank_cd(document_chunks.content_tsv, query.q)::float AS rank
+  FROM document_chunks
+  JOIN documents ON documents.id = document_chunks.document_id, query
+  WHERE documents.deleted_at IS NULL
+    AND (
+      (filter_document_id IS NULL AND documents.is_current)
+      OR document_chunks.document_id = filter_document_id
+    )
+    AND document_chunks.content_tsv @@ query.q
+  ORDER BY rank DESC
+  LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_document_chunks TO anon;
+GRANT EXECUTE ON FUNCTION match_document_chunks TO authenticated;
+GRANT EXECUTE ON FUNCTION search_document_chunks_fulltext TO anon;
+GRANT EXECUTE ON FUNCTION search_document_chunks_fulltext TO authenticated;
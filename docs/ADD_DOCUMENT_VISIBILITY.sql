@@ -0,0 +1,205 @@
+-- Visibilidad de documentos: quién puede verlos en el chat, en la lista y en el visor
+--   public: todos los usuarios
+--   department: los miembros de su departamento (cualquier rol) y los department_admin globales
+--   restricted: los usuarios de restricted_to y los administradores de su departamento
+-- Quien subió un documento y los system_admin lo ven siempre
+-- Cada departamento tiene una visibilidad por defecto; un documento puede fijar la suya
+-- Las búsquedas del chat (match_document_chunks y search_document_chunks_fulltext) solo
+-- devuelven fragmentos de documentos que la persona que pregunta puede ver
+-- Ejecuta este SQL en el SQL Editor de Supabase
+-- Requiere haber ejecutado antes ADD_ROLES.sql y ADD_DOCUMENT_VERSIONS.sql
+
+ALTER TABLE public.departments
+ADD COLUMN IF NOT EXISTS default_visibility text NOT NULL DEFAULT 'public'
+CHECK (default_visibility IN ('public', 'department', 'restricted'));
+
+COMMENT ON COLUMN public.departments.default_visibility IS 'Visibilidad de los documentos del departamento que no fijan la suya';
+
+ALTER TABLE public.documents
+ADD COLUMN IF NOT EXISTS visibility text
+CHECK (visibility IS NULL OR visibility IN ('public', 'department', 'restricted')),
+ADD COLUMN IF NOT EXISTS restricted_to uuid[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN public.documents.visibility IS 'public, department o restricted; NULL usa la visibilidad por defecto del departamento';
+COMMENT ON COLUMN public.documents.restricted_to IS 'IDs de users que pueden ver el documento cuando es restricted';
+
+-- Si una persona (ID de users) puede ver un documento; NULL solo ve los documentos públicos
+-- La misma regla que canViewDocument en src/backend/lib/auth/visibility.ts
+-- SECURITY DEFINER para poder leer users, departments y department_members, que tienen RLS
+CREATE OR REPLACE FUNCTION public.can_view_document(viewer uuid, doc public.documents)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH access AS (
+    SELECT
+      COALESCE(
+        doc.visibility,
+        (SELECT d.default_visibility FROM departments d WHERE d.id = doc.department_id),
+        'public'
+      ) AS visibility,
+      COALESCE((SELECT role_rank(u.role) FROM users u WHERE u.id = viewer), 0) AS global_rank,
+      (SELECT role_rank(m.role) FROM department_members m
+       WHERE m.user_id = viewer AND m.department_id = doc.department_id) AS member_rank
+  )
+  SELECT COALESCE(
+    visibility = 'public'
+    OR doc.uploader_id = viewer
+    OR global_rank >= 4
+    OR CASE visibility
+      WHEN 'department' THEN member_rank IS NOT NULL OR global_rank >= 3
+      ELSE viewer = ANY (doc.restricted_to) OR GREATEST(global_rank, member_rank) >= 3
+    END,
+    false
+  )
+  FROM access;
+$$;
+
+-- ID en users de la sesión actual de Supabase Auth, para las políticas RLS
+CREATE OR REPLACE FUNCTION public.current_app_user_id()
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM users WHERE auth_user_id = auth.uid()::text;
+$$;
+
+-- Las funciones RPC reciben la persona que pregunta (filter_user_id); cambia su firma, así que se recrean
+-- El servidor de API las llama con la service role key y siempre indica filter_user_id.
+-- Si se llaman con la sesión de un usuario, RLS además limita documents a lo que esa sesión puede ver
+
+DROP FUNCTION IF EXISTS match_document_chunks(vector, text, float, int, uuid);
+
+CREATE OR REPLACE FUNCTION match_document_chunks(
+  query_embedding vector,
+  query_model text,
+  match_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 3,
+  filter_document_id uuid DEFAULT NULL,
+  filter_user_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  chunk_index integer,
+  content text,
+  page_start integer,
+  page_end integer,
+  heading_path text[],
+  char_start integer,
+  char_end integer,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    document_chunks.id,
+    document_chunks.document_id,
+    document_chunks.chunk_index,
+    document_chunks.content,
+    document_chunks.page_start,
+    document_chunks.page_end,
+    document_chunks.heading_path,
+    document_chunks.char_start,
+    document_chunks.char_end,
+    1 - (document_chunks.embedding <=> query_embedding) AS similarity
+  FROM document_chunks
+  JOIN documents ON documents.id = document_chunks.document_id
+  WHERE documents.deleted_at IS NULL
+    AND (
+      (filter_document_id IS NULL AND documents.is_current)
+      OR document_chunks.document_id = filter_document_id
+    )
+    AND can_view_document(filter_user_id, documents)
+    AND document_chunks.embedding IS NOT NULL
+    AND document_chunks.embedding_model = query_model
+    AND document_chunks.embedding_dimensions = vector_dims(query_embedding)
+    AND 1 - (document_chunks.embedding <=> query_embedding) > match_threshold
+  ORDER BY document_chunks.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS search_document_chunks_fulltext(text, int, uuid);
+
+CREATE OR REPLACE FUNCTION search_document_chunks_fulltext(
+  query_text text,
+  match_count int DEFAULT 20,
+  filter_document_id uuid DEFAULT NULL,
+  filter_user_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  chunk_index integer,
+  content text,
+  page_start integer,
+  page_end integer,
+  heading_path text[],
+  char_start integer,
+  char_end integer,
+  rank float
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT to_tsquery(
+      'simple',
+      replace(websearch_to_tsquery('simple', query_text)::text, ' & ', ' | ')
+    ) AS q
+  )
+  SELECT
+    document_chunks.id,
+    document_chunks.document_id,
+    document_chunks.chunk_index,
+    document_chunks.content,
+    document_chunks.page_start,
+    document_chunks.page_end,
+    document_chunks.heading_path,
+    document_chunks.char_start,
+    document_chunks.char_end,
+    ts_rank_cd(document_chunks.content_tsv, query.q)::float AS rank
+  FROM document_chunks
+  JOIN documents ON documents.id = document_chunks.document_id, query
+  WHERE documents.deleted_at IS NULL
+    AND (
+      (filter_document_id IS NULL AND documents.is_current)
+      OR document_chunks.document_id = filter_document_id
+    )
+    AND can_view_document(filter_user_id, documents)
+    AND document_chunks.content_tsv @@ query.q
+  ORDER BY rank DESC
+  LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_document_chunks TO anon;
+GRANT EXECUTE ON FUNCTION match_document_chunks TO authenticated;
+GRANT EXECUTE ON FUNCTION search_document_chunks_fulltext TO anon;
+GRANT EXECUTE ON FUNCTION search_document_chunks_fulltext TO authenticated;
+
+-- Políticas RLS: las de ADD_ROLES.sql, además limitadas por la visibilidad
+
+DROP POLICY IF EXISTS "Viewers read documents" ON public.documents;
+CREATE POLICY "Viewers read documents"
+ON public.documents FOR SELECT TO authenticated
+USING (
+  current_user_role_rank(department_id) >= 1
+  AND can_view_document(current_app_user_id(), documents)
+);
+
+DROP POLICY IF EXISTS "Viewers read document chunks" ON public.document_chunks;
+CREATE POLICY "Viewers read document chunks"
+ON public.document_chunks FOR SELECT TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.documents d
+  WHERE d.id = document_chunks.document_id
+    AND current_user_role_rank(d.department_id) >= 1
+    AND can_view_document(current_app_user_id(), d)
+));
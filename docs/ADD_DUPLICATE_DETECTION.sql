@@ -0,0 +1,23 @@
+-- Detección de documentos duplicados al subir
+-- Iguales: mismo hash del archivo (file_hash, se guarda al subir)
+-- Casi iguales: firma MinHash del texto (minhash, se calcula al procesar)
+-- Ejecuta este SQL en el SQL Editor de Supabase
+-- Requiere haber ejecutado antes ADD_CONTENT_HASHES.sql
+
+ALTER TABLE public.documents
+ADD COLUMN IF NOT EXISTS file_hash text,
+ADD COLUMN IF NOT EXISTS minhash integer[];
+
+COMMENT ON COLUMN public.documents.file_hash IS 'SHA-256 del archivo subido';
+COMMENT ON COLUMN public.documents.minhash IS 'Firma MinHash (128 valores) de las secuencias de 3 palabras del texto';
+
+-- Los documentos ya procesados tienen el hash de su archivo en content_hash
+UPDATE public.documents SET file_hash = content_hash
+WHERE file_hash IS NULL AND content_hash IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS documents_file_hash_idx
+ON public.documents (file_hash);
+
+-- Comentario: los documentos procesados antes de esta migración no tienen firma hasta
+-- que se reprocesan (POST /api/documents/:id/process); hasta entonces solo se detectan
+-- como iguales, no como casi iguales
@@ -0,0 +1,181 @@
+-- Versiones del índice de embeddings: cambiar de modelo sin borrar document_chunks
+-- Una migración genera los vectores del modelo nuevo en segundo plano mientras las
+-- consultas siguen usando el índice activo; al terminar se cambia de índice en una
+-- sola transacción y los vectores anteriores se conservan para poder volver atrás
+-- Ejecuta este SQL en el SQL Editor de Supabase
+-- Requiere haber ejecutado antes ADD_EMBEDDING_MODEL.sql
+
+CREATE TABLE IF NOT EXISTS public.embedding_indexes (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  version serial NOT NULL UNIQUE,
+  provider text NOT NULL,
+  model text NOT NULL,
+  dimensions integer,
+  status text NOT NULL DEFAULT 'building'
+    CHECK (status IN ('building', 'active', 'retired', 'failed', 'cancelled')),
+  previous_index_id uuid, -- Índice al que vuelve un rollback
+  chunks_total integer,
+  chunks_done integer NOT NULL DEFAULT 0,
+  last_error text,
+  lease_expires_at timestamp with time zone, -- Evita que dos procesos migren a la vez
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  activated_at timestamp with time zone,
+  CONSTRAINT embedding_indexes_pkey PRIMARY KEY (id),
+  CONSTRAINT fk_previous_index FOREIGN KEY (previous_index_id) REFERENCES public.embedding_indexes(id)
+);
+
+-- Como mucho un índice activo y una migración en curso
+CREATE UNIQUE INDEX IF NOT EXISTS embedding_indexes_active_idx
+ON public.embedding_indexes ((true)) WHERE status = 'active';
+CREATE UNIQUE INDEX IF NOT EXISTS embedding_indexes_building_idx
+ON public.embedding_indexes ((true)) WHERE status = 'building';
+
+-- Vectores del índice en construcción y del índice anterior (para el rollback)
+ALTER TABLE public.document_chunks
+ADD COLUMN IF NOT EXISTS pending_embedding vector,
+ADD COLUMN IF NOT EXISTS pending_index_id uuid,
+ADD COLUMN IF NOT EXISTS previous_embedding vector,
+ADD COLUMN IF NOT EXISTS previous_index_id uuid;
+
+CREATE INDEX IF NOT EXISTS document_chunks_pending_index_idx
+ON public.document_chunks (pending_index_id);
+
+COMMENT ON COLUMN public.document_chunks.pending_embedding IS 'Vector del índice en construcción (pending_index_id); no se usa en las búsquedas';
+COMMENT ON COLUMN public.document_chunks.previous_embedding IS 'Vector del índice anterior (previous_index_id), conservado para el rollback';
+
+-- Rechaza los chunks nuevos con el vector de un modelo que no es el del índice activo
+-- Un proceso que procesó un documento con el modelo anterior, o cuya inserción esperó
+-- al bloqueo de activate_embedding_index, falla con 'embedding_model_not_active' y
+-- su trabajo se reintenta con el modelo nuevo. Sin índice activo se acepta cualquier modelo
+CREATE OR REPLACE FUNCTION check_chunk_embedding_model()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  active_model text;
+BEGIN
+  SELECT model INTO active_model FROM public.embedding_indexes WHERE status = 'active';
+  IF NEW.embedding IS NOT NULL AND active_model IS NOT NULL
+     AND NEW.embedding_model IS DISTINCT FROM active_model THEN
+    RAISE EXCEPTION 'embedding_model_not_active';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_chunk_embedding_model ON public.document_chunks;
+CREATE TRIGGER check_chunk_embedding_model
+BEFORE INSERT ON public.document_chunks
+FOR EACH ROW EXECUTE FUNCTION check_chunk_embedding_model();
+
+-- Guarda los vectores de un lote de chunks para el índice en construcción
+-- items: [{"id": "<chunk>", "embedding": "[0.1,0.2,...]"}, ...]
+CREATE OR REPLACE FUNCTION save_pending_embeddings(target_index uuid, items jsonb)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  saved integer;
+BEGIN
+  UPDATE document_chunks
+  SET pending_embedding = (item->>'embedding')::vector,
+      pending_index_id = target_index
+  FROM jsonb_array_elements(items) AS item
+  WHERE document_chunks.id = (item->>'id')::uuid;
+
+  GET DIAGNOSTICS saved = ROW_COUNT;
+  RETURN saved;
+END;
+$$;
+
+-- Cambia al índice en construcción en una sola transacción
+-- Falla con 'chunks_missing' si algún chunk no tiene todavía su vector nuevo
+-- (por ejemplo, un documento procesado durante la migración); el worker lo completa y reintenta
+CREATE OR REPLACE FUNCTION activate_embedding_index(target_index uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  target public.embedding_indexes;
+  current_id uuid;
+BEGIN
+  -- Bloquea las escrituras de chunks nuevos mientras se cambia de índice
+  LOCK TABLE public.document_chunks IN SHARE ROW EXCLUSIVE MODE;
+
+  SELECT * INTO target FROM public.embedding_indexes WHERE id = target_index FOR UPDATE;
+  IF NOT FOUND OR target.status <> 'building' THEN
+    RAISE EXCEPTION 'index_not_building';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.document_chunks
+    WHERE pending_index_id IS DISTINCT FROM target_index
+  ) THEN
+    RAISE EXCEPTION 'chunks_missing';
+  END IF;
+
+  SELECT id INTO current_id FROM public.embedding_indexes WHERE status = 'active' FOR UPDATE;
+
+  UPDATE public.document_chunks
+  SET previous_embedding = embedding,
+      previous_index_id = current_id,
+      embedding = pending_embedding,
+      embedding_model = target.model,
+      embedding_dimensions = vector_dims(pending_embedding),
+      pending_embedding = NULL,
+      pending_index_id = NULL;
+
+  UPDATE public.embedding_indexes SET status = 'retired', updated_at = now() WHERE id = current_id;
+  UPDATE public.embedding_indexes
+  SET status = 'active', previous_index_id = current_id, activated_at = now(), updated_at = now(),
+      lease_expires_at = NULL, last_error = NULL
+  WHERE id = target_index;
+END;
+$$;
+
+-- Vuelve al índice anterior en una sola transacción, intercambiando los vectores
+-- Devuelve cuántos chunks no tenían vector anterior (creados después del cambio);
+-- esos documentos hay que volver a procesarlos
+CREATE OR REPLACE FUNCTION rollback_embedding_index()
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  current_index public.embedding_indexes;
+  previous_index public.embedding_indexes;
+  missing integer;
+BEGIN
+  LOCK TABLE public.document_chunks IN SHARE ROW EXCLUSIVE MODE;
+
+  SELECT * INTO current_index FROM public.embedding_indexes WHERE status = 'active' FOR UPDATE;
+  IF NOT FOUND OR current_index.previous_index_id IS NULL THEN
+    RAISE EXCEPTION 'no_previous_index';
+  END IF;
+  IF EXISTS (SELECT 1 FROM public.embedding_indexes WHERE status = 'building') THEN
+    RAISE EXCEPTION 'migration_in_progress';
+  END IF;
+
+  SELECT * INTO previous_index FROM public.embedding_indexes WHERE id = current_index.previous_index_id FOR UPDATE;
+
+  UPDATE public.document_chunks
+  SET embedding = previous_embedding,
+      previous_embedding = embedding,
+      embedding_model = previous_index.model,
+      embedding_dimensions = vector_dims(previous_embedding),
+      previous_index_id = current_index.id
+  WHERE previous_index_id = previous_index.id AND previous_embedding IS NOT NULL;
+
+  SELECT count(*) INTO missing FROM public.document_chunks WHERE embedding_model = current_index.model;
+
+  UPDATE public.embedding_indexes SET status = 'retired', updated_at = now() WHERE id = current_index.id;
+  UPDATE public.embedding_indexes
+  SET status = 'active', previous_index_id = current_index.id, activated_at = now(), updated_at = now()
+  WHERE id = previous_index.id;
+
+  RETURN missing;
+END;
+$$;
+
+-- Comentario: los índices hnsw de ADD_EMBEDDING_MODEL.sql son por modelo; crea el del
+-- modelo nuevo antes de activarlo, igual que document_chunks_embedding_3_small_idx
@@ -0,0 +1,79 @@
+-- Modelo de embeddings por chunk: OpenAI, un servidor compatible (Ollama, LM Studio, vLLM)
+-- o un modelo local en el servidor de API (ver EMBEDDING_PROVIDER en ENV_SETUP.md)
+-- Ejecuta este SQL en el SQL Editor de Supabase
+-- Requiere haber ejecutado antes ADD_CHUNK_METADATA.sql
+
+ALTER TABLE public.document_chunks
+ADD COLUMN IF NOT EXISTS embedding_model text,
+ADD COLUMN IF NOT EXISTS embedding_dimensions integer;
+
+-- Los chunks existentes se generaron con text-embedding-3-small (1536 dimensiones)
+UPDATE public.document_chunks
+SET embedding_model = 'text-embedding-3-small', embedding_dimensions = 1536
+WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+-- La columna deja de tener una dimensión fija para admitir otros modelos (384, 768...)
+-- El índice ivfflat de SUPABASE_SETUP.md exige una dimensión fija, así que se borra antes
+DROP INDEX IF EXISTS public.document_chunks_embedding_idx;
+ALTER TABLE public.document_chunks ALTER COLUMN embedding TYPE vector;
+
+-- Índice por modelo, sobre la columna convertida a la dimensión de ese modelo
+-- Crea uno igual para cada modelo que uses, por ejemplo para un modelo local de 384:
+--   CREATE INDEX ON public.document_chunks USING hnsw ((embedding::vector(384)) vector_cosine_ops)
+--   WHERE embedding_model = 'Xenova/paraphrase-multilingual-MiniLM-L12-v2';
+CREATE INDEX IF NOT EXISTS document_chunks_embedding_3_small_idx
+ON public.document_chunks
+USING hnsw ((embedding::vector(1536)) vector_cosine_ops)
+WHERE embedding_model = 'text-embedding-3-small';
+
+-- Comentario: la búsqueda solo compara vectores del mismo modelo y dimensión que la
+-- pregunta; los chunks de otro modelo se ignoran hasta volver a procesar el documento
+
+-- La función RPC recibe el modelo de la pregunta, así que hay que recrearla
+DROP FUNCTION IF EXISTS match_document_chunks(vector, float, int);
+
+CREATE OR REPLACE FUNCTION match_document_chunks(
+  query_embedding vector,
+  query_model text,
+  match_threshold float DEFAULT 0.7,
+  match_count int DEFAULT 3
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  chunk_index integer,
+  content text,
+  page_start integer,
+  page_end integer,
+  heading_path text[],
+  char_start integer,
+  char_end integer,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    document_chunks.id,
+    document_chunks.document_id,
+    document_chunks.chunk_index,
+    document_chunks.content,
+    document_chunks.page_start,
+    document_chunks.page_end,
+    document_chunks.heading_path,
+    document_chunks.char_start,
+    document_chunks.char_end,
+    1 - (document_chunks.embedding <=> query_embedding) AS similarity
+  FROM document_chunks
+  WHERE document_chunks.embedding IS NOT NULL
+    AND document_chunks.embedding_model = query_model
+    AND document_chunks.embedding_dimensions = vector_dims(query_embedding)
+    AND 1 - (document_chunks.embedding <=> query_embedding) > match_threshold
+  ORDER BY document_chunks.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION match_document_chunks TO anon;
+GRANT EXECUTE ON FUNCTION match_document_chunks TO authenticated;
@@ -0,0 +1,49 @@
+-- Búsqueda por palabras clave (full-text) para la búsqueda híbrida
+-- Ejecuta este SQL en el SQL Editor de Supabase
+
+-- Columna tsvector generada a partir del contenido de cada chunk
+-- Se usa la configuración 'simple' para no depender del idioma del documento
+ALTER TABLE public.document_chunks
+ADD COLUMN IF NOT EXISTS content_tsv tsvector
+GENERATED ALWAYS AS (to_tsvector('simple', content)) STORED;
+
+CREATE INDEX IF NOT EXISTS document_chunks_content_tsv_idx
+ON public.document_chunks USING gin (content_tsv);
+
+-- Función RPC para buscar chunks por palabras clave
+-- websearch_to_tsquery acepta texto libre; se combinan los términos con OR
+-- para que una pregunta completa encuentre chunks con términos exactos (códigos, siglas)
+CREATE OR REPLACE FUNCTION search_document_chunks_fulltext(
+  query_text text,
+  match_count int DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  document_id uuid,
+  chunk_index integer,
+  content text,
+  rank float
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH query AS (
+    SELECT to_tsquery(
+      'simple',
+      replace(websearch_to_tsquery('simple', query_text)::text, ' & ', ' | ')
+    ) AS q
+  )
+  SELECT
+    document_chunks.id,
+    document_chunks.document_id,
+    document_chunks.chunk_index,
+    document_chunks.content,
+    ts_rank_cd(document_chunks.content_tsv, query.q)::float AS rank
+  FROM document_chunks, query
+  WHERE document_chunks.content_tsv @@ query.q
+  ORDER BY rank DESC
+  LIMIT match_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION search_document_chunks_fulltext TO anon;
+GRANT EXECUTE ON FUNCTION search_document_chunks_fulltext TO authenticated;
@@ -0,0 +1,37 @@
+-- Cola de trabajos de ingesta: extracción, chunking y embeddings en segundo plano
+-- Ejecuta este SQL en el SQL Editor de Supabase
+-- Requiere haber ejecutado antes ADD_CHUNK_METADATA.sql
+
+CREATE TABLE IF NOT EXISTS public.ingestion_jobs (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  document_id uuid NOT NULL,
+  status text NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'failed', 'succeeded')),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  run_after timestamp with time zone NOT NULL DEFAULT now(),
+  last_error text,
+  chunks_total integer,
+  chunks_done integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT ingestion_jobs_pkey PRIMARY KEY (id),
+  CONSTRAINT fk_ingestion_document FOREIGN KEY (document_id)
+    REFERENCES public.documents(id) ON DELETE CASCADE
+);
+
+-- El worker busca los trabajos pendientes cuyo reintento ya venció
+CREATE INDEX IF NOT EXISTS ingestion_jobs_pending_idx
+ON public.ingestion_jobs (status, run_after);
+
+-- Un solo trabajo activo (en cola o en ejecución) por documento
+CREATE UNIQUE INDEX IF NOT EXISTS ingestion_jobs_active_document_idx
+ON public.ingestion_jobs (document_id)
+WHERE status IN ('queued', 'running');
+
+-- Comentario: attempts cuenta las ejecuciones empezadas; tras un fallo el trabajo vuelve
+-- a 'queued' con run_after = ahora + espera exponencial, hasta llegar a max_attempts ('failed')
+-- updated_at sirve de latido: un trabajo 'running' que deja de actualizarse (servidor caído)
+-- se vuelve a poner en cola
+-- Los chunks ya guardados en document_chunks son el checkpoint: al reintentar solo se
+-- generan los embeddings de los chunk_index que faltan
@@ -0,0 +1,30 @@
+-- Recuento de la cola de ingesta en la base de datos: el panel de la página de subida
+-- consulta cuántos trabajos hay en cada estado sin descargar toda la tabla ingestion_jobs
+-- Ejecuta este SQL en el SQL Editor de Supabase
+-- Requiere haber ejecutado antes ADD_JOB_CANCELLATION.sql y ADD_DOCUMENT_VISIBILITY.sql
+
+-- Los trabajos más recientes primero, para la lista del panel
+CREATE INDEX IF NOT EXISTS ingestion_jobs_created_at_idx
+ON public.ingestion_jobs (created_at DESC);
+
+-- Trabajos por estado que una persona (ID de users) puede seguir: los de documentos
+-- que puede ver en departamentos donde es editora (o tiene un rol global de editora o superior)
+-- La misma regla que getIngestionQueueStatus en src/backend/lib/api/ingestionJobs.ts
+CREATE OR REPLACE FUNCTION public.count_ingestion_jobs(viewer uuid)
+RETURNS TABLE (status text, jobs bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT j.status, count(*)
+  FROM ingestion_jobs j
+  JOIN documents d ON d.id = j.document_id
+  WHERE GREATEST(
+      COALESCE((SELECT role_rank(u.role) FROM users u WHERE u.id = viewer), 0),
+      COALESCE((SELECT role_rank(m.role) FROM department_members m
+                WHERE m.user_id = viewer AND m.department_id = d.department_id), 0)
+    ) >= role_rank('editor')
+    AND can_view_document(viewer, d)
+  GROUP BY j.status;
+$$;
@@ -0,0 +1,12 @@
+-- Trabajos de ingesta cancelados: mover un documento a la papelera cancela sus trabajos
+-- en cola o en ejecución, y el worker no procesa documentos que están en la papelera
+-- Al restaurar el documento se pone en cola un trabajo nuevo si seguía sin procesar
+-- Ejecuta este SQL en el SQL Editor de Supabase
+-- Requiere haber ejecutado antes ADD_DOCUMENT_TRASH.sql
+
+ALTER TABLE public.ingestion_jobs
+DROP CONSTRAINT IF EXISTS ingestion_jobs_status_check;
+
+ALTER TABLE public.ingestion_jobs
+ADD CONSTRAINT ingestion_jobs_status_check
+CHECK (status IN ('queued', 'running', 'failed', 'succeeded', 'cancelled'));
@@ -0,0 +1,26 @@
+-- Búsqueda indexada de documentos casi iguales al subir
+-- La firma MinHash se parte en bandas LSH de 4 valores; dos documentos se comparan solo si
+-- comparten alguna banda, así no hay que leer y comparar la firma de todos los documentos
+-- Ejecuta este SQL en el SQL Editor de Supabase
+-- Requiere haber ejecutado antes ADD_DUPLICATE_DETECTION.sql
+
+-- Claves de las bandas de una firma: "posición:valores", por ejemplo '3:12.-5.77.8'
+-- Las mismas claves que minhashBands en src/backend/lib/ingestion/minhash.ts
+CREATE OR REPLACE FUNCTION public.minhash_bands(signature integer[])
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT array_agg(band || ':' || array_to_string(signature[band * 4 + 1 : band * 4 + 4], '.') ORDER BY band)
+  FROM generate_series(0, cardinality(signature) / 4 - 1) AS band;
+$$;
+
+-- Columna calculada: se rellena sola para los documentos ya procesados y al guardar minhash
+ALTER TABLE public.documents
+ADD COLUMN IF NOT EXISTS minhash_bands text[]
+GENERATED ALWAYS AS (public.minhash_bands(minhash)) STORED;
+
+COMMENT ON COLUMN public.documents.minhash_bands IS 'Bandas LSH de la firma MinHash, para buscar documentos parecidos con el índice';
+
+CREATE INDEX IF NOT EXISTS documents_minhash_bands_idx
+ON public.documents USING gin (minhash_bands);
@@ -0,0 +1,10 @@
+-- Confianza del OCR por chunk (PDFs escaneados e imágenes)
+-- Ejecuta este SQL en el SQL Editor de Supabase
+-- Requiere haber ejecutado antes ADD_CHUNK_METADATA.sql
+
+ALTER TABLE public.document_chunks
+ADD COLUMN IF NOT EXISTS ocr_confidence real;
+
+-- Comentario: ocr_confidence es la confianza media de Tesseract (0-100) de la página
+-- reconocida por OCR; si el chunk abarca varias páginas se guarda la más baja
+-- Es NULL cuando el texto viene de la capa de texto del archivo (no hubo OCR)
@@ -0,0 +1,148 @@
+-- Roles y permisos
+-- Rol global en users.role (vale en todos los departamentos) y rol por departamento en
+-- department_members; el rol efectivo en un departamento es el mayor de los dos
+--   viewer: consulta documentos y pregunta en el chat
+--   editor: además sube documentos y versiones nuevas
+--   department_admin: además borra, restaura y reprocesa documentos y gestiona los miembros
+--   system_admin: además gestiona departamentos, roles de usuarios e índices de embeddings
+-- Ejecuta este SQL en el SQL Editor de Supabase
+-- Requiere haber ejecutado antes ADD_AUTH_USERS.sql
+
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'viewer'
+CHECK (role IN ('viewer', 'editor', 'department_admin', 'system_admin'));
+
+COMMENT ON COLUMN public.users.role IS 'Rol global: viewer, editor, department_admin o system_admin';
+
+CREATE TABLE IF NOT EXISTS public.department_members (
+  department_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  role text NOT NULL CHECK (role IN ('viewer', 'editor', 'department_admin')),
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT department_members_pkey PRIMARY KEY (department_id, user_id),
+  CONSTRAINT fk_member_department FOREIGN KEY (department_id) REFERENCES public.departments(id) ON DELETE CASCADE,
+  CONSTRAINT fk_member_user FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS department_members_user_id_idx
+ON public.department_members (user_id);
+
+-- Orden de los roles: cada uno incluye los permisos de los anteriores
+CREATE OR REPLACE FUNCTION public.role_rank(role text)
+RETURNS integer
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE role
+    WHEN 'viewer' THEN 1
+    WHEN 'editor' THEN 2
+    WHEN 'department_admin' THEN 3
+    WHEN 'system_admin' THEN 4
+    ELSE 0
+  END;
+$$;
+
+-- Rol efectivo de la sesión actual de Supabase Auth en un departamento (NULL: solo el rol global)
+-- SECURITY DEFINER para poder leer users y department_members, que también tienen RLS
+CREATE OR REPLACE FUNCTION public.current_user_role_rank(department uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT GREATEST(
+    COALESCE((
+      SELECT role_rank(u.role) FROM users u
+      WHERE u.auth_user_id = auth.uid()::text
+    ), 0),
+    COALESCE((
+      SELECT role_rank(m.role) FROM department_members m
+      JOIN users u ON u.id = m.user_id
+      WHERE u.auth_user_id = auth.uid()::text AND m.department_id = department
+    ), 0)
+  );
+$$;
+
+-- Políticas RLS
+-- El servidor de API usa la service role key, que no pasa por RLS, y comprueba los mismos
+-- permisos en cada ruta. Estas políticas protegen los datos si alguien consulta Supabase
+-- directamente con la anon key y su sesión
+
+ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.departments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.department_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.documents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.document_chunks ENABLE ROW LEVEL SECURITY;
+-- Sin políticas: solo el servidor de API accede a la cola y a los índices
+ALTER TABLE public.ingestion_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.embedding_indexes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users read own row or all as admin" ON public.users;
+CREATE POLICY "Users read own row or all as admin"
+ON public.users FOR SELECT TO authenticated
+USING (auth_user_id = auth.uid()::text OR current_user_role_rank(NULL) >= 3);
+
+DROP POLICY IF EXISTS "System admins manage users" ON public.users;
+CREATE POLICY "System admins manage users"
+ON public.users FOR UPDATE TO authenticated
+USING (current_user_role_rank(NULL) >= 4)
+WITH CHECK (current_user_role_rank(NULL) >= 4);
+
+DROP POLICY IF EXISTS "Signed-in users read departments" ON public.departments;
+CREATE POLICY "Signed-in users read departments"
+ON public.departments FOR SELECT TO authenticated
+USING (true);
+
+DROP POLICY IF EXISTS "System admins manage departments" ON public.departments;
+CREATE POLICY "System admins manage departments"
+ON public.departments FOR ALL TO authenticated
+USING (current_user_role_rank(NULL) >= 4)
+WITH CHECK (current_user_role_rank(NULL) >= 4);
+
+DROP POLICY IF EXISTS "Members read own memberships" ON public.department_members;
+CREATE POLICY "Members read own memberships"
+ON public.department_members FOR SELECT TO authenticated
+USING (
+  user_id IN (SELECT id FROM public.users WHERE auth_user_id = auth.uid()::text)
+  OR current_user_role_rank(department_id) >= 3
+);
+
+DROP POLICY IF EXISTS "Department admins manage members" ON public.department_members;
+CREATE POLICY "Department admins manage members"
+ON public.department_members FOR ALL TO authenticated
+USING (current_user_role_rank(department_id) >= 3)
+WITH CHECK (current_user_role_rank(department_id) >= 3);
+
+DROP POLICY IF EXISTS "Viewers read documents" ON public.documents;
+CREATE POLICY "Viewers read documents"
+ON public.documents FOR SELECT TO authenticated
+USING (current_user_role_rank(department_id) >= 1);
+
+DROP POLICY IF EXISTS "Editors upload documents" ON public.documents;
+CREATE POLICY "Editors upload documents"
+ON public.documents FOR INSERT TO authenticated
+WITH CHECK (current_user_role_rank(department_id) >= 2);
+
+DROP POLICY IF EXISTS "Department admins update documents" ON public.documents;
+CREATE POLICY "Department admins update documents"
+ON public.documents FOR UPDATE TO authenticated
+USING (current_user_role_rank(department_id) >= 3)
+WITH CHECK (current_user_role_rank(department_id) >= 3);
+
+DROP POLICY IF EXISTS "Department admins delete documents" ON public.documents;
+CREATE POLICY "Department admins delete documents"
+ON public.documents FOR DELETE TO authenticated
+USING (current_user_role_rank(department_id) >= 3);
+
+DROP POLICY IF EXISTS "Viewers read document chunks" ON public.document_chunks;
+CREATE POLICY "Viewers read document chunks"
+ON public.document_chunks FOR SELECT TO authenticated
+USING (EXISTS (
+  SELECT 1 FROM public.documents d
+  WHERE d.id = document_chunks.document_id AND current_user_role_rank(d.department_id) >= 1
+));
+
+-- Comentario: todos los usuarios empiezan como viewer. Para dar acceso al primer administrador
+-- agrega su correo a SYSTEM_ADMIN_EMAILS en el servidor de API, o ejecuta:
+-- UPDATE public.users SET role = 'system_admin' WHERE email = 'admin@empresa.com';
@@ -3,9 +3,24 @@
 
 CREATE TABLE public.departments (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
-  name text NOT NULL UNIQUE,
+  name text NOT NULL,
   created_at timestamp with time zone DEFAULT now(),
-  CONSTRAINT departments_pkey PRIMARY KEY (id)
+  llm_model text,
+  llm_temperature real CHECK (llm_temperature IS NULL OR llm_temperature >= 0::double precision AND llm_temperature <= 2::double precision),
+  llm_max_tokens integer CHECK (llm_max_tokens IS NULL OR llm_max_tokens > 0),
+  default_visibility text NOT NULL DEFAULT 'public'::text CHECK (default_visibility = ANY (ARRAY['public'::text, 'department'::text, 'restricted'::text])),
+  parent_id uuid,
+  CONSTRAINT departments_pkey PRIMARY KEY (id),
+  CONSTRAINT departments_parent_id_fkey FOREIGN KEY (parent_id) REFERENCES public.departments(id)
+);
+CREATE TABLE public.department_members (
+  department_id uuid NOT NULL,
+  user_id uuid NOT NULL,
+  role text NOT NULL CHECK (role = ANY (ARRAY['viewer'::text, 'editor'::text, 'department_admin'::text])),
+  created_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT department_members_pkey PRIMARY KEY (department_id, user_id),
+  CONSTRAINT fk_member_department FOREIGN KEY (department_id) REFERENCES public.departments(id),
+  CONSTRAINT fk_member_user FOREIGN KEY (user_id) REFERENCES public.users(id)
 );
 CREATE TABLE public.document_chunks (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
@@ -13,6 +28,20 @@ CREATE TABLE public.document_chunks (
   chunk_index integer NOT NULL,
   content text NOT NULL,
   embedding USER-DEFINED,
+  embedding_model text,
+  embedding_dimensions integer,
+  content_tsv tsvector DEFAULT to_tsvector('simple'::regconfig, content),
+  page_start integer,
+  page_end integer,
+  heading_path ARRAY NOT NULL DEFAULT '{}'::text[],
+  char_start integer,
+  char_end integer,
+  ocr_confidence real,
+  pending_embedding USER-DEFINED,
+  pending_index_id uuid,
+  previous_embedding USER-DEFINED,
+  previous_index_id uuid,
+  content_hash text,
   created_at timestamp with time zone DEFAULT now(),
   CONSTRAINT document_chunks_pkey PRIMARY KEY (id),
   CONSTRAINT fk_document FOREIGN KEY (document_id) REFERENCES public.documents(id)
@@ -24,14 +53,61 @@ CREATE TABLE public.documents (
   uploader_id uuid NOT NULL,
   status text NOT NULL DEFAULT 'processing'::text,
   uploaded_at timestamp with time zone DEFAULT now(),
+  deleted_at timestamp with time zone,
+  version_group_id uuid NOT NULL,
+  version_number integer NOT NULL DEFAULT 1,
+  is_current boolean NOT NULL DEFAULT true,
+  content_hash text,
+  file_hash text,
+  minhash ARRAY,
+  visibility text CHECK (visibility IS NULL OR (visibility = ANY (ARRAY['public'::text, 'department'::text, 'restricted'::text]))),
+  restricted_to ARRAY NOT NULL DEFAULT '{}'::uuid[],
   CONSTRAINT documents_pkey PRIMARY KEY (id),
   CONSTRAINT fk_department FOREIGN KEY (department_id) REFERENCES public.departments(id),
   CONSTRAINT fk_uploader FOREIGN KEY (uploader_id) REFERENCES public.users(id)
 );
+CREATE TABLE public.embedding_indexes (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  version integer NOT NULL DEFAULT nextval('embedding_indexes_version_seq'::regclass) UNIQUE,
+  provider text NOT NULL,
+  model text NOT NULL,
+  dimensions integer,
+  status text NOT NULL DEFAULT 'building'::text CHECK (status = ANY (ARRAY['building'::text, 'active'::text, 'retired'::text, 'failed'::text, 'cancelled'::text])),
+  previous_index_id uuid,
+  chunks_total integer,
+  chunks_done integer NOT NULL DEFAULT 0,
+  last_error text,
+  lease_expires_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  activated_at timestamp with time zone,
+  CONSTRAINT embedding_indexes_pkey PRIMARY KEY (id),
+  CONSTRAINT fk_previous_index FOREIGN KEY (previous_index_id) REFERENCES public.embedding_indexes(id)
+);
+CREATE TABLE public.ingestion_jobs (
+  id uuid NOT NULL DEFAULT gen_random_uuid(),
+  document_id uuid NOT NULL,
+  status text NOT NULL DEFAULT 'queued'::text CHECK (status = ANY (ARRAY['queued'::text, 'running'::text, 'failed'::text, 'succeeded'::text])),
+  attempts integer NOT NULL DEFAULT 0,
+  max_attempts integer NOT NULL DEFAULT 5,
+  run_after timestamp with time zone NOT NULL DEFAULT now(),
+  last_error text,
+  chunks_total integer,
+  chunks_done integer NOT NULL DEFAULT 0,
+  chunks_added integer,
+  chunks_kept integer,
+  chunks_removed integer,
+  created_at timestamp with time zone DEFAULT now(),
+  updated_at timestamp with time zone DEFAULT now(),
+  CONSTRAINT ingestion_jobs_pkey PRIMARY KEY (id),
+  CONSTRAINT fk_ingestion_document FOREIGN KEY (document_id) REFERENCES public.documents(id)
+);
 CREATE TABLE public.users (
   id uuid NOT NULL DEFAULT gen_random_uuid(),
   name text NOT NULL,
   email text NOT NULL UNIQUE,
   created_at timestamp with time zone DEFAULT now(),
+  auth_user_id text UNIQUE,
+  role text NOT NULL DEFAULT 'viewer'::text CHECK (role = ANY (ARRAY['viewer'::text, 'editor'::text, 'department_admin'::text, 'system_admin'::text])),
   CONSTRAINT users_pkey PRIMARY KEY (id)
 );
\ No newline at end of file
@@ -0,0 +1,118 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setSupabaseHandlers, type FakeQuery } from '../../test/fakeSupabase';
+import { chunkRow } from '../../test/chunkRow';
+import { fakeLLMProvider, type CompletionRequest } from '../llm/providers';
+import { queryChat, streamQueryChat, type ChatStreamEvent } from './chat';
+import type { Viewer } from '../auth/visibility';
+
+vi.mock('../supabase', () => import('../../test/fakeSupabase'));
+
+vi.mock('./embeddingIndexes', () => ({
+  getActiveEmbeddingProvider: async () => ({
+    model: 'test-model',
+    embed: async (texts: string[]) => texts.map(() => [1, 0]),
+  }),
+}));
+
+const SECRET = 'El salario del director es confidencial';
+
+const rows = [
+  chunkRow('handbook', {
+    content: 'Las vacaciones y el salario se pagan el día 30 de cada mes',
+    document: { department_id: 'dept-hr', uploader_id: 'hr-admin' },
+  }),
+  chunkRow('payroll', {
+    content: `${SECRET}: el salario y las vacaciones del director`,
+    document: { department_id: 'dept-hr', uploader_id: 'hr-admin', visibility: 'restricted' },
+  }),
+];
+
+// A viewer with no department: sees public documents only
+const viewer: Viewer = { userId: 'employee', permissions: { role: 'viewer', departments: {} } };
+
+/**
+ * Answers the queries prepareChat makes, with the search RPC functions missing so the
+ * client-side fallback (and its visibility filter) is used
+ */
+function answerQuery(query: FakeQuery, chunks = rows) {
+  if (query.options?.head) {
+    return { count: chunks.length };
+  }
+  if (query.table === 'documents' && query.columns.includes('restricted_to')) {
+    return { data: chunks.map(chunk => ({ id: chunk.document_id, ...chunk.documents })) };
+  }
+  if (query.table === 'document_chunks' && query.columns.includes('documents!inner')) {
+    return { data: chunks };
+  }
+  if (query.table === 'documents') {
+    const id = query.calls.find(call => call.method === 'eq' && call.args[0] === 'id')?.args[1];
+    return { data: { file_name: `${String(id).replace('doc-', '')}.pdf`, is_current: true, departments: { name: 'RRHH' } } };
+  }
+  return { data: [] };
+}
+
+describe('queryChat', () => {
+  beforeEach(() => {
+    setSupabaseHandlers({ query: answerQuery });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('never puts chunks of documents the viewer cannot see in the context', async () => {
+    const complete = vi.spyOn(fakeLLMProvider, 'complete');
+
+    const response = await queryChat('¿Cuándo se paga el salario y las vacaciones?', [], { viewer });
+
+    const request = complete.mock.calls[0][0] as CompletionRequest;
+    const prompt = request.messages.map(message => message.content).join('\n');
+    expect(prompt).toContain('Las vacaciones y el salario se pagan el día 30');
+    expect(prompt).not.toContain(SECRET);
+    expect(response.sources.map(source => source.document_id)).toEqual(['doc-handbook']);
+  });
+
+  it('uses restricted documents for the admins of their department', async () => {
+    const complete = vi.spyOn(fakeLLMProvider, 'complete');
+    const admin: Viewer = { userId: 'other-admin', permissions: { role: 'viewer', departments: { 'dept-hr': 'department_admin' } } };
+
+    await queryChat('¿Cuándo se paga el salario y las vacaciones?', [], { viewer: admin });
+
+    const request = complete.mock.calls[0][0] as CompletionRequest;
+    expect(request.messages[0].content).toContain(SECRET);
+  });
+
+  it('reveals no document count when every processed document is hidden', async () => {
+    // Nothing indexed yet, the reply that used to say how many documents there are
+    setSupabaseHandlers({
+      query: query => (query.table === 'document_chunks' && query.options?.head ? { count: 0 } : answerQuery(query, [rows[1]])),
+    });
+    const complete = vi.spyOn(fakeLLMProvider, 'complete');
+
+    const response = await queryChat('¿Cuándo se paga el salario y las vacaciones?', [], { viewer });
+
+    expect(complete).not.toHaveBeenCalled();
+    expect(response.sources).toEqual([]);
+    expect(response.answer).not.toMatch(/\d/);
+  });
+
+  it('gives the same answer and stream on every run with the fake model', async () => {
+    const question = '¿Cuándo se paga el salario y las vacaciones?';
+    const streamed = async () => {
+      const events: ChatStreamEvent[] = [];
+      for await (const event of streamQueryChat(question, [], undefined, { viewer })) {
+        events.push(event);
+      }
+      return events;
+    };
+
+    const first = await queryChat(question, [], { viewer });
+    expect(await queryChat(question, [], { viewer })).toEqual(first);
+
+    const firstStream = await streamed();
+    expect(await streamed()).toEqual(firstStream);
+    const tokens = firstStream.flatMap(event => (event.type === 'token' ? [event.text] : []));
+    expect(tokens.join('')).toBe(first.answer);
+    expect(firstStream.at(-1)).toEqual({ type: 'done', sources: first.sources });
+  });
+});
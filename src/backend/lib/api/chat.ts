@@ -1,235 +1,128 @@
-import OpenAI from 'openai';
 import { supabase } from '../supabase';
+import { ragConfig } from '../rag/config';
+import { SUPPORTED_FORMAT_NAMES } from '../ingestion/extractText';
+import { hybridSearch, type QueryEmbedding, type RetrievalFilters } from '../rag/retrieval';
+import { getActiveEmbeddingProvider } from './embeddingIndexes';
+import { getReranker } from '../rag/reranker';
+import { assembleContext, formatContext, passagePages, passageSection } from '../rag/context';
+import { getLLMProvider, type CompletionSettings, type LLMMessage } from '../llm/providers';
+import { resolveCompletionSettings } from '../llm/settings';
+import { expandDepartmentIds, getDepartmentLLMSettings } from './departments';
+import { canViewDocument, type DocumentAccess, type Viewer, type Visibility } from '../auth/visibility';
 
-// OpenAI Configuration
-// Load the API key from environment variables
-// The key must be prefixed with VITE_ to be accessible in the browser
-const openaiApiKey = import.meta.env.VITE_OPENAI_API_KEY?.trim() || '';
-
-if (!openaiApiKey) {
-  console.warn('⚠️ OpenAI API key not found. Please set VITE_OPENAI_API_KEY in your .env file');
+/**
+ * A passage cited in an answer
+ * The answer refers to it with the marker [number]
+ */
+export interface ChatSource {
+  number: number;
+  title: string;
+  excerpt: string;
+  document_id: string;
+  chunk_id: string; // Chunk retrieved for the passage, where the viewer scrolls to
+  chunk_index: number;
+  page: number | null; // First page of the passage (null for formats without pages)
+  page_end: number | null;
+  section: string | null; // Heading path, e.g. "3 Permisos › 3.2 Vacaciones"
+  similarity: number | null; // Cosine similarity with the question, if found by vector search
 }
 
-// Initialize OpenAI client if API key is available
-// Note: dangerouslyAllowBrowser is set to true for MVP purposes only
-// In production, API calls should be made from a backend server to keep the API key secure
-const openai = openaiApiKey ? new OpenAI({
-  apiKey: openaiApiKey,
-  dangerouslyAllowBrowser: true, // Only for MVP - in production use backend server
-}) : null;
-
 export interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
-  sources?: {
-    title: string;
-    excerpt: string;
-  }[];
+  sources?: ChatSource[];
 }
 
 export interface ChatQueryResponse {
   answer: string;
-  sources: {
-    title: string;
-    excerpt: string;
-  }[];
+  sources: ChatSource[];
 }
 
 /**
- * Represents a document chunk with its metadata and similarity score
+ * Per-request chat options
+ * The model settings override those of the department, which override the deployment defaults
  */
-interface DocumentChunk {
-  id: string;
-  document_id: string;
-  chunk_index: number;
-  content: string;
-  embedding?: number[];
-  similarity?: number; // Calculated similarity score for the chunk (0-1 range)
+export interface ChatOptions extends Partial<CompletionSettings> {
+  departmentId?: string; // Department whose model settings apply
+  documentVersionId?: string; // Answer only from this document version (e.g. a previous one)
+  viewer?: Viewer; // Person asking; only documents they can see are searched (default: public ones)
+  filters?: RetrievalFilters; // Departments, documents, file types and upload dates to answer from
 }
 
 /**
- * Generates an embedding vector for the given text using OpenAI's embedding model
- * Embeddings are numerical representations of text that capture semantic meaning
- * 
- * @param text - The text to generate an embedding for
- * @returns A promise that resolves to an array of numbers representing the embedding vector
- * @throws Error if OpenAI is not configured or if the API call fails
+ * Events emitted by streamQueryChat
+ * - token: a fragment of the answer text, in order
+ * - done: the answer is complete; carries the sources to show
+ * - error: the answer could not be completed
  */
-async function generateEmbedding(text: string): Promise<number[]> {
-  if (!openai) {
-    throw new Error('OpenAI is not configured. Please verify VITE_OPENAI_API_KEY in your .env file');
-  }
+export type ChatStreamEvent =
+  | { type: 'token'; text: string }
+  | { type: 'done'; sources: ChatSource[] }
+  | { type: 'error'; message: string };
 
-  try {
-    // Call OpenAI API to generate embedding using text-embedding-3-small model
-    // This model creates 1536-dimensional vectors that represent semantic meaning
-    const response = await openai.embeddings.create({
-      model: 'text-embedding-3-small',
-      input: text,
-    });
+/**
+ * Result of preparing a question: either a direct answer (greetings, system
+ * questions, nothing found) or the messages to send to the model
+ */
+type PreparedChat =
+  | { kind: 'answer'; response: ChatQueryResponse }
+  | { kind: 'completion'; messages: LLMMessage[]; sources: ChatSource[] };
 
-    // Return the embedding vector from the first (and only) result
-    return response.data[0].embedding;
-  } catch (error) {
-    console.error('Error generating embedding:', error);
-    throw new Error('Error generating embedding. Please verify your OpenAI API key.');
-  }
+/**
+ * Whether any retrieval filter is set (an empty list does not filter)
+ */
+function hasFilters(filters: RetrievalFilters | undefined): boolean {
+  return !!filters && Object.values(filters).some(value => (Array.isArray(value) ? value.length > 0 : !!value));
 }
 
 /**
- * Calculates the cosine similarity between two vectors
- * Cosine similarity measures the cosine of the angle between two vectors
- * Returns a value between -1 and 1, where 1 means identical direction
- * 
- * @param a - First vector (array of numbers)
- * @param b - Second vector (array of numbers)
- * @returns Cosine similarity score between 0 and 1 (0 if vectors are orthogonal, 1 if identical)
+ * Model settings for a question: request options over department settings over defaults
+ *
+ * @param options - Options of the chat request
+ * @returns Settings shared by the blocking and streaming variants
  */
-function cosineSimilarity(a: number[], b: number[]): number {
-  // Vectors must have the same dimension to calculate similarity
-  if (a.length !== b.length) {
-    return 0;
-  }
-  
-  // Calculate dot product: sum of products of corresponding elements
-  const dotProduct = a.reduce((sum, val, i) => sum + val * (b[i] || 0), 0);
-  
-  // Calculate magnitude (length) of each vector using Euclidean norm
-  const magnitudeA = Math.sqrt(a.reduce((sum, val) => sum + val * val, 0));
-  const magnitudeB = Math.sqrt(b.reduce((sum, val) => sum + val * val, 0));
-  
-  // Avoid division by zero if either vector has zero magnitude
-  if (magnitudeA === 0 || magnitudeB === 0) {
-    return 0;
-  }
-  
-  // Cosine similarity formula: dot product divided by product of magnitudes
-  return dotProduct / (magnitudeA * magnitudeB);
+async function completionSettings(options: ChatOptions): Promise<CompletionSettings> {
+  const departmentSettings = options.departmentId ? await getDepartmentLLMSettings(options.departmentId) : null;
+  const { model, temperature, maxTokens } = options;
+  return resolveCompletionSettings(departmentSettings, { model, temperature, maxTokens });
 }
 
 /**
- * Searches for similar document chunks using pgvector similarity search in Supabase
- * Returns chunks with their calculated similarity scores
+ * Generates an embedding vector for the given text with the configured embedding provider
+ * Embeddings are numerical representations of text that capture semantic meaning
  * 
- * @param embedding - The query embedding vector to search for similar chunks
- * @param limit - Maximum number of chunks to return (default: 5)
- * @returns Promise that resolves to an array of DocumentChunk objects with similarity scores
+ * @param text - The text to generate an embedding for
+ * @returns A promise that resolves to the embedding vector and the model that created it
+ * @throws Error if the embedding provider is not configured or if the call fails
  */
-async function searchSimilarChunks(embedding: number[], limit: number = 5): Promise<DocumentChunk[]> {
+async function generateEmbedding(text: string): Promise<QueryEmbedding> {
   try {
-    // First, try to use the pgvector RPC function for efficient similarity search
-    // This uses PostgreSQL's vector similarity operators for optimal performance
-    const { data, error } = await supabase.rpc('match_document_chunks', {
-      query_embedding: embedding,
-      match_threshold: 0.5, // Stricter threshold - only return chunks with similarity >= 0.5
-      match_count: limit,
-    });
-
-    if (error) {
-      // If the RPC function doesn't exist, fall back to alternative search method
-      // This can happen if the database function hasn't been created yet
-      console.warn('RPC function not found, trying alternative search:', error);
-      
-      // Alternative search: fetch all chunks and calculate similarity on the client side
-      // NOTE: This is not efficient for production, but works for MVP
-      // In production, the pgvector RPC function should be set up for better performance
-      const { data: allChunks, error: fetchError } = await supabase
-        .from('document_chunks')
-        .select('id, document_id, chunk_index, content, embedding')
-        .not('embedding', 'is', null)
-        .limit(200); // Increased limit to have more options for filtering
-
-      if (fetchError) {
-        throw fetchError;
-      }
-
-      if (!allChunks || allChunks.length === 0) {
-        console.warn('No chunks with embeddings found in the database');
-        console.log('This means documents have not been processed yet.');
-        return [];
-      }
-
-      console.log(`Found ${allChunks.length} chunks with embeddings. Calculating similarity...`);
-
-      // Calculate cosine similarity for all chunks
-      // This processes each chunk to compute how similar it is to the query embedding
-      const chunksWithSimilarity = allChunks
-        .map((chunk: any) => {
-          // Embeddings can come as arrays or JSON strings from Supabase
-          // Handle both formats to ensure compatibility
-          let chunkEmbedding: number[] = [];
-          
-          if (Array.isArray(chunk.embedding)) {
-            // Already an array, use directly
-            chunkEmbedding = chunk.embedding;
-          } else if (typeof chunk.embedding === 'string') {
-            // Parse JSON string to array
-            try {
-              chunkEmbedding = JSON.parse(chunk.embedding);
-            } catch (e) {
-              console.warn('Error parsing embedding as JSON:', e);
-              return null;
-            }
-          } else {
-            console.warn('Embedding in unknown format:', typeof chunk.embedding);
-            return null;
-          }
-
-          // Validate that we have a valid embedding array
-          if (!Array.isArray(chunkEmbedding) || chunkEmbedding.length === 0) {
-            return null;
-          }
-          
-          // Verify that embeddings have the same dimension
-          // Both query and chunk embeddings must be the same size for similarity calculation
-          if (chunkEmbedding.length !== embedding.length) {
-            console.warn(`Dimension mismatch: query=${embedding.length}, chunk=${chunkEmbedding.length}`);
-            return null;
-          }
-          
-          // Calculate cosine similarity between query embedding and chunk embedding
-          const similarity = cosineSimilarity(embedding, chunkEmbedding);
-
-          // Return chunk with similarity score attached
-          return { ...chunk, similarity };
-        })
-        .filter((chunk: any) => chunk !== null)
-        // Sort by similarity descending (most similar first)
-        .sort((a: any, b: any) => b.similarity - a.similarity);
-
-      console.log(`Chunks with calculated similarity: ${chunksWithSimilarity.length}`);
-      console.log(`Top similarities:`, chunksWithSimilarity.map((c: any) => c.similarity.toFixed(3)).slice(0, 10));
-
-      // Return chunks with similarity (not filtered here, will be filtered later by document)
-      // Return more chunks than requested to have options for document-level filtering
-      return chunksWithSimilarity.slice(0, limit * 2) as DocumentChunk[];
-    }
-
-    // If RPC function works, process the results
-    if (data && data.length > 0) {
-      // If RPC function already returns similarity, use it
-      // Otherwise, calculate it manually
-      return data.map((chunk: any) => {
-        if (chunk.similarity !== undefined) {
-          // RPC function already calculated similarity
-          return chunk as DocumentChunk;
-        }
-        // Calculate similarity if not included in response
-        if (chunk.embedding && Array.isArray(chunk.embedding)) {
-          const similarity = cosineSimilarity(embedding, chunk.embedding);
-          return { ...chunk, similarity } as DocumentChunk;
-        }
-        return chunk as DocumentChunk;
-      });
-    }
-
-    return [];
+    // Same provider and model as document processing: those of the active embedding index
+    const provider = await getActiveEmbeddingProvider();
+    const [vector] = await provider.embed([text]);
+    return { vector, model: provider.model };
   } catch (error) {
-    console.error('Error searching similar chunks:', error);
-    return [];
+    console.error('Error generating embedding:', error);
+    throw new Error('Error generating embedding. Please verify the embedding provider configuration.');
   }
 }
 
+interface DocumentInfo {
+  file_name: string;
+  version_number?: number;
+  is_current?: boolean;
+  department?: { name: string };
+}
+
+/**
+ * Title of a cited document; previous versions carry their version number
+ */
+function documentTitle(info: DocumentInfo): string {
+  return info.is_current === false && info.version_number
+    ? `${info.file_name} (versión ${info.version_number})`
+    : info.file_name;
+}
+
 /**
  * Retrieves document information from the database using the document ID
  * Fetches the file name and associated department information
@@ -237,7 +130,7 @@ async function searchSimilarChunks(embedding: number[], limit: number = 5): Prom
  * @param documentId - The unique identifier of the document
  * @returns Promise that resolves to document info object or null if not found
  */
-async function getDocumentInfo(documentId: string): Promise<{ file_name: string; department?: { name: string } } | null> {
+async function getDocumentInfo(documentId: string): Promise<DocumentInfo | null> {
   try {
     // Query the documents table with a join to departments table
     // Uses Supabase's nested select syntax to get related department data
@@ -245,6 +138,8 @@ async function getDocumentInfo(documentId: string): Promise<{ file_name: string;
       .from('documents')
       .select(`
         file_name,
+        version_number,
+        is_current,
         departments (name)
       `)
       .eq('id', documentId)
@@ -370,14 +265,61 @@ function isSystemQuestion(question: string): boolean {
   return systemKeywords.some(keyword => lowerQuestion.includes(keyword));
 }
 
+// Document IDs per query when counting the chunks of the documents someone can see
+const SYSTEM_COUNT_BATCH = 100;
+
+/**
+ * IDs of the processed current documents (ready for search) that a person can see
+ *
+ * @param viewer - Person asking; null sees public documents only
+ */
+async function visibleProcessedDocumentIds(viewer: Viewer | null): Promise<string[]> {
+  const { data } = await supabase
+    .from('documents')
+    .select('id, department_id, uploader_id, visibility, restricted_to, departments(default_visibility)')
+    .eq('status', 'processed')
+    .eq('is_current', true)
+    .is('deleted_at', null);
+
+  return ((data || []) as unknown as (DocumentAccess & {
+    id: string;
+    departments: { default_visibility: Visibility } | null;
+  })[])
+    .filter(doc => canViewDocument(viewer, doc, doc.departments?.default_visibility))
+    .map(doc => doc.id);
+}
+
+/**
+ * Counts the chunks of some documents that have embeddings,
+ * a batch of IDs at a time to keep the request URL short
+ *
+ * @param documentIds - Documents whose chunks are counted
+ * @param embeddingModel - Only count chunks embedded with this model; any model when omitted
+ */
+async function countEmbeddedChunks(documentIds: string[], embeddingModel?: string): Promise<number> {
+  let total = 0;
+  for (let i = 0; i < documentIds.length; i += SYSTEM_COUNT_BATCH) {
+    const query = supabase
+      .from('document_chunks')
+      .select('*', { count: 'exact', head: true })
+      .in('document_id', documentIds.slice(i, i + SYSTEM_COUNT_BATCH));
+    const { count } = await (embeddingModel
+      ? query.eq('embedding_model', embeddingModel)
+      : query.not('embedding', 'is', null));
+    total += count || 0;
+  }
+  return total;
+}
+
 /**
  * Answers questions about the system without using RAG
  * Handles meta-questions about the system itself, document counts, etc.
  * 
  * @param question - The system-related question to answer
+ * @param viewer - Person asking; only documents they can see are counted and listed
  * @returns ChatQueryResponse with system information and no sources
  */
-async function answerSystemQuestion(question: string): Promise<ChatQueryResponse> {
+async function answerSystemQuestion(question: string, viewer: Viewer | null): Promise<ChatQueryResponse> {
   const lowerQuestion = question.toLowerCase();
   
   // Handle document count questions
@@ -385,19 +327,13 @@ async function answerSystemQuestion(question: string): Promise<ChatQueryResponse
   if (lowerQuestion.includes('cuántos documentos') || lowerQuestion.includes('cuantos documentos') || 
       lowerQuestion.includes('cuántos archivos') || lowerQuestion.includes('cuantos archivos')) {
     // Count processed documents (only count documents that are ready for search)
-    const { count: documentsCount } = await supabase
-      .from('documents')
-      .select('*', { count: 'exact', head: true })
-      .eq('status', 'processed');
-    
-    // Count document chunks with embeddings (indexed content)
-    const { count: chunksCount } = await supabase
-      .from('document_chunks')
-      .select('*', { count: 'exact', head: true })
-      .not('embedding', 'is', null);
+    // Documents hidden from the person asking are not counted
+    const visibleIds = await visibleProcessedDocumentIds(viewer);
+
+    // Count document chunks with embeddings (indexed content) of those documents
+    const chunkCount = await countEmbeddedChunks(visibleIds);
     
-    const docCount = documentsCount || 0;
-    const chunkCount = chunksCount || 0;
+    const docCount = visibleIds.length;
     
     if (docCount === 0) {
       return {
@@ -416,13 +352,23 @@ async function answerSystemQuestion(question: string): Promise<ChatQueryResponse
   // Handle questions about what information can be queried
   // User wants to know what documents are available for querying
   if (lowerQuestion.includes('qué información puedo') || lowerQuestion.includes('que información puedo')) {
-    const { data: documents } = await supabase
+    const { data } = await supabase
       .from('documents')
-      .select('file_name, departments(name)')
+      .select('file_name, department_id, uploader_id, visibility, restricted_to, departments(default_visibility)')
       .eq('status', 'processed')
-      .limit(10);
+      .eq('is_current', true)
+      .is('deleted_at', null)
+      .limit(100);
+
+    // Names of documents hidden from the person asking are not listed
+    const documents = ((data || []) as unknown as (DocumentAccess & {
+      file_name: string;
+      departments: { default_visibility: Visibility } | null;
+    })[])
+      .filter(doc => canViewDocument(viewer, doc, doc.departments?.default_visibility))
+      .slice(0, 10);
     
-    if (!documents || documents.length === 0) {
+    if (documents.length === 0) {
       return {
         answer: 'Por ahora no tengo documentos disponibles. ¿Te gustaría subir algunos? Una vez que los subas, podré ayudarte a encontrar cualquier información que necesites en ellos.',
         sources: [],
@@ -449,7 +395,7 @@ async function answerSystemQuestion(question: string): Promise<ChatQueryResponse
   // User wants to know what file formats are supported
   if (lowerQuestion.includes('qué tipos de documentos') || lowerQuestion.includes('que tipos de documentos')) {
     return {
-      answer: 'Acepto los siguientes tipos de documentos:\n\n• Archivos PDF (.pdf)\n• Archivos de texto (.txt)\n• Archivos Markdown (.md)\n\nUna vez que los subas, los proceso automáticamente para extraer su contenido y hacerlo buscable. ¡Es muy fácil! Solo súbelos y podrás hacer preguntas sobre ellos de inmediato.',
+      answer: 'Acepto los siguientes tipos de documentos:\n\n• Archivos PDF (.pdf), también escaneados: si no tienen texto los leo con OCR\n• Imágenes de documentos (.png, .jpg)\n• Documentos de Word (.docx)\n• Presentaciones de PowerPoint (.pptx), incluidas las notas del orador\n• Hojas de cálculo de Excel (.xlsx)\n• Páginas web (.html), o un sitio estático completo en un archivo .zip (se crea un documento por página)\n• Archivos de texto (.txt)\n• Archivos Markdown (.md)\n\nUna vez que los subas, los proceso automáticamente para extraer su contenido y hacerlo buscable. ¡Es muy fácil! Solo súbelos y podrás hacer preguntas sobre ellos de inmediato.',
       sources: [],
     };
   }
@@ -491,189 +437,190 @@ function indicatesNoInformation(answer: string): boolean {
 }
 
 /**
- * Sends a query using RAG (Retrieval-Augmented Generation)
- * This is the main function that processes user questions and returns AI responses
+ * Prepares a question for the model using RAG (Retrieval-Augmented Generation)
+ * Shared by queryChat and streamQueryChat, which only differ in how they call the model
  * 
  * Process flow:
  * 1. Check if question is a greeting or system question (handle separately)
  * 2. Verify documents exist and are processed
  * 3. Generate embedding for the user's question
- * 4. Search for similar document chunks using vector similarity
- * 5. Filter and group chunks by document, selecting only highly relevant ones
- * 6. Build context from selected chunks
- * 7. Generate AI response using OpenAI with the context
- * 8. Return response with source citations
+ * 4. Search for relevant document chunks (hybrid vector + keyword search)
+ * 5. Filter out chunks that are not relevant enough
+ * 6. Rerank the remaining candidates (see RAG_RERANKER)
+ * 7. Assemble context from the best chunks and their neighbours up to the token budget, and source citations
+ * 8. Build the prompt messages for the model
  * 
  * @param question - The user's question
- * @param conversationHistory - Optional conversation history for context
- * @returns Promise that resolves to ChatQueryResponse with answer and sources
+ * @param conversationHistory - Conversation history for context
+ * @param options - Chat options; documentVersionId limits the search to one document version and
+ *   filters to some departments, documents, file types or upload dates
+ * @returns Promise that resolves to a direct answer or the messages for the model
  */
-export async function queryChat(
+async function prepareChat(
   question: string,
-  conversationHistory: ChatMessage[] = []
-): Promise<ChatQueryResponse> {
-  try {
-    if (!openai) {
-      throw new Error('OpenAI is not configured. Please set VITE_OPENAI_API_KEY in your .env file');
-    }
-
-    // Step 0: Check if it's a greeting (doesn't require RAG)
-    // Greetings get friendly responses without document search
-    if (isGreeting(question)) {
-      return answerGreeting();
-    }
+  conversationHistory: ChatMessage[],
+  options: ChatOptions = {}
+): Promise<PreparedChat> {
+  // Fail early if the chat model is not configured (see LLM_PROVIDER)
+  getLLMProvider();
+
+  // Step 0: Check if it's a greeting (doesn't require RAG)
+  // Greetings get friendly responses without document search
+  if (isGreeting(question)) {
+    return { kind: 'answer', response: answerGreeting() };
+  }
 
-    // Step 0.1: Check if it's a system question (doesn't require RAG)
-    // System questions are answered directly without document search
-    if (isSystemQuestion(question)) {
-      return await answerSystemQuestion(question);
-    }
+  // Step 0.1: Check if it's a system question (doesn't require RAG)
+  // System questions are answered directly without document search
+  if (isSystemQuestion(question)) {
+    return { kind: 'answer', response: await answerSystemQuestion(question, options.viewer ?? null) };
+  }
 
-    // Step 1: Verify that documents exist in the system
-    // Only count documents with 'processed' status (ready for search)
-    const { count: documentsCount } = await supabase
-      .from('documents')
-      .select('*', { count: 'exact', head: true })
-      .eq('status', 'processed');
+  // Step 1: Verify that documents exist in the system
+  // Only count documents with 'processed' status (ready for search) that the person can see,
+  // so the replies below never reveal how many hidden documents there are
+  const visibleIds = await visibleProcessedDocumentIds(options.viewer ?? null);
+  const documentsCount = visibleIds.length;
 
-    if (!documentsCount || documentsCount === 0) {
-      return {
+  if (documentsCount === 0) {
+    return {
+      kind: 'answer',
+      response: {
         answer: 'Por ahora no tengo documentos disponibles para consultar. ¿Te gustaría subir algunos documentos primero? Una vez que los subas, podré ayudarte a encontrar la información que necesitas.',
         sources: [],
-      };
-    }
+      },
+    };
+  }
 
-    // Step 2: Verify that chunks are processed (have embeddings)
-    // Chunks without embeddings cannot be searched
-    const { count: chunksCount } = await supabase
-      .from('document_chunks')
-      .select('*', { count: 'exact', head: true })
-      .not('embedding', 'is', null);
+  // Step 2: Verify that chunks of those documents are processed (have embeddings of the active model)
+  // Chunks without embeddings, or embedded with another model, cannot be searched
+  const embeddingModel = (await getActiveEmbeddingProvider()).model;
+  const chunksCount = await countEmbeddedChunks(visibleIds, embeddingModel);
+
+  if (chunksCount === 0) {
+    const otherModelCount = await countEmbeddedChunks(visibleIds);
 
-    if (!chunksCount || chunksCount === 0) {
+    if (otherModelCount > 0) {
+      console.warn(`No chunks embedded with ${embeddingModel}; ${otherModelCount} chunk(s) use another model`);
       return {
-        answer: `Veo que hay ${documentsCount} documento${documentsCount > 1 ? 's' : ''} en el sistema, pero aún se están procesando. 😊\n\nLos documentos se procesan automáticamente cuando los subes. Si acabas de subirlos, dale unos momentos para que terminen de procesarse. Una vez que estén listos, podré ayudarte a encontrar cualquier información que necesites.\n\n**Para verificar:**\n• Revisa en la página de "Subir Documentos" que los documentos hayan terminado de procesarse\n• Asegúrate de que sean archivos TXT, PDF o MD\n• Si pasan varios minutos y aún no se procesan, verifica que la configuración esté correcta\n\n¡Vuelve en un momento y estaré listo para ayudarte!`,
-        sources: [],
+        kind: 'answer',
+        response: {
+          answer: 'Los documentos se indexaron con un modelo de embeddings distinto al configurado actualmente, así que todavía no puedo buscar en ellos. Un administrador debe migrar el índice de embeddings al modelo nuevo desde la página de subida.',
+          sources: [],
+        },
       };
     }
 
-    // Step 3: Generate embedding for the user's question
-    // Convert the question text into a numerical vector representation
-    const questionEmbedding = await generateEmbedding(question);
+    return {
+      kind: 'answer',
+      response: {
+        answer: `Veo que hay ${documentsCount} documento${documentsCount > 1 ? 's' : ''} en el sistema, pero aún se están procesando. 😊\n\nLos documentos se procesan automáticamente cuando los subes. Si acabas de subirlos, dale unos momentos para que terminen de procesarse. Una vez que estén listos, podré ayudarte a encontrar cualquier información que necesites.\n\n**Para verificar:**\n• Revisa en la página de "Subir Documentos" que los documentos hayan terminado de procesarse\n• Asegúrate de que sean archivos ${SUPPORTED_FORMAT_NAMES}\n• Si pasan varios minutos y aún no se procesan, verifica que la configuración esté correcta\n\n¡Vuelve en un momento y estaré listo para ayudarte!`,
+        sources: [],
+      },
+    };
+  }
 
-    // Step 4: Search for similar chunks (get more than needed for filtering options)
-    // Fetch more chunks initially to have options for document-level filtering
-    const similarChunks = await searchSimilarChunks(questionEmbedding, 10);
+  // Step 3: Generate embedding for the user's question
+  // Convert the question text into a numerical vector representation
+  const questionEmbedding = await generateEmbedding(question);
+
+  // Step 4: Hybrid search (vector similarity + full-text keywords)
+  // Fetch a large candidate pool so the reranker can find the chunk that answers the question
+  // Only current document versions are searched, unless the question is about a specific version
+  // Chunks of documents the person cannot see are never returned, so they never reach the prompt
+  // A department filter also covers its sub-departments
+  const filters = options.filters?.departmentIds?.length
+    ? { ...options.filters, departmentIds: await expandDepartmentIds(options.filters.departmentIds) }
+    : options.filters;
+  const similarChunks = await hybridSearch(question, questionEmbedding, {
+    limit: ragConfig.rerankCandidateCount,
+    documentId: options.documentVersionId,
+    viewer: options.viewer,
+    filters,
+  });
 
-    if (similarChunks.length === 0) {
-      return {
+  if (similarChunks.length === 0 && hasFilters(options.filters)) {
+    return {
+      kind: 'answer',
+      response: {
+        answer: 'No encontré información sobre eso en los documentos que cumplen los filtros de la conversación. Prueba a quitar algún filtro o a reformular la pregunta.',
+        sources: [],
+      },
+    };
+  }
+
+  if (similarChunks.length === 0) {
+    return {
+      kind: 'answer',
+      response: {
         answer: 'Hmm, no encontré información específica sobre eso en los documentos que tengo disponibles. ¿Podrías reformular tu pregunta o darme más detalles sobre lo que buscas? Estoy aquí para ayudarte a encontrar lo que necesitas.',
         sources: [],
-      };
-    }
+      },
+    };
+  }
 
-    // Step 5: Filter and group chunks by document according to similarity
-    // Minimum similarity threshold to consider a chunk relevant
-    // Chunks below this threshold are likely not related to the question
-    const MIN_SIMILARITY_THRESHOLD = 0.5;
-    
-    // Group chunks by document and find the maximum similarity per document
-    // This allows us to select the best documents, not just the best chunks
-    const chunksByDocument = new Map<string, { chunks: DocumentChunk[], maxSimilarity: number }>();
-    
-    for (const chunk of similarChunks) {
-      const similarity = chunk.similarity || 0;
-      
-      // Only consider chunks with sufficient similarity
-      // Skip chunks that are not relevant enough
-      if (similarity < MIN_SIMILARITY_THRESHOLD) {
-        continue;
-      }
-      
-      const docId = chunk.document_id;
-      const existing = chunksByDocument.get(docId);
-      
-      if (!existing) {
-        // First chunk from this document
-        chunksByDocument.set(docId, { chunks: [chunk], maxSimilarity: similarity });
-      } else {
-        // Add chunk to existing document group
-        existing.chunks.push(chunk);
-        // Update max similarity if this chunk is more similar
-        if (similarity > existing.maxSimilarity) {
-          existing.maxSimilarity = similarity;
-        }
-      }
-    }
+  // Step 5: Filter chunks according to relevance
+  // Minimum similarity threshold to consider a chunk relevant
+  // Chunks below this threshold are likely not related to the question,
+  // unless keyword search matched exact terms (codes, names, acronyms)
+  const MIN_SIMILARITY_THRESHOLD = 0.5;
+  const relevantChunks = similarChunks.filter(chunk =>
+    (chunk.similarity || 0) >= MIN_SIMILARITY_THRESHOLD || (chunk.keywordScore || 0) > 0
+  );
 
-    // Sort documents by maximum similarity (highest to lowest)
-    // This prioritizes documents with the most relevant content
-    const sortedDocuments = Array.from(chunksByDocument.entries())
-      .sort((a, b) => b[1].maxSimilarity - a[1].maxSimilarity);
+  // Step 6: Rerank the candidates against the question
+  const reranker = getReranker();
+  const rankedChunks = await reranker.rerank(question, relevantChunks);
 
-    if (sortedDocuments.length === 0) {
-      return {
+  if (rankedChunks.length === 0) {
+    return {
+      kind: 'answer',
+      response: {
         answer: 'No encontré información que coincida directamente con tu pregunta en los documentos disponibles. ¿Podrías ser un poco más específico sobre lo que necesitas? Por ejemplo, puedes mencionar el tema o el área de interés, y con gusto te ayudo a buscar la información relevante.',
         sources: [],
-      };
-    }
+      },
+    };
+  }
 
-    // Step 6: Select documents to include in the response
-    // Strategy: If multiple documents have high similarity (>= 0.6), include up to 2
-    // If only one document has high similarity, include only that one
-    // If documents have medium similarity (0.5-0.6), include only the best one
-    const HIGH_SIMILARITY_THRESHOLD = 0.6;
-    
-    // Filter documents with high similarity scores
-    const highSimilarityDocs = sortedDocuments.filter(([_, data]) => data.maxSimilarity >= HIGH_SIMILARITY_THRESHOLD);
-    
-    // Select documents based on similarity distribution
-    const selectedDocuments = highSimilarityDocs.length > 1 
-      ? highSimilarityDocs.slice(0, 2) // If multiple high similarity docs exist, include up to 2
-      : sortedDocuments.slice(0, 1); // If only one or all have medium similarity, include only the best
-
-    // Step 7: Build context from chunks of selected documents
-    // Use the best chunk from each selected document for the context
-    const contextChunks: DocumentChunk[] = [];
-    for (const [docId, data] of selectedDocuments) {
-      // Take the chunk with highest similarity from each selected document
-      // Sort chunks by similarity descending and take the first one
-      const bestChunk = data.chunks.sort((a, b) => (b.similarity || 0) - (a.similarity || 0))[0];
-      if (bestChunk) {
-        contextChunks.push(bestChunk);
-      }
-    }
+  // Step 7: Build context from the best chunks and their neighbours, up to the token budget
+  // A document can contribute several passages if they rank well
+  const passages = await assembleContext(rankedChunks, {
+    tokenBudget: ragConfig.contextTokenBudget,
+    neighbourChunks: ragConfig.neighbourChunks,
+  });
 
-    // Format context for the AI prompt
-    // Each document chunk is labeled and separated for clarity
-    const context = contextChunks
-      .map((chunk, index) => `[Documento ${index + 1}]\n${chunk.content}`)
-      .join('\n\n---\n\n');
-
-    // Step 8: Get information about selected source documents
-    // Fetch document metadata (file name, department) for source citations
-    const selectedDocumentIds = selectedDocuments.map(([docId]) => docId);
-    const documentInfos = await Promise.all(
-      selectedDocumentIds.map(id => getDocumentInfo(id))
-    );
-
-    // Build sources array with document names and excerpts
-    // Excerpts are taken from the best chunk of each document
-    const sources = documentInfos
-      .filter((info): info is NonNullable<typeof info> => info !== null)
-      .map((info, index) => {
-        const docId = selectedDocumentIds[index];
-        const docData = chunksByDocument.get(docId);
-        // Get the best chunk for the excerpt
-        const bestChunk = docData?.chunks.sort((a, b) => (b.similarity || 0) - (a.similarity || 0))[0];
-        return {
-          title: info.file_name,
-          excerpt: bestChunk?.content.substring(0, 150) || '', // First 150 characters as excerpt
-        };
-      });
-
-    // 7. Construir el prompt con el contexto
-    const systemPrompt = `Eres un asistente de IA amigable y conversacional que ayuda a los usuarios a encontrar información en sus documentos. Tu personalidad es cálida, empática y natural, como si fueras un compañero de trabajo que está ahí para ayudar.
+  // Step 8: Get information about the source documents
+  // Fetch document metadata (file name, department) for labels and source citations
+  const documentIds = Array.from(new Set(passages.map(passage => passage.documentId)));
+  const documentInfos = await Promise.all(documentIds.map(id => getDocumentInfo(id)));
+  const titles = new Map<string, string>();
+  documentIds.forEach((id, index) => {
+    const info = documentInfos[index];
+    titles.set(id, info ? documentTitle(info) : 'Documento');
+  });
+
+  // Passages are numbered [1], [2]... in the context; source N is passage N
+  const context = formatContext(passages, titles);
+
+  // Each source points to the chunk that was retrieved for its passage
+  const sources: ChatSource[] = passages.map((passage, index) => {
+    const pages = passagePages(passage);
+    return {
+      number: index + 1,
+      title: titles.get(passage.documentId)!,
+      excerpt: passage.hit.content.substring(0, 150), // First 150 characters as excerpt
+      document_id: passage.documentId,
+      chunk_id: passage.hit.id,
+      chunk_index: passage.hit.chunk_index,
+      page: pages?.start ?? null,
+      page_end: pages?.end ?? null,
+      section: passageSection(passage),
+      similarity: passage.hit.similarity ?? null,
+    };
+  });
+
+  // Step 9: Build the prompt with the context
+  const systemPrompt = `Eres un asistente de IA amigable y conversacional que ayuda a los usuarios a encontrar información en sus documentos. Tu personalidad es cálida, empática y natural, como si fueras un compañero de trabajo que está ahí para ayudar.
 
 ESTILO DE COMUNICACIÓN:
 - Sé natural y conversacional, como si estuvieras hablando con un amigo o colega
@@ -694,7 +641,9 @@ INSTRUCCIONES:
   * Responde de forma clara y completa usando la información proporcionada
   * Sé natural en tu explicación, como si estuvieras explicándoselo a un compañero
   * Si es apropiado, puedes hacer conexiones o dar contexto adicional de forma conversacional
-  * Cita los documentos fuente cuando sea relevante, pero hazlo de forma natural
+  * Cita las fuentes con el número del fragmento entre corchetes justo después de la información que tomaste de él, por ejemplo [1] o [1][3]
+  * Usa solo los números de los fragmentos del contexto; no inventes citas ni agregues una lista de fuentes al final
+  * Si ayuda al usuario, menciona el documento, la página y la sección que aparecen en la etiqueta del fragmento (por ejemplo, "según el Manual del Empleado, p. 14, §3.2 Vacaciones")
 
 - Si el usuario pregunta más detalles sobre un tema:
   * Amplía la información de forma natural, conectando con lo que ya se ha discutido
@@ -710,47 +659,87 @@ INSTRUCCIONES:
 CONTEXTO DE DOCUMENTOS:
 ${context}`;
 
-    // Step 9: Prepare conversation history for context
-    // Only include history if current question requires document context
-    // Don't include history if previous question was about the system
-    const recentUserMessages = conversationHistory
-      .filter(msg => msg.role === 'user')
-      .slice(-2); // Last 2 questions for context
-    
-    // Filter system messages from history to avoid confusion
-    // System questions don't provide useful context for document queries
-    const relevantHistory = recentUserMessages
-      .filter(msg => !isSystemQuestion(msg.content))
-      .map(msg => ({ role: 'user' as const, content: msg.content }));
-    
-    const userMessages = relevantHistory;
+  // Step 10: Prepare conversation history for context
+  // Only include history if current question requires document context
+  // Don't include history if previous question was about the system
+  const recentUserMessages = conversationHistory
+    .filter(msg => msg.role === 'user')
+    .slice(-2); // Last 2 questions for context
+  
+  // Filter system messages from history to avoid confusion
+  // System questions don't provide useful context for document queries
+  const relevantHistory = recentUserMessages
+    .filter(msg => !isSystemQuestion(msg.content))
+    .map(msg => ({ role: 'user' as const, content: msg.content }));
+  
+  const userMessages = relevantHistory;
+
+  return {
+    kind: 'completion',
+    messages: [
+      { role: 'system', content: systemPrompt },
+      ...userMessages,
+      { role: 'user', content: question },
+    ],
+    sources,
+  };
+}
+
+/**
+ * Decides which sources accompany a finished answer
+ * Don't show sources if the AI explicitly states it found no information
+ * This prevents showing irrelevant sources when the AI couldn't answer
+ * If the answer has citation markers, only the cited sources are kept
+ * 
+ * @param answer - The complete answer text
+ * @param sources - Sources of the passages used as context
+ * @returns The sources to show with the answer
+ */
+function sourcesForAnswer(answer: string, sources: ChatSource[]): ChatSource[] {
+  const shouldShowSources = !indicatesNoInformation(answer) && sources.length > 0;
+  if (!shouldShowSources) {
+    return [];
+  }
+
+  const cited = new Set(Array.from(answer.matchAll(/\[(\d+)\]/g), match => Number(match[1])));
+  const citedSources = sources.filter(source => cited.has(source.number));
+  return citedSources.length > 0 ? citedSources : sources;
+}
+
+/**
+ * Sends a query using RAG (Retrieval-Augmented Generation)
+ * This is the main function that processes user questions and returns AI responses
+ * Waits for the complete answer; see streamQueryChat for the incremental variant
+ * 
+ * @param question - The user's question
+ * @param conversationHistory - Optional conversation history for context
+ * @param options - Optional department and model settings
+ * @returns Promise that resolves to ChatQueryResponse with answer and sources
+ */
+export async function queryChat(
+  question: string,
+  conversationHistory: ChatMessage[] = [],
+  options: ChatOptions = {}
+): Promise<ChatQueryResponse> {
+  try {
+    const prepared = await prepareChat(question, conversationHistory, options);
+    if (prepared.kind === 'answer') {
+      return prepared.response;
+    }
 
-    // Step 10: Call OpenAI Chat Completion API
-    // Use GPT-4o-mini model for cost-effective, fast responses
+    // Call the configured chat model (see LLM_PROVIDER)
     // System prompt contains instructions and document context
     // User messages provide conversation history
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o-mini',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        ...userMessages,
-        { role: 'user', content: question },
-      ],
-      temperature: 0.8, // Increased for more natural and varied responses
-      max_tokens: 600, // Increased for more complete and natural responses
+    const completion = await getLLMProvider().complete({
+      ...(await completionSettings(options)),
+      messages: prepared.messages,
     });
 
-    // Extract the AI's response from the completion
-    const answer = completion.choices[0]?.message?.content || 'No pude generar una respuesta.';
-
-    // Step 11: Determine if sources should be shown
-    // Don't show sources if the AI explicitly states it found no information
-    // This prevents showing irrelevant sources when the AI couldn't answer
-    const shouldShowSources = !indicatesNoInformation(answer) && sources.length > 0;
+    const answer = completion || 'No pude generar una respuesta.';
 
     return {
       answer,
-      sources: shouldShowSources ? sources : [],
+      sources: sourcesForAnswer(answer, prepared.sources),
     };
   } catch (error) {
     console.error('Error in queryChat:', error);
@@ -759,6 +748,47 @@ ${context}`;
       throw error;
     }
     
-    throw new Error('Error al procesar la consulta. Por favor, verifica tu configuración de OpenAI.');
+    throw new Error('Error al procesar la consulta. Por favor, verifica la configuración del modelo de chat.');
   }
 }
+
+/**
+ * Streaming variant of queryChat
+ * Yields the answer token by token as the model generates it, then a final
+ * 'done' event with the sources (decided once the full answer is known)
+ * 
+ * @param question - The user's question
+ * @param conversationHistory - Optional conversation history for context
+ * @param signal - Optional abort signal; aborting cancels the model request
+ * @param options - Optional department and model settings
+ * @returns Async generator of ChatStreamEvent
+ */
+export async function* streamQueryChat(
+  question: string,
+  conversationHistory: ChatMessage[] = [],
+  signal?: AbortSignal,
+  options: ChatOptions = {}
+): AsyncGenerator<ChatStreamEvent> {
+  const prepared = await prepareChat(question, conversationHistory, options);
+
+  // Direct answers are already complete: emit them as a single token
+  if (prepared.kind === 'answer') {
+    yield { type: 'token', text: prepared.response.answer };
+    yield { type: 'done', sources: prepared.response.sources };
+    return;
+  }
+
+  const stream = getLLMProvider().stream({
+    ...(await completionSettings(options)),
+    messages: prepared.messages,
+    signal,
+  });
+
+  let answer = '';
+  for await (const text of stream) {
+    answer += text;
+    yield { type: 'token', text };
+  }
+
+  yield { type: 'done', sources: sourcesForAnswer(answer, prepared.sources) };
+}
@@ -0,0 +1,146 @@
+import { supabase } from '../supabase';
+import { authConfig } from '../auth/config';
+import type { DepartmentRole, UserPermissions } from '../auth/roles';
+import { updateUserRole, type User } from './users';
+
+/**
+ * Role of a user within a department (department_members table)
+ */
+export interface DepartmentMember {
+  department_id: string;
+  user_id: string;
+  role: DepartmentRole;
+  created_at: string;
+  user?: {
+    id: string;
+    name: string;
+    email: string;
+  };
+}
+
+// Postgres foreign_key_violation: the department or the user does not exist
+const FOREIGN_KEY_VIOLATION = '23503';
+
+// Row of department_members with its user, as returned by listDepartmentMembers
+type DepartmentMemberRow = Omit<DepartmentMember, 'user'> & {
+  users: { id: string; name: string; email: string } | null;
+};
+
+/**
+ * Resolves what a user can do: their global role and their role in each department
+ * Accounts listed in SYSTEM_ADMIN_EMAILS are promoted to system admin in users, so the
+ * database functions that filter search results see the same role as the API
+ *
+ * @param user - The user whose permissions are resolved
+ * @returns Promise that resolves to the user's permissions
+ * @throws Error if database query fails
+ */
+export async function getUserPermissions(user: User): Promise<UserPermissions> {
+  const { data, error } = await supabase
+    .from('department_members')
+    .select('department_id, role')
+    .eq('user_id', user.id);
+
+  if (error) {
+    console.error('Error fetching department memberships:', error);
+    throw error;
+  }
+
+  let role = user.role;
+  if (role !== 'system_admin' && authConfig.systemAdminEmails.includes(user.email.toLowerCase())) {
+    role = (await updateUserRole(user.id, 'system_admin'))?.role ?? 'system_admin';
+  }
+
+  return {
+    role,
+    departments: Object.fromEntries((data || []).map(member => [member.department_id, member.role])),
+  };
+}
+
+/**
+ * Lists the members of a department with their name and email, ordered by name
+ *
+ * @param departmentId - ID of the department
+ * @returns Promise that resolves to the members of the department
+ * @throws Error if database query fails
+ */
+export async function listDepartmentMembers(departmentId: string): Promise<DepartmentMember[]> {
+  const { data, error } = await supabase
+    .from('department_members')
+    .select(`
+      *,
+      users (
+        id,
+        name,
+        email
+      )
+    `)
+    .eq('department_id', departmentId);
+
+  if (error) {
+    console.error('Error fetching department members:', error);
+    throw error;
+  }
+
+  return ((data || []) as DepartmentMemberRow[])
+    .map(({ users, ...member }) => ({
+      ...member,
+      user: users ? { id: users.id, name: users.name, email: users.email } : undefined,
+    }))
+    .sort((a, b) => (a.user?.name || '').localeCompare(b.user?.name || ''));
+}
+
+/**
+ * Adds a user to a department, or changes their role if they already are a member
+ *
+ * @param departmentId - ID of the department
+ * @param userId - ID of the user
+ * @param role - Role of the user in the department
+ * @returns Promise that resolves to the membership, or null if the department or user does not exist
+ * @throws Error if database query fails
+ */
+export async function setDepartmentMember(
+  departmentId: string,
+  userId: string,
+  role: DepartmentRole
+): Promise<DepartmentMember | null> {
+  const { data, error } = await supabase
+    .from('department_members')
+    .upsert({ department_id: departmentId, user_id: userId, role }, { onConflict: 'department_id,user_id' })
+    .select()
+    .single();
+
+  if (error?.code === FOREIGN_KEY_VIOLATION) {
+    return null;
+  }
+  if (error) {
+    console.error('Error saving department member:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Removes a user from a department; their global role still applies there
+ *
+ * @param departmentId - ID of the department
+ * @param userId - ID of the user
+ * @returns Promise that resolves to false if the user was not a member
+ * @throws Error if database query fails
+ */
+export async function removeDepartmentMember(departmentId: string, userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('department_members')
+    .delete()
+    .eq('department_id', departmentId)
+    .eq('user_id', userId)
+    .select('user_id');
+
+  if (error) {
+    console.error('Error removing department member:', error);
+    throw error;
+  }
+
+  return (data || []).length > 0;
+}
@@ -1,5 +1,7 @@
 import { supabase } from '../supabase';
 import type { Department } from './documents';
+import type { CompletionSettings } from '../llm/providers';
+import type { Visibility } from '../auth/visibility';
 
 /**
  * Retrieves all departments from the database
@@ -31,22 +33,61 @@ export async function getDepartments(): Promise<Department[]> {
   }
 }
 
+/**
+ * IDs of some departments and all their sub-departments, at any depth
+ * Filtering by a department includes its sub-departments
+ *
+ * @param departments - All departments, with their parent
+ * @param departmentIds - IDs of the departments to expand
+ */
+export function subDepartmentIds(
+  departments: Pick<Department, 'id' | 'parent_id'>[],
+  departmentIds: string[]
+): string[] {
+  const result = new Set(departmentIds);
+  for (const id of result) {
+    departments.filter(dept => dept.parent_id === id).forEach(child => result.add(child.id));
+  }
+  return Array.from(result);
+}
+
+/**
+ * Adds the sub-departments of some departments, loading the hierarchy from the database
+ * Falls back to the given IDs if the hierarchy cannot be loaded (e.g. parent_id not created yet)
+ *
+ * @param departmentIds - IDs of the departments to expand
+ * @returns Promise that resolves to the IDs with all their sub-departments
+ */
+export async function expandDepartmentIds(departmentIds: string[]): Promise<string[]> {
+  if (departmentIds.length === 0) {
+    return departmentIds;
+  }
+
+  const { data, error } = await supabase.from('departments').select('id, parent_id');
+  if (error) {
+    console.error('Error fetching department hierarchy:', error);
+    return departmentIds;
+  }
+  return subDepartmentIds(data || [], departmentIds);
+}
+
 /**
  * Creates a new department in the database
  * Useful for initialization or adding new organizational units
  * 
  * @param name - The name of the department to create
+ * @param parentId - Department it belongs to, or null for a top-level department
  * @returns Promise that resolves to the created Department object
  * @throws Error if database insertion fails
  */
-export async function createDepartment(name: string): Promise<Department> {
+export async function createDepartment(name: string, parentId: string | null = null): Promise<Department> {
   try {
     // Insert new department into the database
     // .select() returns the inserted row
     // .single() ensures exactly one row is returned
     const { data, error } = await supabase
       .from('departments')
-      .insert({ name })
+      .insert(parentId ? { name, parent_id: parentId } : { name })
       .select()
       .single();
 
@@ -63,3 +104,140 @@ export async function createDepartment(name: string): Promise<Department> {
   }
 }
 
+/**
+ * Renames a department or moves it under another one
+ * The database rejects moving a department under itself or one of its sub-departments
+ *
+ * @param departmentId - ID of the department
+ * @param changes - New name and/or parent (null: top level); omitted fields are kept
+ * @returns Promise that resolves to the updated Department, or null if it does not exist
+ * @throws Error if the update fails
+ */
+export async function updateDepartment(
+  departmentId: string,
+  changes: { name?: string; parentId?: string | null }
+): Promise<Department | null> {
+  const update: { name?: string; parent_id?: string | null } = {};
+  if (changes.name !== undefined) {
+    update.name = changes.name;
+  }
+  if (changes.parentId !== undefined) {
+    update.parent_id = changes.parentId;
+  }
+
+  const { data, error } = await supabase
+    .from('departments')
+    .update(update)
+    .eq('id', departmentId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error updating department:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Deletes a department
+ * Its documents, trashed ones included, move to another department, its sub-departments
+ * move up to its parent and its memberships are removed, in one transaction
+ *
+ * @param departmentId - ID of the department to delete
+ * @param reassignTo - Department that receives its documents; only optional when it has none
+ * @returns Promise that resolves to false if the department does not exist
+ * @throws Error if the department has documents and no reassignTo, or the deletion fails
+ */
+export async function deleteDepartment(departmentId: string, reassignTo: string | null): Promise<boolean> {
+  const { data, error } = await supabase.rpc('delete_department', {
+    target_department: departmentId,
+    reassign_to: reassignTo,
+  });
+
+  if (error) {
+    console.error('Error deleting department:', error);
+    throw error;
+  }
+
+  return data === true;
+}
+
+/**
+ * Merges a department into another one and deletes it
+ * Its documents, members and sub-departments move to the target; people who were
+ * members of both keep the higher role
+ *
+ * @param sourceId - ID of the department that disappears
+ * @param targetId - ID of the department that receives everything
+ * @returns Promise that resolves to false if either department does not exist
+ * @throws Error if the target is a sub-department of the source, or the merge fails
+ */
+export async function mergeDepartments(sourceId: string, targetId: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('merge_departments', {
+    source_department: sourceId,
+    target_department: targetId,
+  });
+
+  if (error) {
+    console.error('Error merging departments:', error);
+    throw error;
+  }
+
+  return data === true;
+}
+
+/**
+ * Changes who can see the documents of a department that do not set their own visibility
+ *
+ * @param departmentId - ID of the department
+ * @param visibility - New default visibility
+ * @returns Promise that resolves to the updated Department, or null if it does not exist
+ * @throws Error if the update fails
+ */
+export async function updateDepartmentVisibility(departmentId: string, visibility: Visibility): Promise<Department | null> {
+  const { data, error } = await supabase
+    .from('departments')
+    .update({ default_visibility: visibility })
+    .eq('id', departmentId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error updating department visibility:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Retrieves the chat model settings of a department
+ * Columns left NULL (or not created yet) fall back to the deployment defaults
+ * 
+ * @param departmentId - ID of the department
+ * @returns Promise that resolves to the settings overridden by the department, or null if it does not exist
+ */
+export async function getDepartmentLLMSettings(departmentId: string): Promise<Partial<CompletionSettings> | null> {
+  const { data, error } = await supabase
+    .from('departments')
+    .select('*')
+    .eq('id', departmentId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching department settings:', error);
+    return null;
+  }
+  if (!data) {
+    return null;
+  }
+
+  const department = data as Department;
+  return {
+    model: department.llm_model ?? undefined,
+    temperature: department.llm_temperature ?? undefined,
+    maxTokens: department.llm_max_tokens ?? undefined,
+  };
+}
@@ -1,18 +1,14 @@
 import { supabase } from '../supabase';
-import OpenAI from 'openai';
-import * as pdfjsLib from 'pdfjs-dist';
-
-// Configure PDF.js worker once when the module loads
-// Use local worker from the public folder (more reliable than CDN)
-// In Vite, files in /public are served from the root
-// The worker handles PDF parsing in a separate thread for better performance
-pdfjsLib.GlobalWorkerOptions.workerSrc = '/pdf.worker.min.mjs';
-
-const openaiApiKey = import.meta.env.VITE_OPENAI_API_KEY?.trim() || '';
-const openai = openaiApiKey ? new OpenAI({
-  apiKey: openaiApiKey,
-  dangerouslyAllowBrowser: true,
-}) : null;
+import { extractText, SUPPORTED_EXTENSIONS } from '../ingestion/extractText';
+import { describeRange, locateChunks } from '../ingestion/chunkMetadata';
+import { splitTable } from '../ingestion/tables';
+import { hashContent } from '../ingestion/hash';
+import { computeMinHash } from '../ingestion/minhash';
+import { createEmbeddingBatches, embedTexts, runWithConcurrency } from '../ingestion/embeddings';
+import type { EmbeddingProvider } from '../embeddings/providers';
+import { forgetActiveEmbeddingIndex, getActiveEmbeddingProvider } from './embeddingIndexes';
+import { ingestionConfig } from '../ingestion/config';
+import type { ChunkMetadata, ExtractedDocument } from '../ingestion/types';
 
 /**
  * Detects chunks that are likely to be covers, indexes, or tables of contents.
@@ -82,504 +78,465 @@ function isLikelyStructuralChunk(chunk: string): boolean {
   return looksLikeToc || looksLikeCover || highDigitShortText || veryLowSemantic;
 }
 
+// Parameters: chunk size 1200 chars, overlap 200 chars
+// Overlap helps maintain context between chunks
+const CHUNK_SIZE = 1200;
+const CHUNK_OVERLAP = 200;
+
 /**
- * Processes a specific document: extracts text, creates chunks, and generates embeddings
- * 
- * Process flow:
- * 1. Fetch document metadata from database
- * 2. Check if document already has chunks (skip if already processed)
- * 3. Download file from Supabase Storage
- * 4. Extract text based on file type (PDF, TXT, MD)
- * 5. Split text into semantic chunks
- * 6. Filter out structural chunks (covers, TOCs, indexes)
- * 7. Generate embeddings for each semantic chunk
- * 8. Save chunks with embeddings to database
- * 
- * @param documentId - ID of the document to process
- * @param onProgress - Optional callback to report progress (0-100)
- * @returns true if processed successfully, false otherwise
+ * A chunk ready to be embedded, with where it comes from in the document
  */
-export async function processDocument(
-  documentId: string,
-  onProgress?: (progress: number) => void
-): Promise<boolean> {
-  try {
-    if (!openai) {
-      console.warn('OpenAI is not configured, cannot process documents');
-      return false;
-    }
+interface PreparedChunk {
+  content: string;
+  metadata: ChunkMetadata | null;
+  isTable: boolean; // Rows of a table, with the table header repeated
+}
 
-    // Step 1: Get the document from database
-    // Fetch document metadata including file name and storage path
-    const { data: doc, error: docError } = await supabase
-      .from('documents')
-      .select('id, file_name, storage_path')
-      .eq('id', documentId)
-      .single();
-
-    if (docError || !doc) {
-      console.error(`Error fetching document ${documentId}:`, docError);
-      return false;
+/**
+ * Splits extracted text into chunks and drops structural ones (covers, TOCs, indexes)
+ * Tables are split by rows with their header repeated in every chunk; they are
+ * kept even if they look structural (mostly numbers, short cells)
+ * Each chunk keeps its page range, heading path and character offsets
+ *
+ * @param extracted - Text extracted from the document
+ * @returns Semantic chunks and the total number of chunks before filtering
+ */
+function prepareChunks(extracted: ExtractedDocument): { semanticChunks: PreparedChunk[]; totalChunks: number } {
+  const chunks: PreparedChunk[] = [];
+
+  // Text between tables goes through the regular splitter
+  const addText = (start: number, end: number) => {
+    const segment = extracted.text.slice(start, end);
+    if (!segment.trim()) return;
+
+    const pieces = splitIntoChunks(segment, CHUNK_SIZE, CHUNK_OVERLAP);
+    const ranges = locateChunks(segment, pieces);
+    pieces.forEach((content, i) => {
+      const range = ranges[i];
+      chunks.push({
+        content,
+        metadata: range ? describeRange(extracted, { start: start + range.start, end: start + range.end }) : null,
+        isTable: false,
+      });
+    });
+  };
+
+  let position = 0;
+  for (const table of extracted.tables) {
+    addText(position, table.start);
+    for (const piece of splitTable(extracted.text, table, CHUNK_SIZE)) {
+      chunks.push({ content: piece.content, metadata: describeRange(extracted, piece), isTable: true });
     }
+    position = table.end;
+  }
+  addText(position, extracted.text.length);
 
-    // Step 2: Check if document already has chunks
-    // Skip processing if chunks already exist (idempotent operation)
-    const { data: existingChunks } = await supabase
-      .from('document_chunks')
-      .select('id')
-      .eq('document_id', documentId)
-      .limit(1);
-
-    if (existingChunks && existingChunks.length > 0) {
-      console.log(`Document ${doc.file_name} already has processed chunks`);
-      onProgress?.(100);
-      return true;
-    }
+  const semanticChunks = chunks.filter(chunk => chunk.isTable || !isLikelyStructuralChunk(chunk.content));
 
-    onProgress?.(10);
+  return { semanticChunks, totalChunks: chunks.length };
+}
 
-    // Step 3: Get file from Storage
-    // Determine file extension to handle different file types
-    const fileExt = doc.file_name.split('.').pop()?.toLowerCase();
-    
-    // Only process supported file formats
-    if (!['txt', 'pdf', 'md'].includes(fileExt || '')) {
-      console.log(`Skipping ${doc.file_name}: format ${fileExt} not supported`);
-      return false;
-    }
+/**
+ * Error that stops the processing of a document
+ * retryable is false when trying again cannot help (missing document, unsupported
+ * format, no text); other failures (network, OpenAI) are retried by the job queue
+ */
+export class IngestionError extends Error {
+  retryable: boolean;
 
-    // Use storage_path if available, otherwise construct path from file name
-    const filePath = doc.storage_path || `documents/${doc.file_name}`;
-    onProgress?.(20);
+  constructor(message: string, retryable: boolean) {
+    super(message);
+    this.name = 'IngestionError';
+    this.retryable = retryable;
+  }
+}
 
-    // Download file content from Supabase Storage
-    const { data: fileData, error: downloadError } = await supabase.storage
-      .from('documents')
-      .download(filePath);
+/**
+ * The document was moved to the trash: its job is cancelled instead of retried
+ */
+export class DocumentTrashedError extends IngestionError {
+  constructor(fileName: string) {
+    super(`${fileName} is in the trash`, false);
+    this.name = 'DocumentTrashedError';
+  }
+}
 
-    if (downloadError || !fileData) {
-      console.warn(`Error downloading ${doc.file_name}:`, downloadError);
-      return false;
-    }
+/**
+ * Error of a chunk insert; chunks embedded with a model that is no longer the active
+ * one (the embedding index changed while the document was processed) are rejected by
+ * the database, and the job is retried with the new model
+ */
+function chunkInsertError(error: { message?: string }, fileName: string): unknown {
+  if (error.message?.includes('embedding_model_not_active')) {
+    forgetActiveEmbeddingIndex();
+    return new IngestionError(`The embedding index changed while processing ${fileName}`, true);
+  }
+  return error;
+}
 
-    onProgress?.(30);
+/**
+ * Progress of a document being processed, reported after every saved batch of chunks
+ */
+export interface ProcessingProgress {
+  chunksDone: number;
+  chunksTotal: number;
+}
 
-    // Step 4: Extract text based on file type
-    // Different extraction methods for PDF vs text files
-    let text: string = '';
-    
-    try {
-      if (fileExt === 'pdf') {
-        console.log(`Procesando PDF: ${doc.file_name}`);
-        const arrayBuffer = await fileData.arrayBuffer();
-        
-        const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-        const pdfDocument = await loadingTask.promise;
-        
-        console.log(`PDF tiene ${pdfDocument.numPages} página(s)`);
-        
-        const textParts: string[] = [];
-        for (let pageNum = 1; pageNum <= pdfDocument.numPages; pageNum++) {
-          const page = await pdfDocument.getPage(pageNum);
-          const textContent = await page.getTextContent();
-          const pageText = textContent.items
-            .map((item: any) => item.str)
-            .join(' ');
-          textParts.push(pageText);
-        }
-        
-        text = textParts.join('\n\n');
-      } else if (fileExt === 'md' || fileExt === 'txt') {
-        text = await fileData.text();
-      }
+/**
+ * Result of processing a document, compared with the chunks it already had
+ */
+export interface ReindexSummary {
+  added: number; // New chunks, embedded or with an embedding copied from an identical chunk
+  kept: number; // Unchanged chunks that kept their embedding
+  removed: number; // Chunks whose text is no longer in the document
+  reused: number; // Added chunks whose embedding was copied instead of generated
+}
 
-      // Validate that text was extracted successfully
-      if (!text || text.trim().length === 0) {
-        console.warn(`File ${doc.file_name} is empty or text could not be extracted`);
-        return false;
-      }
+/**
+ * A chunk already saved for the document, as compared by processDocument
+ */
+interface SavedChunk {
+  id: string;
+  chunk_index: number;
+  content_hash: string | null;
+  embedding_model: string | null;
+  char_start: number | null;
+  char_end: number | null;
+  page_start: number | null;
+  page_end: number | null;
+  heading_path: string[] | null;
+}
 
-      console.log(`✓ Text extracted from ${doc.file_name}: ${text.length} characters`);
-    } catch (extractionError) {
-      console.error(`Error extracting text from ${doc.file_name}:`, extractionError);
-      return false;
-    }
+// Rows per request when looking up, copying or deleting chunks by id or hash
+// Keeps the filters of the query string short
+const CHUNK_QUERY_BATCH = 100;
 
-    onProgress?.(50);
+/**
+ * Splits items into groups of at most size items
+ */
+function inGroups<T>(items: T[], size: number): T[][] {
+  const groups: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    groups.push(items.slice(i, i + size));
+  }
+  return groups;
+}
 
-    // Step 5: Split text into intelligent chunks
-    // Parameters: chunk size 1200 chars, overlap 200 chars
-    // Overlap helps maintain context between chunks
-    const chunks = splitIntoChunks(text, 1200, 200);
+/**
+ * Processes a specific document: extracts text, creates chunks, and generates embeddings
+ * Called by the ingestion job worker (see ingestionJobs.ts), never inline in a request
+ * 
+ * Process flow:
+ * 1. Fetch document metadata from database
+ * 2. Download file from Supabase Storage; if it did not change since it was last
+ *    processed and its chunks use the active model, there is nothing to do
+ * 3. Extract text based on file type (PDF, DOCX, PPTX, XLSX, HTML, TXT, MD, images)
+ * 4. Split text into semantic chunks (tables by rows, with their header repeated)
+ * 5. Filter out structural chunks (covers, TOCs, indexes)
+ * 6. Match the chunks with the saved ones by content hash: unchanged chunks keep
+ *    their embedding, and only their position is updated if it moved
+ * 7. Copy the embedding of identical chunks of other documents (previous versions)
+ * 8. Generate embeddings for the remaining chunks in batches and bulk-save them
+ * 9. Delete the saved chunks whose text is no longer in the document
+ * 
+ * Chunks saved by a failed attempt match by hash too, so a retried job resumes
+ * where the failed attempt stopped
+ * 
+ * @param documentId - ID of the document to process
+ * @param onProgress - Optional callback called after every saved batch
+ * @param beforeWrite - Optional check run before every write; throwing stops the
+ * processing (the job worker uses it to stop when its job was taken over)
+ * @returns How many chunks were added, kept and removed
+ * @throws IngestionError if the document cannot be processed, or the error of the
+ * failed embedding/insert (retryable)
+ */
+export async function processDocument(
+  documentId: string,
+  onProgress?: (progress: ProcessingProgress) => Promise<void> | void,
+  beforeWrite?: () => Promise<void> | void
+): Promise<ReindexSummary> {
+  // Model of the active embedding index; a migration in progress catches up with new chunks
+  let provider: EmbeddingProvider;
+  try {
+    provider = await getActiveEmbeddingProvider();
+  } catch (providerError) {
+    console.error('Embedding provider is not configured, cannot process documents:', providerError);
+    throw new IngestionError('Embedding provider is not configured', true);
+  }
 
-    // Filter out structural chunks (covers, TOCs, indexes)
-    // These chunks don't contain semantic content and degrade search quality
-    const semanticChunks = chunks.filter(chunk => !isLikelyStructuralChunk(chunk));
-    const skippedChunks = chunks.length - semanticChunks.length;
+  // Step 1: Get the document from database
+  // Fetch document metadata including file name and storage path
+  const { data: doc, error: docError } = await supabase
+    .from('documents')
+    .select('id, file_name, storage_path, content_hash, minhash, deleted_at')
+    .eq('id', documentId)
+    .single();
+
+  if (docError || !doc) {
+    console.error(`Error fetching document ${documentId}:`, docError);
+    throw new IngestionError(`Document ${documentId} not found`, false);
+  }
+  if (doc.deleted_at) {
+    throw new DocumentTrashedError(doc.file_name);
+  }
 
-    if (skippedChunks > 0) {
-      console.log(`ⓘ Chunks discarded as structural for "${doc.file_name}": ${skippedChunks}/${chunks.length}`);
-    }
+  // Step 2: Get file from Storage
+  // Determine file extension to handle different file types
+  const fileExt = doc.file_name.split('.').pop()?.toLowerCase() || '';
+  
+  // Only process supported file formats
+  if (!SUPPORTED_EXTENSIONS.includes(fileExt)) {
+    throw new IngestionError(`Format ${fileExt} of ${doc.file_name} is not supported`, false);
+  }
 
-    // If all chunks are structural, skip embedding generation
-    // This is not an error - some documents may only contain structural content
-    if (semanticChunks.length === 0) {
-      console.warn(`⚠️ All chunks of "${doc.file_name}" appear to be structural. Skipping embedding generation.`);
-      return true; // Not an error, simply no semantic content
-    }
+  // Use storage_path if available, otherwise construct path from file name
+  const filePath = doc.storage_path || `documents/${doc.file_name}`;
 
-    onProgress?.(60);
+  // Download file content from Supabase Storage
+  const { data: fileData, error: downloadError } = await supabase.storage
+    .from('documents')
+    .download(filePath);
 
-    // Step 6: Generate embeddings and save chunks
-    // Process each semantic chunk: generate embedding and save to database
-    const totalChunks = semanticChunks.length;
-    for (let i = 0; i < semanticChunks.length; i++) {
-      const chunk = semanticChunks[i];
-      
-      try {
-        // Generate embedding vector for this chunk using OpenAI
-        // text-embedding-3-small creates 1536-dimensional vectors
-        const embeddingResponse = await openai.embeddings.create({
-          model: 'text-embedding-3-small',
-          input: chunk,
-        });
-
-        const embedding = embeddingResponse.data[0].embedding;
-
-        // Save chunk to database with its embedding
-        // The embedding is stored as a vector in PostgreSQL using pgvector extension
-        const { error: insertError } = await supabase
-          .from('document_chunks')
-          .insert({
-            document_id: doc.id,
-            chunk_index: i,
-            content: chunk,
-            embedding: embedding,
-          });
-
-        if (insertError) {
-          console.error(`❌ Error saving chunk ${i + 1}/${totalChunks} of ${doc.file_name}:`, insertError);
-        }
+  if (downloadError || !fileData) {
+    console.warn(`Error downloading ${doc.file_name}:`, downloadError);
+    throw new IngestionError(`Could not download ${doc.file_name} from Storage`, true);
+  }
 
-        // Update progress: 60% base + up to 35% for chunk processing
-        const progress = 60 + Math.floor((i + 1) / totalChunks * 35);
-        onProgress?.(progress);
-      } catch (chunkError) {
-        console.error(`Error processing chunk ${i} of ${doc.file_name}:`, chunkError);
-      }
-    }
+  const fileHash = hashContent(Buffer.from(await fileData.arrayBuffer()));
 
-    onProgress?.(95);
+  const { data: savedRows, error: savedError } = await supabase
+    .from('document_chunks')
+    .select('id, chunk_index, content_hash, embedding_model, char_start, char_end, page_start, page_end, heading_path')
+    .eq('document_id', doc.id);
 
-    // Step 7: Verify that chunks were saved correctly
-    // Count chunks with embeddings to confirm successful processing
-    const { count: chunksCount } = await supabase
-      .from('document_chunks')
-      .select('*', { count: 'exact', head: true })
-      .eq('document_id', doc.id)
-      .not('embedding', 'is', null);
-    
-    console.log(`✓✓✓ Document "${doc.file_name}" processed successfully:`);
-    console.log(`   → Chunks with embeddings saved: ${chunksCount || 0}`);
+  if (savedError) {
+    console.error(`Error fetching saved chunks of ${doc.file_name}:`, savedError);
+    throw savedError;
+  }
 
-    onProgress?.(100);
-    return true;
-  } catch (error) {
-    console.error(`Error procesando documento ${documentId}:`, error);
-    return false;
+  const savedChunks = (savedRows || []) as SavedChunk[];
+  // Chunks embedded with another model cannot be mixed with new ones, so they are replaced
+  const isReusable = (chunk: SavedChunk) => !!chunk.content_hash && chunk.embedding_model === provider.model;
+
+  // Same file as the last complete processing: skip extraction (OCR can take minutes)
+  // Documents processed before duplicate detection existed still need their signature
+  if (doc.content_hash === fileHash && doc.minhash && savedChunks.every(isReusable)) {
+    console.log(`✓ "${doc.file_name}" has not changed since it was processed: ${savedChunks.length} chunks kept`);
+    await onProgress?.({ chunksDone: savedChunks.length, chunksTotal: savedChunks.length });
+    return { added: 0, kept: savedChunks.length, removed: 0, reused: 0 };
   }
-}
 
-/**
- * Automatically processes documents: extracts text, creates chunks, and generates embeddings
- * Supports TXT, PDF, and Markdown (.md) files
- * 
- * This function processes all documents with 'processed' status that don't have chunks yet.
- * It's designed to be idempotent - documents already processed are skipped.
- * 
- * @returns Promise that resolves to true if processing completed, false on error
- */
-export async function processDocumentsAutomatically(): Promise<boolean> {
+  // Step 3: Extract text based on file type
+  // Keeps page and heading positions so chunks can record where they come from
+  let extracted: ExtractedDocument;
+  
   try {
-    if (!openai) {
-      console.warn('OpenAI is not configured, cannot process documents');
-      return false;
-    }
-
-    // Step 1: Get ALL processed documents (no limit)
-    // Only fetch documents with 'processed' status (ready for chunking)
-    // Order by upload date descending (most recent first)
-    const { data: allDocuments, error: docsError } = await supabase
-      .from('documents')
-      .select('id, file_name, storage_path')
-      .eq('status', 'processed')
-      .order('uploaded_at', { ascending: false }); // Most recent first
-
-    if (docsError || !allDocuments || allDocuments.length === 0) {
-      console.log('No hay documentos con status "processed" para procesar');
-      return false;
-    }
+    console.log(`Procesando ${fileExt.toUpperCase()}: ${doc.file_name}`);
+    extracted = await extractText(fileExt, fileData);
+  } catch (extractionError) {
+    console.error(`Error extracting text from ${doc.file_name}:`, extractionError);
+    throw new IngestionError(`Text could not be extracted from ${doc.file_name}`, false);
+  }
 
-    console.log(`Total de documentos encontrados: ${allDocuments.length}`);
+  // Validate that text was extracted successfully
+  if (!extracted.text || extracted.text.trim().length === 0) {
+    throw new IngestionError(`File ${doc.file_name} is empty or text could not be extracted`, false);
+  }
 
-    // Step 2: Check which documents already have chunks
-    // Create a set of document IDs that already have chunks to skip them
-    const allDocumentIds = allDocuments.map(doc => doc.id);
-    const { data: existingChunks } = await supabase
-      .from('document_chunks')
-      .select('document_id')
-      .in('document_id', allDocumentIds);
+  console.log(`✓ Text extracted from ${doc.file_name}: ${extracted.text.length} characters`);
 
-    // Build set of processed document IDs for fast lookup
-    const processedDocIds = new Set(existingChunks?.map(chunk => chunk.document_id) || []);
-    // Filter to only documents that need processing
-    const documentsToProcess = allDocuments.filter(doc => !processedDocIds.has(doc.id));
+  // Step 4: Split text into intelligent chunks
+  // Filter out structural chunks (covers, TOCs, indexes)
+  // These chunks don't contain semantic content and degrade search quality
+  const { semanticChunks, totalChunks: allChunksCount } = prepareChunks(extracted);
+  const skippedChunks = allChunksCount - semanticChunks.length;
 
-    console.log(`Documents with chunks: ${processedDocIds.size}`);
-    console.log(`Documents to process: ${documentsToProcess.length}`);
+  if (skippedChunks > 0) {
+    console.log(`ⓘ Chunks discarded as structural for "${doc.file_name}": ${skippedChunks}/${allChunksCount}`);
+  }
 
-    if (documentsToProcess.length === 0) {
-      console.log('All documents are already processed');
-      return true; // Already processed
-    }
+  // If all chunks are structural, no embeddings are generated and saved chunks are removed
+  // This is not an error - some documents may only contain structural content
+  if (semanticChunks.length === 0) {
+    console.warn(`⚠️ All chunks of "${doc.file_name}" appear to be structural. Skipping embedding generation.`);
+  }
 
-    console.log(`Documents to process:`, documentsToProcess.map(d => d.file_name));
+  // Step 6: Match chunks with the saved ones by content hash
+  // Identical texts (repeated table headers, boilerplate) are matched one to one
+  const savedByHash = new Map<string, SavedChunk[]>();
+  for (const saved of savedChunks.filter(isReusable)) {
+    const sameHash = savedByHash.get(saved.content_hash as string) || [];
+    sameHash.push(saved);
+    savedByHash.set(saved.content_hash as string, sameHash);
+  }
 
-    // Step 3: Process each document
-    // Process documents sequentially to avoid overwhelming the API
-    for (const doc of documentsToProcess) {
-      try {
-        // Get file from Storage
-        // Determine file extension to handle different file types
-        const fileExt = doc.file_name.split('.').pop()?.toLowerCase();
-        
-        // Only process supported file formats: TXT, PDF, and Markdown
-        if (!['txt', 'pdf', 'md'].includes(fileExt || '')) {
-          console.log(`Skipping ${doc.file_name}: format ${fileExt} not supported. Only TXT, PDF, and MD are processed automatically`);
-          continue;
-        }
+  const keptChunks: { saved: SavedChunk; chunk: PreparedChunk; index: number }[] = [];
+  const pendingChunks: { chunk: PreparedChunk; index: number; hash: string }[] = [];
+  semanticChunks.forEach((chunk, index) => {
+    const hash = hashContent(chunk.content);
+    const saved = savedByHash.get(hash)?.shift();
+    if (saved) {
+      keptChunks.push({ saved, chunk, index });
+    } else {
+      pendingChunks.push({ chunk, index, hash });
+    }
+  });
 
-        // Find the file in Storage
-        let filePath: string | null = null;
-
-        // First, try to use storage_path if available
-        // storage_path is the most reliable way to locate the file
-        if (doc.storage_path) {
-          filePath = doc.storage_path;
-          console.log(`Using saved storage_path: ${filePath}`);
-        } else {
-          // If no storage_path, search for file by name
-          // This is a fallback when storage_path is not set
-          const { data: allFiles, error: listError } = await supabase.storage
-            .from('documents')
-            .list('documents', {
-              limit: 100,
-              sortBy: { column: 'created_at', order: 'desc' },
-            });
-
-          if (listError) {
-            console.warn(`Error listing files:`, listError);
-            continue;
-          }
-
-          if (!allFiles || allFiles.length === 0) {
-            console.warn(`No files found in Storage to search`);
-            continue;
-          }
-
-          // Find file that matches the document name
-          // Extract file extension from document name
-          const docNameParts = doc.file_name.toLowerCase().split('.');
-          const docExt = docNameParts[docNameParts.length - 1]?.toLowerCase();
-
-          // Search for files with the same extension
-          // Match by extension since exact name match may not work
-          const filesWithSameExt = allFiles.filter(file => {
-            const fileName = file.name.toLowerCase();
-            return fileName.endsWith(`.${docExt}`);
-          });
-
-          if (filesWithSameExt.length === 0) {
-            console.warn(`No file found with extension .${docExt} for ${doc.file_name}`);
-            console.log('Available files in Storage:', allFiles.map(f => f.name));
-            continue;
-          }
-
-          // Use the most recent file with that extension
-          // Assumes the last uploaded file is the correct one
-          const matchingFile = filesWithSameExt
-            .sort((a, b) => {
-              const dateA = new Date(a.created_at || a.updated_at || 0).getTime();
-              const dateB = new Date(b.created_at || b.updated_at || 0).getTime();
-              return dateB - dateA; // Most recent first
-            })[0];
-
-          if (!matchingFile) {
-            console.warn(`Could not determine file for ${doc.file_name}`);
-            continue;
-          }
-
-          filePath = `documents/${matchingFile.name}`;
-          console.log(`✓ File found: ${filePath} for document "${doc.file_name}"`);
-        }
+  const keptIds = new Set(keptChunks.map(({ saved }) => saved.id));
+  const removedIds = savedChunks.filter(chunk => !keptIds.has(chunk.id)).map(chunk => chunk.id);
+  const totalChunks = semanticChunks.length;
+  let chunksDone = keptChunks.length;
 
-        // Get file content from Storage
-        const { data: fileData, error: downloadError } = await supabase.storage
-          .from('documents')
-          .download(filePath);
+  if (chunksDone > 0) {
+    console.log(`↻ "${doc.file_name}": ${chunksDone}/${totalChunks} chunks unchanged, ${pendingChunks.length} to embed`);
+  }
+  await onProgress?.({ chunksDone, chunksTotal: totalChunks });
+
+  // Unchanged text can move (text added above it): update its position only
+  const movedChunks = keptChunks.filter(({ saved, chunk, index }) => {
+    const metadata = chunk.metadata;
+    return saved.chunk_index !== index ||
+      (metadata !== null && (
+        saved.char_start !== metadata.char_start ||
+        saved.char_end !== metadata.char_end ||
+        saved.page_start !== metadata.page_start ||
+        saved.page_end !== metadata.page_end ||
+        (saved.heading_path || []).join('\n') !== metadata.heading_path.join('\n')
+      ));
+  });
+
+  await runWithConcurrency(movedChunks, ingestionConfig.embeddingConcurrency, async ({ saved, chunk, index }) => {
+    await beforeWrite?.();
+    const { error: moveError } = await supabase
+      .from('document_chunks')
+      .update({ chunk_index: index, ...chunk.metadata })
+      .eq('id', saved.id);
 
-        if (downloadError || !fileData) {
-          console.warn(`Error downloading ${doc.file_name}:`, downloadError);
-          continue;
-        }
+    if (moveError) {
+      console.error(`Error updating the position of chunk ${index + 1} of ${doc.file_name}:`, moveError);
+      throw moveError;
+    }
+  });
 
-        // Extract text based on file type
-        // Different extraction methods for PDF vs text files
-        let text: string = '';
-
-        try {
-          if (fileExt === 'pdf') {
-            // Process PDF using pdfjs-dist (browser-compatible)
-            console.log(`Processing PDF: ${doc.file_name}`);
-            const arrayBuffer = await fileData.arrayBuffer();
-            
-            // Worker is already configured at module initialization
-            console.log(`Using worker: ${pdfjsLib.GlobalWorkerOptions.workerSrc}`);
-            
-            try {
-              // Load the PDF document
-              const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-              const pdfDocument = await loadingTask.promise;
-              
-              console.log(`PDF has ${pdfDocument.numPages} page(s)`);
-              
-              // Extract text from all pages
-              // Process each page sequentially to extract text content
-              const textParts: string[] = [];
-              for (let pageNum = 1; pageNum <= pdfDocument.numPages; pageNum++) {
-                const page = await pdfDocument.getPage(pageNum);
-                const textContent = await page.getTextContent();
-                // Join text items from the page into a single string
-                const pageText = textContent.items
-                  .map((item: any) => item.str)
-                  .join(' ');
-                textParts.push(pageText);
-                console.log(`✓ Page ${pageNum}/${pdfDocument.numPages} processed`);
-              }
-              
-              // Join all pages with double newlines
-              text = textParts.join('\n\n');
-            } catch (pdfError) {
-              console.error(`Error processing PDF ${doc.file_name}:`, pdfError);
-              throw pdfError;
-            }
-          } else if (fileExt === 'md' || fileExt === 'txt') {
-            // Process Markdown or TXT (both are plain text)
-            // Simply read as text string
-            text = await fileData.text();
-          } else {
-            console.warn(`Format not supported: ${fileExt}`);
-            continue;
-          }
-
-          // Validate extracted text
-          if (!text || text.trim().length === 0) {
-            console.warn(`File ${doc.file_name} is empty or text could not be extracted`);
-            continue;
-          }
-
-          console.log(`✓ Text extracted from ${doc.file_name}: ${text.length} characters`);
-        } catch (extractionError) {
-          console.error(`Error extracting text from ${doc.file_name}:`, extractionError);
-          continue;
-        }
+  // Step 7: Copy the embedding of identical chunks already embedded with the same model
+  // (a previous version of the document, or the same text in another document)
+  const copies = new Map<string, { embedding: unknown; embedding_dimensions: number | null }>();
+  for (const hashes of inGroups(Array.from(new Set(pendingChunks.map(({ hash }) => hash))), CHUNK_QUERY_BATCH)) {
+    const { data: identical, error: identicalError } = await supabase
+      .from('document_chunks')
+      .select('content_hash, embedding, embedding_dimensions')
+      .in('content_hash', hashes)
+      .eq('embedding_model', provider.model)
+      .not('embedding', 'is', null)
+      .not('embedding_dimensions', 'is', null);
+
+    if (identicalError) {
+      console.error(`Error looking up embeddings to reuse for ${doc.file_name}:`, identicalError);
+      throw identicalError;
+    }
+    for (const row of identical || []) {
+      copies.set(row.content_hash, { embedding: row.embedding, embedding_dimensions: row.embedding_dimensions });
+    }
+  }
 
-        // Step 4: Split into intelligent chunks (respecting paragraphs and sentences)
-        // Larger chunk size and more generous overlap to maintain context
-        const chunks = splitIntoChunks(text, 1200, 200);
+  const reusedChunks = pendingChunks.filter(({ hash }) => copies.has(hash));
+  for (const batch of inGroups(reusedChunks, CHUNK_QUERY_BATCH)) {
+    await beforeWrite?.();
+    const { error: copyError } = await supabase
+      .from('document_chunks')
+      .insert(batch.map(({ chunk, index, hash }) => ({
+        document_id: doc.id,
+        chunk_index: index,
+        content: chunk.content,
+        content_hash: hash,
+        ...copies.get(hash),
+        embedding_model: provider.model,
+        ...chunk.metadata,
+      })));
+
+    if (copyError) {
+      console.error(`❌ Error saving reused chunks of ${doc.file_name}:`, copyError);
+      throw chunkInsertError(copyError, doc.file_name);
+    }
 
-        // Filter structural chunks (indexes/covers/TOC) before generating embeddings
-        // This improves search quality by removing non-semantic content
-        const semanticChunks = chunks.filter(chunk => !isLikelyStructuralChunk(chunk));
-        const skippedChunks = chunks.length - semanticChunks.length;
+    chunksDone += batch.length;
+    await onProgress?.({ chunksDone, chunksTotal: totalChunks });
+  }
 
-        if (skippedChunks > 0) {
-          console.log(`ⓘ Chunks discarded as structural for "${doc.file_name}": ${skippedChunks}/${chunks.length}`);
-        }
+  // Step 8: Generate embeddings and save chunks, one batch per API request
+  // Batches run EMBEDDING_CONCURRENCY at a time; each one is bulk-inserted as soon as
+  // it is embedded, so it is a checkpoint. A failure stops the attempt and the job
+  // is retried later from the batches already saved
+  const chunksToEmbed = pendingChunks.filter(({ hash }) => !copies.has(hash));
+  const batches = createEmbeddingBatches(chunksToEmbed, ({ chunk }) => chunk.content);
+
+  await runWithConcurrency(batches, ingestionConfig.embeddingConcurrency, async batch => {
+    const embeddings = await embedTexts(provider, batch.map(({ chunk }) => chunk.content));
+
+    // Save the chunks of the batch with their embeddings in a single insert
+    // The embedding is stored as a vector in PostgreSQL using pgvector extension,
+    // with the model that created it so it is only compared with vectors of that model
+    await beforeWrite?.();
+    const { error: insertError } = await supabase
+      .from('document_chunks')
+      .insert(batch.map(({ chunk, index, hash }, i) => ({
+        document_id: doc.id,
+        chunk_index: index,
+        content: chunk.content,
+        content_hash: hash,
+        embedding: embeddings[i],
+        embedding_model: provider.model,
+        embedding_dimensions: embeddings[i].length,
+        ...chunk.metadata, // Page range, heading path and character offsets
+      })));
+
+    if (insertError) {
+      console.error(`❌ Error saving chunks ${batch[0].index + 1}-${batch[batch.length - 1].index + 1}/${totalChunks} of ${doc.file_name}:`, insertError);
+      throw chunkInsertError(insertError, doc.file_name);
+    }
 
-        if (semanticChunks.length === 0) {
-          console.warn(`⚠️ All chunks of "${doc.file_name}" appear to be structural (cover/index). Skipping embedding generation.`);
-          continue;
-        }
+    chunksDone += batch.length;
+    await onProgress?.({ chunksDone, chunksTotal: totalChunks });
+  });
 
-        // Step 5: Generate embeddings and save chunks
-        // Process each semantic chunk sequentially
-        for (let i = 0; i < semanticChunks.length; i++) {
-          const chunk = semanticChunks[i];
-          
-          try {
-            // Generate embedding vector for this chunk
-            const embeddingResponse = await openai.embeddings.create({
-              model: 'text-embedding-3-small',
-              input: chunk,
-            });
-
-            const embedding = embeddingResponse.data[0].embedding;
-
-            // Save chunk to database
-            // Note: Supabase/pgvector accepts the array directly
-            const { error: insertError } = await supabase
-              .from('document_chunks')
-              .insert({
-                document_id: doc.id,
-                chunk_index: i,
-                content: chunk,
-                embedding: embedding, // Array of numbers directly
-              });
-
-            if (insertError) {
-              console.error(`❌ Error saving chunk ${i + 1}/${chunks.length} of ${doc.file_name}:`, insertError);
-              console.error('Error details:', JSON.stringify(insertError, null, 2));
-            } else {
-              // Log progress every 5 chunks or on last chunk
-              if ((i + 1) % 5 === 0 || i === semanticChunks.length - 1) {
-                console.log(`  → Chunk ${i + 1}/${semanticChunks.length} saved for ${doc.file_name}`);
-              }
-            }
-          } catch (chunkError) {
-            console.error(`Error processing chunk ${i} of ${doc.file_name}:`, chunkError);
-            // Continue with next chunk
-          }
-        }
+  // Step 9: Remove the chunks whose text is gone, once the new ones are saved,
+  // so searches never see the document without chunks
+  for (const ids of inGroups(removedIds, CHUNK_QUERY_BATCH)) {
+    await beforeWrite?.();
+    const { error: removeError } = await supabase
+      .from('document_chunks')
+      .delete()
+      .in('id', ids);
 
-        // Verify that chunks were saved correctly
-        // Count chunks with embeddings to confirm successful processing
-        const { count: chunksCount } = await supabase
-          .from('document_chunks')
-          .select('*', { count: 'exact', head: true })
-          .eq('document_id', doc.id)
-          .not('embedding', 'is', null);
-        
-        console.log(`✓✓✓ Document "${doc.file_name}" processed successfully:`);
-        console.log(`   → Total chunks detected: ${chunks.length}`);
-        console.log(`   → Chunks discarded as structural: ${skippedChunks}`);
-        console.log(`   → Chunks with embeddings saved: ${chunksCount || 0}`);
-        
-        // Warn if not all semantic chunks were saved
-        if (chunksCount !== semanticChunks.length) {
-          console.warn(`⚠️ Warning: Attempted to create ${semanticChunks.length} useful chunks but only ${chunksCount} were saved successfully`);
-        }
-      } catch (docError) {
-        console.error(`Error procesando documento ${doc.file_name}:`, docError);
-        // Continuar con el siguiente documento
-      }
+    if (removeError) {
+      console.error(`Error removing outdated chunks of ${doc.file_name}:`, removeError);
+      throw removeError;
     }
+  }
 
-    return true;
-  } catch (error) {
-    console.error('Error en processDocumentsAutomatically:', error);
-    return false;
+  // Only a complete processing records the hash, so a failed one is never skipped
+  // The MinHash signature of the text lets uploads detect near-duplicates of this document
+  await beforeWrite?.();
+  const { error: hashError } = await supabase
+    .from('documents')
+    .update({ content_hash: fileHash, minhash: computeMinHash(extracted.text) })
+    .eq('id', doc.id);
+
+  if (hashError) {
+    console.warn(`Error saving the content hash and signature of ${doc.file_name}:`, hashError);
   }
+
+  const summary: ReindexSummary = {
+    added: pendingChunks.length,
+    kept: keptChunks.length,
+    removed: removedIds.length,
+    reused: reusedChunks.length,
+  };
+
+  console.log(`✓✓✓ Document "${doc.file_name}" processed successfully:`);
+  console.log(`   → Chunks added: ${summary.added} (${summary.reused} with a reused embedding)`);
+  console.log(`   → Chunks kept: ${summary.kept}, removed: ${summary.removed}`);
+  return summary;
 }
 
 /**
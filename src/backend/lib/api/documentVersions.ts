@@ -0,0 +1,310 @@
+import { supabase } from '../supabase';
+import { getDocumentById, getDocumentContent, uploadDocument, type Document, type UploadedFile } from './documents';
+
+/**
+ * Línea de una comparación entre dos versiones
+ */
+export interface DiffLine {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Bloque de cambios con algunas líneas de contexto alrededor
+ * fromStart y toStart son el número de línea (desde 1) de su primera línea en cada versión
+ */
+export interface DiffHunk {
+  fromStart: number;
+  toStart: number;
+  lines: DiffLine[];
+}
+
+/**
+ * Diferencias entre el texto de dos versiones de un documento
+ */
+export interface DocumentDiff {
+  from: Document;
+  to: Document;
+  hunks: DiffHunk[];
+  added: number; // Líneas añadidas
+  removed: number; // Líneas quitadas
+}
+
+// Unchanged lines shown around each change
+const DIFF_CONTEXT_LINES = 3;
+
+// Beyond this many changed lines the diff stops looking for the shortest edit script
+// and shows the differing block as removed and added; keeps memory bounded
+const MAX_DIFF_EDIT_DISTANCE = 2000;
+
+const DOCUMENT_SELECT = `
+  *,
+  departments (
+    id,
+    name
+  )
+`;
+
+/**
+ * Obtiene todas las versiones de un documento, la más reciente primero
+ *
+ * @param documentId - ID de cualquiera de las versiones
+ * @returns Las versiones, o null si el documento no existe o está en la papelera
+ */
+export async function getDocumentVersions(documentId: string): Promise<Document[] | null> {
+  const document = await getDocumentById(documentId);
+  if (!document) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('documents')
+    .select(DOCUMENT_SELECT)
+    .eq('version_group_id', document.version_group_id || document.id)
+    .is('deleted_at', null)
+    .order('version_number', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching document versions:', error);
+    throw error;
+  }
+
+  return (data || []).map(doc => ({
+    ...doc,
+    department: doc.departments ? {
+      id: doc.departments.id,
+      name: doc.departments.name,
+    } : undefined,
+  }));
+}
+
+/**
+ * Sube una versión nueva de un documento y pone en cola su procesamiento
+ * La versión anterior sigue siendo la vigente (la que usan las búsquedas) hasta que la
+ * nueva termina de procesarse; sus chunks se conservan para consultar versiones anteriores
+ *
+ * @param file - Archivo de la versión nueva
+ * @param documentId - ID de cualquiera de las versiones del documento
+ * @param uploaderId - Usuario que sube la versión
+ * @returns La versión nueva, o null si el documento no existe o está en la papelera
+ */
+export async function uploadDocumentVersion(
+  file: UploadedFile,
+  documentId: string,
+  uploaderId: string
+): Promise<Document | null> {
+  const document = await getDocumentById(documentId);
+  if (!document) {
+    return null;
+  }
+
+  const groupId = document.version_group_id || document.id;
+  const { data: latest, error } = await supabase
+    .from('documents')
+    .select('version_number')
+    .eq('version_group_id', groupId)
+    .order('version_number', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching latest document version:', error);
+    throw error;
+  }
+
+  return uploadDocument(file, document.department_id, uploaderId, {
+    groupId,
+    number: (latest?.version_number || 1) + 1,
+    visibility: document.visibility ?? null,
+    restrictedTo: document.restricted_to || [],
+  });
+}
+
+/**
+ * Hace vigente una versión recién procesada, salvo que ya haya una versión vigente más reciente
+ * Llamada por el worker de ingesta al terminar un documento
+ *
+ * @param documentId - ID de la versión procesada
+ * @returns true si la versión es la vigente
+ */
+export async function activateDocumentVersion(documentId: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('set_current_document_version', {
+    target_document: documentId,
+  });
+
+  if (error) {
+    console.error('Error activating document version:', error);
+    throw error;
+  }
+
+  return data === true;
+}
+
+/**
+ * Compara el texto de dos versiones de un mismo documento, línea a línea
+ *
+ * @param fromId - Versión de referencia (normalmente la anterior)
+ * @param toId - Versión comparada
+ * @returns Las diferencias, o null si alguna versión no existe o son de documentos distintos
+ */
+export async function diffDocumentVersions(fromId: string, toId: string): Promise<DocumentDiff | null> {
+  const [from, to] = await Promise.all([getDocumentContent(fromId), getDocumentContent(toId)]);
+  if (!from || !to) {
+    return null;
+  }
+
+  const fromGroup = from.document.version_group_id || from.document.id;
+  const toGroup = to.document.version_group_id || to.document.id;
+  if (fromGroup !== toGroup) {
+    return null;
+  }
+
+  // Overlap between chunks is already removed, so the chunks joined give back the text
+  const toLines = (chunks: { text: string }[]) => chunks.map(chunk => chunk.text).join('\n').split('\n');
+  const lines = diffLines(toLines(from.chunks), toLines(to.chunks));
+
+  return {
+    from: from.document,
+    to: to.document,
+    hunks: toHunks(lines, DIFF_CONTEXT_LINES),
+    added: lines.filter(line => line.type === 'added').length,
+    removed: lines.filter(line => line.type === 'removed').length,
+  };
+}
+
+/**
+ * Diferencias línea a línea entre dos textos
+ * Quita el principio y el final comunes y aplica el algoritmo de Myers al resto
+ *
+ * @param a - Líneas del texto original
+ * @param b - Líneas del texto nuevo
+ * @returns Todas las líneas, marcadas como iguales, añadidas o quitadas
+ */
+export function diffLines(a: string[], b: string[]): DiffLine[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const equal = (text: string): DiffLine => ({ type: 'equal', text });
+  return [
+    ...a.slice(0, start).map(equal),
+    ...myersDiff(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(equal),
+  ];
+}
+
+/**
+ * Algoritmo de Myers: camino más corto de ediciones entre a y b
+ * Si hacen falta más de MAX_DIFF_EDIT_DISTANCE ediciones, marca todo a como quitado y todo b como añadido
+ */
+function myersDiff(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_DIFF_EDIT_DISTANCE);
+  const offset = max + 1;
+  // v[offset + k]: furthest x reached on diagonal k; trace keeps v before every step
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace, offset);
+      }
+    }
+  }
+
+  return [
+    ...a.map((text): DiffLine => ({ type: 'removed', text })),
+    ...b.map((text): DiffLine => ({ type: 'added', text })),
+  ];
+}
+
+/**
+ * Recorre hacia atrás los pasos guardados por myersDiff para obtener las líneas
+ */
+function backtrack(a: string[], b: string[], trace: Int32Array[], offset: number): DiffLine[] {
+  const lines: DiffLine[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const v = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : v[offset + prevK];
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      lines.push({ type: 'equal', text: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) {
+        lines.push({ type: 'added', text: b[y - 1] });
+      } else {
+        lines.push({ type: 'removed', text: a[x - 1] });
+      }
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return lines.reverse();
+}
+
+/**
+ * Agrupa las líneas cambiadas en bloques con contextLines líneas iguales alrededor
+ */
+function toHunks(lines: DiffLine[], contextLines: number): DiffHunk[] {
+  const visible = new Array<boolean>(lines.length).fill(false);
+  lines.forEach((line, index) => {
+    if (line.type === 'equal') return;
+    const end = Math.min(lines.length - 1, index + contextLines);
+    for (let i = Math.max(0, index - contextLines); i <= end; i++) {
+      visible[i] = true;
+    }
+  });
+
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let fromLine = 1;
+  let toLine = 1;
+
+  lines.forEach((line, index) => {
+    if (visible[index]) {
+      if (!current) {
+        current = { fromStart: fromLine, toStart: toLine, lines: [] };
+        hunks.push(current);
+      }
+      current.lines.push(line);
+    } else {
+      current = null;
+    }
+
+    if (line.type !== 'added') fromLine++;
+    if (line.type !== 'removed') toLine++;
+  });
+
+  return hunks;
+}
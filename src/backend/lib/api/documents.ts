@@ -1,5 +1,16 @@
 import { supabase } from '../supabase';
-import { processDocument } from './documentProcessing';
+import { enqueueIngestionJob } from './ingestionJobs';
+import { overlapLength } from '../rag/context';
+import { expandSiteArchive } from '../ingestion/siteArchive';
+import { hashContent } from '../ingestion/hash';
+import { numberFromEnv } from '../rag/config';
+import { canViewDocument, type DocumentAccess, type Viewer, type Visibility } from '../auth/visibility';
+
+// Días que un documento borrado pasa en la papelera antes de borrarse definitivamente
+export const TRASH_RETENTION_DAYS = numberFromEnv('DOCUMENT_TRASH_RETENTION_DAYS', 30);
+
+// Cada cuánto se buscan documentos cuyo periodo en la papelera ha vencido
+const TRASH_PURGE_INTERVAL_MS = 60 * 60 * 1000;
 
 export interface Document {
   id: string;
@@ -9,6 +20,12 @@ export interface Document {
   status: 'processing' | 'processed' | 'error';
   uploaded_at: string;
   storage_path?: string; // Path del archivo en Supabase Storage
+  deleted_at?: string | null; // Fecha en que se movió a la papelera
+  version_group_id?: string; // Documento lógico: igual en todas sus versiones
+  version_number?: number;
+  is_current?: boolean; // Versión que usan las búsquedas
+  visibility?: Visibility | null; // Quién puede verlo; null usa la del departamento
+  restricted_to?: string[]; // Usuarios que pueden ver un documento restringido
   department?: {
     id: string;
     name: string;
@@ -19,10 +36,72 @@ export interface Department {
   id: string;
   name: string;
   created_at: string;
+  parent_id?: string | null; // Parent department; null for top-level ones
+  // Chat model settings of the department; null uses the deployment defaults
+  llm_model?: string | null;
+  llm_temperature?: number | null;
+  llm_max_tokens?: number | null;
+  // Visibility of its documents that do not set their own
+  default_visibility?: Visibility;
+}
+
+/**
+ * Fragmento de un documento tal como se muestra en el visor
+ * text no repite el solapamiento con el fragmento anterior
+ */
+export interface DocumentChunkText {
+  id: string;
+  chunk_index: number;
+  text: string;
+}
+
+/**
+ * Documento con su texto completo, dividido en fragmentos para poder enlazar citas
+ */
+export interface DocumentContent {
+  document: Document;
+  chunks: DocumentChunkText[];
+}
+
+/**
+ * Archivo recibido por el servidor de API (cuerpo de la petición de subida)
+ */
+export interface UploadedFile {
+  name: string;
+  type: string;
+  data: Buffer;
+}
+
+/**
+ * Resultado de subir un sitio estático comprimido: un documento por página
+ */
+export interface SiteUploadResult {
+  documents: Document[];
+  failed: string[]; // Páginas que no se pudieron subir
+}
+
+/**
+ * Documentos en la papelera y días que se conservan antes de borrarse definitivamente
+ */
+export interface DocumentTrash {
+  documents: Document[]; // Borrados más recientes primero
+  retentionDays: number;
+}
+
+/**
+ * Versión nueva de un documento ya subido (ver documentVersions.ts)
+ */
+export interface NewDocumentVersion {
+  groupId: string;
+  number: number;
+  // Las versiones comparten la visibilidad del documento
+  visibility: Visibility | null;
+  restrictedTo: string[];
 }
 
 /**
  * Obtiene todos los documentos con información del departamento
+ * Solo se incluye la versión vigente de cada documento; los documentos en la papelera no se incluyen
  */
 export async function getDocuments(): Promise<Document[]> {
   try {
@@ -35,6 +114,8 @@ export async function getDocuments(): Promise<Document[]> {
           name
         )
       `)
+      .is('deleted_at', null)
+      .eq('is_current', true)
       .order('uploaded_at', { ascending: false });
 
     if (error) {
@@ -57,12 +138,17 @@ export async function getDocuments(): Promise<Document[]> {
 }
 
 /**
- * Sube un documento a Supabase Storage y crea el registro en la base de datos
+ * Sube un documento a Supabase Storage, crea el registro en la base de datos
+ * y pone en cola su procesamiento
+ * Una versión nueva no es vigente hasta que termina de procesarse
+ *
+ * @param version - Documento del que es una versión nueva; si se omite, se crea un documento nuevo
  */
 export async function uploadDocument(
-  file: File,
+  file: UploadedFile,
   departmentId: string,
-  uploaderId: string
+  uploaderId: string,
+  version?: NewDocumentVersion
 ): Promise<Document> {
   try {
     // 1. Subir archivo a Supabase Storage
@@ -72,7 +158,8 @@ export async function uploadDocument(
 
     const { error: uploadError } = await supabase.storage
       .from('documents')
-      .upload(filePath, file, {
+      .upload(filePath, file.data, {
+        contentType: file.type || undefined,
         cacheControl: '3600',
         upsert: false,
       });
@@ -91,6 +178,14 @@ export async function uploadDocument(
         uploader_id: uploaderId,
         status: 'processing', // Cambiar a 'processing' mientras se procesa
         storage_path: filePath, // Guardar el path del archivo en Storage
+        file_hash: hashContent(file.data), // Para detectar subidas repetidas del mismo archivo
+        ...(version ? {
+          version_group_id: version.groupId,
+          version_number: version.number,
+          is_current: false,
+          visibility: version.visibility,
+          restricted_to: version.restrictedTo,
+        } : {}),
       })
       .select(`
         *,
@@ -109,58 +204,23 @@ export async function uploadDocument(
         throw insertError;
       }
 
-      // Step 3: Process the document (extract text, create chunks, generate embeddings)
-      // This happens immediately after upload to enable search right away
-      try {
-        const processed = await processDocument(documentData.id);
-        
-        if (processed) {
-          // Update status to 'processed' if processing succeeded
-          // Document is now ready for search queries
-          await updateDocumentStatus(documentData.id, 'processed');
-        } else {
-          // If processing fails, mark as error
-          // Document will not be searchable but record exists
-          await updateDocumentStatus(documentData.id, 'error');
-          throw new Error('Error al procesar el documento');
-        }
-    } catch (processError) {
-      console.error('Error processing document:', processError);
+    // 3. Poner en cola el procesamiento (texto, chunks y embeddings)
+    // El worker de ingesta lo procesa en segundo plano y reintenta si falla;
+    // el documento queda en 'processing' hasta que termina
+    try {
+      await enqueueIngestionJob(documentData.id);
+    } catch (enqueueError) {
+      console.error('Error enqueuing document:', enqueueError);
       await updateDocumentStatus(documentData.id, 'error');
-      throw processError;
-    }
-
-    // 4. Obtener el documento actualizado
-    const { data: updatedDocument, error: fetchError } = await supabase
-      .from('documents')
-      .select(`
-        *,
-        departments (
-          id,
-          name
-        )
-      `)
-      .eq('id', documentData.id)
-      .single();
-
-    if (fetchError || !updatedDocument) {
-      // Si falla obtener el documento actualizado, retornar el original
-      return {
-        ...documentData,
-        status: 'processed' as const,
-        department: documentData.departments ? {
-          id: documentData.departments.id,
-          name: documentData.departments.name,
-        } : undefined,
-      };
+      throw enqueueError;
     }
 
     // Mapear los datos para que department sea un objeto anidado
     return {
-      ...updatedDocument,
-      department: updatedDocument.departments ? {
-        id: updatedDocument.departments.id,
-        name: updatedDocument.departments.name,
+      ...documentData,
+      department: documentData.departments ? {
+        id: documentData.departments.id,
+        name: documentData.departments.name,
       } : undefined,
     };
   } catch (error) {
@@ -169,6 +229,38 @@ export async function uploadDocument(
   }
 }
 
+/**
+ * Sube un sitio estático exportado en un ZIP (por ejemplo, una wiki) como un documento por página
+ * Cada página conserva su ruta dentro del ZIP en el nombre, para distinguir páginas con el mismo nombre
+ * Si una página falla se continúa con las demás
+ */
+export async function uploadSiteArchive(
+  file: UploadedFile,
+  departmentId: string,
+  uploaderId: string
+): Promise<SiteUploadResult> {
+  const pages = await expandSiteArchive(file.data);
+  console.log(`Site archive ${file.name}: ${pages.length} página(s) HTML`);
+
+  const siteName = file.name.replace(/\.zip$/i, '');
+  const result: SiteUploadResult = { documents: [], failed: [] };
+
+  // Una página a la vez, igual que la página de subida con varios archivos
+  for (const page of pages) {
+    const name = page.path.startsWith(`${siteName}/`) ? page.path : `${siteName}/${page.path}`;
+    try {
+      result.documents.push(
+        await uploadDocument({ name, type: 'text/html', data: page.html }, departmentId, uploaderId)
+      );
+    } catch (error) {
+      console.error(`Error uploading page ${page.path}:`, error);
+      result.failed.push(page.path);
+    }
+  }
+
+  return result;
+}
+
 /**
  * Actualiza el estado de un documento
  */
@@ -193,21 +285,27 @@ export async function updateDocumentStatus(
 }
 
 /**
- * Verifica si hay documentos en proceso
+ * Verifica si hay documentos en proceso que una persona puede ver
+ * Los documentos ocultos no cuentan, así no se sabe que existen
+ *
+ * @param viewer - Persona que consulta
  */
-export async function hasDocumentsProcessing(): Promise<boolean> {
+export async function hasDocumentsProcessing(viewer: Viewer): Promise<boolean> {
   try {
-    const { count, error } = await supabase
+    const { data, error } = await supabase
       .from('documents')
-      .select('*', { count: 'exact', head: true })
-      .eq('status', 'processing');
+      .select('department_id, uploader_id, visibility, restricted_to, departments(default_visibility)')
+      .eq('status', 'processing')
+      .is('deleted_at', null);
 
     if (error) {
       console.error('Error checking processing documents:', error);
       return false;
     }
 
-    return (count || 0) > 0;
+    return ((data || []) as unknown as (DocumentAccess & {
+      departments: { default_visibility: Visibility } | null;
+    })[]).some(doc => canViewDocument(viewer, doc, doc.departments?.default_visibility));
   } catch (error) {
     console.error('Error in hasDocumentsProcessing:', error);
     return false;
@@ -216,6 +314,7 @@ export async function hasDocumentsProcessing(): Promise<boolean> {
 
 /**
  * Obtiene un documento por ID
+ * Un documento en la papelera se trata como inexistente
  */
 export async function getDocumentById(documentId: string): Promise<Document | null> {
   try {
@@ -229,6 +328,7 @@ export async function getDocumentById(documentId: string): Promise<Document | nu
         )
       `)
       .eq('id', documentId)
+      .is('deleted_at', null)
       .single();
 
     if (error) {
@@ -250,3 +350,343 @@ export async function getDocumentById(documentId: string): Promise<Document | nu
   }
 }
 
+
+/**
+ * Obtiene el texto de un documento para el visor, fragmento por fragmento
+ * Se quita el solapamiento entre fragmentos consecutivos para que el texto se lea continuo
+ */
+export async function getDocumentContent(documentId: string): Promise<DocumentContent | null> {
+  const document = await getDocumentById(documentId);
+  if (!document) {
+    return null;
+  }
+
+  const { data, error } = await supabase
+    .from('document_chunks')
+    .select('id, chunk_index, content')
+    .eq('document_id', documentId)
+    .order('chunk_index', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching document chunks:', error);
+    throw error;
+  }
+
+  const rows = data || [];
+  const chunks = rows.map((chunk, i) => {
+    const previous = rows[i - 1];
+    const isConsecutive = previous && previous.chunk_index === chunk.chunk_index - 1;
+    const overlap = isConsecutive ? overlapLength(previous.content, chunk.content) : 0;
+    return {
+      id: chunk.id,
+      chunk_index: chunk.chunk_index,
+      text: chunk.content.slice(overlap).trimStart(),
+    };
+  });
+
+  return { document, chunks };
+}
+
+/**
+ * Obtiene el departamento de varios documentos, incluidos los que están en la papelera
+ * Sirve para comprobar permisos antes de borrar, restaurar o reprocesar
+ *
+ * @param documentIds - IDs de los documentos
+ * @returns Mapa de ID de documento a ID de departamento (los que no existen se omiten)
+ */
+export async function getDocumentDepartmentIds(documentIds: string[]): Promise<Map<string, string>> {
+  if (documentIds.length === 0) {
+    return new Map();
+  }
+
+  const { data, error } = await supabase
+    .from('documents')
+    .select('id, department_id')
+    .in('id', documentIds);
+
+  if (error) {
+    console.error('Error fetching document departments:', error);
+    throw error;
+  }
+
+  return new Map((data || []).map(doc => [doc.id as string, doc.department_id as string]));
+}
+
+/**
+ * Filtra los documentos que una persona puede ver (ver lib/auth/visibility.ts)
+ * La visibilidad por defecto de sus departamentos se lee en una sola consulta
+ *
+ * @param viewer - Persona a la que se van a mostrar
+ * @param documents - Documentos a filtrar
+ * @returns Los documentos visibles, en el mismo orden
+ */
+export async function filterVisibleDocuments<T extends Document>(viewer: Viewer, documents: T[]): Promise<T[]> {
+  const departmentIds = Array.from(new Set(documents.map(doc => doc.department_id)));
+  if (departmentIds.length === 0) {
+    return documents;
+  }
+
+  const { data, error } = await supabase
+    .from('departments')
+    .select('id, default_visibility')
+    .in('id', departmentIds);
+
+  if (error) {
+    console.error('Error fetching department visibility:', error);
+    throw error;
+  }
+
+  const departmentVisibility = new Map((data || []).map(dept => [dept.id as string, dept.default_visibility as Visibility]));
+  return documents.filter(doc => canViewDocument(viewer, doc, departmentVisibility.get(doc.department_id)));
+}
+
+/**
+ * Cambia quién puede ver un documento; se aplica a todas sus versiones
+ *
+ * @param documentId - ID de cualquiera de las versiones
+ * @param visibility - Visibilidad nueva; null usa la del departamento
+ * @param restrictedTo - Usuarios que pueden verlo cuando es restringido
+ * @returns El documento actualizado, o null si no existe o está en la papelera
+ */
+export async function updateDocumentVisibility(
+  documentId: string,
+  visibility: Visibility | null,
+  restrictedTo: string[]
+): Promise<Document | null> {
+  const document = await getDocumentById(documentId);
+  if (!document) {
+    return null;
+  }
+
+  const { error } = await supabase
+    .from('documents')
+    .update({ visibility, restricted_to: restrictedTo })
+    .eq('version_group_id', document.version_group_id || document.id);
+
+  if (error) {
+    console.error('Error updating document visibility:', error);
+    throw error;
+  }
+
+  return { ...document, visibility, restricted_to: restrictedTo };
+}
+
+/**
+ * Obtiene los documentos en la papelera, borrados más recientes primero
+ */
+export async function getDocumentTrash(): Promise<DocumentTrash> {
+  const { data, error } = await supabase
+    .from('documents')
+    .select(`
+      *,
+      departments (
+        id,
+        name
+      )
+    `)
+    .not('deleted_at', 'is', null)
+    .eq('is_current', true)
+    .order('deleted_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching deleted documents:', error);
+    throw error;
+  }
+
+  return {
+    documents: (data || []).map(doc => ({
+      ...doc,
+      department: doc.departments ? {
+        id: doc.departments.id,
+        name: doc.departments.name,
+      } : undefined,
+    })),
+    retentionDays: TRASH_RETENTION_DAYS,
+  };
+}
+
+/**
+ * Obtiene los documentos lógicos (version_group_id) de varias versiones
+ * La papelera trata todas las versiones de un documento a la vez
+ */
+async function versionGroupIds(documentIds: string[]): Promise<string[]> {
+  const { data, error } = await supabase
+    .from('documents')
+    .select('version_group_id')
+    .in('id', documentIds);
+
+  if (error) {
+    console.error('Error fetching document version groups:', error);
+    throw error;
+  }
+
+  return Array.from(new Set((data || []).map(doc => doc.version_group_id as string)));
+}
+
+/**
+ * Mueve documentos a la papelera, con todas sus versiones: dejan de aparecer en la lista y en las búsquedas
+ * El archivo y los chunks se conservan hasta que vence el periodo de retención
+ *
+ * @param documentIds - IDs de los documentos a borrar (cualquiera de sus versiones)
+ * @returns IDs de las versiones movidas (las que no existen o ya estaban borradas se omiten)
+ */
+export async function deleteDocuments(documentIds: string[]): Promise<string[]> {
+  if (documentIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('documents')
+    .update({ deleted_at: new Date().toISOString() })
+    .in('version_group_id', await versionGroupIds(documentIds))
+    .is('deleted_at', null)
+    .select('id');
+
+  if (error) {
+    console.error('Error deleting documents:', error);
+    throw error;
+  }
+
+  return (data || []).map(doc => doc.id);
+}
+
+/**
+ * Mueve un documento a la papelera
+ *
+ * @param documentId - ID del documento
+ * @returns false si el documento no existe o ya estaba en la papelera
+ */
+export async function deleteDocument(documentId: string): Promise<boolean> {
+  const deleted = await deleteDocuments([documentId]);
+  return deleted.length > 0;
+}
+
+/**
+ * Saca un documento de la papelera, con todas sus versiones; vuelve a aparecer en la lista y en las búsquedas
+ *
+ * @param documentId - ID del documento (cualquiera de sus versiones)
+ * @returns La versión vigente restaurada, o null si no estaba en la papelera
+ */
+export async function restoreDocument(documentId: string): Promise<Document | null> {
+  const { data, error } = await supabase
+    .from('documents')
+    .update({ deleted_at: null })
+    .in('version_group_id', await versionGroupIds([documentId]))
+    .not('deleted_at', 'is', null)
+    .select('id, is_current');
+
+  if (error) {
+    console.error('Error restoring document:', error);
+    throw error;
+  }
+
+  const current = (data || []).find(doc => doc.is_current);
+  return current ? getDocumentById(current.id) : null;
+}
+
+/**
+ * Borra definitivamente documentos de la papelera, con todas sus versiones: el archivo en
+ * Storage y la fila, que arrastra sus chunks y sus trabajos de ingesta (ON DELETE CASCADE)
+ * Si un archivo no se puede borrar, esa versión se queda en la papelera para reintentarlo
+ *
+ * @param documentIds - IDs de documentos en la papelera (cualquiera de sus versiones)
+ * @returns IDs de las versiones borradas
+ */
+export async function purgeDocuments(documentIds: string[]): Promise<string[]> {
+  if (documentIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('documents')
+    .select('id, file_name, storage_path')
+    .in('version_group_id', await versionGroupIds(documentIds))
+    .not('deleted_at', 'is', null)
+    .order('version_number', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching documents to purge:', error);
+    throw error;
+  }
+
+  const purged: string[] = [];
+  for (const doc of data || []) {
+    try {
+      if (doc.storage_path) {
+        // Removing a file that no longer exists is not an error
+        const { error: storageError } = await supabase.storage.from('documents').remove([doc.storage_path]);
+        if (storageError) {
+          throw storageError;
+        }
+      }
+
+      const { error: deleteError } = await supabase
+        .from('documents')
+        .delete()
+        .eq('id', doc.id)
+        .not('deleted_at', 'is', null);
+
+      if (deleteError) {
+        throw deleteError;
+      }
+      purged.push(doc.id);
+    } catch (purgeError) {
+      console.error(`Error purging document "${doc.file_name}":`, purgeError);
+    }
+  }
+
+  return purged;
+}
+
+/**
+ * Borra definitivamente los documentos que llevan en la papelera más de TRASH_RETENTION_DAYS días
+ *
+ * @returns Número de documentos borrados
+ */
+export async function purgeExpiredDocuments(): Promise<number> {
+  const deletedBefore = new Date(Date.now() - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from('documents')
+    .select('id')
+    .lt('deleted_at', deletedBefore);
+
+  if (error) {
+    console.error('Error fetching expired documents:', error);
+    throw error;
+  }
+
+  const purged = await purgeDocuments((data || []).map(doc => doc.id));
+  if (purged.length > 0) {
+    console.log(`🗑️ Documentos borrados definitivamente de la papelera: ${purged.length}`);
+  }
+  return purged.length;
+}
+
+/**
+ * Inicia la limpieza periódica de la papelera
+ *
+ * @returns Función que detiene la limpieza
+ */
+export function startTrashPurgeWorker(): () => void {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const tick = async () => {
+    try {
+      await purgeExpiredDocuments();
+    } catch (error) {
+      console.error('Error in trash purge worker:', error);
+    }
+
+    if (!stopped) {
+      timer = setTimeout(() => void tick(), TRASH_PURGE_INTERVAL_MS);
+    }
+  };
+
+  void tick();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
@@ -0,0 +1,122 @@
+import { supabase } from '../supabase';
+import { extractText, IMAGE_EXTENSIONS, SUPPORTED_EXTENSIONS } from '../ingestion/extractText';
+import { hashContent } from '../ingestion/hash';
+import { computeMinHash, estimateSimilarity, minhashBands } from '../ingestion/minhash';
+import { ingestionConfig } from '../ingestion/config';
+import { getDocumentById, type Document, type UploadedFile } from './documents';
+
+/**
+ * Documento existente que se parece a un archivo que se va a subir
+ */
+export interface DuplicateMatch {
+  document: Document;
+  exact: boolean; // Mismo archivo, byte a byte
+  similarity: number; // Parecido estimado del texto (0-1); 1 si es exacto
+}
+
+// Matches reported for one file, most similar first
+const MAX_DUPLICATE_MATCHES = 5;
+
+/**
+ * Busca documentos iguales o casi iguales a un archivo antes de subirlo
+ * Los iguales se detectan por el hash del archivo; los casi iguales (otra exportación,
+ * pequeños cambios) comparando la firma MinHash de su texto con la de los documentos
+ * procesados que comparten alguna banda LSH con ella (columna indexada minhash_bands).
+ * Un documento con varias versiones aparece una sola vez
+ *
+ * @param file - Archivo que se va a subir
+ * @returns Documentos parecidos, los más parecidos primero; vacío si no hay ninguno
+ */
+export async function findDuplicateDocuments(file: UploadedFile): Promise<DuplicateMatch[]> {
+  const { data: exactRows, error: exactError } = await supabase
+    .from('documents')
+    .select('id, version_group_id')
+    .eq('file_hash', hashContent(file.data))
+    .is('deleted_at', null);
+
+  if (exactError) {
+    console.error('Error looking up identical documents:', exactError);
+    throw exactError;
+  }
+
+  // Best match of each document, by version group
+  const candidates = new Map<string, { id: string; exact: boolean; similarity: number }>();
+  for (const row of exactRows || []) {
+    const groupId = row.version_group_id || row.id;
+    if (!candidates.has(groupId)) {
+      candidates.set(groupId, { id: row.id, exact: true, similarity: 1 });
+    }
+  }
+
+  const signature = await uploadSignature(file);
+  if (signature) {
+    // Only current versions: an older version is reached through its document
+    const { data: signedRows, error: signedError } = await supabase
+      .from('documents')
+      .select('id, version_group_id, minhash')
+      .overlaps('minhash_bands', minhashBands(signature))
+      .eq('is_current', true)
+      .is('deleted_at', null);
+
+    if (signedError) {
+      console.error('Error fetching document signatures:', signedError);
+      throw signedError;
+    }
+
+    for (const row of signedRows || []) {
+      const groupId = row.version_group_id || row.id;
+      const similarity = estimateSimilarity(signature, row.minhash as number[]);
+      if (similarity < ingestionConfig.duplicateSimilarityThreshold || candidates.get(groupId)?.exact) {
+        continue;
+      }
+      if ((candidates.get(groupId)?.similarity ?? 0) < similarity) {
+        candidates.set(groupId, { id: row.id, exact: false, similarity });
+      }
+    }
+  }
+
+  const best = Array.from(candidates.values())
+    .sort((a, b) => Number(b.exact) - Number(a.exact) || b.similarity - a.similarity)
+    .slice(0, MAX_DUPLICATE_MATCHES);
+
+  const matches: DuplicateMatch[] = [];
+  for (const candidate of best) {
+    const document = await getDocumentById(candidate.id);
+    if (document) {
+      matches.push({ document, exact: candidate.exact, similarity: candidate.similarity });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Firma MinHash del texto de un archivo que todavía no se ha subido
+ * Se calcula durante la petición, así que no usa OCR (solo la capa de texto de los PDF) y
+ * tiene un tiempo máximo. Si el formato no se soporta, es una imagen, no se puede extraer
+ * el texto o se agota el tiempo, solo se buscan iguales
+ */
+async function uploadSignature(file: UploadedFile): Promise<number[] | null> {
+  const fileExt = file.name.split('.').pop()?.toLowerCase() || '';
+  if (!SUPPORTED_EXTENSIONS.includes(fileExt) || IMAGE_EXTENSIONS.includes(fileExt)) {
+    return null;
+  }
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>(resolve => {
+    timer = setTimeout(() => resolve(null), ingestionConfig.duplicateTextTimeoutMs);
+  });
+
+  try {
+    const extracted = await Promise.race([extractText(fileExt, new Blob([file.data]), { ocr: false }), timeout]);
+    if (!extracted) {
+      console.warn(`Reading the text of ${file.name} took too long, looking only for identical documents`);
+      return null;
+    }
+    return computeMinHash(extracted.text);
+  } catch (extractionError) {
+    console.warn(`Could not extract the text of ${file.name} to look for near-duplicates:`, extractionError);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,547 @@
+import { supabase } from '../supabase';
+import { embeddingConfig, EMBEDDING_PROVIDERS, type EmbeddingProviderName } from '../embeddings/config';
+import { getEmbeddingProvider, type EmbeddingProvider } from '../embeddings/providers';
+import { createEmbeddingBatches, embedTexts, runWithConcurrency } from '../ingestion/embeddings';
+import { ingestionConfig } from '../ingestion/config';
+import { enqueueIngestionJob } from './ingestionJobs';
+
+export type EmbeddingIndexStatus = 'building' | 'active' | 'retired' | 'failed' | 'cancelled';
+
+/**
+ * Versión del índice de embeddings (tabla embedding_indexes)
+ * Solo hay un índice activo, el que usan las búsquedas, y como mucho uno en construcción
+ */
+export interface EmbeddingIndex {
+  id: string;
+  version: number;
+  provider: EmbeddingProviderName;
+  model: string;
+  dimensions: number | null; // NULL hasta que se genera el primer vector
+  status: EmbeddingIndexStatus;
+  previous_index_id: string | null; // Índice al que vuelve un rollback
+  chunks_total: number | null;
+  chunks_done: number;
+  last_error: string | null;
+  lease_expires_at: string | null;
+  created_at: string;
+  updated_at: string;
+  activated_at: string | null;
+}
+
+/**
+ * Estado de los índices para el panel de administración
+ */
+export interface EmbeddingIndexOverview {
+  active: EmbeddingIndex | null;
+  building: EmbeddingIndex | null;
+  indexes: EmbeddingIndex[]; // Versiones más recientes primero
+  providers: EmbeddingProviderName[];
+}
+
+/**
+ * Error de una acción sobre los índices que el usuario puede corregir
+ * invalid: datos incorrectos; conflict: el estado actual no lo permite
+ */
+export class EmbeddingIndexError extends Error {
+  constructor(message: string, public readonly reason: 'invalid' | 'conflict') {
+    super(message);
+    this.name = 'EmbeddingIndexError';
+  }
+}
+
+// Chunks read from the database per round of a migration
+const MIGRATION_PAGE_SIZE = 500;
+
+// How long the active index is cached; another process that switched index is noticed after this
+const ACTIVE_INDEX_TTL_MS = 30000;
+
+// Postgres unique_violation: there is already an active or building index
+const UNIQUE_VIOLATION = '23505';
+
+let activeIndexCache: { index: EmbeddingIndex | null; expiresAt: number } | null = null;
+
+/**
+ * Lee el índice activo, usando la caché mientras no caduque
+ *
+ * @returns El índice activo, o null si no hay ninguno (o no existe la tabla)
+ */
+async function getActiveIndex(): Promise<EmbeddingIndex | null> {
+  if (activeIndexCache && activeIndexCache.expiresAt > Date.now()) {
+    return activeIndexCache.index;
+  }
+
+  const { data, error } = await supabase
+    .from('embedding_indexes')
+    .select('*')
+    .eq('status', 'active')
+    .maybeSingle();
+
+  if (error) {
+    // Before ADD_EMBEDDING_INDEXES.sql is run, EMBEDDING_PROVIDER and EMBEDDING_MODEL are used
+    console.warn('Could not read the active embedding index, using EMBEDDING_MODEL:', error.message);
+  }
+
+  activeIndexCache = { index: error ? null : data, expiresAt: Date.now() + ACTIVE_INDEX_TTL_MS };
+  return activeIndexCache.index;
+}
+
+/**
+ * Olvida el índice activo en caché, para leerlo de nuevo en el próximo uso
+ * El procesamiento de documentos lo llama cuando la base de datos rechaza chunks
+ * de un modelo que ya no es el activo (otro proceso cambió de índice)
+ */
+export function forgetActiveEmbeddingIndex(): void {
+  activeIndexCache = null;
+}
+
+/**
+ * Devuelve el proveedor de embeddings del índice activo
+ * Lo usan el chat (vector de la pregunta) y el procesamiento de documentos, así que
+ * durante una migración ambos siguen usando el modelo anterior hasta el cambio
+ *
+ * @returns Proveedor del índice activo, o el de EMBEDDING_PROVIDER y EMBEDDING_MODEL si no hay índice
+ * @throws Error if the provider is misconfigured
+ */
+export async function getActiveEmbeddingProvider(): Promise<EmbeddingProvider> {
+  const active = await getActiveIndex();
+  return getEmbeddingProvider(active ? { provider: active.provider, model: active.model } : embeddingConfig);
+}
+
+/**
+ * Registra como índice activo el modelo de EMBEDDING_PROVIDER y EMBEDDING_MODEL si
+ * todavía no hay ninguno (los chunks existentes se generaron con ese modelo)
+ * Si ya hay uno con otro modelo, avisa: el modelo se cambia con una migración
+ *
+ * @returns El índice activo
+ */
+export async function ensureActiveEmbeddingIndex(): Promise<EmbeddingIndex> {
+  activeIndexCache = null;
+  const active = await getActiveIndex();
+
+  if (active) {
+    if (active.model !== embeddingConfig.model || active.provider !== embeddingConfig.provider) {
+      console.warn(
+        `⚠️ EMBEDDING_MODEL es ${embeddingConfig.provider}/${embeddingConfig.model} pero el índice activo usa ` +
+        `${active.provider}/${active.model}; para cambiar de modelo inicia una migración (npm run reembed)`
+      );
+    }
+    return active;
+  }
+
+  const { data, error } = await supabase
+    .from('embedding_indexes')
+    .insert({
+      provider: embeddingConfig.provider,
+      model: embeddingConfig.model,
+      status: 'active',
+      activated_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    // Another process registered it first
+    if (error.code === UNIQUE_VIOLATION) {
+      activeIndexCache = null;
+      const registered = await getActiveIndex();
+      if (registered) return registered;
+    }
+    console.error('Error registering the active embedding index:', error);
+    throw error;
+  }
+
+  activeIndexCache = { index: data, expiresAt: Date.now() + ACTIVE_INDEX_TTL_MS };
+  console.log(`✓ Índice de embeddings v${data.version} registrado: ${data.provider}/${data.model}`);
+  return data;
+}
+
+/**
+ * Obtiene el índice activo, la migración en curso y el historial de versiones
+ */
+export async function getEmbeddingIndexOverview(): Promise<EmbeddingIndexOverview> {
+  const { data, error } = await supabase
+    .from('embedding_indexes')
+    .select('*')
+    .order('version', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching embedding indexes:', error);
+    throw error;
+  }
+
+  const indexes: EmbeddingIndex[] = data || [];
+  return {
+    active: indexes.find(index => index.status === 'active') || null,
+    building: indexes.find(index => index.status === 'building') || null,
+    indexes,
+    providers: [...EMBEDDING_PROVIDERS],
+  };
+}
+
+/**
+ * Cuenta los chunks, opcionalmente solo los que ya tienen el vector de un índice en construcción
+ */
+async function countChunks(pendingIndexId?: string): Promise<number> {
+  let query = supabase.from('document_chunks').select('*', { count: 'exact', head: true });
+  if (pendingIndexId) {
+    query = query.eq('pending_index_id', pendingIndexId);
+  }
+
+  const { count, error } = await query;
+  if (error) {
+    console.error('Error counting chunks:', error);
+    throw error;
+  }
+  return count || 0;
+}
+
+/**
+ * Inicia la migración a un modelo de embeddings nuevo
+ * Los vectores se generan en segundo plano (worker del servidor o npm run reembed);
+ * las búsquedas siguen usando el índice activo hasta que la migración termina
+ *
+ * @param provider - Proveedor del modelo nuevo
+ * @param model - Modelo nuevo
+ * @returns El índice en construcción
+ * @throws EmbeddingIndexError si el proveedor no es válido, el modelo es el activo o ya hay una migración
+ */
+export async function startEmbeddingMigration(provider: string, model: string): Promise<EmbeddingIndex> {
+  if (!(EMBEDDING_PROVIDERS as readonly string[]).includes(provider)) {
+    throw new EmbeddingIndexError(`Proveedor no válido. Usa uno de: ${EMBEDDING_PROVIDERS.join(', ')}`, 'invalid');
+  }
+  const spec = { provider: provider as EmbeddingProviderName, model: model.trim() };
+  if (!spec.model) {
+    throw new EmbeddingIndexError('El modelo es obligatorio', 'invalid');
+  }
+
+  try {
+    getEmbeddingProvider(spec);
+  } catch (providerError) {
+    throw new EmbeddingIndexError(providerError instanceof Error ? providerError.message : String(providerError), 'invalid');
+  }
+
+  const active = await ensureActiveEmbeddingIndex();
+  if (active.provider === spec.provider && active.model === spec.model) {
+    throw new EmbeddingIndexError(`El índice activo ya usa ${spec.provider}/${spec.model}`, 'conflict');
+  }
+
+  const { data, error } = await supabase
+    .from('embedding_indexes')
+    .insert({ ...spec, status: 'building', chunks_total: await countChunks() })
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) {
+      throw new EmbeddingIndexError('Ya hay una migración de embeddings en curso', 'conflict');
+    }
+    console.error('Error starting embedding migration:', error);
+    throw error;
+  }
+
+  console.log(`▶ Migración de embeddings v${data.version} iniciada: ${spec.provider}/${spec.model}`);
+  return data;
+}
+
+/**
+ * Cancela la migración en curso y descarta los vectores que ya había generado
+ *
+ * @param indexId - ID del índice en construcción
+ * @returns El índice cancelado, o null si no existe o no estaba en construcción
+ */
+export async function cancelEmbeddingMigration(indexId: string): Promise<EmbeddingIndex | null> {
+  const { data, error } = await supabase
+    .from('embedding_indexes')
+    .update({ status: 'cancelled', lease_expires_at: null, updated_at: new Date().toISOString() })
+    .eq('id', indexId)
+    .eq('status', 'building')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error cancelling embedding migration:', error);
+    throw error;
+  }
+  if (!data) {
+    return null;
+  }
+
+  const { error: clearError } = await supabase
+    .from('document_chunks')
+    .update({ pending_embedding: null, pending_index_id: null })
+    .eq('pending_index_id', indexId);
+
+  if (clearError) {
+    // Leftover vectors are harmless: they are overwritten by the next migration
+    console.warn('Error clearing vectors of the cancelled migration:', clearError);
+  }
+  return data;
+}
+
+/**
+ * Vuelve al índice anterior en una sola transacción (los vectores anteriores se conservan)
+ * Los documentos procesados después del cambio no tienen vector anterior: se vuelven
+ * a poner en cola para generarlos con el modelo restaurado
+ *
+ * @returns El índice activo tras el rollback y cuántos documentos se volvieron a poner en cola
+ * @throws EmbeddingIndexError si no hay índice anterior o hay una migración en curso
+ */
+export async function rollbackEmbeddingIndex(): Promise<{ active: EmbeddingIndex; documentsRequeued: number }> {
+  const { data: missing, error } = await supabase.rpc('rollback_embedding_index');
+
+  if (error) {
+    if (error.message?.includes('no_previous_index')) {
+      throw new EmbeddingIndexError('No hay un índice anterior al que volver', 'conflict');
+    }
+    if (error.message?.includes('migration_in_progress')) {
+      throw new EmbeddingIndexError('Cancela la migración en curso antes de volver atrás', 'conflict');
+    }
+    console.error('Error rolling back embedding index:', error);
+    throw error;
+  }
+
+  activeIndexCache = null;
+  const active = await getActiveIndex();
+  if (!active) {
+    throw new Error('No active embedding index after rollback');
+  }
+  console.log(`↩ Índice de embeddings restaurado: v${active.version} ${active.provider}/${active.model}`);
+
+  let documentsRequeued = 0;
+  if (missing > 0) {
+    const { data: staleChunks, error: staleError } = await supabase
+      .from('document_chunks')
+      .select('document_id')
+      .neq('embedding_model', active.model);
+
+    if (staleError) {
+      console.error('Error fetching documents to reprocess after rollback:', staleError);
+      throw staleError;
+    }
+
+    const documentIds = Array.from(new Set((staleChunks || []).map(chunk => chunk.document_id as string)));
+    for (const documentId of documentIds) {
+      try {
+        await enqueueIngestionJob(documentId);
+        documentsRequeued++;
+      } catch (enqueueError) {
+        console.error(`Error enqueuing document ${documentId} after rollback:`, enqueueError);
+      }
+    }
+  }
+
+  return { active, documentsRequeued };
+}
+
+/**
+ * Reserva la migración para este proceso durante INGESTION_STALE_AFTER_MS
+ * El UPDATE solo tiene efecto si nadie más la tiene reservada, así que el worker del
+ * servidor y npm run reembed nunca migran el mismo índice a la vez
+ *
+ * @returns true si se obtuvo la reserva
+ */
+async function claimMigration(indexId: string): Promise<boolean> {
+  const now = new Date().toISOString();
+  const { data } = await supabase
+    .from('embedding_indexes')
+    .update({ lease_expires_at: new Date(Date.now() + ingestionConfig.jobStaleAfterMs).toISOString(), updated_at: now })
+    .eq('id', indexId)
+    .eq('status', 'building')
+    .or(`lease_expires_at.is.null,lease_expires_at.lt."${now}"`)
+    .select('id')
+    .maybeSingle();
+
+  return !!data;
+}
+
+/**
+ * Actualiza una migración en curso (progreso, error...) y renueva su reserva
+ */
+async function updateMigration(indexId: string, changes: Partial<EmbeddingIndex>): Promise<void> {
+  const { error } = await supabase
+    .from('embedding_indexes')
+    .update({
+      lease_expires_at: new Date(Date.now() + ingestionConfig.jobStaleAfterMs).toISOString(),
+      ...changes,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', indexId);
+
+  if (error) {
+    console.warn(`Error updating embedding migration ${indexId}:`, error);
+  }
+}
+
+/**
+ * Genera los vectores del índice en construcción para todos los chunks y, al terminar,
+ * lo activa con activate_embedding_index
+ * Es reanudable: los chunks que ya tienen su vector nuevo (pending_index_id) se saltan
+ *
+ * @param index - Índice en construcción, ya reservado con claimMigration
+ * @param onProgress - Se llama tras cada lote guardado
+ * @returns true si se activó; false si se canceló mientras tanto
+ */
+async function buildIndex(
+  index: EmbeddingIndex,
+  onProgress?: (index: Pick<EmbeddingIndex, 'chunks_done' | 'chunks_total'>) => void
+): Promise<boolean> {
+  const provider = getEmbeddingProvider({ provider: index.provider, model: index.model });
+  let chunksDone = await countChunks(index.id);
+  let dimensions = index.dimensions;
+
+  for (;;) {
+    const { data: current } = await supabase.from('embedding_indexes').select('status').eq('id', index.id).single();
+    if (current?.status !== 'building') {
+      return false;
+    }
+
+    // Documents processed during the migration add chunks, so the total is recounted every round
+    const chunksTotal = await countChunks();
+    await updateMigration(index.id, { chunks_done: chunksDone, chunks_total: chunksTotal });
+
+    const { data: page, error } = await supabase
+      .from('document_chunks')
+      .select('id, content')
+      .or(`pending_index_id.is.null,pending_index_id.neq.${index.id}`)
+      .order('id', { ascending: true })
+      .limit(MIGRATION_PAGE_SIZE);
+
+    if (error) {
+      console.error('Error fetching chunks to re-embed:', error);
+      throw error;
+    }
+
+    if (!page || page.length === 0) {
+      const { error: activateError } = await supabase.rpc('activate_embedding_index', { target_index: index.id });
+      if (!activateError) {
+        activeIndexCache = null;
+        return true;
+      }
+      // Chunks saved between the last round and the switch: embed them and try again
+      if (activateError.message?.includes('chunks_missing')) {
+        continue;
+      }
+      throw activateError;
+    }
+
+    const batches = createEmbeddingBatches(page, chunk => chunk.content as string);
+    await runWithConcurrency(batches, ingestionConfig.embeddingConcurrency, async batch => {
+      const embeddings = await embedTexts(provider, batch.map(chunk => chunk.content as string));
+
+      const { error: saveError } = await supabase.rpc('save_pending_embeddings', {
+        target_index: index.id,
+        items: batch.map((chunk, i) => ({ id: chunk.id, embedding: JSON.stringify(embeddings[i]) })),
+      });
+
+      if (saveError) {
+        console.error('Error saving re-embedded chunks:', saveError);
+        throw saveError;
+      }
+
+      chunksDone += batch.length;
+      if (dimensions === null && embeddings[0]) {
+        dimensions = embeddings[0].length;
+      }
+      await updateMigration(index.id, { chunks_done: chunksDone, dimensions });
+      onProgress?.({ chunks_done: chunksDone, chunks_total: chunksTotal });
+    });
+  }
+}
+
+/**
+ * Ejecuta una migración hasta el final en este proceso
+ * Si falla, la migración sigue en construcción: se reintenta más tarde desde los
+ * chunks ya migrados; un proveedor mal configurado la marca como fallida
+ *
+ * @param indexId - ID del índice en construcción
+ * @param onProgress - Se llama tras cada lote guardado
+ * @returns El índice al terminar, o null si otro proceso la está ejecutando
+ * @throws El error de la migración, tras registrarlo en last_error
+ */
+export async function runEmbeddingMigration(
+  indexId: string,
+  onProgress?: (index: Pick<EmbeddingIndex, 'chunks_done' | 'chunks_total'>) => void
+): Promise<EmbeddingIndex | null> {
+  if (!(await claimMigration(indexId))) {
+    return null;
+  }
+
+  const { data: index, error } = await supabase.from('embedding_indexes').select('*').eq('id', indexId).single();
+  if (error || !index) {
+    console.error(`Error fetching embedding index ${indexId}:`, error);
+    throw error;
+  }
+
+  try {
+    getEmbeddingProvider({ provider: index.provider, model: index.model });
+  } catch (providerError) {
+    const message = providerError instanceof Error ? providerError.message : String(providerError);
+    await updateMigration(indexId, { status: 'failed', last_error: message, lease_expires_at: null });
+    throw providerError;
+  }
+
+  try {
+    console.log(`▶ Migración de embeddings v${index.version} (${index.provider}/${index.model})`);
+    if (await buildIndex(index, onProgress)) {
+      console.log(`✓ Índice de embeddings v${index.version} activo: ${index.provider}/${index.model}`);
+    }
+  } catch (migrationError) {
+    // Supabase errors are plain objects with a message
+    const message = migrationError instanceof Error
+      ? migrationError.message
+      : (migrationError as { message?: string })?.message || String(migrationError);
+    console.error(`Error in embedding migration v${index.version}:`, migrationError);
+    // The lease doubles as the wait before the next attempt
+    await updateMigration(indexId, {
+      last_error: message,
+      lease_expires_at: new Date(Date.now() + ingestionConfig.jobRetryBaseDelayMs).toISOString(),
+    });
+    throw migrationError;
+  }
+
+  const { data: finished } = await supabase.from('embedding_indexes').select('*').eq('id', indexId).single();
+  return finished;
+}
+
+/**
+ * Inicia el worker de migraciones: ejecuta en segundo plano la migración en curso
+ * Al arrancar registra el índice activo si todavía no existe
+ *
+ * @returns Función que detiene el worker cuando termina la ronda en curso
+ */
+export function startEmbeddingMigrationWorker(): () => void {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const tick = async () => {
+    try {
+      const { data: building } = await supabase
+        .from('embedding_indexes')
+        .select('id')
+        .eq('status', 'building')
+        .maybeSingle();
+
+      if (building) {
+        await runEmbeddingMigration(building.id);
+      }
+    } catch {
+      // Already logged and recorded in last_error; retried after the lease expires
+    }
+
+    if (!stopped) {
+      timer = setTimeout(() => void tick(), ingestionConfig.jobPollIntervalMs);
+    }
+  };
+
+  void ensureActiveEmbeddingIndex()
+    .catch(error => console.warn('Embedding indexes are not available (run docs/ADD_EMBEDDING_INDEXES.sql):', error?.message || error))
+    .finally(() => {
+      if (!stopped) void tick();
+    });
+  console.log('✓ Embedding migration worker started');
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
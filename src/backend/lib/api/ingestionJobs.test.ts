@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { hasCall, setSupabaseHandlers, type FakeQuery } from '../../test/fakeSupabase';
+import { getIngestionQueueStatus } from './ingestionJobs';
+import type { Viewer } from '../auth/visibility';
+
+vi.mock('../supabase', () => import('../../test/fakeSupabase'));
+
+const editor: Viewer = { userId: 'editor', permissions: { role: 'viewer', departments: { 'dept-hr': 'editor' } } };
+
+function jobRow(id: string, document: Record<string, unknown>) {
+  return {
+    id,
+    document_id: `doc-${id}`,
+    status: 'queued',
+    created_at: '2026-03-01T00:00:00Z',
+    documents: {
+      id: `doc-${id}`,
+      file_name: `${id}.pdf`,
+      department_id: 'dept-hr',
+      uploader_id: 'someone-else',
+      visibility: 'public',
+      restricted_to: [],
+      departments: { default_visibility: 'public' },
+      ...document,
+    },
+  };
+}
+
+describe('getIngestionQueueStatus', () => {
+  let queries: FakeQuery[];
+
+  beforeEach(() => {
+    queries = [];
+    setSupabaseHandlers({
+      query: query => {
+        queries.push(query);
+        return { data: [jobRow('public', {}), jobRow('restricted', { visibility: 'restricted' })] };
+      },
+      rpc: () => ({ data: [{ status: 'queued', jobs: 3 }, { status: 'failed', jobs: 1 }] }),
+    });
+  });
+
+  it('takes the counts from the database and reads a limited list of recent jobs', async () => {
+    const status = await getIngestionQueueStatus(editor);
+
+    expect(status.counts).toEqual({ queued: 3, running: 0, failed: 1, succeeded: 0, cancelled: 0 });
+    expect(status.jobs.map(job => job.id)).toEqual(['public']);
+    expect(queries).toHaveLength(1);
+    expect(hasCall(queries[0], 'in', 'documents.department_id', ['dept-hr'])).toBe(true);
+    expect(queries[0].calls.some(call => call.method === 'limit')).toBe(true);
+  });
+
+  it('counts the visible jobs client-side when the database function is missing', async () => {
+    setSupabaseHandlers({
+      query: () => ({ data: [jobRow('public', {}), jobRow('restricted', { visibility: 'restricted' })] }),
+    });
+
+    const status = await getIngestionQueueStatus(editor);
+    expect(status.counts.queued).toBe(1);
+  });
+
+  it('reads nothing for people who are not editors anywhere', async () => {
+    const viewer: Viewer = { userId: 'viewer', permissions: { role: 'viewer', departments: { 'dept-hr': 'viewer' } } };
+
+    const status = await getIngestionQueueStatus(viewer);
+    expect(status.jobs).toEqual([]);
+    expect(queries).toHaveLength(0);
+  });
+});
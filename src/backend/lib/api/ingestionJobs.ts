@@ -0,0 +1,617 @@
+import { supabase } from '../supabase';
+import { ingestionConfig } from '../ingestion/config';
+import { canInDepartment, hasRole } from '../auth/roles';
+import { canViewDocument, type DocumentAccess, type Viewer, type Visibility } from '../auth/visibility';
+import { DocumentTrashedError, IngestionError, processDocument } from './documentProcessing';
+import { updateDocumentStatus } from './documents';
+import { activateDocumentVersion } from './documentVersions';
+
+export type IngestionJobStatus = 'queued' | 'running' | 'failed' | 'succeeded' | 'cancelled';
+
+/**
+ * Trabajo de ingesta de un documento (tabla ingestion_jobs)
+ * Los chunks ya guardados son el checkpoint: un reintento conserva los que coinciden por hash
+ */
+export interface IngestionJob {
+  id: string;
+  document_id: string;
+  status: IngestionJobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: string; // Cuándo puede ejecutarse (reintentos con espera exponencial)
+  last_error: string | null;
+  chunks_total: number | null; // NULL hasta que se extrae el texto
+  chunks_done: number;
+  chunks_added: number | null; // Resultado del procesado, NULL hasta que termina
+  chunks_kept: number | null;
+  chunks_removed: number | null;
+  created_at: string;
+  updated_at: string;
+  document?: {
+    id: string;
+    file_name: string;
+  };
+}
+
+/**
+ * Estado de la cola para el panel de la página de subida
+ */
+export interface IngestionQueueStatus {
+  counts: Record<IngestionJobStatus, number>;
+  jobs: IngestionJob[]; // Trabajos más recientes primero
+}
+
+// Jobs shown in the queue panel
+const RECENT_JOBS_LIMIT = 50;
+
+// Most recent jobs of the caller's departments read to find the ones they can see
+const RECENT_JOBS_SCAN_LIMIT = 500;
+
+const JOB_STATUSES: IngestionJobStatus[] = ['queued', 'running', 'failed', 'succeeded', 'cancelled'];
+
+// Postgres unique_violation: the document already has an active job
+const UNIQUE_VIOLATION = '23505';
+
+const JOB_SELECT = `
+  *,
+  documents (
+    id,
+    file_name
+  )
+`;
+
+// With the fields of the document that decide who can follow the job
+const VISIBLE_JOB_SELECT = `
+  *,
+  documents!inner (
+    id,
+    file_name,
+    department_id,
+    uploader_id,
+    visibility,
+    restricted_to,
+    departments (default_visibility)
+  )
+`;
+
+// Row of ingestion_jobs as returned with JOB_SELECT
+type IngestionJobRow = Omit<IngestionJob, 'document'> & {
+  documents: { id: string; file_name: string } | null;
+};
+
+// Row of ingestion_jobs as returned with VISIBLE_JOB_SELECT
+type VisibleJobRow = Omit<IngestionJob, 'document'> & {
+  documents: DocumentAccess & {
+    id: string;
+    file_name: string;
+    departments: { default_visibility: Visibility } | null;
+  };
+};
+
+/**
+ * Si una persona puede seguir un trabajo: es editora en el departamento del documento y puede verlo
+ */
+function canSeeJob(viewer: Viewer, row: VisibleJobRow): boolean {
+  const document = row.documents;
+  return (
+    canInDepartment(viewer.permissions, document.department_id, 'editor') &&
+    canViewDocument(viewer, document, document.departments?.default_visibility)
+  );
+}
+
+/**
+ * Mapea una fila de ingestion_jobs para que document sea un objeto anidado
+ */
+function toJob(row: IngestionJobRow): IngestionJob {
+  const { documents, ...job } = row;
+  return {
+    ...job,
+    document: documents ? { id: documents.id, file_name: documents.file_name } : undefined,
+  };
+}
+
+/**
+ * Espera antes del siguiente intento: base * 2^(intentos - 1), con un máximo
+ *
+ * @param attempts - Intentos ya ejecutados (1 tras el primer fallo)
+ * @returns Milisegundos de espera
+ */
+export function retryDelayMs(attempts: number): number {
+  const delay = ingestionConfig.jobRetryBaseDelayMs * 2 ** Math.max(0, attempts - 1);
+  return Math.min(delay, ingestionConfig.jobRetryMaxDelayMs);
+}
+
+/**
+ * Pone en cola el procesamiento de un documento
+ * Si el documento ya tiene un trabajo en cola o en ejecución, devuelve ese trabajo
+ *
+ * @param documentId - ID del documento a procesar
+ * @returns Trabajo activo del documento
+ */
+export async function enqueueIngestionJob(documentId: string): Promise<IngestionJob> {
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .insert({ document_id: documentId, max_attempts: ingestionConfig.jobMaxAttempts })
+    .select(JOB_SELECT)
+    .single();
+
+  if (!error && data) {
+    return toJob(data);
+  }
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    const { data: active, error: activeError } = await supabase
+      .from('ingestion_jobs')
+      .select(JOB_SELECT)
+      .eq('document_id', documentId)
+      .in('status', ['queued', 'running'])
+      .single();
+
+    if (!activeError && active) {
+      return toJob(active);
+    }
+  }
+
+  console.error('Error enqueuing ingestion job:', error);
+  throw error;
+}
+
+/**
+ * Número de trabajos por estado, todos a cero
+ */
+function emptyCounts(): Record<IngestionJobStatus, number> {
+  return Object.fromEntries(JOB_STATUSES.map(status => [status, 0])) as Record<IngestionJobStatus, number>;
+}
+
+/**
+ * Departamentos donde una persona puede seguir trabajos
+ *
+ * @returns IDs de los departamentos donde es editora, o null si lo es en todos (rol global)
+ */
+function editorDepartmentIds(viewer: Viewer): string[] | null {
+  if (hasRole(viewer.permissions.role, 'editor')) {
+    return null;
+  }
+  return Object.entries(viewer.permissions.departments)
+    .filter(([, role]) => hasRole(role, 'editor'))
+    .map(([departmentId]) => departmentId);
+}
+
+/**
+ * Lee trabajos con los campos del documento que deciden quién los ve, de los más recientes
+ * a los más antiguos, y se queda con los que la persona puede seguir
+ *
+ * @param departmentIds - Departamentos donde es editora, o null para todos
+ * @param limit - Trabajos leídos como máximo; sin límite lee toda la tabla
+ */
+async function fetchVisibleJobs(viewer: Viewer, departmentIds: string[] | null, limit?: number): Promise<VisibleJobRow[]> {
+  let query = supabase
+    .from('ingestion_jobs')
+    .select(VISIBLE_JOB_SELECT)
+    .order('created_at', { ascending: false });
+
+  if (departmentIds) {
+    query = query.in('documents.department_id', departmentIds);
+  }
+  if (limit) {
+    query = query.limit(limit);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error fetching ingestion jobs:', error);
+    throw error;
+  }
+
+  // Visibility depends on each document, so jobs are filtered after reading them
+  return ((data || []) as unknown as VisibleJobRow[]).filter(row => canSeeJob(viewer, row));
+}
+
+/**
+ * Cuenta por estado los trabajos que una persona puede seguir
+ * Lo hace la base de datos (ADD_INGESTION_QUEUE_COUNTS.sql); sin esa función se cuentan aquí
+ */
+async function countVisibleJobs(viewer: Viewer, departmentIds: string[] | null): Promise<Record<IngestionJobStatus, number>> {
+  const counts = emptyCounts();
+
+  const { data, error } = await supabase.rpc('count_ingestion_jobs', { viewer: viewer.userId });
+
+  if (error) {
+    // The database function may not have been created yet
+    console.warn('RPC function count_ingestion_jobs not found, counting jobs client-side:', error);
+    (await fetchVisibleJobs(viewer, departmentIds)).forEach(row => counts[row.status]++);
+    return counts;
+  }
+
+  for (const row of (data || []) as { status: IngestionJobStatus; jobs: number }[]) {
+    counts[row.status] = Number(row.jobs);
+  }
+  return counts;
+}
+
+/**
+ * Obtiene el estado de la cola que ve una persona: trabajos recientes y número de trabajos por estado
+ * Solo cuenta los trabajos de documentos que puede ver en departamentos donde es editora
+ *
+ * @param viewer - Persona que consulta la cola
+ */
+export async function getIngestionQueueStatus(viewer: Viewer): Promise<IngestionQueueStatus> {
+  const departmentIds = editorDepartmentIds(viewer);
+  if (departmentIds?.length === 0) {
+    return { counts: emptyCounts(), jobs: [] };
+  }
+
+  const [counts, recent] = await Promise.all([
+    countVisibleJobs(viewer, departmentIds),
+    fetchVisibleJobs(viewer, departmentIds, RECENT_JOBS_SCAN_LIMIT),
+  ]);
+
+  return {
+    counts,
+    jobs: recent.slice(0, RECENT_JOBS_LIMIT).map(toJob),
+  };
+}
+
+/**
+ * Obtiene un trabajo por su ID, si la persona puede seguirlo (ver getIngestionQueueStatus)
+ *
+ * @param jobId - ID del trabajo
+ * @param viewer - Persona que lo consulta
+ * @returns El trabajo, o null si no existe o no puede verlo
+ */
+export async function getIngestionJob(jobId: string, viewer: Viewer): Promise<IngestionJob | null> {
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .select(VISIBLE_JOB_SELECT)
+    .eq('id', jobId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error fetching ingestion job:', error);
+    throw error;
+  }
+
+  const row = data as unknown as VisibleJobRow | null;
+  return row && canSeeJob(viewer, row) ? toJob(row) : null;
+}
+
+/**
+ * Vuelve a poner en cola un trabajo fallido, con sus intentos a cero
+ * Los chunks guardados por los intentos anteriores se conservan
+ *
+ * @param jobId - ID del trabajo
+ * @returns El trabajo en cola, o null si no existe o no estaba fallido
+ */
+export async function retryIngestionJob(jobId: string): Promise<IngestionJob | null> {
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .update({
+      status: 'queued',
+      attempts: 0,
+      run_after: new Date().toISOString(),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', jobId)
+    .eq('status', 'failed')
+    .select(JOB_SELECT)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error retrying ingestion job:', error);
+    throw error;
+  }
+  if (!data) {
+    return null;
+  }
+
+  await updateDocumentStatus(data.document_id, 'processing');
+  return toJob(data);
+}
+
+/**
+ * Cancela los trabajos en cola o en ejecución de documentos movidos a la papelera
+ * Un trabajo en ejecución deja de pertenecer a su worker, que lo abandona antes de su siguiente escritura
+ *
+ * @param documentIds - IDs de las versiones movidas a la papelera
+ */
+export async function cancelIngestionJobs(documentIds: string[]): Promise<void> {
+  if (documentIds.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('ingestion_jobs')
+    .update({
+      status: 'cancelled',
+      last_error: 'Documento movido a la papelera',
+      updated_at: new Date().toISOString(),
+    })
+    .in('document_id', documentIds)
+    .in('status', ['queued', 'running']);
+
+  if (error) {
+    console.error('Error cancelling ingestion jobs:', error);
+    throw error;
+  }
+}
+
+/**
+ * Toma el siguiente trabajo pendiente cuyo reintento ya venció
+ * El UPDATE solo tiene efecto si el trabajo sigue en 'queued', así que dos workers
+ * nunca ejecutan el mismo trabajo
+ *
+ * @returns Trabajo marcado como 'running', o null si no hay trabajos pendientes
+ */
+async function claimNextJob(): Promise<IngestionJob | null> {
+  const now = new Date().toISOString();
+  const { data: candidates, error } = await supabase
+    .from('ingestion_jobs')
+    .select('id, attempts')
+    .eq('status', 'queued')
+    .lte('run_after', now)
+    .order('run_after', { ascending: true })
+    .limit(5);
+
+  if (error) {
+    console.error('Error fetching queued ingestion jobs:', error);
+    return null;
+  }
+
+  for (const candidate of candidates || []) {
+    const { data: claimed } = await supabase
+      .from('ingestion_jobs')
+      .update({ status: 'running', attempts: candidate.attempts + 1, updated_at: now })
+      .eq('id', candidate.id)
+      .eq('status', 'queued')
+      .select(JOB_SELECT)
+      .maybeSingle();
+
+    if (claimed) {
+      return toJob(claimed);
+    }
+  }
+  return null;
+}
+
+/**
+ * Vuelve a poner en cola los trabajos 'running' sin latido reciente (servidor caído
+ * o reiniciado a mitad de un documento); el intento interrumpido cuenta como fallido
+ */
+async function requeueStaleJobs(): Promise<void> {
+  const staleBefore = new Date(Date.now() - ingestionConfig.jobStaleAfterMs).toISOString();
+  const { data: staleJobs, error } = await supabase
+    .from('ingestion_jobs')
+    .select('id, document_id, attempts, max_attempts')
+    .eq('status', 'running')
+    .lt('updated_at', staleBefore);
+
+  if (error) {
+    console.error('Error fetching stale ingestion jobs:', error);
+    return;
+  }
+
+  for (const job of staleJobs || []) {
+    const giveUp = job.attempts >= job.max_attempts;
+    // The status filter keeps a job that just reported progress from being requeued
+    const { data: updated } = await supabase
+      .from('ingestion_jobs')
+      .update({
+        status: giveUp ? 'failed' : 'queued',
+        last_error: 'Interrumpido: el servidor dejó de procesar el documento',
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', job.id)
+      .eq('status', 'running')
+      .lt('updated_at', staleBefore)
+      .select('id')
+      .maybeSingle();
+
+    if (updated) {
+      console.warn(`⚠️ Trabajo de ingesta ${job.id} interrumpido: ${giveUp ? 'marcado como fallido' : 'vuelve a la cola'}`);
+      if (giveUp) {
+        await updateDocumentStatus(job.document_id, 'error');
+      }
+    }
+  }
+}
+
+/**
+ * Pone en cola los documentos que quedaron en 'processing' sin trabajo activo
+ * (subidos antes de existir la cola, cuyo trabajo se borró o se canceló al moverlos a la papelera)
+ *
+ * @param documentIds - Solo estos documentos (por ejemplo, los restaurados de la papelera); por defecto todos
+ */
+export async function enqueueOrphanDocuments(documentIds?: string[]): Promise<void> {
+  let query = supabase
+    .from('documents')
+    .select('id, ingestion_jobs (status)')
+    .eq('status', 'processing')
+    .is('deleted_at', null);
+
+  if (documentIds) {
+    query = query.in('id', documentIds);
+  }
+
+  const { data: documents, error } = await query;
+
+  if (error) {
+    console.error('Error fetching documents in processing:', error);
+    return;
+  }
+
+  const rows = (documents || []) as { id: string; ingestion_jobs: { status: IngestionJobStatus }[] | null }[];
+  const orphans = rows.filter(doc =>
+    !(doc.ingestion_jobs || []).some(job => job.status === 'queued' || job.status === 'running')
+  );
+
+  for (const doc of orphans) {
+    try {
+      await enqueueIngestionJob(doc.id);
+    } catch (enqueueError) {
+      console.error(`Error enqueuing document ${doc.id}:`, enqueueError);
+    }
+  }
+  if (orphans.length > 0) {
+    console.log(`Documentos en cola sin trabajo previo: ${orphans.length}`);
+  }
+}
+
+/**
+ * El trabajo ya no pertenece a este worker: se dio por colgado y otro lo volvió a coger, o se canceló
+ */
+class LeaseLostError extends Error {
+  constructor(jobId: string) {
+    super(`El trabajo de ingesta ${jobId} ya no pertenece a este worker`);
+    this.name = 'LeaseLostError';
+  }
+}
+
+/**
+ * Actualiza un trabajo solo si este worker aún lo tiene: sigue en ejecución con el mismo intento
+ * requeueStaleJobs lo devuelve a la cola y claimNextJob suma un intento al volver a cogerlo
+ *
+ * @returns false si el trabajo ya no pertenece a este worker
+ */
+async function updateOwnedJob(job: IngestionJob, changes: Partial<IngestionJob>): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('ingestion_jobs')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', job.id)
+    .eq('status', 'running')
+    .eq('attempts', job.attempts)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    // A failed write is not a lost lease; the next heartbeat tries again
+    console.warn(`Error updating ingestion job ${job.id}:`, error);
+    return true;
+  }
+  return data !== null;
+}
+
+/**
+ * Ejecuta un trabajo: procesa el documento guardando el progreso tras cada lote de chunks
+ * Mientras dura, un latido mantiene el trabajo al día para que no se dé por colgado; antes de
+ * cada escritura se comprueba que sigue siendo de este worker
+ * Si falla, el trabajo vuelve a la cola con espera exponencial hasta agotar sus intentos
+ */
+async function runJob(job: IngestionJob): Promise<void> {
+  const fileName = job.document?.file_name || job.document_id;
+  console.log(`▶ Ingesta de "${fileName}" (intento ${job.attempts}/${job.max_attempts})`);
+
+  let leaseLost = false;
+  const renewLease = async (changes: Partial<IngestionJob> = {}) => {
+    if (!leaseLost && !(await updateOwnedJob(job, changes))) {
+      leaseLost = true;
+    }
+  };
+  const checkLease = async () => {
+    await renewLease();
+    if (leaseLost) {
+      throw new LeaseLostError(job.id);
+    }
+  };
+
+  // Text extraction and OCR report no progress, so the heartbeat runs for the whole job
+  const heartbeat = setInterval(() => void renewLease(), Math.max(1000, Math.floor(ingestionConfig.jobStaleAfterMs / 3)));
+
+  try {
+    const summary = await processDocument(
+      job.document_id,
+      ({ chunksDone, chunksTotal }) => renewLease({ chunks_done: chunksDone, chunks_total: chunksTotal }),
+      checkLease
+    );
+
+    const finished = await updateOwnedJob(job, {
+      status: 'succeeded',
+      last_error: null,
+      chunks_added: summary.added,
+      chunks_kept: summary.kept,
+      chunks_removed: summary.removed,
+    });
+    if (!finished) {
+      throw new LeaseLostError(job.id);
+    }
+    await updateDocumentStatus(job.document_id, 'processed');
+
+    // A new version replaces the previous one in searches only once it is fully indexed
+    try {
+      await activateDocumentVersion(job.document_id);
+    } catch (activateError) {
+      console.warn(`Error activating version of "${fileName}":`, activateError);
+    }
+  } catch (error) {
+    // The worker that holds the job now reports its result
+    if (error instanceof LeaseLostError) {
+      console.warn(`Ingesta de "${fileName}" abandonada: ${error.message}`);
+      return;
+    }
+    // Restoring the document queues a new job
+    if (error instanceof DocumentTrashedError) {
+      console.log(`Ingesta de "${fileName}" cancelada: el documento está en la papelera`);
+      await updateOwnedJob(job, { status: 'cancelled', last_error: 'Documento movido a la papelera' });
+      return;
+    }
+
+    // Supabase errors are plain objects with a message
+    const message = error instanceof Error ? error.message : (error as { message?: string })?.message || String(error);
+    const retryable = !(error instanceof IngestionError) || error.retryable;
+    const giveUp = !retryable || job.attempts >= job.max_attempts;
+
+    console.error(`Error processing "${fileName}" (intento ${job.attempts}/${job.max_attempts}):`, error);
+
+    const updated = await updateOwnedJob(job, {
+      status: giveUp ? 'failed' : 'queued',
+      last_error: message,
+      run_after: new Date(Date.now() + (giveUp ? 0 : retryDelayMs(job.attempts))).toISOString(),
+    });
+
+    if (updated && giveUp) {
+      await updateDocumentStatus(job.document_id, 'error');
+    }
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Inicia el worker de ingesta: ejecuta los trabajos en cola uno a uno
+ * Al arrancar recupera los trabajos interrumpidos y los documentos sin trabajo
+ *
+ * @returns Función que detiene el worker cuando termina el trabajo en curso
+ */
+export function startIngestionWorker(): () => void {
+  let stopped = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const tick = async () => {
+    try {
+      await requeueStaleJobs();
+
+      // Drain the queue before waiting again
+      let job = await claimNextJob();
+      while (job && !stopped) {
+        await runJob(job);
+        job = stopped ? null : await claimNextJob();
+      }
+    } catch (error) {
+      console.error('Error in ingestion worker:', error);
+    }
+
+    if (!stopped) {
+      timer = setTimeout(() => void tick(), ingestionConfig.jobPollIntervalMs);
+    }
+  };
+
+  void enqueueOrphanDocuments().finally(() => {
+    if (!stopped) void tick();
+  });
+  console.log('✓ Ingestion worker started');
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
@@ -1,4 +1,6 @@
 import { supabase } from '../supabase';
+import type { AuthIdentity } from '../auth/providers';
+import type { Role } from '../auth/roles';
 
 /**
  * User interface representing a user in the system
@@ -7,62 +9,136 @@ export interface User {
   id: string;
   name: string;
   email: string;
+  auth_user_id: string | null; // ID in the auth provider; null until the person signs in
+  role: Role; // Global role, applies to every department (see ../auth/roles.ts)
   created_at: string;
 }
 
+// Postgres unique_violation: another request created the same user at the same time
+const UNIQUE_VIOLATION = '23505';
+
 /**
- * Gets or creates the demo user for MVP
- * According to PRD, MVP uses a single hardcoded user
- * 
+ * Gets the user row of a signed-in identity, creating it on the first sign-in
+ * Documents reference users (uploader_id), so every account needs a row in users
+ *
  * This function implements an idempotent pattern:
- * - First attempts to find existing demo user by email
- * - If not found, creates a new demo user
- * - Returns the user object in either case
- * 
- * @returns Promise that resolves to the demo User object
+ * - First looks for the user linked to the identity (auth_user_id)
+ * - Then links an unlinked user with the same email (accounts from before sign-in existed)
+ * - Otherwise creates the user, named after the identity or its email
+ *
+ * @param identity - Identity returned by the auth provider
+ * @returns Promise that resolves to the User of the identity
  * @throws Error if database operations fail
  */
-export async function getOrCreateDemoUser(): Promise<User> {
+export async function getOrCreateUserForIdentity(identity: AuthIdentity): Promise<User> {
   try {
-    // Demo user credentials (hardcoded for MVP)
-    const DEMO_USER_EMAIL = 'demo@knowledgehub.ai';
-    const DEMO_USER_NAME = 'Demo User';
-
-    // Try to get existing demo user
-    // Search by email since it should be unique
-    const { data: existingUser, error: fetchError } = await supabase
+    const { data: linkedUser, error: fetchError } = await supabase
       .from('users')
       .select('*')
-      .eq('email', DEMO_USER_EMAIL)
-      .single();
+      .eq('auth_user_id', identity.id)
+      .maybeSingle();
+
+    if (fetchError) {
+      throw fetchError;
+    }
+    if (linkedUser) {
+      return linkedUser;
+    }
+
+    const { data: emailUser, error: linkError } = await supabase
+      .from('users')
+      .update({ auth_user_id: identity.id })
+      .eq('email', identity.email)
+      .is('auth_user_id', null)
+      .select()
+      .maybeSingle();
 
-    // If user exists and no error occurred, return it
-    if (existingUser && !fetchError) {
-      return existingUser;
+    if (linkError) {
+      throw linkError;
+    }
+    if (emailUser) {
+      return emailUser;
     }
 
-    // If user doesn't exist, create it
-    // This happens on first run or if user was deleted
     const { data: newUser, error: createError } = await supabase
       .from('users')
       .insert({
-        name: DEMO_USER_NAME,
-        email: DEMO_USER_EMAIL,
+        name: identity.name || identity.email.split('@')[0],
+        email: identity.email,
+        auth_user_id: identity.id,
       })
       .select()
       .single();
 
+    if (createError?.code === UNIQUE_VIOLATION) {
+      // Created by a concurrent request of the same identity
+      const { data: concurrentUser } = await supabase
+        .from('users')
+        .select('*')
+        .eq('auth_user_id', identity.id)
+        .maybeSingle();
+
+      if (concurrentUser) {
+        return concurrentUser;
+      }
+    }
+
     if (createError) {
-      console.error('Error creating demo user:', createError);
+      console.error('Error creating user:', createError);
       throw createError;
     }
 
-    // Return the newly created user
     return newUser;
   } catch (error) {
-    console.error('Error in getOrCreateDemoUser:', error);
+    console.error('Error in getOrCreateUserForIdentity:', error);
+    throw error;
+  }
+}
+
+/**
+ * Changes the display name of a user
+ *
+ * @param userId - The unique identifier of the user
+ * @param name - New display name
+ * @returns Promise that resolves to the updated User object
+ * @throws Error if the update fails
+ */
+export async function updateUserName(userId: string, name: string): Promise<User> {
+  const { data, error } = await supabase
+    .from('users')
+    .update({ name })
+    .eq('id', userId)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error updating user name:', error);
+    throw error;
+  }
+
+  return data;
+}
+
+/**
+ * Counts the documents a user has uploaded, trash excluded
+ * Every version counts as an upload
+ *
+ * @param userId - The unique identifier of the user
+ * @returns Promise that resolves to the number of uploads
+ */
+export async function countUserUploads(userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('documents')
+    .select('*', { count: 'exact', head: true })
+    .eq('uploader_id', userId)
+    .is('deleted_at', null);
+
+  if (error) {
+    console.error('Error counting user uploads:', error);
     throw error;
   }
+
+  return count || 0;
 }
 
 /**
@@ -96,3 +172,46 @@ export async function getUserById(userId: string): Promise<User | null> {
   }
 }
 
+/**
+ * Lists all users ordered by name, to pick department members and manage roles
+ *
+ * @returns Promise that resolves to an array of User objects
+ * @throws Error if database query fails
+ */
+export async function listUsers(): Promise<User[]> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('*')
+    .order('name', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching users:', error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Changes the global role of a user
+ *
+ * @param userId - The unique identifier of the user
+ * @param role - New global role
+ * @returns Promise that resolves to the updated User, or null if the user does not exist
+ * @throws Error if the update fails
+ */
+export async function updateUserRole(userId: string, role: Role): Promise<User | null> {
+  const { data, error } = await supabase
+    .from('users')
+    .update({ role })
+    .eq('id', userId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error updating user role:', error);
+    throw error;
+  }
+
+  return data;
+}
@@ -0,0 +1,51 @@
+import { choiceFromEnv, numberFromEnv } from '../rag/config';
+
+export const AUTH_PROVIDERS = ['supabase', 'local'] as const;
+export type AuthProviderName = (typeof AUTH_PROVIDERS)[number];
+
+/**
+ * Account of the local auth provider
+ */
+export interface LocalAccount {
+  email: string;
+  password: string;
+  name: string;
+}
+
+/**
+ * Parses LOCAL_AUTH_USERS: "email:password[:name]" entries separated by commas
+ * The name defaults to the part of the email before the @
+ */
+function parseLocalAccounts(raw: string | undefined): LocalAccount[] {
+  return (raw || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .flatMap(entry => {
+      const [email, password, ...name] = entry.split(':').map(part => part.trim());
+      if (!email || !password) {
+        console.warn(`⚠️ LOCAL_AUTH_USERS entry "${entry}" is not email:password[:name], ignoring it`);
+        return [];
+      }
+      return [{ email: email.toLowerCase(), password, name: name.join(':') || email.split('@')[0] }];
+    });
+}
+
+/**
+ * Authentication settings, configurable per deployment through environment variables
+ */
+export const authConfig = {
+  // 'supabase' validates Supabase Auth access tokens (email/password and magic link);
+  // 'local' signs in the accounts of LOCAL_AUTH_USERS without Supabase Auth, for tests
+  // and local development only
+  provider: choiceFromEnv('AUTH_PROVIDER', AUTH_PROVIDERS, 'supabase'),
+  localAccounts: parseLocalAccounts(process.env.LOCAL_AUTH_USERS),
+  // Lifetime of a local session; sessions are kept in memory and end when the server restarts
+  localSessionTtlMs: numberFromEnv('LOCAL_AUTH_SESSION_TTL_MS', 12 * 60 * 60 * 1000),
+  // Accounts that are always system admins, whatever their role in users; how the first
+  // admin gets in before anyone can grant roles
+  systemAdminEmails: (process.env.SYSTEM_ADMIN_EMAILS || '')
+    .split(',')
+    .map(email => email.trim().toLowerCase())
+    .filter(Boolean),
+};
@@ -0,0 +1,147 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { supabase } from '../supabase';
+import { authConfig, type AuthProviderName, type LocalAccount } from './config';
+
+/**
+ * A signed-in person, as known by the auth provider
+ */
+export interface AuthIdentity {
+  id: string; // Stable ID in the provider (Supabase Auth user ID, "local:<email>")
+  email: string;
+  name?: string;
+}
+
+/**
+ * Validates the access tokens the browser sends to the API server
+ */
+export interface AuthProvider {
+  name: AuthProviderName;
+  /**
+   * @returns The identity of the token's owner, or null if the token is invalid or expired
+   */
+  verifyAccessToken(token: string): Promise<AuthIdentity | null>;
+}
+
+/**
+ * Session issued by the local provider
+ */
+export interface LocalSession {
+  accessToken: string;
+  expiresAt: number; // Epoch milliseconds
+  identity: AuthIdentity;
+}
+
+/**
+ * Provider that signs in a fixed list of accounts itself, with sessions kept in memory
+ * Stand-in for Supabase Auth in tests and local development
+ */
+export interface LocalAuthProvider extends AuthProvider {
+  name: 'local';
+  /**
+   * @returns A new session, or null if the email or password is wrong
+   */
+  signIn(email: string, password: string): LocalSession | null;
+  // Ends a session; later requests with its token are rejected
+  signOut(accessToken: string): void;
+}
+
+/**
+ * Provider for Supabase Auth: the token is checked against Supabase, so forged or
+ * expired tokens are rejected
+ * Anonymous sessions are not accounts and are rejected
+ */
+const supabaseAuthProvider: AuthProvider = {
+  name: 'supabase',
+  async verifyAccessToken(token) {
+    const { data, error } = await supabase.auth.getUser(token);
+    if (error || !data.user || data.user.is_anonymous || !data.user.email) {
+      return null;
+    }
+
+    const name = data.user.user_metadata?.name;
+    return {
+      id: data.user.id,
+      email: data.user.email,
+      name: typeof name === 'string' && name.trim() ? name.trim() : undefined,
+    };
+  },
+};
+
+/**
+ * Compares two secrets in constant time
+ */
+function sameSecret(a: string, b: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(a), digest(b));
+}
+
+/**
+ * Creates a local provider for the given accounts
+ *
+ * @param accounts - Accounts that can sign in
+ * @param sessionTtlMs - Lifetime of a session
+ */
+export function createLocalAuthProvider(
+  accounts: LocalAccount[],
+  sessionTtlMs = authConfig.localSessionTtlMs
+): LocalAuthProvider {
+  const sessions = new Map<string, LocalSession>();
+
+  return {
+    name: 'local',
+    async verifyAccessToken(token) {
+      const session = sessions.get(token);
+      if (!session) {
+        return null;
+      }
+      if (session.expiresAt <= Date.now()) {
+        sessions.delete(token);
+        return null;
+      }
+      return session.identity;
+    },
+    signIn(email, password) {
+      const account = accounts.find(candidate => candidate.email === email.trim().toLowerCase());
+      if (!account || !sameSecret(account.password, password)) {
+        return null;
+      }
+
+      const session: LocalSession = {
+        accessToken: randomBytes(32).toString('hex'),
+        expiresAt: Date.now() + sessionTtlMs,
+        identity: { id: `local:${account.email}`, email: account.email, name: account.name },
+      };
+      sessions.set(session.accessToken, session);
+      return session;
+    },
+    signOut(accessToken) {
+      sessions.delete(accessToken);
+    },
+  };
+}
+
+let authProvider: AuthProvider | null = null;
+
+/**
+ * Returns the provider selected with AUTH_PROVIDER, used to authenticate every request
+ */
+export function getAuthProvider(): AuthProvider {
+  if (!authProvider) {
+    if (authConfig.provider === 'local') {
+      console.warn('⚠️ AUTH_PROVIDER=local: accounts come from LOCAL_AUTH_USERS. Do not use it in production');
+      authProvider = createLocalAuthProvider(authConfig.localAccounts);
+    } else {
+      authProvider = supabaseAuthProvider;
+    }
+  }
+  return authProvider;
+}
+
+/**
+ * Replaces the auth provider, e.g. with a local provider in tests
+ *
+ * @param provider - Provider used from now on
+ */
+export function setAuthProvider(provider: AuthProvider): void {
+  authProvider = provider;
+}
@@ -0,0 +1,59 @@
+/**
+ * Roles from least to most privileged; each role can do everything the previous ones can
+ * - viewer: lists, reads and asks about documents
+ * - editor: also uploads documents and new versions
+ * - department_admin: also deletes, restores and reprocesses documents, and manages members
+ * - system_admin: also manages departments, user roles and embedding indexes
+ */
+export const ROLES = ['viewer', 'editor', 'department_admin', 'system_admin'] as const;
+export type Role = (typeof ROLES)[number];
+
+// Roles that can be granted within a department; system admins are always global
+export const DEPARTMENT_ROLES = ['viewer', 'editor', 'department_admin'] as const;
+export type DepartmentRole = (typeof DEPARTMENT_ROLES)[number];
+
+/**
+ * What a user can do: a global role that applies to every department, raised in
+ * the departments where they are a member with a higher role
+ */
+export interface UserPermissions {
+  role: Role;
+  departments: Record<string, DepartmentRole>; // Department ID -> role granted there
+}
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+export function isDepartmentRole(value: unknown): value is DepartmentRole {
+  return DEPARTMENT_ROLES.includes(value as DepartmentRole);
+}
+
+/**
+ * Whether a role includes the permissions of another
+ */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Effective role of a user in a department: the higher of their global and department roles
+ */
+export function roleInDepartment(permissions: UserPermissions, departmentId: string): Role {
+  const departmentRole = permissions.departments[departmentId];
+  return departmentRole && !hasRole(permissions.role, departmentRole) ? departmentRole : permissions.role;
+}
+
+/**
+ * Whether a user has at least a role in a department
+ */
+export function canInDepartment(permissions: UserPermissions, departmentId: string, required: Role): boolean {
+  return hasRole(roleInDepartment(permissions, departmentId), required);
+}
+
+/**
+ * Whether a user has at least a role in some department (e.g. editors can open the Upload page)
+ */
+export function canInAnyDepartment(permissions: UserPermissions, required: Role): boolean {
+  return hasRole(permissions.role, required) || Object.values(permissions.departments).some(role => hasRole(role, required));
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { canViewDocument, type DocumentAccess, type Viewer } from './visibility';
+import type { UserPermissions } from './roles';
+
+const SALES = 'dept-sales';
+const LEGAL = 'dept-legal';
+
+function viewer(userId: string, permissions: Partial<UserPermissions> = {}): Viewer {
+  return { userId, permissions: { role: 'viewer', departments: {}, ...permissions } };
+}
+
+// One person per role, all of them outside the restricted list and not the uploader
+const viewers = {
+  anonymous: null,
+  outsider: viewer('outsider'),
+  salesViewer: viewer('sales-viewer', { departments: { [SALES]: 'viewer' } }),
+  salesEditor: viewer('sales-editor', { departments: { [SALES]: 'editor' } }),
+  salesAdmin: viewer('sales-admin', { departments: { [SALES]: 'department_admin' } }),
+  legalAdmin: viewer('legal-admin', { departments: { [LEGAL]: 'department_admin' } }),
+  globalEditor: viewer('global-editor', { role: 'editor' }),
+  globalDepartmentAdmin: viewer('global-admin', { role: 'department_admin' }),
+  systemAdmin: viewer('system-admin', { role: 'system_admin' }),
+};
+
+type ViewerName = keyof typeof viewers;
+
+function salesDocument(visibility: DocumentAccess['visibility'], restrictedTo: string[] = []): DocumentAccess {
+  return { department_id: SALES, uploader_id: 'uploader', visibility, restricted_to: restrictedTo };
+}
+
+describe('canViewDocument', () => {
+  const cases: { visibility: 'public' | 'department' | 'restricted'; allowed: ViewerName[] }[] = [
+    {
+      visibility: 'public',
+      allowed: ['anonymous', 'outsider', 'salesViewer', 'salesEditor', 'salesAdmin', 'legalAdmin', 'globalEditor', 'globalDepartmentAdmin', 'systemAdmin'],
+    },
+    {
+      visibility: 'department',
+      allowed: ['salesViewer', 'salesEditor', 'salesAdmin', 'globalDepartmentAdmin', 'systemAdmin'],
+    },
+    {
+      visibility: 'restricted',
+      allowed: ['salesAdmin', 'globalDepartmentAdmin', 'systemAdmin'],
+    },
+  ];
+
+  for (const { visibility, allowed } of cases) {
+    describe(`${visibility} documents`, () => {
+      it.each(Object.keys(viewers) as ViewerName[])('%s', name => {
+        expect(canViewDocument(viewers[name], salesDocument(visibility))).toBe(allowed.includes(name));
+      });
+    });
+  }
+
+  it('shows restricted documents to the people in their list', () => {
+    const document = salesDocument('restricted', ['outsider']);
+    expect(canViewDocument(viewers.outsider, document)).toBe(true);
+    expect(canViewDocument(viewers.salesViewer, document)).toBe(false);
+  });
+
+  it('always shows documents to their uploader', () => {
+    const uploader = viewer('uploader');
+    expect(canViewDocument(uploader, salesDocument('department'))).toBe(true);
+    expect(canViewDocument(uploader, salesDocument('restricted'))).toBe(true);
+  });
+
+  it('uses the department default when the document sets no visibility', () => {
+    const document = salesDocument(null);
+    expect(canViewDocument(viewers.outsider, document, 'department')).toBe(false);
+    expect(canViewDocument(viewers.salesViewer, document, 'department')).toBe(true);
+    expect(canViewDocument(viewers.salesViewer, document, 'restricted')).toBe(false);
+    expect(canViewDocument(viewers.anonymous, document)).toBe(true);
+  });
+});
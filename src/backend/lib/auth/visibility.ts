@@ -0,0 +1,73 @@
+import { canInDepartment, hasRole, type UserPermissions } from './roles';
+
+/**
+ * Who can see a document, in search results, listings and the viewer
+ * - public: every signed-in user
+ * - department: members of its department (any role) and global department admins
+ * - restricted: the users in its restricted list and the admins of its department
+ * Uploaders always see their own documents and system admins see everything
+ */
+export const VISIBILITIES = ['public', 'department', 'restricted'] as const;
+export type Visibility = (typeof VISIBILITIES)[number];
+
+export function isVisibility(value: unknown): value is Visibility {
+  return VISIBILITIES.includes(value as Visibility);
+}
+
+/**
+ * The person a document would be shown to
+ */
+export interface Viewer {
+  userId: string;
+  permissions: UserPermissions;
+}
+
+/**
+ * Fields of a document that decide who can see it
+ */
+export interface DocumentAccess {
+  department_id: string;
+  uploader_id: string;
+  visibility?: Visibility | null; // null: the default visibility of its department
+  restricted_to?: string[] | null; // User IDs allowed to see a restricted document
+}
+
+/**
+ * Visibility that applies to a document: its own, else its department's default
+ *
+ * @param departmentVisibility - Default visibility of the document's department, if known
+ */
+export function effectiveVisibility(document: DocumentAccess, departmentVisibility?: Visibility | null): Visibility {
+  return document.visibility ?? departmentVisibility ?? 'public';
+}
+
+/**
+ * Whether a document can be shown to someone
+ * Same rule as the can_view_document database function, which the search RPCs apply
+ *
+ * @param viewer - The person asking; null only sees public documents
+ * @param document - The document
+ * @param departmentVisibility - Default visibility of the document's department, if known
+ */
+export function canViewDocument(
+  viewer: Viewer | null,
+  document: DocumentAccess,
+  departmentVisibility?: Visibility | null
+): boolean {
+  const visibility = effectiveVisibility(document, departmentVisibility);
+  if (visibility === 'public') {
+    return true;
+  }
+  if (!viewer) {
+    return false;
+  }
+
+  const { userId, permissions } = viewer;
+  if (document.uploader_id === userId || permissions.role === 'system_admin') {
+    return true;
+  }
+  if (visibility === 'department') {
+    return document.department_id in permissions.departments || hasRole(permissions.role, 'department_admin');
+  }
+  return (document.restricted_to || []).includes(userId) || canInDepartment(permissions, document.department_id, 'department_admin');
+}
@@ -0,0 +1,32 @@
+import { choiceFromEnv } from '../rag/config';
+
+export const EMBEDDING_PROVIDERS = ['openai', 'openai-compatible', 'local'] as const;
+export type EmbeddingProviderName = (typeof EMBEDDING_PROVIDERS)[number];
+
+// Model used when EMBEDDING_MODEL is not set
+const DEFAULT_MODELS: Record<EmbeddingProviderName, string> = {
+  openai: 'text-embedding-3-small',
+  'openai-compatible': 'nomic-embed-text', // Ollama's default embedding model
+  local: 'Xenova/paraphrase-multilingual-MiniLM-L12-v2', // Multilingual, 384 dimensions
+};
+
+const provider = choiceFromEnv('EMBEDDING_PROVIDER', EMBEDDING_PROVIDERS, 'openai');
+
+/**
+ * Embedding model settings, configurable per deployment through environment variables
+ * Changing the provider or model needs the documents to be embedded again: chunks
+ * record the model they were embedded with and are only compared with that model
+ */
+export const embeddingConfig = {
+  // 'openai' uses OPENAI_API_KEY; 'openai-compatible' any server with the OpenAI
+  // embeddings API (Ollama, LM Studio, vLLM); 'local' runs the model in the API server
+  provider,
+  model: process.env.EMBEDDING_MODEL?.trim() || DEFAULT_MODELS[provider],
+  // Base URL of the OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama
+  baseUrl: process.env.EMBEDDING_BASE_URL?.trim() || '',
+  // API key of the OpenAI-compatible server; most local servers accept any value
+  apiKey: process.env.EMBEDDING_API_KEY?.trim() || '',
+  // Local provider: folder with the downloaded model (<dir>/<model>/); when set the
+  // model is never downloaded, so the server can run fully offline
+  modelDir: process.env.EMBEDDING_MODEL_DIR?.trim() || '',
+};
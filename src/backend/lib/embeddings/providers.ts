@@ -0,0 +1,150 @@
+import OpenAI from 'openai';
+import type { FeatureExtractionPipeline } from '@huggingface/transformers';
+import { openai } from '../openai';
+import { truncateForEmbedding } from '../rag/tokenizer';
+import { embeddingConfig, type EmbeddingProviderName } from './config';
+
+/**
+ * A source of embedding vectors for chunks and questions
+ * Vectors of different models (or dimensions) are not comparable: the model name is
+ * stored with every chunk and searches only compare vectors of the same model
+ */
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName;
+  model: string;
+  /**
+   * Embeds several texts at once
+   * @returns One vector per text, in the same order
+   */
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Provider and model of an embedding index
+ */
+export interface EmbeddingModelSpec {
+  provider: EmbeddingProviderName;
+  model: string;
+}
+
+// Longest input the OpenAI embedding models accept, in tokens
+const OPENAI_MAX_INPUT_TOKENS = 8191;
+
+/**
+ * Provider for the OpenAI embeddings API or a server that implements it
+ * Requests are not retried by the SDK; rate limits are handled by the caller
+ * (see ingestion/embeddings.ts), which catches RateLimitError
+ *
+ * @param name - Provider name recorded in logs
+ * @param client - OpenAI client, or null when it is not configured
+ * @param model - Embedding model
+ */
+function createOpenAIProvider(name: EmbeddingProviderName, client: OpenAI | null, model: string): EmbeddingProvider {
+  return {
+    name,
+    model,
+    async embed(texts) {
+      if (!client) {
+        throw new Error('OpenAI is not configured. Please verify OPENAI_API_KEY in your .env file');
+      }
+
+      const input = texts.map(text => truncateForEmbedding(text, OPENAI_MAX_INPUT_TOKENS));
+      // The SDK asks OpenAI for base64 vectors; compatible servers may ignore that and
+      // send floats, which the SDK would then decode wrongly
+      const encoding_format = name === 'openai-compatible' ? 'float' : undefined;
+      const response = await client.embeddings.create({ model, input, encoding_format }, { maxRetries: 0 });
+
+      // The API returns one item per input, with the position of the input
+      const embeddings: number[][] = new Array(texts.length);
+      for (const item of response.data) {
+        embeddings[item.index] = item.embedding;
+      }
+      return embeddings;
+    },
+  };
+}
+
+/**
+ * Provider that runs a sentence-transformers model in the API server with
+ * transformers.js (ONNX), without network access once the model is available
+ * The library and the model are loaded on first use
+ *
+ * @param model - Hugging Face model id with ONNX weights (e.g. Xenova/...)
+ */
+function createLocalProvider(model: string): EmbeddingProvider {
+  let extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+  const loadExtractor = async (): Promise<FeatureExtractionPipeline> => {
+    const { env, pipeline } = await import('@huggingface/transformers');
+    if (embeddingConfig.modelDir) {
+      env.localModelPath = embeddingConfig.modelDir;
+      env.allowRemoteModels = false;
+    }
+    console.log(`Loading local embedding model ${model}...`);
+    return pipeline('feature-extraction', model);
+  };
+
+  return {
+    name: 'local',
+    model,
+    async embed(texts) {
+      if (!extractor) {
+        extractor = loadExtractor();
+        // Allow a later call to try again if the model could not be loaded
+        extractor.catch(() => {
+          extractor = null;
+        });
+      }
+
+      // Mean pooling and normalization give sentence embeddings comparable by cosine
+      const output = await (await extractor)(texts, { pooling: 'mean', normalize: true });
+      return output.tolist() as number[][];
+    },
+  };
+}
+
+/**
+ * Creates a provider for a model
+ * The OpenAI-compatible server and local model folder are those of the deployment
+ *
+ * @throws Error if the OpenAI-compatible provider has no EMBEDDING_BASE_URL
+ */
+function createEmbeddingProvider({ provider, model }: EmbeddingModelSpec): EmbeddingProvider {
+
+  switch (provider) {
+    case 'openai':
+      return createOpenAIProvider(provider, openai, model);
+    case 'openai-compatible': {
+      if (!embeddingConfig.baseUrl) {
+        throw new Error('EMBEDDING_BASE_URL is required when EMBEDDING_PROVIDER=openai-compatible');
+      }
+      // The SDK requires a key even if the server ignores it
+      const client = new OpenAI({ apiKey: embeddingConfig.apiKey || 'not-needed', baseURL: embeddingConfig.baseUrl });
+      return createOpenAIProvider(provider, client, model);
+    }
+    case 'local':
+      return createLocalProvider(model);
+  }
+}
+
+// One provider per model, so a local model is only loaded once
+const embeddingProviders = new Map<string, EmbeddingProvider>();
+
+/**
+ * Returns the provider of a model
+ * Chat and document processing use the model of the active embedding index
+ * (see getActiveEmbeddingProvider); EMBEDDING_PROVIDER and EMBEDDING_MODEL are the default
+ *
+ * @param spec - Provider and model (defaults to EMBEDDING_PROVIDER and EMBEDDING_MODEL)
+ * @returns The shared provider for that model
+ * @throws Error if the provider is misconfigured
+ */
+export function getEmbeddingProvider(spec: EmbeddingModelSpec = embeddingConfig): EmbeddingProvider {
+  const key = `${spec.provider}:${spec.model}`;
+  let embeddingProvider = embeddingProviders.get(key);
+  if (!embeddingProvider) {
+    embeddingProvider = createEmbeddingProvider(spec);
+    embeddingProviders.set(key, embeddingProvider);
+  }
+  return embeddingProvider;
+}
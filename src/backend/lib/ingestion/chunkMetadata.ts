@@ -0,0 +1,128 @@
+import type { ChunkMetadata, ExtractedDocument, HeadingMark, PageSpan } from './types';
+
+// How far back from the end of a chunk the next chunk may start (splitter overlap plus margin)
+const MAX_OVERLAP_SEARCH = 250;
+
+/**
+ * Removes all whitespace, keeping for each remaining character its offset in the original text
+ * The splitter only trims and re-joins text with whitespace, so a chunk without
+ * whitespace is an exact substring of the document without whitespace
+ */
+function compact(text: string): { chars: string; offsets: number[] } {
+  let chars = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (!/\s/.test(text[i])) {
+      chars += text[i];
+      offsets.push(i);
+    }
+  }
+  return { chars, offsets };
+}
+
+/**
+ * Finds the character range of each chunk in the text it was split from
+ *
+ * @param text - Extracted document text
+ * @param chunks - Chunks produced by the splitter, in order
+ * @returns Start and end offsets of each chunk (null if a chunk cannot be located)
+ */
+export function locateChunks(text: string, chunks: string[]): ({ start: number; end: number } | null)[] {
+  const document = compact(text);
+  let searchFrom = 0;
+
+  return chunks.map(chunk => {
+    const needle = compact(chunk).chars;
+    if (!needle) {
+      return null;
+    }
+
+    const index = document.chars.indexOf(needle, searchFrom);
+    if (index < 0) {
+      return null;
+    }
+
+    // Chunks overlap by at most ~200 characters, so the next one starts shortly before this one ends
+    // Searching from there avoids matching repeated text earlier in the document
+    searchFrom = Math.max(index + 1, index + needle.length - MAX_OVERLAP_SEARCH);
+    return {
+      start: document.offsets[index],
+      end: document.offsets[index + needle.length - 1] + 1,
+    };
+  });
+}
+
+/**
+ * Finds the page that contains a character offset
+ */
+function pageAt(pages: PageSpan[], offset: number): number | null {
+  if (pages.length === 0) {
+    return null;
+  }
+  // Offsets between pages (separators) belong to the next page
+  const page = pages.find(span => offset < span.end) || pages[pages.length - 1];
+  return page.page;
+}
+
+/**
+ * Lowest OCR confidence of the pages in a range
+ * Pages read from a text layer have no confidence and are ignored
+ */
+function ocrConfidenceOf(pages: PageSpan[], pageStart: number | null, pageEnd: number | null): number | null {
+  if (pageStart === null || pageEnd === null) {
+    return null;
+  }
+  const confidences = pages
+    .filter(span => span.page >= pageStart && span.page <= pageEnd && span.ocrConfidence !== undefined)
+    .map(span => span.ocrConfidence!);
+  return confidences.length > 0 ? Math.min(...confidences) : null;
+}
+
+/**
+ * Builds the heading path (outermost first) in effect at a character offset
+ */
+function headingPathAt(headings: HeadingMark[], offset: number): string[] {
+  const stack: HeadingMark[] = [];
+  for (const heading of headings) {
+    if (heading.offset > offset) break;
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+      stack.pop();
+    }
+    stack.push(heading);
+  }
+  return stack.map(heading => heading.title);
+}
+
+/**
+ * Describes a range of the extracted text: pages, section and, when it was
+ * recognized with OCR, how reliable its text is
+ * The section is the heading path in effect at the middle of the range, which
+ * ignores a heading that only starts in the range's last lines
+ *
+ * @param extracted - Extracted document
+ * @param range - Start and end offsets in the extracted text
+ * @returns Metadata of the range
+ */
+export function describeRange(extracted: ExtractedDocument, range: { start: number; end: number }): ChunkMetadata {
+  const pageStart = pageAt(extracted.pages, range.start);
+  const pageEnd = pageAt(extracted.pages, range.end - 1);
+  return {
+    char_start: range.start,
+    char_end: range.end,
+    page_start: pageStart,
+    page_end: pageEnd,
+    heading_path: headingPathAt(extracted.headings, Math.floor((range.start + range.end) / 2)),
+    ocr_confidence: ocrConfidenceOf(extracted.pages, pageStart, pageEnd),
+  };
+}
+
+/**
+ * Describes where each chunk comes from (see describeRange)
+ *
+ * @param extracted - Extracted document the chunks were split from
+ * @param chunks - Chunks produced by the splitter, in order
+ * @returns Metadata for each chunk (null if a chunk cannot be located)
+ */
+export function describeChunks(extracted: ExtractedDocument, chunks: string[]): (ChunkMetadata | null)[] {
+  return locateChunks(extracted.text, chunks).map(range => (range ? describeRange(extracted, range) : null));
+}
@@ -0,0 +1,38 @@
+import { numberFromEnv } from '../rag/config';
+
+/**
+ * Text extraction and ingestion queue settings, configurable per deployment through environment variables
+ */
+export const ingestionConfig = {
+  // OCR of scanned PDFs and images; 'false' disables it
+  ocrEnabled: process.env.OCR_ENABLED?.trim().toLowerCase() !== 'false',
+  // Tesseract languages joined with "+"; each needs its @tesseract.js-data/<code> package
+  ocrLanguages: (process.env.OCR_LANGUAGES?.trim() || 'spa+eng').split('+').filter(Boolean),
+  // A PDF page whose text layer has fewer characters than this is OCRed
+  ocrMinPageChars: numberFromEnv('OCR_MIN_PAGE_CHARS', 30),
+  // Resolution PDF pages are rendered at before OCR
+  ocrDpi: numberFromEnv('OCR_DPI', 200),
+  // Embeddings: chunks are sent in batches of at most embeddingBatchSize inputs and
+  // embeddingBatchTokens tokens (the API accepts up to 2048 inputs and 300k tokens)
+  embeddingBatchSize: numberFromEnv('EMBEDDING_BATCH_SIZE', 100),
+  embeddingBatchTokens: numberFromEnv('EMBEDDING_BATCH_TOKENS', 50000),
+  // Batches of a document embedded at the same time
+  embeddingConcurrency: numberFromEnv('EMBEDDING_CONCURRENCY', 4),
+  // Retries of a batch rejected with 429 (rate limit) before the job attempt fails
+  embeddingMaxRetries: numberFromEnv('EMBEDDING_MAX_RETRIES', 6),
+  // Background job queue: how often the worker looks for queued documents
+  jobPollIntervalMs: numberFromEnv('INGESTION_POLL_INTERVAL_MS', 2000),
+  // Runs of a job before it is marked as failed
+  jobMaxAttempts: numberFromEnv('INGESTION_MAX_ATTEMPTS', 5),
+  // Wait before the first retry; doubles on every failed attempt up to jobRetryMaxDelayMs
+  jobRetryBaseDelayMs: numberFromEnv('INGESTION_RETRY_BASE_DELAY_MS', 30000),
+  jobRetryMaxDelayMs: numberFromEnv('INGESTION_RETRY_MAX_DELAY_MS', 30 * 60 * 1000),
+  // A running job that reports no progress for this long is requeued (crashed server)
+  jobStaleAfterMs: numberFromEnv('INGESTION_STALE_AFTER_MS', 10 * 60 * 1000),
+  // Uploads whose text is at least this similar (0-1, estimated with MinHash) to an
+  // existing document are flagged as near-duplicates
+  duplicateSimilarityThreshold: numberFromEnv('DUPLICATE_SIMILARITY_THRESHOLD', 0.8),
+  // Time the duplicate check of an upload may spend reading its text (text layer only, no
+  // OCR); past it the upload is only compared byte for byte
+  duplicateTextTimeoutMs: numberFromEnv('DUPLICATE_TEXT_TIMEOUT_MS', 5000),
+};
@@ -0,0 +1,78 @@
+import type { ExtractedDocument, HeadingMark, PageSpan, TableSpan } from './types';
+
+// Cells of a table row are joined with this, one row per line
+export const CELL_SEPARATOR = ' | ';
+
+/**
+ * A block of extracted text: a heading, a paragraph or a table
+ * Lines of a paragraph are kept (items of a list...)
+ * Table rows are already serialized, one line per row with cells joined by CELL_SEPARATOR
+ */
+export type TextBlock =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'table'; header: string; rows: string[] };
+
+/**
+ * Consecutive blocks that come from the same page (slide) of a file, or from a
+ * part of it without pages (a sheet, the body of a Word document)
+ */
+export interface TextSection {
+  page?: number; // 1-based page or slide number
+  ocrConfidence?: number; // Set when the text was recognized with OCR (0-100)
+  blocks: TextBlock[];
+}
+
+/**
+ * Joins extracted blocks into one text, recording page spans, heading offsets and tables
+ * Blocks are separated by blank lines so the splitter treats each one as a paragraph
+ *
+ * @param sections - Sections in document order
+ * @returns Extracted document
+ */
+export function buildExtractedDocument(sections: TextSection[]): ExtractedDocument {
+  let text = '';
+  const pages: PageSpan[] = [];
+  const headings: HeadingMark[] = [];
+  const tables: TableSpan[] = [];
+
+  for (const section of sections) {
+    const blocks = section.blocks.filter(block =>
+      block.kind === 'table' ? block.header.trim() || block.rows.length > 0 : block.text.trim()
+    );
+    if (blocks.length === 0 && section.page === undefined) {
+      continue;
+    }
+
+    if (text) {
+      text += '\n\n';
+    }
+    const start = text.length;
+
+    blocks.forEach((block, index) => {
+      if (index > 0) text += '\n\n';
+      if (block.kind === 'table') {
+        const tableStart = text.length;
+        text += block.header.trim();
+        const headerEnd = text.length;
+        for (const row of block.rows.filter(row => row.trim())) {
+          text += `\n${row.trim()}`;
+        }
+        tables.push({ start: tableStart, headerEnd, end: text.length });
+        return;
+      }
+
+      const blockText = block.text.trim();
+      if (block.kind === 'heading') {
+        headings.push({ offset: text.length, level: block.level, title: blockText });
+      }
+      text += blockText;
+    });
+
+    if (section.page !== undefined) {
+      pages.push({ page: section.page, start, end: text.length, ocrConfidence: section.ocrConfidence });
+    }
+  }
+
+  return { text, pages, headings, tables };
+}
@@ -0,0 +1,139 @@
+import { RateLimitError } from 'openai';
+import type { EmbeddingProvider } from '../embeddings/providers';
+import { encodeForEmbedding } from '../rag/tokenizer';
+import { ingestionConfig } from './config';
+
+// Wait before retrying a rate-limited batch when the response has no retry-after header
+const RATE_LIMIT_BASE_DELAY_MS = 1000;
+const RATE_LIMIT_MAX_DELAY_MS = 60000;
+
+/**
+ * Groups items into batches for the embeddings API: at most EMBEDDING_BATCH_SIZE
+ * inputs and EMBEDDING_BATCH_TOKENS tokens per request, keeping the item order
+ * Tokens are counted with the OpenAI embedding tokenizer (an estimate for other models)
+ *
+ * @param items - Items to embed
+ * @param getText - Text of an item
+ * @returns Batches in order; an item longer than the token budget gets a batch to itself
+ */
+export function createEmbeddingBatches<T>(items: T[], getText: (item: T) => string): T[][] {
+  const batches: T[][] = [];
+  let current: T[] = [];
+  let tokens = 0;
+
+  for (const item of items) {
+    const itemTokens = encodeForEmbedding(getText(item)).length;
+    const isFull =
+      current.length >= ingestionConfig.embeddingBatchSize ||
+      tokens + itemTokens > ingestionConfig.embeddingBatchTokens;
+
+    if (current.length > 0 && isFull) {
+      batches.push(current);
+      current = [];
+      tokens = 0;
+    }
+    current.push(item);
+    tokens += itemTokens;
+  }
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+/**
+ * Milliseconds to wait before retrying a rate-limited request
+ * Uses the retry-after-ms or retry-after header (seconds or HTTP date) when present,
+ * otherwise exponential backoff with jitter
+ *
+ * @param error - 429 response from the API
+ * @param attempt - Retries already made (0 for the first one)
+ */
+function rateLimitDelayMs(error: RateLimitError, attempt: number): number {
+  const retryAfterMs = Number(error.headers?.get('retry-after-ms'));
+  if (retryAfterMs > 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = error.headers?.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const delay = Math.min(RATE_LIMIT_BASE_DELAY_MS * 2 ** attempt, RATE_LIMIT_MAX_DELAY_MS);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Generates the embeddings of several texts with a single provider call
+ * Rate-limited requests (429 from OpenAI or a compatible server) are retried up to
+ * EMBEDDING_MAX_RETRIES times, waiting what the API asks for; other errors are thrown
+ *
+ * @param provider - Embedding provider
+ * @param texts - Texts to embed (one batch from createEmbeddingBatches)
+ * @returns One embedding vector per text, in the same order
+ * @throws Error if the provider fails or retries run out
+ */
+export async function embedTexts(provider: EmbeddingProvider, texts: string[]): Promise<number[][]> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await provider.embed(texts);
+    } catch (error) {
+      if (!(error instanceof RateLimitError) || attempt >= ingestionConfig.embeddingMaxRetries) {
+        throw error;
+      }
+
+      const delay = rateLimitDelayMs(error, attempt);
+      console.warn(`⏳ Embeddings rate limited; retrying ${texts.length} input(s) in ${Math.round(delay / 1000)}s`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Runs a task for every item with at most limit tasks running at the same time
+ * After the first failure no new tasks are started; the error is thrown once
+ * the running ones settle
+ *
+ * @param items - Items to process, started in order
+ * @param limit - Maximum concurrent tasks
+ * @param task - Async task run for each item
+ */
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  let failed = false;
+  let failure: unknown;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const item = items[next++];
+      try {
+        await task(item);
+      } catch (error) {
+        if (!failed) {
+          failed = true;
+          failure = error;
+        }
+      }
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  if (failed) {
+    throw failure;
+  }
+}
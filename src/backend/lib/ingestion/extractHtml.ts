@@ -0,0 +1,227 @@
+import { parse as parseHtml, HTMLElement, TextNode, type Node } from 'node-html-parser';
+import { buildExtractedDocument, CELL_SEPARATOR, type TextBlock } from './documentBuilder';
+import type { ExtractedDocument } from './types';
+
+// Elements that never contain readable content
+const IGNORED_TAGS = new Set([
+  'script', 'style', 'noscript', 'template', 'svg', 'canvas', 'iframe', 'object',
+  'form', 'button', 'select', 'input', 'textarea', 'head',
+]);
+
+// Page chrome found in site exports: menus, sidebars, footers...
+const BOILERPLATE_TAGS = new Set(['nav', 'aside', 'footer']);
+const BOILERPLATE_ROLES = new Set(['navigation', 'banner', 'contentinfo', 'complementary', 'search']);
+// Matched against each class name and the id, allowing one prefix or suffix (site-footer, nav-links)
+const BOILERPLATE_NAME = /^([a-z0-9]+[-_])?(nav|navbar|navigation|menu|breadcrumbs?|sidebar|footer|cookies?|banner|toc|skip-link|pagination|editsection|catlinks|printfooter)([-_][a-z0-9]+)?$/i;
+
+// Elements that start a new block of text (everything else is inline)
+const BLOCK_TAGS = new Set([
+  'html', 'body', 'main', 'article', 'section', 'header', 'footer', 'nav', 'aside', 'div',
+  'p', 'blockquote', 'address', 'figure', 'figcaption', 'details', 'summary', 'dialog',
+  'dl', 'dt', 'dd', 'fieldset', 'hr', 'li', 'center',
+]);
+
+/**
+ * Tells whether an element is navigation or page chrome rather than content
+ */
+function isBoilerplate(element: HTMLElement): boolean {
+  const tag = element.tagName.toLowerCase();
+  if (BOILERPLATE_TAGS.has(tag)) {
+    return true;
+  }
+  // Page headers are chrome unless they hold the title of the content
+  if (tag === 'header' && !element.querySelector('h1, h2, h3, h4, h5, h6')) {
+    return true;
+  }
+  if (BOILERPLATE_ROLES.has(element.getAttribute('role') || '') || element.getAttribute('aria-hidden') === 'true') {
+    return true;
+  }
+  const names = `${element.getAttribute('id') || ''} ${element.getAttribute('class') || ''}`.split(/\s+/);
+  return names.some(name => BOILERPLATE_NAME.test(name));
+}
+
+/**
+ * Removes scripts, styles and page chrome from a parsed page
+ */
+function removeBoilerplate(root: HTMLElement): void {
+  for (const element of root.querySelectorAll('*')) {
+    const tag = element.tagName.toLowerCase();
+    if (IGNORED_TAGS.has(tag) || (tag !== 'body' && tag !== 'main' && isBoilerplate(element))) {
+      element.remove();
+    }
+  }
+}
+
+/**
+ * Text of a link, followed by its target when the target adds information
+ * In-page anchors and javascript: links are dropped
+ */
+function linkText(link: HTMLElement): string {
+  const text = link.childNodes.map(inlineText).join('').trim();
+  const href = link.getAttribute('href')?.trim();
+  if (!href || href.startsWith('#') || /^javascript:/i.test(href) || href.replace(/^mailto:/i, '') === text) {
+    return text;
+  }
+  return text ? `${text} (${href})` : href;
+}
+
+/**
+ * Text of inline content; whitespace is collapsed and only <br> breaks lines
+ */
+function inlineText(node: Node): string {
+  if (node instanceof TextNode) {
+    return node.text.replace(/\s+/g, ' ');
+  }
+  if (!(node instanceof HTMLElement)) {
+    return '';
+  }
+
+  const tag = node.tagName?.toLowerCase();
+  if (tag === 'br') return '\n';
+  if (tag === 'a') return linkText(node);
+  if (tag === 'img') return node.getAttribute('alt') ? ` ${node.getAttribute('alt')} ` : '';
+  return node.childNodes.map(inlineText).join('');
+}
+
+/**
+ * Trims every line of a text and drops empty lines
+ */
+function cleanLines(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Formats a list as one line per item; nested lists are indented
+ */
+function listText(list: HTMLElement, depth = 0): string {
+  const ordered = list.tagName.toLowerCase() === 'ol';
+  const lines: string[] = [];
+  let number = Number(list.getAttribute('start')) || 1;
+
+  for (const item of list.children.filter(child => child.tagName.toLowerCase() === 'li')) {
+    const nested = item.children.filter(child => ['ul', 'ol'].includes(child.tagName.toLowerCase()));
+    const text = cleanLines(
+      item.childNodes.filter(child => !nested.includes(child as HTMLElement)).map(inlineText).join('')
+    ).replace(/\n/g, ' ');
+
+    const indent = '  '.repeat(depth);
+    lines.push(`${indent}${ordered ? `${number++}.` : '•'} ${text}`);
+    for (const sublist of nested) {
+      lines.push(listText(sublist, depth + 1));
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Converts a table to blocks: its caption, then the table with one line per row
+ * The first row (usually the <th> row) is the header
+ */
+function tableBlocks(table: HTMLElement): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  const caption = table.querySelector('caption');
+  if (caption) {
+    blocks.push({ kind: 'paragraph', text: cleanLines(inlineText(caption)) });
+  }
+
+  const rows: string[] = [];
+  for (const row of table.querySelectorAll('tr')) {
+    const cells = row.children
+      .filter(cell => ['td', 'th'].includes(cell.tagName.toLowerCase()))
+      .map(cell => cleanLines(inlineText(cell)).replace(/\n/g, ' '));
+    if (cells.some(Boolean)) {
+      rows.push(cells.join(CELL_SEPARATOR));
+    }
+  }
+
+  if (rows.length > 0) {
+    blocks.push({ kind: 'table', header: rows[0], rows: rows.slice(1) });
+  }
+  return blocks;
+}
+
+/**
+ * Converts parsed HTML to text blocks, keeping headings, lists, tables and link targets
+ *
+ * @param root - Parsed HTML (a full page or a fragment)
+ * @returns Blocks in document order
+ */
+export function htmlToBlocks(root: HTMLElement): TextBlock[] {
+  const blocks: TextBlock[] = [];
+
+  const walk = (element: HTMLElement) => {
+    let inline = '';
+    const flush = () => {
+      const text = cleanLines(inline);
+      if (text) blocks.push({ kind: 'paragraph', text });
+      inline = '';
+    };
+
+    for (const child of element.childNodes) {
+      if (!(child instanceof HTMLElement)) {
+        inline += inlineText(child);
+        continue;
+      }
+
+      const tag = child.tagName?.toLowerCase() || '';
+      if (/^h[1-6]$/.test(tag)) {
+        flush();
+        blocks.push({ kind: 'heading', level: Number(tag[1]), text: cleanLines(inlineText(child)).replace(/\n/g, ' ') });
+      } else if (tag === 'ul' || tag === 'ol') {
+        flush();
+        blocks.push({ kind: 'paragraph', text: listText(child) });
+      } else if (tag === 'table') {
+        flush();
+        blocks.push(...tableBlocks(child));
+      } else if (tag === 'pre') {
+        // Code and preformatted text keep their line breaks and indentation
+        flush();
+        blocks.push({ kind: 'paragraph', text: child.textContent.replace(/^\n+|\s+$/g, '') });
+      } else if (BLOCK_TAGS.has(tag) || !tag) {
+        flush();
+        walk(child);
+      } else {
+        inline += inlineText(child);
+      }
+    }
+    flush();
+  };
+
+  walk(root);
+  return blocks;
+}
+
+/**
+ * Extracts the text of an HTML page (e.g. a wiki export)
+ * Navigation, headers, footers and sidebars are removed; when the page marks
+ * its content (<main>, <article>) only that part is kept
+ *
+ * @param html - Page source
+ * @returns Extracted text with headings (web pages have no fixed pages)
+ */
+export function extractHtml(html: string): ExtractedDocument {
+  const root = parseHtml(html, { comment: false });
+  const title = root.querySelector('title')?.textContent.replace(/\s+/g, ' ').trim();
+
+  removeBoilerplate(root);
+  const articles = root.querySelectorAll('article');
+  const content =
+    root.querySelector('main') ||
+    root.querySelector('[role="main"]') ||
+    (articles.length === 1 ? articles[0] : null) ||
+    root.querySelector('body') ||
+    root;
+
+  const blocks = htmlToBlocks(content);
+
+  // Pages without a main heading get their <title> as one
+  if (title && !blocks.some(block => block.kind === 'heading' && block.level === 1)) {
+    blocks.unshift({ kind: 'heading', level: 1, text: title });
+  }
+
+  return buildExtractedDocument([{ blocks }]);
+}
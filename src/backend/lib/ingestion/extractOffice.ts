@@ -0,0 +1,341 @@
+import JSZip from 'jszip';
+import mammoth from 'mammoth';
+import { XMLParser } from 'fast-xml-parser';
+import { parse as parseHtml } from 'node-html-parser';
+import { buildExtractedDocument, CELL_SEPARATOR, type TextBlock, type TextSection } from './documentBuilder';
+import { htmlToBlocks } from './extractHtml';
+import type { ExtractedDocument } from './types';
+
+// Elements that always appear as lists in OOXML parts, even when there is only one
+const XML_ARRAY_TAGS = new Set([
+  'a:p', 'a:r', 'a:fld', 'p:sp', 'p:grpSp', 'p:graphicFrame', 'p:sldId',
+  'Relationship', 'sheet', 'si', 'r', 'row', 'c',
+]);
+
+const xmlParser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '@_',
+  parseTagValue: false, // Keep cell values as written ("007" stays "007")
+  parseAttributeValue: false,
+  trimValues: false,
+  isArray: name => XML_ARRAY_TAGS.has(name),
+});
+
+type XmlNode = Record<string, unknown>;
+
+/**
+ * Reads and parses an XML part of an Office (zip) file
+ *
+ * @returns Parsed XML, or null if the part does not exist
+ */
+async function readXml(zip: JSZip, path: string): Promise<XmlNode | null> {
+  const file = zip.file(path);
+  if (!file) {
+    return null;
+  }
+  return xmlParser.parse(await file.async('string')) as XmlNode;
+}
+
+/**
+ * Returns the child elements with a tag name (always as a list)
+ */
+function children(node: unknown, tag: string): XmlNode[] {
+  if (!node || typeof node !== 'object') {
+    return [];
+  }
+  const value = (node as XmlNode)[tag];
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]) as XmlNode[];
+}
+
+/**
+ * Text content of an element that may be plain text or have attributes (xml:space)
+ */
+function nodeText(node: unknown): string {
+  if (typeof node === 'string') return node;
+  if (typeof node === 'number') return String(node);
+  if (node && typeof node === 'object' && '#text' in node) {
+    return String((node as XmlNode)['#text']);
+  }
+  return '';
+}
+
+/**
+ * Collects the text of all elements with a tag name under a node, in document order
+ */
+function collectText(node: unknown, tag: string): string {
+  if (!node || typeof node !== 'object') {
+    return '';
+  }
+  let text = '';
+  for (const [key, value] of Object.entries(node as XmlNode)) {
+    if (key.startsWith('@_')) continue;
+    const values = Array.isArray(value) ? value : [value];
+    for (const item of values) {
+      text += key === tag ? nodeText(item) : collectText(item, tag);
+    }
+  }
+  return text;
+}
+
+/**
+ * Resolves a relationship target relative to the folder of the part that declares it
+ * e.g. ("ppt/slides", "../notesSlides/notesSlide1.xml") -> "ppt/notesSlides/notesSlide1.xml"
+ */
+function resolvePartPath(baseFolder: string, target: string): string {
+  if (target.startsWith('/')) {
+    return target.slice(1);
+  }
+  const parts = baseFolder.split('/').filter(Boolean);
+  for (const segment of target.split('/')) {
+    if (segment === '..') parts.pop();
+    else if (segment !== '.') parts.push(segment);
+  }
+  return parts.join('/');
+}
+
+/**
+ * Reads the relationships of a part (its _rels/<name>.rels file)
+ *
+ * @param zip - Office file
+ * @param partPath - Path of the part, e.g. "ppt/slides/slide1.xml"
+ * @returns Relationships with their targets resolved to zip paths
+ */
+async function readRelationships(zip: JSZip, partPath: string): Promise<{ id: string; type: string; path: string }[]> {
+  const folder = partPath.split('/').slice(0, -1).join('/');
+  const name = partPath.split('/').pop();
+  const rels = await readXml(zip, `${folder}/_rels/${name}.rels`);
+
+  return children(rels?.Relationships, 'Relationship').map(rel => ({
+    id: String(rel['@_Id']),
+    type: String(rel['@_Type'] || ''),
+    path: resolvePartPath(folder, String(rel['@_Target'])),
+  }));
+}
+
+/**
+ * Converts a Word document to text
+ * mammoth maps Word heading styles to <h1>...<h6>, which become the headings;
+ * lists, tables and links are formatted like in HTML pages
+ *
+ * @param data - DOCX file contents
+ * @returns Extracted text with headings (Word documents have no fixed pages)
+ */
+export async function extractDocx(data: ArrayBuffer): Promise<ExtractedDocument> {
+  const result = await mammoth.convertToHtml({ buffer: Buffer.from(data) });
+  for (const message of result.messages) {
+    console.warn(`DOCX: ${message.message}`);
+  }
+
+  return buildExtractedDocument([{ blocks: htmlToBlocks(parseHtml(result.value)) }]);
+}
+
+/**
+ * Placeholder type of a shape (title, body, sldNum...), if it is a placeholder
+ */
+function placeholderType(shape: XmlNode): string | null {
+  const placeholder = children(children(children(shape, 'p:nvSpPr')[0], 'p:nvPr')[0], 'p:ph')[0];
+  if (!placeholder) {
+    return null;
+  }
+  return String(placeholder['@_type'] || 'body');
+}
+
+/**
+ * Text paragraphs (a:p) under a node, skipping empty ones
+ */
+function drawingParagraphs(node: unknown): string[] {
+  const paragraphs: string[] = [];
+
+  const visit = (current: unknown) => {
+    if (!current || typeof current !== 'object') return;
+    for (const [key, value] of Object.entries(current as XmlNode)) {
+      if (key.startsWith('@_')) continue;
+      const values = Array.isArray(value) ? value : [value];
+      if (key === 'a:p') {
+        for (const paragraph of values) {
+          const text = collectText(paragraph, 'a:t').replace(/\s+/g, ' ').trim();
+          if (text) paragraphs.push(text);
+        }
+      } else {
+        values.forEach(visit);
+      }
+    }
+  };
+
+  visit(node);
+  return paragraphs;
+}
+
+/**
+ * Extracts the title and body paragraphs of a slide
+ */
+function slideText(slide: XmlNode | null): { title: string | null; paragraphs: string[] } {
+  const tree = children(children(slide?.['p:sld'], 'p:cSld')[0], 'p:spTree')[0];
+  let title: string | null = null;
+  const paragraphs: string[] = [];
+
+  for (const shape of children(tree, 'p:sp')) {
+    const type = placeholderType(shape);
+    const text = drawingParagraphs(shape['p:txBody']);
+    if (!title && (type === 'title' || type === 'ctrTitle') && text.length > 0) {
+      title = text.join(' ');
+    } else if (type !== 'sldNum' && type !== 'dt' && type !== 'ftr') {
+      paragraphs.push(...text);
+    }
+  }
+
+  // Grouped shapes and tables (graphic frames)
+  for (const tag of ['p:grpSp', 'p:graphicFrame']) {
+    for (const node of children(tree, tag)) {
+      paragraphs.push(...drawingParagraphs(node));
+    }
+  }
+
+  return { title, paragraphs };
+}
+
+/**
+ * Extracts the speaker notes of a notes slide (without the slide number and image)
+ */
+function notesText(notes: XmlNode | null): string[] {
+  const tree = children(children(notes?.['p:notes'], 'p:cSld')[0], 'p:spTree')[0];
+  return children(tree, 'p:sp')
+    .filter(shape => placeholderType(shape) === 'body')
+    .flatMap(shape => drawingParagraphs(shape['p:txBody']));
+}
+
+/**
+ * Converts a PowerPoint presentation to one section per slide
+ * The slide title becomes a heading and the speaker notes follow the slide text
+ *
+ * @param data - PPTX file contents
+ * @returns Extracted text where each slide is a page
+ */
+export async function extractPptx(data: ArrayBuffer): Promise<ExtractedDocument> {
+  const zip = await JSZip.loadAsync(data);
+  const presentation = await readXml(zip, 'ppt/presentation.xml');
+  if (!presentation) {
+    throw new Error('Invalid PPTX file: ppt/presentation.xml not found');
+  }
+
+  // Slide order is the order of sldIdLst, not the file names
+  const relationships = await readRelationships(zip, 'ppt/presentation.xml');
+  const slideIds = children(children(presentation['p:presentation'], 'p:sldIdLst')[0], 'p:sldId');
+  const slidePaths = slideIds
+    .map(slideId => relationships.find(rel => rel.id === slideId['@_r:id'])?.path)
+    .filter((path): path is string => Boolean(path));
+  console.log(`PPTX tiene ${slidePaths.length} diapositiva(s)`);
+
+  const sections: TextSection[] = [];
+  for (const [index, slidePath] of slidePaths.entries()) {
+    const { title, paragraphs } = slideText(await readXml(zip, slidePath));
+
+    const notesPath = (await readRelationships(zip, slidePath)).find(rel => rel.type.endsWith('/notesSlide'))?.path;
+    const notes = notesPath ? notesText(await readXml(zip, notesPath)) : [];
+
+    const blocks: TextBlock[] = [
+      { kind: 'heading', level: 1, text: title || `Diapositiva ${index + 1}` },
+      ...paragraphs.map(text => ({ kind: 'paragraph' as const, text })),
+    ];
+    if (notes.length > 0) {
+      blocks.push({ kind: 'paragraph', text: `Notas del orador:\n${notes.join('\n')}` });
+    }
+    sections.push({ page: index + 1, blocks });
+  }
+
+  return buildExtractedDocument(sections);
+}
+
+/**
+ * Converts a cell reference column (A, B... Z, AA...) to a 0-based index
+ */
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() || '';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Displayed value of a spreadsheet cell
+ * Dates are stored as serial numbers and keep that form (cell styles are not read)
+ */
+function cellValue(cell: XmlNode, sharedStrings: string[]): string {
+  const type = cell['@_t'];
+  if (type === 'inlineStr') {
+    return collectText(cell['is'], 't');
+  }
+  const value = nodeText(cell['v']);
+  if (type === 's') {
+    return sharedStrings[Number(value)] ?? '';
+  }
+  if (type === 'b') {
+    return value === '1' ? 'TRUE' : 'FALSE';
+  }
+  return value;
+}
+
+/**
+ * Converts an Excel workbook to one section per sheet
+ * Each sheet starts with a heading with its name followed by its rows as a table,
+ * one line per row with its cells in column order
+ *
+ * @param data - XLSX file contents
+ * @returns Extracted text where each sheet is a section (spreadsheets have no pages)
+ */
+export async function extractXlsx(data: ArrayBuffer): Promise<ExtractedDocument> {
+  const zip = await JSZip.loadAsync(data);
+  const workbook = await readXml(zip, 'xl/workbook.xml');
+  if (!workbook) {
+    throw new Error('Invalid XLSX file: xl/workbook.xml not found');
+  }
+
+  const sharedStringsXml = await readXml(zip, 'xl/sharedStrings.xml');
+  const sharedStrings = children(sharedStringsXml?.['sst'], 'si').map(item => collectText(item, 't'));
+
+  const relationships = await readRelationships(zip, 'xl/workbook.xml');
+  const sheets = children(children(workbook['workbook'], 'sheets')[0], 'sheet');
+  console.log(`XLSX tiene ${sheets.length} hoja(s)`);
+
+  const sections: TextSection[] = [];
+  for (const sheet of sheets) {
+    const name = String(sheet['@_name'] || 'Hoja');
+    const path = relationships.find(rel => rel.id === sheet['@_r:id'])?.path;
+    const worksheet = path ? await readXml(zip, path) : null;
+    if (!worksheet) {
+      console.warn(`XLSX: no se encontró la hoja "${name}"`);
+      continue;
+    }
+
+    const rows = children(children(worksheet['worksheet'], 'sheetData')[0], 'row');
+    const lines = rows
+      .map(row => {
+        const values: string[] = [];
+        children(row, 'c').forEach((cell, position) => {
+          // Empty cells are omitted from the XML; the reference keeps the column
+          const column = cell['@_r'] ? columnIndex(String(cell['@_r'])) : position;
+          values[column] = cellValue(cell, sharedStrings).replace(/\s+/g, ' ').trim();
+        });
+        const cells = Array.from(values, value => value ?? '');
+        while (cells.length > 0 && !cells[cells.length - 1]) {
+          cells.pop();
+        }
+        return cells.join(CELL_SEPARATOR);
+      })
+      .filter(line => line.trim());
+
+    // The first non-empty row is taken as the header of the sheet
+    const blocks: TextBlock[] = [{ kind: 'heading', level: 1, text: name }];
+    if (lines.length > 0) {
+      blocks.push({ kind: 'table', header: lines[0], rows: lines.slice(1) });
+    }
+    sections.push({ blocks });
+  }
+
+  return buildExtractedDocument(sections);
+}
@@ -0,0 +1,391 @@
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { extractDocx, extractPptx, extractXlsx } from './extractOffice';
+import { extractHtml } from './extractHtml';
+import { buildExtractedDocument, CELL_SEPARATOR } from './documentBuilder';
+import { ingestionConfig } from './config';
+import { createOcrEngine, renderPdfPage, type OcrEngine } from './ocr';
+import { findMarkdownTables, MIN_TABLE_ROWS } from './tables';
+import type { ExtractedDocument, HeadingMark, PageSpan, TableSpan } from './types';
+
+// Image formats read with OCR
+export const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg'];
+
+// Extensions the ingestion pipeline can extract text from
+export const SUPPORTED_EXTENSIONS = ['txt', 'pdf', 'md', 'docx', 'pptx', 'xlsx', 'html', 'htm', ...IMAGE_EXTENSIONS];
+
+// Readable names of the supported formats, for messages shown to users
+export const SUPPORTED_FORMAT_NAMES = 'PDF, Word (.docx), PowerPoint (.pptx), Excel (.xlsx), HTML, TXT, Markdown (.md) e imágenes (PNG, JPEG)';
+
+// A PDF line is a heading candidate when its font is this much larger than body text
+const HEADING_SIZE_RATIO = 1.2;
+// Longer lines are paragraphs set in a large font, not headings
+const MAX_HEADING_LENGTH = 120;
+// A horizontal gap wider than this many font sizes separates two table cells
+const CELL_GAP_RATIO = 1.5;
+// Table cells are short; longer average cells are columns of prose (two-column layouts)
+const MAX_AVERAGE_CELL_LENGTH = 40;
+
+/**
+ * Options of extractText
+ */
+export interface ExtractOptions {
+  // false reads only the text layer of PDFs and rejects images, for quick checks
+  // during a request; by default OCR is used when OCR_ENABLED allows it
+  ocr?: boolean;
+}
+
+/**
+ * Text item of pdf.js getTextContent() (marked content items have no str)
+ */
+interface PdfTextItem {
+  str: string;
+  width: number;
+  height: number;
+  transform: number[];
+  hasEOL: boolean;
+}
+
+/**
+ * A line of a PDF page with its font size (0 for lines recognized with OCR)
+ * Cells are the parts of the line separated by wide gaps, as in a table row
+ */
+interface PdfLine {
+  text: string;
+  size: number;
+  cells: string[];
+}
+
+/**
+ * Lines of a PDF page, from its text layer or from OCR
+ */
+interface PdfPageText {
+  lines: PdfLine[];
+  ocrConfidence?: number;
+}
+
+/**
+ * Converts Windows (\r\n) and old Mac (\r) line breaks to Unix (\n)
+ */
+function normalizeLineBreaks(text: string): string {
+  return text.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+}
+
+/**
+ * Finds Markdown ATX headings (# Title, ## Subtitle...)
+ *
+ * @param text - Markdown source
+ * @returns Headings with their offsets
+ */
+function findMarkdownHeadings(text: string): HeadingMark[] {
+  const headings: HeadingMark[] = [];
+  const headingPattern = /^(#{1,6})[ \t]+(.+?)[ \t#]*$/gm;
+  let match;
+
+  while ((match = headingPattern.exec(text)) !== null) {
+    headings.push({ offset: match.index, level: match[1].length, title: match[2].trim() });
+  }
+  return headings;
+}
+
+/**
+ * Groups the text items of a PDF page into lines
+ * The font size of a line is the largest size of its items
+ */
+function pdfPageLines(items: PdfTextItem[]): PdfLine[] {
+  const lines: PdfLine[] = [];
+  let parts: string[] = [];
+  let size = 0;
+  let cells: string[] = [];
+  let cellParts: string[] = [];
+  let lastEnd: number | null = null; // x where the previous item ended
+
+  const endCell = () => {
+    const cell = cellParts.join(' ').replace(/\s+/g, ' ').trim();
+    if (cell) {
+      cells.push(cell);
+    }
+    cellParts = [];
+  };
+
+  const endLine = () => {
+    endCell();
+    const text = parts.join(' ').replace(/\s+/g, ' ').trim();
+    if (text) {
+      lines.push({ text, size, cells });
+    }
+    parts = [];
+    size = 0;
+    cells = [];
+    lastEnd = null;
+  };
+
+  for (const item of items) {
+    if (item.str.trim()) {
+      // Height is 0 for some fonts; the transform matrix still has the scale
+      const itemSize = item.height || Math.hypot(item.transform[2], item.transform[3]);
+      const x = item.transform[4];
+      if (lastEnd !== null && x - lastEnd > itemSize * CELL_GAP_RATIO) {
+        endCell();
+      }
+
+      parts.push(item.str);
+      cellParts.push(item.str);
+      size = Math.max(size, itemSize);
+      lastEnd = x + item.width;
+    }
+    if (item.hasEOL) {
+      endLine();
+    }
+  }
+  endLine();
+
+  return lines;
+}
+
+/**
+ * Finds tables in the lines of a PDF page: runs of consecutive lines split into
+ * the same number of short cells (at least two columns and MIN_TABLE_ROWS rows)
+ *
+ * @param lines - Lines of one page
+ * @returns Index of the first (header) and last line of each table
+ */
+function findPdfTables(lines: PdfLine[]): { first: number; last: number }[] {
+  const tables: { first: number; last: number }[] = [];
+  let first = 0;
+
+  while (first < lines.length) {
+    const columns = lines[first].cells.length;
+    let last = first;
+    while (last + 1 < lines.length && columns >= 2 && lines[last + 1].cells.length === columns) {
+      last++;
+    }
+
+    const cells = lines.slice(first, last + 1).flatMap(line => line.cells);
+    const averageCellLength = cells.reduce((total, cell) => total + cell.length, 0) / Math.max(cells.length, 1);
+    if (last - first + 1 >= MIN_TABLE_ROWS && averageCellLength <= MAX_AVERAGE_CELL_LENGTH) {
+      tables.push({ first, last });
+    }
+    first = last + 1;
+  }
+
+  return tables;
+}
+
+/**
+ * Splits OCR output into lines (OCR gives no font sizes, so they are never headings)
+ */
+function ocrLines(text: string): PdfLine[] {
+  return text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .map(line => ({ text: line, size: 0, cells: [] }));
+}
+
+/**
+ * Reads the pages of a PDF, falling back to OCR for pages whose text layer is
+ * empty or too sparse (scanned pages)
+ *
+ * @param data - PDF file contents
+ * @param useOcr - Whether sparse pages are OCRed
+ * @returns Lines of each page, in page order
+ */
+async function readPdfPages(data: ArrayBuffer, useOcr: boolean): Promise<PdfPageText[]> {
+  const pdfDocument = await pdfjsLib.getDocument({ data }).promise;
+  console.log(`PDF tiene ${pdfDocument.numPages} página(s)`);
+
+  const pages: PdfPageText[] = [];
+  let ocr: OcrEngine | null = null;
+
+  try {
+    for (let pageNum = 1; pageNum <= pdfDocument.numPages; pageNum++) {
+      const page = await pdfDocument.getPage(pageNum);
+      const textContent = await page.getTextContent();
+      const items = textContent.items.filter(item => 'str' in item) as PdfTextItem[];
+      const lines = pdfPageLines(items);
+
+      const textChars = lines.reduce((total, line) => total + line.text.length, 0);
+      if (!useOcr || textChars >= ingestionConfig.ocrMinPageChars) {
+        pages.push({ lines });
+        continue;
+      }
+
+      try {
+        ocr = ocr || (await createOcrEngine());
+        const result = await ocr.recognize(await renderPdfPage(page));
+        console.log(`OCR página ${pageNum}: ${result.text.trim().length} caracteres, confianza ${Math.round(result.confidence)}%`);
+
+        // Keep the text layer if OCR did not find more text
+        if (result.text.trim().length > textChars) {
+          pages.push({ lines: ocrLines(result.text), ocrConfidence: result.confidence });
+        } else {
+          pages.push({ lines });
+        }
+      } catch (ocrError) {
+        console.warn(`OCR failed on page ${pageNum}, keeping its text layer:`, ocrError);
+        pages.push({ lines });
+      }
+    }
+  } finally {
+    await ocr?.terminate();
+  }
+
+  return pages;
+}
+
+/**
+ * Extracts the text of a PDF page by page
+ * Headings are detected with a font size heuristic: lines noticeably larger than
+ * the most common (body) size; larger sizes are higher levels
+ * Tables are detected from the gaps between text items (see findPdfTables)
+ *
+ * @param data - PDF file contents
+ * @param useOcr - Whether sparse pages are OCRed
+ * @returns Extracted text with page spans, headings and tables
+ */
+async function extractPdf(data: ArrayBuffer, useOcr: boolean): Promise<ExtractedDocument> {
+  const pdfPages = await readPdfPages(data, useOcr);
+  const pageLines = pdfPages.map(page => page.lines);
+
+  // Body size: the font size used by most characters (OCR lines have no size)
+  const charsBySize = new Map<number, number>();
+  for (const line of pageLines.flat().filter(line => line.size > 0)) {
+    const size = Math.round(line.size * 2) / 2;
+    charsBySize.set(size, (charsBySize.get(size) || 0) + line.text.length);
+  }
+  const bodySize = Array.from(charsBySize.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] || 0;
+
+  const isHeading = (line: PdfLine) =>
+    bodySize > 0 &&
+    line.size >= bodySize * HEADING_SIZE_RATIO &&
+    line.text.length <= MAX_HEADING_LENGTH &&
+    /\p{L}/u.test(line.text);
+
+  // Larger heading sizes get lower (outer) levels
+  const headingSizes = Array.from(
+    new Set(pageLines.flat().filter(isHeading).map(line => Math.round(line.size * 2) / 2))
+  ).sort((a, b) => b - a);
+
+  let text = '';
+  const pages: PageSpan[] = [];
+  const headings: HeadingMark[] = [];
+  const tables: TableSpan[] = [];
+
+  pageLines.forEach((lines, index) => {
+    if (text) {
+      text += '\n\n';
+    }
+    const start = text.length;
+    const pageTables = findPdfTables(lines);
+
+    for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+      const line = lines[lineIndex];
+      const table = pageTables.find(candidate => candidate.first === lineIndex);
+
+      if (table) {
+        // Tables become their own paragraph, one row per line with cells separated
+        if (text.length > start) text = `${text.trimEnd()}\n\n`;
+        const tableStart = text.length;
+        text += line.cells.join(CELL_SEPARATOR);
+        const headerEnd = text.length;
+        for (const row of lines.slice(table.first + 1, table.last + 1)) {
+          text += `\n${row.cells.join(CELL_SEPARATOR)}`;
+        }
+        tables.push({ start: tableStart, headerEnd, end: text.length });
+        text += '\n\n';
+        lineIndex = table.last;
+      } else if (isHeading(line)) {
+        // Headings become their own paragraph so chunks can start at them
+        if (lineIndex > 0) text += '\n\n';
+        const level = Math.min(headingSizes.indexOf(Math.round(line.size * 2) / 2) + 1, 6);
+        headings.push({ offset: text.length, level, title: line.text });
+        text += `${line.text}\n\n`;
+      } else {
+        text += `${line.text}\n`;
+      }
+    }
+
+    text = text.trimEnd();
+    pages.push({ page: index + 1, start, end: text.length, ocrConfidence: pdfPages[index].ocrConfidence });
+  });
+
+  return { text, pages, headings, tables };
+}
+
+/**
+ * Reads the text of an image (scan, photo of a document) with OCR
+ *
+ * @param data - PNG or JPEG file contents
+ * @param useOcr - false when OCR is disabled or not wanted
+ * @returns Extracted text as a single page with its OCR confidence
+ * @throws Error if OCR is disabled
+ */
+async function extractImage(data: ArrayBuffer, useOcr: boolean): Promise<ExtractedDocument> {
+  if (!useOcr) {
+    throw new Error('OCR is disabled (OCR_ENABLED=false or not requested), images cannot be processed');
+  }
+
+  const ocr = await createOcrEngine();
+  try {
+    const result = await ocr.recognize(Buffer.from(data));
+    console.log(`OCR imagen: ${result.text.trim().length} caracteres, confianza ${Math.round(result.confidence)}%`);
+    return buildExtractedDocument([
+      {
+        page: 1,
+        ocrConfidence: result.confidence,
+        blocks: [{ kind: 'paragraph', text: ocrLines(result.text).map(line => line.text).join('\n') }],
+      },
+    ]);
+  } finally {
+    await ocr.terminate();
+  }
+}
+
+/**
+ * Extracts text from an uploaded file according to its extension
+ *
+ * @param fileExt - Lowercase file extension
+ * @param fileData - File contents downloaded from Storage
+ * @param options - Whether OCR may be used
+ * @returns Extracted text with page, heading and table information
+ * @throws Error if the format is not supported or the file cannot be parsed
+ */
+export async function extractText(fileExt: string, fileData: Blob, options: ExtractOptions = {}): Promise<ExtractedDocument> {
+  const useOcr = ingestionConfig.ocrEnabled && options.ocr !== false;
+
+  if (fileExt === 'pdf') {
+    return extractPdf(await fileData.arrayBuffer(), useOcr);
+  }
+
+  if (fileExt === 'docx') {
+    return extractDocx(await fileData.arrayBuffer());
+  }
+
+  if (fileExt === 'pptx') {
+    return extractPptx(await fileData.arrayBuffer());
+  }
+
+  if (fileExt === 'xlsx') {
+    return extractXlsx(await fileData.arrayBuffer());
+  }
+
+  if (IMAGE_EXTENSIONS.includes(fileExt)) {
+    return extractImage(await fileData.arrayBuffer(), useOcr);
+  }
+
+  if (fileExt === 'html' || fileExt === 'htm') {
+    return extractHtml(normalizeLineBreaks(await fileData.text()));
+  }
+
+  // Line breaks are normalized here, before offsets are measured
+  if (fileExt === 'md') {
+    const text = normalizeLineBreaks(await fileData.text());
+    return { text, pages: [], headings: findMarkdownHeadings(text), tables: findMarkdownTables(text) };
+  }
+
+  if (fileExt === 'txt') {
+    return { text: normalizeLineBreaks(await fileData.text()), pages: [], headings: [], tables: [] };
+  }
+
+  throw new Error(`Format not supported: ${fileExt}`);
+}
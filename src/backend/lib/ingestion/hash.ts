@@ -0,0 +1,11 @@
+import { createHash } from 'crypto';
+
+/**
+ * SHA-256 of a text (UTF-8) or file, in hex; same as encode(sha256(...), 'hex') in Postgres
+ *
+ * @param content - Text or file contents
+ * @returns 64 hex characters
+ */
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
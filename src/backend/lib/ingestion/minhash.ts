@@ -0,0 +1,119 @@
+// MinHash: the share of equal values in two signatures estimates the Jaccard similarity
+// of the sets of word shingles (SHINGLE_WORDS consecutive words) of two texts
+
+// Values in a signature; with 128 the estimate is within about ±0.05 of the real similarity
+export const MINHASH_SIZE = 128;
+
+// Values per LSH band: two signatures that share all the values of any band are compared.
+// With 32 bands of 4 values, texts 80% similar share a band almost always and texts 30%
+// similar about one time in four
+export const MINHASH_BAND_ROWS = 4;
+
+// Words per shingle: 3 tolerates small edits while still capturing word order
+const SHINGLE_WORDS = 3;
+
+/**
+ * Final mix of MurmurHash3: spreads the bits of a 32-bit integer
+ */
+function fmix32(value: number): number {
+  let h = value;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+/**
+ * FNV-1a hash of a string (32 bits)
+ */
+function hashString(text: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+// One seed per signature value; each seed turns the shingle hash into an independent hash function
+const SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => fmix32(i + 1));
+
+/**
+ * Computes the MinHash signature of a text
+ * Case, accents and punctuation are ignored, so a re-exported or re-encoded copy of
+ * a document gets the same signature
+ *
+ * @param text - Text extracted from the document
+ * @returns MINHASH_SIZE 32-bit signed integers (as stored in an integer[] column),
+ * or null if the text has no words
+ */
+export function computeMinHash(text: string): number[] | null {
+  const words = text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .match(/[a-z0-9]+/g);
+
+  if (!words) {
+    return null;
+  }
+
+  const shingles = new Set<number>();
+  const last = Math.max(0, words.length - SHINGLE_WORDS);
+  for (let i = 0; i <= last; i++) {
+    shingles.add(hashString(words.slice(i, i + SHINGLE_WORDS).join(' ')));
+  }
+
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff);
+  for (const shingle of shingles) {
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+      const value = fmix32(shingle ^ SEEDS[i]);
+      if (value < signature[i]) {
+        signature[i] = value;
+      }
+    }
+  }
+
+  return signature.map(value => value | 0);
+}
+
+/**
+ * Estimates how similar two texts are from their MinHash signatures
+ *
+ * @param a - Signature of the first text
+ * @param b - Signature of the second text
+ * @returns Estimated Jaccard similarity of their shingles, from 0 to 1
+ */
+export function estimateSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0;
+  }
+
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) {
+      equal++;
+    }
+  }
+  return equal / a.length;
+}
+
+/**
+ * LSH band keys of a MinHash signature: one key per band with its position and values,
+ * e.g. "3:12.-5.77.8", so similar documents can be found with an index instead of
+ * comparing every signature
+ * Same keys as the minhash_bands function in docs/ADD_MINHASH_BANDS.sql
+ *
+ * @param signature - MinHash signature
+ * @returns One key per complete band
+ */
+export function minhashBands(signature: number[]): string[] {
+  const bands: string[] = [];
+  for (let band = 0; (band + 1) * MINHASH_BAND_ROWS <= signature.length; band++) {
+    const values = signature.slice(band * MINHASH_BAND_ROWS, (band + 1) * MINHASH_BAND_ROWS);
+    bands.push(`${band}:${values.join('.')}`);
+  }
+  return bands;
+}
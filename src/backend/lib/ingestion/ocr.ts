@@ -0,0 +1,101 @@
+import { access, copyFile, mkdir } from 'fs/promises';
+import { createRequire } from 'module';
+import os from 'os';
+import path from 'path';
+import { createCanvas } from '@napi-rs/canvas';
+import { createWorker, OEM } from 'tesseract.js';
+import type { PDFPageProxy } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { ingestionConfig } from './config';
+
+const require = createRequire(import.meta.url);
+
+// PDF user space units per inch
+const PDF_POINTS_PER_INCH = 72;
+
+// Where the trained data of the configured languages is placed for Tesseract
+const LANGUAGE_DATA_DIR = path.join(os.tmpdir(), 'knowledgehub-ocr');
+
+/**
+ * Text recognized in one image
+ */
+export interface OcrResult {
+  text: string;
+  confidence: number; // Mean word confidence reported by Tesseract (0-100)
+}
+
+/**
+ * A Tesseract worker with the configured languages loaded
+ * Workers are expensive to start, so one is reused for all pages of a document
+ */
+export interface OcrEngine {
+  recognize(image: Buffer): Promise<OcrResult>;
+  terminate(): Promise<void>;
+}
+
+/**
+ * Copies the trained data of a language from its npm package to LANGUAGE_DATA_DIR,
+ * where Tesseract reads it as a cached file, so OCR never downloads anything
+ *
+ * @param code - Tesseract language code (spa, eng...)
+ * @throws Error if the language package is not installed
+ */
+async function prepareLanguage(code: string): Promise<void> {
+  const target = path.join(LANGUAGE_DATA_DIR, `${code}.traineddata`);
+  try {
+    await access(target);
+    return;
+  } catch {
+    // Not copied yet
+  }
+
+  let packageDir: string;
+  try {
+    packageDir = path.dirname(require.resolve(`@tesseract.js-data/${code}/package.json`));
+  } catch {
+    throw new Error(`OCR language "${code}" is not installed. Run: npm install @tesseract.js-data/${code}`);
+  }
+
+  // best_int models are LSTM only: smaller and faster than the full ones
+  // The file stays gzipped; Tesseract detects and decompresses it
+  await copyFile(path.join(packageDir, '4.0.0_best_int', `${code}.traineddata.gz`), target);
+}
+
+/**
+ * Starts a Tesseract (WASM) worker with the languages of OCR_LANGUAGES
+ *
+ * @returns OCR engine; call terminate() when done
+ */
+export async function createOcrEngine(): Promise<OcrEngine> {
+  await mkdir(LANGUAGE_DATA_DIR, { recursive: true });
+  await Promise.all(ingestionConfig.ocrLanguages.map(prepareLanguage));
+
+  // readOnly: use the prepared files and never write downloads to the cache
+  const worker = await createWorker(ingestionConfig.ocrLanguages, OEM.LSTM_ONLY, {
+    cachePath: LANGUAGE_DATA_DIR,
+    cacheMethod: 'readOnly',
+  });
+
+  return {
+    async recognize(image: Buffer): Promise<OcrResult> {
+      const { data } = await worker.recognize(image);
+      return { text: data.text, confidence: data.confidence };
+    },
+    async terminate(): Promise<void> {
+      await worker.terminate();
+    },
+  };
+}
+
+/**
+ * Renders a PDF page to a PNG image at the configured resolution (OCR_DPI)
+ *
+ * @param page - Page loaded with pdf.js
+ * @returns PNG image of the page
+ */
+export async function renderPdfPage(page: PDFPageProxy): Promise<Buffer> {
+  const viewport = page.getViewport({ scale: ingestionConfig.ocrDpi / PDF_POINTS_PER_INCH });
+  const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+  await page.render({ canvas: canvas as unknown as HTMLCanvasElement, viewport }).promise;
+  return canvas.toBuffer('image/png');
+}
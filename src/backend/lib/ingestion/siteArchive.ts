@@ -0,0 +1,37 @@
+import JSZip from 'jszip';
+
+// Upper bound on pages taken from one archive, so a huge export cannot stall the server
+export const MAX_SITE_PAGES = 200;
+
+/**
+ * A page of a zipped static site
+ */
+export interface SitePage {
+  path: string; // Path inside the archive, e.g. "guides/travel.html"
+  html: Buffer;
+}
+
+/**
+ * Lists the HTML pages of a zipped static site export (wiki export, generated docs...)
+ * Assets (CSS, images, scripts) and macOS metadata entries are ignored
+ *
+ * @param data - ZIP file contents
+ * @returns Pages sorted by path
+ * @throws Error if the archive cannot be read or has more than MAX_SITE_PAGES pages
+ */
+export async function expandSiteArchive(data: Buffer): Promise<SitePage[]> {
+  const zip = await JSZip.loadAsync(data);
+
+  const entries = Object.values(zip.files)
+    .filter(entry => !entry.dir && /\.html?$/i.test(entry.name))
+    .filter(entry => !entry.name.split('/').some(part => part === '__MACOSX' || part.startsWith('.')))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  if (entries.length > MAX_SITE_PAGES) {
+    throw new Error(`The archive has ${entries.length} pages; at most ${MAX_SITE_PAGES} are accepted`);
+  }
+
+  return Promise.all(
+    entries.map(async entry => ({ path: entry.name, html: await entry.async('nodebuffer') }))
+  );
+}
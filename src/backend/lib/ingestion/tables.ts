@@ -0,0 +1,108 @@
+import type { TableSpan } from './types';
+
+// Minimum rows (header included) for a grid of text to be treated as a table
+export const MIN_TABLE_ROWS = 3;
+
+// Markdown delimiter row: | --- | :---: | ---: |
+const MARKDOWN_DELIMITER_ROW = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+/**
+ * A chunk of a table: the header followed by some of its rows
+ */
+export interface TableChunk {
+  content: string;
+  start: number; // Offsets of the rows in the extracted text
+  end: number;
+}
+
+/**
+ * Finds Markdown pipe tables (header row, delimiter row, body rows)
+ * The header and delimiter rows are the table header
+ *
+ * @param text - Markdown source
+ * @returns Tables in document order
+ */
+export function findMarkdownTables(text: string): TableSpan[] {
+  const tables: TableSpan[] = [];
+  const lines: { text: string; start: number; end: number }[] = [];
+  let offset = 0;
+  for (const line of text.split('\n')) {
+    lines.push({ text: line, start: offset, end: offset + line.length });
+    offset += line.length + 1;
+  }
+
+  let i = 0;
+  while (i < lines.length - 1) {
+    const header = lines[i];
+    const delimiter = lines[i + 1];
+    if (!header.text.includes('|') || !MARKDOWN_DELIMITER_ROW.test(delimiter.text)) {
+      i++;
+      continue;
+    }
+
+    // Body rows continue until a blank line or a line without pipes
+    let last = i + 1;
+    while (last + 1 < lines.length && lines[last + 1].text.trim() && lines[last + 1].text.includes('|')) {
+      last++;
+    }
+
+    tables.push({ start: header.start, headerEnd: delimiter.end, end: lines[last].end });
+    i = last + 1;
+  }
+
+  return tables;
+}
+
+/**
+ * Splits a table into chunks of whole rows, repeating the header in each chunk
+ * so every chunk can be understood (and embedded) on its own
+ * A row longer than chunkSize gets a chunk to itself
+ *
+ * @param text - Extracted document text
+ * @param table - Table to split
+ * @param chunkSize - Maximum size of each chunk in characters
+ * @returns Chunks in row order
+ */
+export function splitTable(text: string, table: TableSpan, chunkSize: number): TableChunk[] {
+  const header = text.slice(table.start, table.headerEnd).trim();
+  const rows: { text: string; start: number; end: number }[] = [];
+  let offset = table.headerEnd;
+  for (const line of text.slice(table.headerEnd, table.end).split('\n')) {
+    if (line.trim()) {
+      rows.push({ text: line.trim(), start: offset, end: offset + line.length });
+    }
+    offset += line.length + 1;
+  }
+
+  // A table without body rows is a single chunk with its header
+  if (rows.length === 0) {
+    return header ? [{ content: header, start: table.start, end: table.headerEnd }] : [];
+  }
+
+  const chunks: TableChunk[] = [];
+  let current: typeof rows = [];
+
+  const flush = () => {
+    if (current.length === 0) return;
+    chunks.push({
+      content: [header, ...current.map(row => row.text)].join('\n'),
+      // The first chunk also covers the header where it actually is
+      start: chunks.length === 0 ? table.start : current[0].start,
+      end: current[current.length - 1].end,
+    });
+    current = [];
+  };
+
+  let size = header.length;
+  for (const row of rows) {
+    if (current.length > 0 && size + row.text.length + 1 > chunkSize) {
+      flush();
+      size = header.length;
+    }
+    current.push(row);
+    size += row.text.length + 1;
+  }
+  flush();
+
+  return chunks;
+}
@@ -0,0 +1,51 @@
+/**
+ * Range of characters of the extracted text that comes from one page
+ */
+export interface PageSpan {
+  page: number; // 1-based page number
+  start: number; // Offset of the first character of the page
+  end: number; // Offset after the last character of the page
+  ocrConfidence?: number; // Set when the page text comes from OCR (0-100)
+}
+
+/**
+ * A heading found while extracting text
+ */
+export interface HeadingMark {
+  offset: number; // Offset of the heading in the extracted text
+  level: number; // 1 = top level
+  title: string;
+}
+
+/**
+ * A table found while extracting text, serialized one row per line
+ * The header lines are repeated at the start of every chunk of the table
+ */
+export interface TableSpan {
+  start: number; // Offset of the first header line
+  headerEnd: number; // Offset after the header lines (rows start after it)
+  end: number; // Offset after the last row
+}
+
+/**
+ * Text extracted from a file, with the positional information needed to
+ * describe where each chunk comes from
+ */
+export interface ExtractedDocument {
+  text: string;
+  pages: PageSpan[]; // Empty for formats without pages (TXT, MD)
+  headings: HeadingMark[]; // In document order
+  tables: TableSpan[]; // In document order, never overlapping
+}
+
+/**
+ * Where a chunk comes from in its document
+ */
+export interface ChunkMetadata {
+  char_start: number; // Offsets in the extracted text
+  char_end: number;
+  page_start: number | null;
+  page_end: number | null;
+  heading_path: string[]; // Enclosing headings, outermost first
+  ocr_confidence: number | null; // Lowest OCR confidence of its pages, null if none was OCRed
+}
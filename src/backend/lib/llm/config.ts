@@ -0,0 +1,47 @@
+import { choiceFromEnv, numberFromEnv } from '../rag/config';
+
+export const LLM_PROVIDERS = ['openai', 'azure', 'anthropic', 'openai-compatible', 'fake'] as const;
+export type LLMProviderName = (typeof LLM_PROVIDERS)[number];
+
+// Model used when LLM_MODEL is not set
+const DEFAULT_MODELS: Record<LLMProviderName, string> = {
+  openai: 'gpt-4o-mini', // Cost-effective, fast responses
+  azure: 'gpt-4o-mini', // Name of the deployment in the Azure OpenAI resource
+  anthropic: 'claude-haiku-4-5',
+  'openai-compatible': 'llama3.1', // Ollama model name
+  fake: 'fake',
+};
+
+const provider = choiceFromEnv('LLM_PROVIDER', LLM_PROVIDERS, 'openai');
+const model = process.env.LLM_MODEL?.trim() || DEFAULT_MODELS[provider];
+
+/**
+ * Chat model settings, configurable per deployment through environment variables
+ * Departments can override model, temperature and max tokens (see getDepartmentLLMSettings),
+ * and a chat request can override them again
+ */
+export const llmConfig = {
+  // 'openai' uses OPENAI_API_KEY; 'azure' an Azure OpenAI resource; 'anthropic' the
+  // Claude API; 'openai-compatible' any server with the OpenAI chat API (Ollama, LM Studio,
+  // vLLM); 'fake' answers deterministically without network, for tests
+  provider,
+  model,
+  temperature: numberFromEnv('LLM_TEMPERATURE', 0.8), // Natural and varied responses
+  maxTokens: numberFromEnv('LLM_MAX_TOKENS', 600),
+  // Upper bound for max tokens asked by a department or a request
+  maxTokensLimit: numberFromEnv('LLM_MAX_TOKENS_LIMIT', 4096),
+  // Models a department or request may choose, besides the default one
+  allowedModels: [
+    model,
+    ...(process.env.LLM_ALLOWED_MODELS || '').split(',').map(name => name.trim()).filter(Boolean),
+  ],
+  // Base URL of the OpenAI-compatible server, e.g. http://localhost:11434/v1 for Ollama
+  baseUrl: process.env.LLM_BASE_URL?.trim() || '',
+  // API key of the OpenAI-compatible server; most local servers accept any value
+  apiKey: process.env.LLM_API_KEY?.trim() || '',
+  // Azure OpenAI resource, e.g. https://mi-recurso.openai.azure.com
+  azureEndpoint: process.env.AZURE_OPENAI_ENDPOINT?.trim() || '',
+  azureApiKey: process.env.AZURE_OPENAI_API_KEY?.trim() || '',
+  azureApiVersion: process.env.AZURE_OPENAI_API_VERSION?.trim() || '2024-10-21',
+  anthropicApiKey: process.env.ANTHROPIC_API_KEY?.trim() || '',
+};
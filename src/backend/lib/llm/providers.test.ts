@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { fakeLLMProvider, getLLMProvider, type CompletionRequest } from './providers';
+import { llmConfig } from './config';
+
+const request: CompletionRequest = {
+  model: 'fake',
+  temperature: 0.8,
+  maxTokens: 600,
+  messages: [
+    { role: 'system', content: 'CONTEXTO DE DOCUMENTOS:\n[1] Manual del empleado\nLas vacaciones son 22 días' },
+    { role: 'user', content: '¿Cuántos días de vacaciones tengo?' },
+  ],
+};
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const fragments: string[] = [];
+  for await (const fragment of stream) {
+    fragments.push(fragment);
+  }
+  return fragments;
+}
+
+describe('fake LLM provider', () => {
+  it('is selected with LLM_PROVIDER=fake', () => {
+    expect(llmConfig.provider).toBe('fake');
+    expect(getLLMProvider()).toBe(fakeLLMProvider);
+  });
+
+  it('gives the same answer on every run', async () => {
+    const provider = getLLMProvider();
+    const answers = await Promise.all([1, 2, 3].map(() => provider.complete(request)));
+    expect(new Set(answers).size).toBe(1);
+    expect(answers[0]).toBe('Respuesta de prueba (fake): ¿Cuántos días de vacaciones tengo? [1]');
+  });
+
+  it('streams the same fragments on every run, adding up to the answer', async () => {
+    const provider = getLLMProvider();
+    const first = await collect(provider.stream(request));
+    const second = await collect(provider.stream(request));
+    expect(second).toEqual(first);
+    expect(first.join('')).toBe(await provider.complete(request));
+  });
+
+  it('does not cite passages when the prompt has none', async () => {
+    const answer = await getLLMProvider().complete({ ...request, messages: [request.messages[1]] });
+    expect(answer).not.toContain('[1]');
+  });
+
+  it('answers JSON requests with an empty object', async () => {
+    expect(await getLLMProvider().complete({ ...request, json: true })).toBe('{}');
+  });
+});
@@ -0,0 +1,208 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { openai } from '../openai';
+import { llmConfig, type LLMProviderName } from './config';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Model settings of one completion
+ * Defaults come from llmConfig; departments and requests can override them
+ */
+export interface CompletionSettings {
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface CompletionRequest extends CompletionSettings {
+  messages: LLMMessage[];
+  // Ask for a JSON object; providers without a JSON mode rely on the prompt
+  json?: boolean;
+  // Aborting it cancels the request
+  signal?: AbortSignal;
+}
+
+/**
+ * A chat-completion model used to answer questions and rerank passages
+ */
+export interface LLMProvider {
+  name: LLMProviderName;
+  /**
+   * Generates the complete answer
+   * @returns The answer text (empty if the model returned nothing)
+   */
+  complete(request: CompletionRequest): Promise<string>;
+  /**
+   * Generates the answer incrementally
+   * @returns Async iterable of text fragments, in order
+   */
+  stream(request: CompletionRequest): AsyncIterable<string>;
+}
+
+/**
+ * Provider for the OpenAI chat API, Azure OpenAI or a server that implements it
+ * With Azure, the model is the name of the deployment
+ *
+ * @param name - Provider name recorded in logs
+ * @param client - OpenAI or AzureOpenAI client
+ */
+function createOpenAIProvider(name: LLMProviderName, client: OpenAI): LLMProvider {
+  const toParams = (request: CompletionRequest) => ({
+    model: request.model,
+    temperature: request.temperature,
+    max_tokens: request.maxTokens,
+    messages: request.messages,
+    ...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+  });
+
+  return {
+    name,
+    async complete(request) {
+      const completion = await client.chat.completions.create(toParams(request), { signal: request.signal });
+      return completion.choices[0]?.message?.content || '';
+    },
+    async *stream(request) {
+      const stream = await client.chat.completions.create(
+        { ...toParams(request), stream: true },
+        { signal: request.signal }
+      );
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) {
+          yield text;
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Provider for the Anthropic Messages API
+ * The system message goes in its own field; temperature is limited to 0-1 by the API
+ *
+ * @param client - Anthropic client
+ */
+function createAnthropicProvider(client: Anthropic): LLMProvider {
+  const toParams = (request: CompletionRequest) => {
+    const system = request.messages
+      .filter(message => message.role === 'system')
+      .map(message => message.content)
+      .join('\n\n');
+    // Consecutive user messages are combined by the API into a single turn
+    const messages = request.messages
+      .filter(message => message.role !== 'system')
+      .map(message => ({ role: message.role as 'user' | 'assistant', content: message.content }));
+
+    return {
+      model: request.model,
+      temperature: Math.min(request.temperature, 1),
+      max_tokens: request.maxTokens,
+      ...(system ? { system } : {}),
+      messages,
+    };
+  };
+
+  return {
+    name: 'anthropic',
+    async complete(request) {
+      const message = await client.messages.create(toParams(request), { signal: request.signal });
+      return message.content
+        .map(block => (block.type === 'text' ? block.text : ''))
+        .join('');
+    },
+    async *stream(request) {
+      const stream = await client.messages.create({ ...toParams(request), stream: true }, { signal: request.signal });
+      for await (const event of stream) {
+        if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          yield event.delta.text;
+        }
+      }
+    },
+  };
+}
+
+/**
+ * Deterministic provider for tests: never calls a model
+ * Answers with the last user message and cites passage [1] when the prompt has one;
+ * JSON requests get an empty object (the LLM reranker then falls back to the local one)
+ */
+export const fakeLLMProvider: LLMProvider = {
+  name: 'fake',
+  async complete(request) {
+    if (request.json) {
+      return '{}';
+    }
+
+    const question = [...request.messages].reverse().find(message => message.role === 'user')?.content || '';
+    const hasPassages = request.messages.some(message => message.role === 'system' && message.content.includes('[1]'));
+    return `Respuesta de prueba (${request.model}): ${question}${hasPassages ? ' [1]' : ''}`;
+  },
+  async *stream(request) {
+    const answer = await fakeLLMProvider.complete(request);
+    // One fragment per word, keeping the spaces
+    for (const fragment of answer.match(/\S+\s*/g) || []) {
+      yield fragment;
+    }
+  },
+};
+
+/**
+ * Creates the provider selected with LLM_PROVIDER
+ *
+ * @throws Error if the selected provider is missing its endpoint or key
+ */
+function createLLMProvider(): LLMProvider {
+  switch (llmConfig.provider) {
+    case 'openai':
+      if (!openai) {
+        throw new Error('OpenAI is not configured. Please set OPENAI_API_KEY in your .env file');
+      }
+      return createOpenAIProvider('openai', openai);
+    case 'azure': {
+      if (!llmConfig.azureEndpoint || !llmConfig.azureApiKey) {
+        throw new Error('AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY are required when LLM_PROVIDER=azure');
+      }
+      const client = new AzureOpenAI({
+        endpoint: llmConfig.azureEndpoint,
+        apiKey: llmConfig.azureApiKey,
+        apiVersion: llmConfig.azureApiVersion,
+      });
+      return createOpenAIProvider('azure', client);
+    }
+    case 'anthropic': {
+      if (!llmConfig.anthropicApiKey) {
+        throw new Error('ANTHROPIC_API_KEY is required when LLM_PROVIDER=anthropic');
+      }
+      return createAnthropicProvider(new Anthropic({ apiKey: llmConfig.anthropicApiKey }));
+    }
+    case 'openai-compatible': {
+      if (!llmConfig.baseUrl) {
+        throw new Error('LLM_BASE_URL is required when LLM_PROVIDER=openai-compatible');
+      }
+      // The SDK requires a key even if the server ignores it
+      const client = new OpenAI({ apiKey: llmConfig.apiKey || 'not-needed', baseURL: llmConfig.baseUrl });
+      return createOpenAIProvider('openai-compatible', client);
+    }
+    case 'fake':
+      return fakeLLMProvider;
+  }
+}
+
+let llmProvider: LLMProvider | null = null;
+
+/**
+ * Returns the configured chat-completion provider, shared by chat and the LLM reranker
+ *
+ * @returns The provider selected with LLM_PROVIDER
+ * @throws Error if the provider is misconfigured
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!llmProvider) {
+    llmProvider = createLLMProvider();
+  }
+  return llmProvider;
+}
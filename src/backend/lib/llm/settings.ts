@@ -0,0 +1,61 @@
+import { llmConfig } from './config';
+import type { CompletionSettings } from './providers';
+
+// Temperature range accepted by the OpenAI API
+export const MIN_TEMPERATURE = 0;
+export const MAX_TEMPERATURE = 2;
+
+/**
+ * Checks whether a model can be chosen by a department or a request
+ *
+ * @param model - Model name (deployment name with Azure)
+ * @returns true if it is the default model or listed in LLM_ALLOWED_MODELS
+ */
+export function isAllowedModel(model: string): boolean {
+  return llmConfig.allowedModels.includes(model);
+}
+
+/**
+ * Combines the deployment defaults with department and request overrides
+ * Later overrides win; values out of range or models not allowed are ignored with a warning
+ *
+ * @param overrides - Partial settings in increasing priority (e.g. department, then request)
+ * @returns Settings for the completion
+ */
+export function resolveCompletionSettings(
+  ...overrides: (Partial<CompletionSettings> | null | undefined)[]
+): CompletionSettings {
+  const settings: CompletionSettings = {
+    model: llmConfig.model,
+    temperature: llmConfig.temperature,
+    maxTokens: llmConfig.maxTokens,
+  };
+
+  for (const override of overrides) {
+    if (!override) continue;
+
+    if (override.model != null) {
+      if (isAllowedModel(override.model)) {
+        settings.model = override.model;
+      } else {
+        console.warn(`⚠️ Model "${override.model}" is not in LLM_ALLOWED_MODELS, using ${settings.model}`);
+      }
+    }
+    if (override.temperature != null) {
+      if (override.temperature >= MIN_TEMPERATURE && override.temperature <= MAX_TEMPERATURE) {
+        settings.temperature = override.temperature;
+      } else {
+        console.warn(`⚠️ Temperature ${override.temperature} is out of range, using ${settings.temperature}`);
+      }
+    }
+    if (override.maxTokens != null) {
+      if (Number.isInteger(override.maxTokens) && override.maxTokens > 0 && override.maxTokens <= llmConfig.maxTokensLimit) {
+        settings.maxTokens = override.maxTokens;
+      } else {
+        console.warn(`⚠️ Max tokens ${override.maxTokens} is out of range, using ${settings.maxTokens}`);
+      }
+    }
+  }
+
+  return settings;
+}
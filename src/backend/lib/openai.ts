@@ -0,0 +1,14 @@
+import OpenAI from 'openai';
+
+// OpenAI Configuration
+// Load the API key from the server environment
+// The key is NOT prefixed with VITE_ so it is never bundled into the browser build
+const openaiApiKey = process.env.OPENAI_API_KEY?.trim() || '';
+
+if (!openaiApiKey) {
+  console.warn('⚠️ OpenAI API key not found. Please set OPENAI_API_KEY in your .env file');
+}
+
+// Shared OpenAI client used by chat and document processing
+// null when the API key is missing so callers can return a friendly error
+export const openai = openaiApiKey ? new OpenAI({ apiKey: openaiApiKey }) : null;
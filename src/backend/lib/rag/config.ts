@@ -0,0 +1,65 @@
+/**
+ * Reads a numeric setting from the environment
+ * Falls back to the default when the variable is missing or not a number
+ *
+ * @param name - Environment variable name
+ * @param defaultValue - Value used when the variable is not set
+ * @returns The parsed number
+ */
+export function numberFromEnv(name: string, defaultValue: number): number {
+  const raw = process.env[name]?.trim();
+  if (!raw) {
+    return defaultValue;
+  }
+
+  const value = Number(raw);
+  if (Number.isNaN(value)) {
+    console.warn(`⚠️ ${name}="${raw}" is not a number, using default ${defaultValue}`);
+    return defaultValue;
+  }
+  return value;
+}
+
+/**
+ * Reads a string setting from the environment, restricted to a set of allowed values
+ *
+ * @param name - Environment variable name
+ * @param allowed - Accepted values
+ * @param defaultValue - Value used when the variable is missing or not allowed
+ * @returns The selected value
+ */
+export function choiceFromEnv<T extends string>(name: string, allowed: readonly T[], defaultValue: T): T {
+  const raw = process.env[name]?.trim().toLowerCase();
+  if (!raw) {
+    return defaultValue;
+  }
+
+  if (!(allowed as readonly string[]).includes(raw)) {
+    console.warn(`⚠️ ${name}="${raw}" is not one of ${allowed.join(', ')}, using default ${defaultValue}`);
+    return defaultValue;
+  }
+  return raw as T;
+}
+
+/**
+ * Retrieval settings, configurable per deployment through environment variables
+ */
+export const ragConfig = {
+  // Minimum cosine similarity for vector search results (0-1)
+  matchThreshold: numberFromEnv('RAG_MATCH_THRESHOLD', 0.5),
+  // Candidates fetched from each ranking (vector and keyword) before fusion
+  candidateCount: numberFromEnv('RAG_CANDIDATE_COUNT', 20),
+  // Reciprocal rank fusion: score = Σ weight / (k + rank)
+  vectorWeight: numberFromEnv('RAG_VECTOR_WEIGHT', 1),
+  keywordWeight: numberFromEnv('RAG_KEYWORD_WEIGHT', 1),
+  rrfK: numberFromEnv('RAG_RRF_K', 60),
+  // Reranking stage: 'llm' asks the chat model to score passages, 'local' rescores
+  // with similarity and query term coverage, 'none' keeps the fused order
+  reranker: choiceFromEnv('RAG_RERANKER', ['llm', 'local', 'none'] as const, 'local'),
+  // Fused candidates passed to the reranker
+  rerankCandidateCount: numberFromEnv('RAG_RERANK_CANDIDATES', 40),
+  // Maximum tokens of document context sent to the model
+  contextTokenBudget: numberFromEnv('RAG_CONTEXT_TOKENS', 1500),
+  // Adjacent chunks (by chunk_index) added on each side of a hit
+  neighbourChunks: numberFromEnv('RAG_NEIGHBOUR_CHUNKS', 1),
+};
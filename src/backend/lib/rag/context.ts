@@ -0,0 +1,299 @@
+import { supabase } from '../supabase';
+import { CHUNK_COLUMNS, type DocumentChunk } from './retrieval';
+import { countTokens } from './tokenizer';
+
+/**
+ * Consecutive chunks of one document selected as context for the model
+ * Each passage is numbered in the prompt so the model can cite it
+ */
+export interface ContextPassage {
+  documentId: string;
+  chunks: DocumentChunk[]; // Hit and neighbours, in document order (chunk_index)
+  hit: DocumentChunk; // Highest ranked chunk of the passage, the one a citation points to
+  text: string; // Chunks with overlaps merged, as sent to the model
+}
+
+/**
+ * Options for assembleContext
+ */
+export interface ContextOptions {
+  tokenBudget: number; // Maximum tokens of document text
+  neighbourChunks: number; // Adjacent chunks added on each side of a hit
+}
+
+// The splitter repeats up to 200 chars of a chunk at the start of the next one
+// Overlaps are searched up to a little more than that, and must be long enough
+// that a coincidental match of a few characters is not mistaken for one
+const MAX_OVERLAP_CHARS = 250;
+const MIN_OVERLAP_CHARS = 20;
+
+// Separates passages when measuring the context
+const PASSAGE_SEPARATOR = '\n\n';
+
+/**
+ * Measures how many leading characters of a chunk repeat the end of the previous chunk
+ *
+ * @param previous - Text of the earlier chunk
+ * @param next - Text of the following chunk
+ * @returns Length of the overlap, or 0 if the chunks do not overlap
+ */
+export function overlapLength(previous: string, next: string): number {
+  const maxLength = Math.min(MAX_OVERLAP_CHARS, previous.length, next.length);
+
+  for (let length = maxLength; length >= MIN_OVERLAP_CHARS; length--) {
+    if (previous.endsWith(next.slice(0, length))) {
+      return length;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Joins two consecutive chunks, removing the text the second repeats from the first
+ *
+ * @param previous - Text of the earlier chunk
+ * @param next - Text of the following chunk
+ * @returns Combined text without the duplicated overlap
+ */
+export function mergeOverlappingText(previous: string, next: string): string {
+  const rest = next.slice(overlapLength(previous, next)).trimStart();
+  return rest ? `${previous}\n\n${rest}` : previous;
+}
+
+/**
+ * Normalizes text for duplicate detection (case and whitespace insensitive)
+ */
+function normalizeForComparison(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Groups chunks into runs of consecutive chunk indexes
+ *
+ * @param chunks - Selected chunks of one document, in any order
+ * @returns Runs of consecutive chunks, in document order
+ */
+function groupConsecutive(chunks: DocumentChunk[]): DocumentChunk[][] {
+  const ordered = [...chunks].sort((a, b) => a.chunk_index - b.chunk_index);
+  const runs: DocumentChunk[][] = [];
+
+  for (const chunk of ordered) {
+    const currentRun = runs[runs.length - 1];
+    if (currentRun && chunk.chunk_index === currentRun[currentRun.length - 1].chunk_index + 1) {
+      currentRun.push(chunk);
+    } else {
+      runs.push([chunk]);
+    }
+  }
+  return runs;
+}
+
+/**
+ * Joins a run of consecutive chunks into one passage, merging their overlaps
+ */
+function mergeRun(run: DocumentChunk[]): string {
+  return run.slice(1).reduce((text, chunk) => mergeOverlappingText(text, chunk.content), run[0].content);
+}
+
+/**
+ * Renders the selected chunks of a document as they would appear in the context
+ *
+ * @param chunks - Selected chunks of one document, in any order
+ * @returns Document text (used to measure tokens and find duplicates)
+ */
+function renderDocument(chunks: DocumentChunk[]): string {
+  return groupConsecutive(chunks).map(mergeRun).join(PASSAGE_SEPARATOR);
+}
+
+/**
+ * Fetches the chunks adjacent to the given hits
+ *
+ * @param hits - Ranked chunks
+ * @param neighbourChunks - Adjacent chunks wanted on each side of a hit
+ * @returns Map of document ID to its fetched chunks by chunk_index
+ */
+async function fetchNeighbours(
+  hits: DocumentChunk[],
+  neighbourChunks: number
+): Promise<Map<string, Map<number, DocumentChunk>>> {
+  const wanted = new Map<string, Set<number>>();
+  for (const hit of hits) {
+    const indexes = wanted.get(hit.document_id) || new Set<number>();
+    for (let offset = -neighbourChunks; offset <= neighbourChunks; offset++) {
+      if (offset !== 0 && hit.chunk_index + offset >= 0) {
+        indexes.add(hit.chunk_index + offset);
+      }
+    }
+    wanted.set(hit.document_id, indexes);
+  }
+
+  const neighbours = new Map<string, Map<number, DocumentChunk>>();
+  if (neighbourChunks <= 0) {
+    return neighbours;
+  }
+
+  await Promise.all(
+    Array.from(wanted.entries()).map(async ([documentId, indexes]) => {
+      const { data, error } = await supabase
+        .from('document_chunks')
+        .select(CHUNK_COLUMNS)
+        .eq('document_id', documentId)
+        .in('chunk_index', Array.from(indexes));
+
+      if (error) {
+        // Neighbours only add context; the hits alone are still usable
+        console.warn(`Error fetching neighbour chunks of document ${documentId}:`, error);
+        return;
+      }
+
+      neighbours.set(
+        documentId,
+        new Map((data || []).map(chunk => [chunk.chunk_index, chunk as DocumentChunk]))
+      );
+    })
+  );
+
+  return neighbours;
+}
+
+/**
+ * Builds the context for the model from ranked chunks, within a token budget
+ *
+ * Process flow:
+ * 1. Fetch the neighbouring chunks (by chunk_index) of every hit
+ * 2. Walk the hits best first; skip hits whose text is already in the context
+ * 3. Add each hit with its neighbours if it fits the budget, otherwise the hit alone
+ * 4. Split each document into passages of consecutive chunks, merging their overlaps
+ *
+ * @param rankedChunks - Chunks ordered by relevance, best first
+ * @param options - Token budget and neighbour expansion
+ * @returns Passages in the order their hit was ranked
+ */
+export async function assembleContext(
+  rankedChunks: DocumentChunk[],
+  options: ContextOptions
+): Promise<ContextPassage[]> {
+  const neighbours = await fetchNeighbours(rankedChunks, options.neighbourChunks);
+
+  const documents = new Map<string, { chunks: Map<number, DocumentChunk>; text: string }>();
+  const hitRanks = new Map<string, number>(); // Chunk ID -> rank of the selected hits
+  let usedTokens = 0;
+
+  /**
+   * Tokens the context would use if the document had these chunks
+   */
+  const tokensWith = (documentId: string, chunks: Map<number, DocumentChunk>): number => {
+    const current = documents.get(documentId);
+    return usedTokens - (current ? countTokens(current.text) : 0) + countTokens(renderDocument(Array.from(chunks.values())));
+  };
+
+  for (const [rank, hit] of rankedChunks.entries()) {
+    const document = documents.get(hit.document_id);
+    if (document?.chunks.has(hit.chunk_index)) {
+      continue; // Already included as a neighbour of a better hit
+    }
+
+    // Skip text already present in the context (e.g. the same content in two documents)
+    const normalizedHit = normalizeForComparison(hit.content);
+    const isDuplicate = Array.from(documents.values()).some(doc =>
+      normalizeForComparison(doc.text).includes(normalizedHit)
+    );
+    if (isDuplicate) {
+      continue;
+    }
+
+    const baseChunks = new Map(document?.chunks || []);
+    const withHit = new Map(baseChunks).set(hit.chunk_index, hit);
+    const withNeighbours = new Map(withHit);
+    for (let offset = -options.neighbourChunks; offset <= options.neighbourChunks; offset++) {
+      const neighbour = neighbours.get(hit.document_id)?.get(hit.chunk_index + offset);
+      if (neighbour && !withNeighbours.has(neighbour.chunk_index)) {
+        withNeighbours.set(neighbour.chunk_index, neighbour);
+      }
+    }
+
+    // Prefer the expanded passage; fall back to the hit alone; the best hit is always taken
+    let selected: Map<number, DocumentChunk> | null = null;
+    if (tokensWith(hit.document_id, withNeighbours) <= options.tokenBudget) {
+      selected = withNeighbours;
+    } else if (tokensWith(hit.document_id, withHit) <= options.tokenBudget || usedTokens === 0) {
+      selected = withHit;
+    }
+    if (!selected) {
+      continue;
+    }
+
+    usedTokens = tokensWith(hit.document_id, selected);
+    hitRanks.set(hit.id, rank);
+    documents.set(hit.document_id, {
+      chunks: selected,
+      text: renderDocument(Array.from(selected.values())),
+    });
+  }
+
+  console.log(`Context assembled: ${documents.size} document(s), ${usedTokens}/${options.tokenBudget} tokens`);
+
+  // Every run contains at least one hit: neighbours are only added next to a hit
+  const passages: (ContextPassage & { rank: number })[] = [];
+  for (const [documentId, doc] of documents) {
+    for (const run of groupConsecutive(Array.from(doc.chunks.values()))) {
+      const hits = run.filter(chunk => hitRanks.has(chunk.id));
+      const hit = hits.reduce((best, chunk) => (hitRanks.get(chunk.id)! < hitRanks.get(best.id)! ? chunk : best), hits[0]);
+      passages.push({ documentId, chunks: run, hit, text: mergeRun(run), rank: hitRanks.get(hit.id)! });
+    }
+  }
+
+  return passages
+    .sort((a, b) => a.rank - b.rank)
+    .map(({ rank: _rank, ...passage }) => passage);
+}
+
+/**
+ * Pages a passage spans, from the page metadata of its chunks
+ *
+ * @param passage - Context passage
+ * @returns First and last page, or null if the document has no page information
+ */
+export function passagePages(passage: ContextPassage): { start: number; end: number } | null {
+  const starts = passage.chunks.map(chunk => chunk.page_start).filter((page): page is number => typeof page === 'number');
+  const ends = passage.chunks.map(chunk => chunk.page_end).filter((page): page is number => typeof page === 'number');
+  if (starts.length === 0) {
+    return null;
+  }
+  return { start: Math.min(...starts), end: Math.max(...ends, ...starts) };
+}
+
+/**
+ * Section of a passage: the heading path of the chunk it was retrieved for
+ *
+ * @param passage - Context passage
+ * @returns Headings joined outermost first, or null if there are none
+ */
+export function passageSection(passage: ContextPassage): string | null {
+  const path = passage.hit.heading_path || [];
+  return path.length > 0 ? path.join(' › ') : null;
+}
+
+/**
+ * Formats the passages as the context block of the system prompt
+ * Each passage is numbered [1], [2]... so the model can cite it, and labeled
+ * with its document, pages and section so the answer can mention them
+ *
+ * @param passages - Assembled context passages
+ * @param titles - File name of each document, by document ID
+ * @returns Context text
+ */
+export function formatContext(passages: ContextPassage[], titles: Map<string, string>): string {
+  return passages
+    .map((passage, index) => {
+      const pages = passagePages(passage);
+      const section = passageSection(passage);
+      const location = [
+        pages && (pages.start === pages.end ? `p. ${pages.start}` : `pp. ${pages.start}-${pages.end}`),
+        section && `§ ${section}`,
+      ].filter(Boolean);
+      const label = `${titles.get(passage.documentId) || 'Documento'}${location.length > 0 ? ` (${location.join(', ')})` : ''}`;
+      return `[${index + 1}] ${label}\n${passage.text}`;
+    })
+    .join('\n\n---\n\n');
+}
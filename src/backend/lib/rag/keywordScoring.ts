@@ -0,0 +1,83 @@
+// BM25 parameters: k1 controls term frequency saturation, b length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Words made of letters/digits, optionally joined by - _ . / (policy codes, SKUs, versions)
+const TOKEN_PATTERN = /[\p{L}\p{N}]+(?:[-_./][\p{L}\p{N}]+)*/gu;
+
+/**
+ * Splits text into normalized search terms
+ * Lowercases and removes accents so "Política" matches "politica"
+ * Compound tokens like "POL-2024-07" are kept whole and also split into their parts,
+ * mirroring how Postgres full-text search indexes hyphenated words
+ *
+ * @param text - Text to tokenize
+ * @returns Array of terms (may contain repeats; repeats count as term frequency)
+ */
+export function tokenize(text: string): string[] {
+  const normalized = text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase();
+
+  const terms: string[] = [];
+  for (const match of normalized.matchAll(TOKEN_PATTERN)) {
+    const token = match[0];
+    terms.push(token);
+
+    const parts = token.split(/[-_./]/);
+    if (parts.length > 1) {
+      terms.push(...parts.filter(Boolean));
+    }
+  }
+  return terms;
+}
+
+/**
+ * Scores texts against a query with Okapi BM25
+ * Used by the client-side fallback when the full-text search RPC is not available
+ *
+ * @param query - The user's question
+ * @param texts - Texts to score (e.g. chunk contents)
+ * @returns BM25 score for each text, in the same order (0 if no query term appears)
+ */
+export function bm25Scores(query: string, texts: string[]): number[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || texts.length === 0) {
+    return texts.map(() => 0);
+  }
+
+  const documents = texts.map(text => tokenize(text));
+  const averageLength = documents.reduce((sum, terms) => sum + terms.length, 0) / documents.length || 1;
+
+  // Document frequency of each query term
+  const documentFrequency = new Map<string, number>();
+  for (const terms of documents) {
+    const unique = new Set(terms);
+    for (const term of queryTerms) {
+      if (unique.has(term)) {
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1);
+      }
+    }
+  }
+
+  return documents.map(terms => {
+    const termFrequency = new Map<string, number>();
+    for (const term of terms) {
+      termFrequency.set(term, (termFrequency.get(term) || 0) + 1);
+    }
+
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = termFrequency.get(term) || 0;
+      if (tf === 0) continue;
+
+      const df = documentFrequency.get(term) || 0;
+      // BM25+ style IDF that stays positive for very common terms
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5));
+      const lengthNorm = 1 - BM25_B + BM25_B * (terms.length / averageLength);
+      score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm);
+    }
+    return score;
+  });
+}
@@ -0,0 +1,132 @@
+import { llmConfig } from '../llm/config';
+import { getLLMProvider } from '../llm/providers';
+import { ragConfig } from './config';
+import { tokenize } from './keywordScoring';
+import type { DocumentChunk } from './retrieval';
+
+/**
+ * A reranking stage: rescores retrieved candidates against the question
+ * Implementations return the chunks they consider relevant, with rerankScore set, best first
+ */
+export interface Reranker {
+  name: string;
+  rerank(query: string, chunks: DocumentChunk[]): Promise<DocumentChunk[]>;
+}
+
+// Weight of vector similarity vs. query term coverage in the local reranker
+const LOCAL_SIMILARITY_WEIGHT = 0.7;
+const LOCAL_COVERAGE_WEIGHT = 0.3;
+
+// Passages longer than this are truncated before being sent to the LLM reranker
+const LLM_PASSAGE_CHARS = 800;
+
+/**
+ * Keeps the fused retrieval order
+ * Scores decrease linearly with rank so downstream code can rely on rerankScore
+ */
+export const passthroughReranker: Reranker = {
+  name: 'none',
+  async rerank(_query, chunks) {
+    return chunks.map((chunk, index) => ({
+      ...chunk,
+      rerankScore: 1 - index / Math.max(chunks.length, 1),
+    }));
+  },
+};
+
+/**
+ * Rescores chunks locally, without extra API calls
+ * Combines vector similarity with the fraction of query terms the chunk contains,
+ * which favours the chunk that actually mentions what was asked
+ */
+export const localReranker: Reranker = {
+  name: 'local',
+  async rerank(query, chunks) {
+    const queryTerms = new Set(tokenize(query));
+
+    return chunks
+      .map(chunk => {
+        const chunkTerms = new Set(tokenize(chunk.content));
+        let matched = 0;
+        for (const term of queryTerms) {
+          if (chunkTerms.has(term)) matched++;
+        }
+        const coverage = queryTerms.size > 0 ? matched / queryTerms.size : 0;
+        const similarity = Math.max(chunk.similarity || 0, 0);
+
+        return {
+          ...chunk,
+          rerankScore: LOCAL_SIMILARITY_WEIGHT * similarity + LOCAL_COVERAGE_WEIGHT * coverage,
+        };
+      })
+      .sort((a, b) => b.rerankScore - a.rerankScore);
+  },
+};
+
+/**
+ * Asks the chat model to grade how well each passage answers the question
+ * Passages graded 0 are dropped; if the model call fails, falls back to the local reranker
+ */
+export const llmReranker: Reranker = {
+  name: 'llm',
+  async rerank(query, chunks) {
+    if (chunks.length === 0) {
+      return localReranker.rerank(query, chunks);
+    }
+
+    const passages = chunks
+      .map((chunk, index) => `[${index}] ${chunk.content.substring(0, LLM_PASSAGE_CHARS)}`)
+      .join('\n\n');
+
+    try {
+      // Grading needs deterministic scores, not the chat temperature
+      const completion = await getLLMProvider().complete({
+        model: llmConfig.model,
+        temperature: 0,
+        maxTokens: llmConfig.maxTokens,
+        json: true,
+        messages: [
+          {
+            role: 'system',
+            content: 'Evalúa qué tan bien cada fragmento responde la pregunta del usuario. Responde solo con JSON con la forma {"scores": [n0, n1, ...]}, un número entero de 0 (irrelevante) a 10 (responde directamente) por fragmento, en el mismo orden.',
+          },
+          {
+            role: 'user',
+            content: `Pregunta: ${query}\n\nFragmentos:\n${passages}`,
+          },
+        ],
+      });
+
+      // Providers without a JSON mode may wrap the object in text or a code block
+      const json = completion.slice(completion.indexOf('{'), completion.lastIndexOf('}') + 1);
+      const parsed = JSON.parse(json || '{}');
+      const scores: unknown = parsed.scores;
+      if (!Array.isArray(scores) || scores.length !== chunks.length) {
+        throw new Error(`Expected ${chunks.length} scores, got ${Array.isArray(scores) ? scores.length : typeof scores}`);
+      }
+
+      return chunks
+        .map((chunk, index) => ({ ...chunk, rerankScore: (Number(scores[index]) || 0) / 10 }))
+        .filter(chunk => chunk.rerankScore > 0)
+        .sort((a, b) => b.rerankScore - a.rerankScore);
+    } catch (error) {
+      console.warn('LLM reranking failed, using local reranker:', error);
+      return localReranker.rerank(query, chunks);
+    }
+  },
+};
+
+const rerankers: Record<typeof ragConfig.reranker, Reranker> = {
+  llm: llmReranker,
+  local: localReranker,
+  none: passthroughReranker,
+};
+
+/**
+ * Returns the reranker selected with RAG_RERANKER
+ *
+ * @returns The configured Reranker
+ */
+export function getReranker(): Reranker {
+  return rerankers[ragConfig.reranker];
+}
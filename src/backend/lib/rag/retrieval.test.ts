@@ -0,0 +1,67 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { hasCall, setSupabaseHandlers } from '../../test/fakeSupabase';
+import { chunkRow } from '../../test/chunkRow';
+import { hybridSearch, type QueryEmbedding } from './retrieval';
+import type { Viewer } from '../auth/visibility';
+
+vi.mock('../supabase', () => import('../../test/fakeSupabase'));
+
+const EMBEDDING: QueryEmbedding = { vector: [1, 0], model: 'test-model' };
+
+const viewer: Viewer = { userId: 'user-1', permissions: { role: 'viewer', departments: { 'dept-sales': 'viewer' } } };
+
+// Pool returned by the fallback query when the search RPC functions are missing
+const rows = [
+  chunkRow('public'),
+  chunkRow('department', { document: { visibility: 'department' } }),
+  chunkRow('other-department', { document: { visibility: 'department', department_id: 'dept-legal' } }),
+  chunkRow('restricted', { document: { visibility: 'restricted' } }),
+  chunkRow('restricted-to-user', { document: { visibility: 'restricted', restricted_to: ['user-1'] } }),
+  chunkRow('department-default', { document: { visibility: null, departments: { default_visibility: 'restricted' } } }),
+  chunkRow('spreadsheet', { document: { file_name: 'spreadsheet.xlsx', uploaded_at: '2025-01-01T00:00:00Z' } }),
+];
+
+describe('hybridSearch fallback', () => {
+  beforeEach(() => {
+    setSupabaseHandlers({ query: () => ({ data: rows }) });
+  });
+
+  it('only returns chunks of documents the viewer can see', async () => {
+    const chunks = await hybridSearch('vacaciones', EMBEDDING, { viewer });
+    expect(chunks.map(chunk => chunk.id).sort()).toEqual(['department', 'public', 'restricted-to-user', 'spreadsheet']);
+  });
+
+  it('only returns chunks of public documents without a viewer', async () => {
+    const chunks = await hybridSearch('vacaciones', EMBEDDING);
+    expect(chunks.map(chunk => chunk.id).sort()).toEqual(['public', 'spreadsheet']);
+  });
+
+  it('applies the file type and upload date filters', async () => {
+    const pdfs = await hybridSearch('vacaciones', EMBEDDING, { viewer, filters: { fileTypes: ['pdf'] } });
+    expect(pdfs.map(chunk => chunk.id)).not.toContain('spreadsheet');
+
+    const older = await hybridSearch('vacaciones', EMBEDDING, { viewer, filters: { uploadedBefore: '2026-01-01T00:00:00Z' } });
+    expect(older.map(chunk => chunk.id)).toEqual(['spreadsheet']);
+  });
+
+  it('narrows the fallback query to current versions that are not in the trash', async () => {
+    const queries: Parameters<typeof hasCall>[0][] = [];
+    setSupabaseHandlers({
+      query: query => {
+        queries.push(query);
+        return { data: rows };
+      },
+    });
+
+    await hybridSearch('vacaciones', EMBEDDING, { viewer, filters: { departmentIds: ['dept-sales'] } });
+    expect(queries).toHaveLength(1);
+    expect(hasCall(queries[0], 'is', 'documents.deleted_at', null)).toBe(true);
+    expect(hasCall(queries[0], 'eq', 'documents.is_current', true)).toBe(true);
+    expect(hasCall(queries[0], 'in', 'documents.department_id', ['dept-sales'])).toBe(true);
+  });
+
+  it('drops the embeddings from the results', async () => {
+    const chunks = await hybridSearch('vacaciones', EMBEDDING, { viewer });
+    expect(chunks.every(chunk => chunk.embedding === undefined)).toBe(true);
+  });
+});
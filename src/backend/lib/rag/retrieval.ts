@@ -0,0 +1,484 @@
+import { supabase } from '../supabase';
+import { ragConfig } from './config';
+import { bm25Scores } from './keywordScoring';
+import { canViewDocument, type DocumentAccess, type Viewer, type Visibility } from '../auth/visibility';
+
+/**
+ * Represents a document chunk with its metadata and retrieval scores
+ */
+export interface DocumentChunk {
+  id: string;
+  document_id: string;
+  chunk_index: number;
+  content: string;
+  page_start?: number | null; // Pages the chunk spans (null for formats without pages)
+  page_end?: number | null;
+  heading_path?: string[]; // Enclosing headings, outermost first
+  char_start?: number | null; // Offsets in the extracted document text
+  char_end?: number | null;
+  embedding?: number[];
+  embedding_model?: string | null; // Model that created the embedding
+  similarity?: number; // Cosine similarity with the question (0-1), set when found by vector search
+  keywordScore?: number; // Full-text rank, set when found by keyword search
+  score?: number; // Fused ranking score (reciprocal rank fusion)
+  rerankScore?: number; // Relevance assigned by the reranking stage (0-1)
+}
+
+// Columns returned for a chunk; the embedding is only selected when needed
+export const CHUNK_COLUMNS = 'id, document_id, chunk_index, content, page_start, page_end, heading_path, char_start, char_end';
+
+/**
+ * Embedding of the question and the model that created it
+ * Only chunks embedded with the same model are compared with it
+ */
+export interface QueryEmbedding {
+  vector: number[];
+  model: string;
+}
+
+/**
+ * Narrows retrieval to part of the knowledge base, e.g. "according to the Finance documents"
+ * Every filter that is set must match; an empty list is the same as no filter
+ */
+export interface RetrievalFilters {
+  departmentIds?: string[];
+  documentIds?: string[]; // Logical documents (version_group_id); their current version is searched
+  fileTypes?: string[]; // Lowercase file extensions without the dot, e.g. "pdf"
+  uploadedAfter?: string; // ISO date-time, inclusive
+  uploadedBefore?: string; // ISO date-time, exclusive
+}
+
+/**
+ * Options for hybridSearch; any omitted value comes from ragConfig
+ */
+export interface HybridSearchOptions {
+  limit: number; // Maximum number of fused chunks to return
+  candidateCount: number; // Candidates taken from each ranking before fusion
+  matchThreshold: number; // Minimum cosine similarity for vector results
+  vectorWeight: number;
+  keywordWeight: number;
+  rrfK: number;
+  // Only search this document version; by default only current versions are searched
+  documentId?: string;
+  // Person asking: only chunks of documents they can see are returned
+  // Without a viewer only public documents are searched
+  viewer?: Viewer | null;
+  filters?: RetrievalFilters;
+}
+
+// Document of a fallback chunk, with what decides who can see it and what the filters match
+type FallbackDocument = DocumentAccess & {
+  version_group_id: string;
+  file_name: string;
+  uploaded_at: string;
+  departments: { default_visibility: Visibility } | null;
+};
+
+type FallbackChunkRow = DocumentChunk & { documents: FallbackDocument };
+
+/**
+ * Lowercase extension of a file name without the dot ('' if it has none)
+ */
+function fileExtension(fileName: string): string {
+  const match = fileName.match(/\.([^./]+)$/);
+  return match ? match[1].toLowerCase() : '';
+}
+
+/**
+ * Whether a document passes the retrieval filters
+ * Same conditions as document_matches_filters in docs/ADD_CHAT_FILTERS.sql
+ */
+function matchesFilters(document: FallbackDocument, filters: RetrievalFilters): boolean {
+  const { departmentIds, documentIds, fileTypes, uploadedAfter, uploadedBefore } = filters;
+  const uploadedAt = Date.parse(document.uploaded_at);
+  return (
+    (!departmentIds?.length || departmentIds.includes(document.department_id)) &&
+    (!documentIds?.length || documentIds.includes(document.version_group_id)) &&
+    (!fileTypes?.length || fileTypes.includes(fileExtension(document.file_name))) &&
+    (!uploadedAfter || uploadedAt >= Date.parse(uploadedAfter)) &&
+    (!uploadedBefore || uploadedAt < Date.parse(uploadedBefore))
+  );
+}
+
+/**
+ * Parameters shared by both search RPC functions for the filters (null: not filtered)
+ */
+function filterParams(filters: RetrievalFilters) {
+  const list = (values?: string[]) => (values?.length ? values : null);
+  return {
+    filter_department_ids: list(filters.departmentIds),
+    filter_document_ids: list(filters.documentIds),
+    filter_file_types: list(filters.fileTypes),
+    filter_uploaded_after: filters.uploadedAfter ?? null,
+    filter_uploaded_before: filters.uploadedBefore ?? null,
+  };
+}
+
+/**
+ * Calculates the cosine similarity between two vectors
+ * Cosine similarity measures the cosine of the angle between two vectors
+ * Returns a value between -1 and 1, where 1 means identical direction
+ *
+ * @param a - First vector (array of numbers)
+ * @param b - Second vector (array of numbers)
+ * @returns Cosine similarity score between 0 and 1 (0 if vectors are orthogonal, 1 if identical)
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  // Vectors must have the same dimension to calculate similarity
+  if (a.length !== b.length) {
+    return 0;
+  }
+
+  // Calculate dot product: sum of products of corresponding elements
+  const dotProduct = a.reduce((sum, val, i) => sum + val * (b[i] || 0), 0);
+
+  // Calculate magnitude (length) of each vector using Euclidean norm
+  const magnitudeA = Math.sqrt(a.reduce((sum, val) => sum + val * val, 0));
+  const magnitudeB = Math.sqrt(b.reduce((sum, val) => sum + val * val, 0));
+
+  // Avoid division by zero if either vector has zero magnitude
+  if (magnitudeA === 0 || magnitudeB === 0) {
+    return 0;
+  }
+
+  // Cosine similarity formula: dot product divided by product of magnitudes
+  return dotProduct / (magnitudeA * magnitudeB);
+}
+
+/**
+ * Parses an embedding that may come as an array or a JSON string from Supabase
+ *
+ * @param value - Raw embedding column value
+ * @returns The embedding vector, or null if it cannot be parsed
+ */
+function parseEmbedding(value: unknown): number[] | null {
+  if (Array.isArray(value)) {
+    return value as number[];
+  }
+  if (typeof value === 'string') {
+    try {
+      const parsed = JSON.parse(value);
+      return Array.isArray(parsed) ? parsed : null;
+    } catch (e) {
+      console.warn('Error parsing embedding as JSON:', e);
+      return null;
+    }
+  }
+  console.warn('Embedding in unknown format:', typeof value);
+  return null;
+}
+
+/**
+ * Loads the chunks used by the client-side fallback rankings
+ * NOTE: This is not efficient for production, but works for MVP
+ * In production, the RPC functions should be set up for better performance
+ *
+ * @param documentId - Only load chunks of this document version
+ * @param viewer - Only keep chunks of documents this person can see (null: public documents)
+ * @param filters - Only keep chunks of documents that pass these filters
+ * @returns Promise that resolves to chunks with embeddings
+ */
+async function fetchFallbackChunks(
+  documentId: string | undefined,
+  viewer: Viewer | null,
+  filters: RetrievalFilters
+): Promise<DocumentChunk[]> {
+  let query = supabase
+    .from('document_chunks')
+    .select(`
+      ${CHUNK_COLUMNS}, embedding, embedding_model,
+      documents!inner(
+        deleted_at, is_current, version_group_id, file_name, uploaded_at,
+        department_id, uploader_id, visibility, restricted_to, departments(default_visibility)
+      )
+    `)
+    .not('embedding', 'is', null)
+    .is('documents.deleted_at', null); // Documents in the trash are not searchable
+
+  // Same scope as the RPC functions: one version, or the current version of every document
+  query = documentId ? query.eq('document_id', documentId) : query.eq('documents.is_current', true);
+
+  // Narrow the pool in the query where it is cheap; file types are checked below
+  if (filters.departmentIds?.length) {
+    query = query.in('documents.department_id', filters.departmentIds);
+  }
+  if (filters.documentIds?.length) {
+    query = query.in('documents.version_group_id', filters.documentIds);
+  }
+  if (filters.uploadedAfter) {
+    query = query.gte('documents.uploaded_at', filters.uploadedAfter);
+  }
+  if (filters.uploadedBefore) {
+    query = query.lt('documents.uploaded_at', filters.uploadedBefore);
+  }
+
+  const { data, error } = await query.limit(200); // Increased limit to have more options for filtering
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data || data.length === 0) {
+    console.warn('No chunks with embeddings found in the database');
+    console.log('This means documents have not been processed yet.');
+    return [];
+  }
+
+  // Same rule as the RPC functions: chunks of hidden documents never leave this function
+  return (data as unknown as FallbackChunkRow[])
+    .filter(({ documents }) => canViewDocument(viewer, documents, documents.departments?.default_visibility))
+    .filter(({ documents }) => matchesFilters(documents, filters))
+    .map(({ documents: _documents, ...chunk }) => chunk);
+}
+
+/**
+ * Ranks chunks by cosine similarity on the client side
+ * Chunks embedded with another model are skipped: their vectors live in a
+ * different space, even when the dimension happens to match
+ *
+ * @param chunks - Chunks with embeddings
+ * @param embedding - The query embedding
+ * @param threshold - Minimum similarity to keep a chunk
+ * @returns Chunks with similarity attached, most similar first
+ */
+function rankBySimilarity(chunks: DocumentChunk[], embedding: QueryEmbedding, threshold: number): DocumentChunk[] {
+  const ranked: DocumentChunk[] = [];
+  let otherModelCount = 0;
+
+  for (const chunk of chunks) {
+    if (chunk.embedding_model !== embedding.model) {
+      otherModelCount++;
+      continue;
+    }
+
+    const chunkEmbedding = parseEmbedding(chunk.embedding);
+
+    // Validate that we have a valid embedding array of the query's dimension
+    if (!chunkEmbedding || chunkEmbedding.length !== embedding.vector.length) {
+      continue;
+    }
+
+    const similarity = cosineSimilarity(embedding.vector, chunkEmbedding);
+    if (similarity >= threshold) {
+      ranked.push({ ...chunk, similarity });
+    }
+  }
+
+  if (otherModelCount > 0) {
+    console.warn(`${otherModelCount} chunk(s) embedded with another model than ${embedding.model} were skipped; re-embed them to search them`);
+  }
+
+  return ranked.sort((a, b) => (b.similarity || 0) - (a.similarity || 0));
+}
+
+/**
+ * Ranks chunks by BM25 keyword score on the client side
+ * Same scoring idea as the full-text RPC, so exact terms (codes, SKUs, acronyms) are found
+ *
+ * @param chunks - Candidate chunks
+ * @param query - The user's question
+ * @returns Chunks containing at least one query term, best match first
+ */
+function rankByKeywords(chunks: DocumentChunk[], query: string): DocumentChunk[] {
+  const scores = bm25Scores(query, chunks.map(chunk => chunk.content));
+
+  return chunks
+    .map((chunk, i) => ({ ...chunk, keywordScore: scores[i] }))
+    .filter(chunk => chunk.keywordScore > 0)
+    .sort((a, b) => b.keywordScore - a.keywordScore);
+}
+
+/**
+ * Searches for similar document chunks using pgvector similarity search in Supabase
+ * The RPC only compares chunks embedded with the query's model, and only of documents
+ * the viewer can see (can_view_document in docs/ADD_DOCUMENT_VISIBILITY.sql)
+ *
+ * @param embedding - The query embedding to search for similar chunks
+ * @param limit - Maximum number of chunks to return
+ * @param threshold - Minimum cosine similarity
+ * @param documentId - Only search this document version (default: current versions)
+ * @param viewer - Person asking (null: only public documents)
+ * @param filters - Departments, documents, file types and upload dates to search
+ * @returns Chunks with similarity scores, or null if the RPC function is not available
+ */
+async function searchSimilarChunks(
+  embedding: QueryEmbedding,
+  limit: number,
+  threshold: number,
+  documentId: string | undefined,
+  viewer: Viewer | null,
+  filters: RetrievalFilters
+): Promise<DocumentChunk[] | null> {
+  // Use the pgvector RPC function for efficient similarity search
+  // This uses PostgreSQL's vector similarity operators for optimal performance
+  const { data, error } = await supabase.rpc('match_document_chunks', {
+    query_embedding: embedding.vector,
+    query_model: embedding.model,
+    match_threshold: threshold,
+    match_count: limit,
+    filter_document_id: documentId ?? null,
+    filter_user_id: viewer?.userId ?? null,
+    ...filterParams(filters),
+  });
+
+  if (error) {
+    // The database function may not have been created yet
+    console.warn('RPC function match_document_chunks not found, using client-side similarity:', error);
+    return null;
+  }
+
+  // If RPC function already returns similarity, use it
+  // Otherwise, calculate it manually
+  return ((data || []) as DocumentChunk[]).map(chunk => {
+    if (chunk.similarity !== undefined) {
+      return chunk;
+    }
+    const chunkEmbedding = parseEmbedding(chunk.embedding);
+    return chunkEmbedding
+      ? { ...chunk, similarity: cosineSimilarity(embedding.vector, chunkEmbedding) }
+      : chunk;
+  });
+}
+
+/**
+ * Searches document chunks with Postgres full-text search
+ *
+ * @param query - The user's question
+ * @param limit - Maximum number of chunks to return
+ * @param documentId - Only search this document version (default: current versions)
+ * @param viewer - Person asking (null: only public documents)
+ * @param filters - Departments, documents, file types and upload dates to search
+ * @returns Chunks with keyword scores, or null if the RPC function is not available
+ */
+async function searchKeywordChunks(
+  query: string,
+  limit: number,
+  documentId: string | undefined,
+  viewer: Viewer | null,
+  filters: RetrievalFilters
+): Promise<DocumentChunk[] | null> {
+  const { data, error } = await supabase.rpc('search_document_chunks_fulltext', {
+    query_text: query,
+    match_count: limit,
+    filter_document_id: documentId ?? null,
+    filter_user_id: viewer?.userId ?? null,
+    ...filterParams(filters),
+  });
+
+  if (error) {
+    console.warn('RPC function search_document_chunks_fulltext not found, using client-side BM25:', error);
+    return null;
+  }
+
+  return ((data || []) as (DocumentChunk & { rank: number })[]).map(({ rank, ...chunk }) => ({
+    ...chunk,
+    keywordScore: rank,
+  }));
+}
+
+/**
+ * Fuses several rankings with weighted reciprocal rank fusion (RRF)
+ * Each chunk gets Σ weight / (k + rank) over the rankings it appears in,
+ * so chunks ranked well by both vector and keyword search rise to the top
+ *
+ * @param rankings - Ranked chunk lists with their weight
+ * @param k - RRF constant; larger values flatten the difference between top ranks
+ * @returns Unique chunks with fused score, best first
+ */
+export function reciprocalRankFusion(
+  rankings: { chunks: DocumentChunk[]; weight: number }[],
+  k: number
+): DocumentChunk[] {
+  const fused = new Map<string, DocumentChunk>();
+
+  for (const { chunks, weight } of rankings) {
+    chunks.forEach((chunk, index) => {
+      const contribution = weight / (k + index + 1);
+      const existing = fused.get(chunk.id);
+      if (existing) {
+        // Keep the scores set by every ranking (similarity, keywordScore)
+        fused.set(chunk.id, {
+          ...existing,
+          ...chunk,
+          similarity: existing.similarity ?? chunk.similarity,
+          keywordScore: existing.keywordScore ?? chunk.keywordScore,
+          score: (existing.score || 0) + contribution,
+        });
+      } else {
+        fused.set(chunk.id, { ...chunk, score: contribution });
+      }
+    });
+  }
+
+  return Array.from(fused.values()).sort((a, b) => (b.score || 0) - (a.score || 0));
+}
+
+/**
+ * Hybrid retrieval: pgvector similarity plus full-text keyword search, fused with RRF
+ *
+ * Process flow:
+ * 1. Run vector and keyword search RPCs in parallel
+ * 2. For any RPC that is missing, rank a fallback chunk pool on the client side
+ *    (cosine similarity and BM25 respectively)
+ * Both paths only return chunks of documents the viewer can see and that pass the filters
+ * 3. Fuse both rankings with weighted reciprocal rank fusion
+ *
+ * @param query - The user's question (used for keyword search)
+ * @param embedding - Embedding of the question and its model (used for vector search)
+ * @param options - Overrides for the configured retrieval settings
+ * @returns Promise that resolves to the fused chunks, best first
+ */
+export async function hybridSearch(
+  query: string,
+  embedding: QueryEmbedding,
+  options: Partial<HybridSearchOptions> = {}
+): Promise<DocumentChunk[]> {
+  const settings: HybridSearchOptions = {
+    limit: 10,
+    candidateCount: ragConfig.candidateCount,
+    matchThreshold: ragConfig.matchThreshold,
+    vectorWeight: ragConfig.vectorWeight,
+    keywordWeight: ragConfig.keywordWeight,
+    rrfK: ragConfig.rrfK,
+    ...options,
+  };
+
+  try {
+    const viewer = settings.viewer ?? null;
+    const filters = settings.filters ?? {};
+    let [vectorChunks, keywordChunks] = await Promise.all([
+      searchSimilarChunks(embedding, settings.candidateCount, settings.matchThreshold, settings.documentId, viewer, filters),
+      searchKeywordChunks(query, settings.candidateCount, settings.documentId, viewer, filters),
+    ]);
+
+    // Client-side fallback for whichever RPC is not available
+    if (vectorChunks === null || keywordChunks === null) {
+      const pool = await fetchFallbackChunks(settings.documentId, viewer, filters);
+      console.log(`Found ${pool.length} chunks with embeddings. Ranking on the client side...`);
+
+      if (vectorChunks === null) {
+        vectorChunks = rankBySimilarity(pool, embedding, settings.matchThreshold).slice(0, settings.candidateCount);
+      }
+      if (keywordChunks === null) {
+        keywordChunks = rankByKeywords(pool, query).slice(0, settings.candidateCount);
+      }
+    }
+
+    console.log(`Hybrid search: ${vectorChunks.length} vector hits, ${keywordChunks.length} keyword hits`);
+
+    // Embeddings are not needed past this point; drop them to keep results light
+    const withoutEmbedding = (chunks: DocumentChunk[]) =>
+      chunks.map(({ embedding: _embedding, ...chunk }) => chunk);
+
+    return reciprocalRankFusion(
+      [
+        { chunks: withoutEmbedding(vectorChunks), weight: settings.vectorWeight },
+        { chunks: withoutEmbedding(keywordChunks), weight: settings.keywordWeight },
+      ],
+      settings.rrfK
+    ).slice(0, settings.limit);
+  } catch (error) {
+    console.error('Error in hybrid search:', error);
+    return [];
+  }
+}
@@ -0,0 +1,48 @@
+import { Tiktoken } from 'js-tiktoken/lite';
+import o200k_base from 'js-tiktoken/ranks/o200k_base';
+import cl100k_base from 'js-tiktoken/ranks/cl100k_base';
+
+// o200k_base is the encoding used by gpt-4o and gpt-4o-mini
+// Created on first use: building the encoder takes a moment and only the server needs it
+let encoder: Tiktoken | null = null;
+
+// cl100k_base is the encoding used by the text-embedding-3 models
+let embeddingEncoder: Tiktoken | null = null;
+
+/**
+ * Counts the tokens of a text with the chat model's tokenizer
+ *
+ * @param text - Text to measure
+ * @returns Number of tokens
+ */
+export function countTokens(text: string): number {
+  if (!encoder) {
+    encoder = new Tiktoken(o200k_base);
+  }
+  return encoder.encode(text).length;
+}
+
+/**
+ * Encodes a text with the embedding model's tokenizer
+ *
+ * @param text - Text to encode
+ * @returns Tokens of the text
+ */
+export function encodeForEmbedding(text: string): number[] {
+  if (!embeddingEncoder) {
+    embeddingEncoder = new Tiktoken(cl100k_base);
+  }
+  return embeddingEncoder.encode(text);
+}
+
+/**
+ * Cuts a text to at most maxTokens tokens of the embedding model's tokenizer
+ *
+ * @param text - Text to cut
+ * @param maxTokens - Maximum number of tokens
+ * @returns The text, or its beginning if it was longer
+ */
+export function truncateForEmbedding(text: string, maxTokens: number): string {
+  const tokens = encodeForEmbedding(text);
+  return tokens.length <= maxTokens ? text : embeddingEncoder!.decode(tokens.slice(0, maxTokens));
+}
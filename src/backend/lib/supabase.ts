@@ -1,34 +1,31 @@
 import { createClient } from '@supabase/supabase-js';
+import path from 'path';
+import ws from 'ws';
 
-// These variables must be in a .env file
-// VITE_ prefix is required for Vite to expose them to the browser
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL?.trim() || '';
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY?.trim() || '';
+// These variables must be in the server environment (or the .env file loaded by the server)
+// They are NOT prefixed with VITE_ so Vite never exposes them to the browser bundle
+// SUPABASE_URL falls back to VITE_SUPABASE_URL because the project URL is public anyway
+const supabaseUrl = (process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL)?.trim() || '';
+
+// Prefer the service role key: the API server enforces access itself
+// Fall back to the anon key so existing RLS-based setups keep working
+const supabaseKey = (
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||
+  process.env.SUPABASE_ANON_KEY ||
+  process.env.VITE_SUPABASE_ANON_KEY
+)?.trim() || '';
 
 // Validate that credentials are present
 // Check that values exist and are not placeholder values
-const hasValidCredentials = !!(supabaseUrl && supabaseAnonKey && 
+const hasValidCredentials = !!(supabaseUrl && supabaseKey &&
   supabaseUrl !== 'https://placeholder.supabase.co' &&
-  supabaseAnonKey !== 'placeholder-key');
+  supabaseKey !== 'placeholder-key');
 
 if (!hasValidCredentials) {
-  // Try to detect project path for error message
+  // Show the absolute path of the .env file the server reads
   // Helps user locate the .env file
-  let envFilePath = '.env (in project root, same level as package.json)';
-  
-  try {
-    // In Node.js we can get the real path
-    // This works in build/development environments
-    if (typeof process !== 'undefined' && typeof process.cwd === 'function') {
-      // eslint-disable-next-line @typescript-eslint/no-var-requires
-      const path = require('path');
-      const projectRoot = process.cwd();
-      envFilePath = path.join(projectRoot, '.env');
-    }
-  } catch (e) {
-    // If it fails (e.g., in browser or modules not available), use default value
-  }
-  
+  const envFilePath = path.join(process.cwd(), '.env');
+
   const errorMessage = `
 ⚠️ Supabase credentials not found!
 
@@ -36,36 +33,41 @@ if (!hasValidCredentials) {
    ${envFilePath}
 
 📝 Contenido del archivo .env:
-   VITE_SUPABASE_URL=https://tu-proyecto.supabase.co
-   VITE_SUPABASE_ANON_KEY=tu_anon_key_aqui
+   SUPABASE_URL=https://tu-proyecto.supabase.co
+   SUPABASE_SERVICE_ROLE_KEY=tu_service_role_key_aqui
 
 ⚠️ IMPORTANTE:
    1. Crea el archivo .env en la raíz del proyecto (donde está package.json)
-   2. Agrega las variables VITE_SUPABASE_URL y VITE_SUPABASE_ANON_KEY
-   3. Reinicia el servidor: npm run dev
-   (Vite solo lee .env al iniciar)
+   2. Agrega las variables SUPABASE_URL y SUPABASE_SERVICE_ROLE_KEY
+   3. Reinicia el servidor de API: npm run dev:server
+   (El servidor solo lee .env al iniciar)
 
 Estado actual:
-   VITE_SUPABASE_URL: ${supabaseUrl ? '✓ Configurada' : '✗ No configurada'}
-   VITE_SUPABASE_ANON_KEY: ${supabaseAnonKey ? '✓ Configurada' : '✗ No configurada'}
-
-Debug:
-   - Claves VITE_ encontradas: ${Object.keys(import.meta.env).filter(k => k.startsWith('VITE_')).join(', ') || 'Ninguna'}
-   - VITE_SUPABASE_URL: ${supabaseUrl || '(vacío)'}
-   - VITE_SUPABASE_ANON_KEY: ${supabaseAnonKey ? '***' + supabaseAnonKey.slice(-4) : '(vacío)'}
+   SUPABASE_URL: ${supabaseUrl ? '✓ Configurada' : '✗ No configurada'}
+   SUPABASE_SERVICE_ROLE_KEY: ${supabaseKey ? '✓ Configurada' : '✗ No configurada'}
   `;
   console.error(errorMessage);
 }
 
 // Create Supabase client
 // If credentials are empty, use placeholders to avoid initialization error
-// This allows the app to start even without proper config (for development)
+// This allows the server to start even without proper config (for development)
+// Sessions are not persisted: the server never signs in as a user with this client
+// Node < 22 has no native WebSocket, so Realtime gets the ws implementation
 export const supabase = createClient(
   supabaseUrl || 'https://placeholder.supabase.co',
-  supabaseAnonKey || 'placeholder-key'
+  supabaseKey || 'placeholder-key',
+  {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+    realtime: {
+      transport: ws,
+    },
+  }
 );
 
 // Export function to verify configuration
 // Used by other modules to check if Supabase is properly configured
 export const isSupabaseConfigured = hasValidCredentials;
-
@@ -0,0 +1,109 @@
+// Load .env before any module reads process.env
+import 'dotenv/config';
+import {
+  cancelEmbeddingMigration,
+  ensureActiveEmbeddingIndex,
+  getEmbeddingIndexOverview,
+  rollbackEmbeddingIndex,
+  runEmbeddingMigration,
+  startEmbeddingMigration,
+  type EmbeddingIndex,
+} from '../lib/api/embeddingIndexes';
+
+const USAGE = `Uso: npm run reembed -- <comando>
+
+  status                      Índice activo y migración en curso
+  start <proveedor> <modelo>  Migra todos los chunks a otro modelo y cambia de índice al terminar
+  resume                      Continúa la migración en curso en este proceso
+  cancel                      Cancela la migración en curso
+  rollback                    Vuelve al índice anterior
+
+Proveedores: openai, openai-compatible, local (ver EMBEDDING_PROVIDER en docs/ENV_SETUP.md)`;
+
+/**
+ * Describe un índice en una línea
+ */
+function describe(index: EmbeddingIndex): string {
+  const dimensions = index.dimensions ? `, ${index.dimensions} dimensiones` : '';
+  return `v${index.version} ${index.provider}/${index.model} (${index.status}${dimensions})`;
+}
+
+/**
+ * Ejecuta la migración en este proceso mostrando el progreso
+ * Si el servidor de API ya la está ejecutando, solo informa de ello
+ */
+async function runToCompletion(index: EmbeddingIndex): Promise<void> {
+  const finished = await runEmbeddingMigration(index.id, ({ chunks_done, chunks_total }) => {
+    process.stdout.write(`\r   ${chunks_done}/${chunks_total ?? '?'} chunks`);
+  });
+  process.stdout.write('\n');
+
+  if (!finished) {
+    console.log('La migración la está ejecutando otro proceso (el servidor de API); sigue su progreso con: npm run reembed -- status');
+    return;
+  }
+  console.log(`Resultado: ${describe(finished)}`);
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case 'status': {
+      await ensureActiveEmbeddingIndex();
+      const { active, building, indexes } = await getEmbeddingIndexOverview();
+      console.log(`Índice activo: ${active ? describe(active) : 'ninguno'}`);
+      if (building) {
+        console.log(`Migración en curso: ${describe(building)} - ${building.chunks_done}/${building.chunks_total ?? '?'} chunks`);
+        if (building.last_error) console.log(`Último error: ${building.last_error}`);
+      }
+      for (const index of indexes.filter(index => index.status !== 'active' && index.status !== 'building')) {
+        console.log(`  ${describe(index)}`);
+      }
+      return;
+    }
+    case 'start': {
+      const [provider, model] = args;
+      if (!provider || !model) {
+        console.log(USAGE);
+        process.exitCode = 1;
+        return;
+      }
+      const index = await startEmbeddingMigration(provider, model);
+      console.log(`Migración iniciada: ${describe(index)}`);
+      await runToCompletion(index);
+      return;
+    }
+    case 'resume': {
+      const { building } = await getEmbeddingIndexOverview();
+      if (!building) {
+        console.log('No hay ninguna migración en curso');
+        return;
+      }
+      await runToCompletion(building);
+      return;
+    }
+    case 'cancel': {
+      const { building } = await getEmbeddingIndexOverview();
+      const cancelled = building ? await cancelEmbeddingMigration(building.id) : null;
+      console.log(cancelled ? `Migración cancelada: ${describe(cancelled)}` : 'No hay ninguna migración en curso');
+      return;
+    }
+    case 'rollback': {
+      const { active, documentsRequeued } = await rollbackEmbeddingIndex();
+      console.log(`Índice activo: ${describe(active)}`);
+      if (documentsRequeued > 0) {
+        console.log(`${documentsRequeued} documento(s) en cola para generar sus embeddings con este modelo`);
+      }
+      return;
+    }
+    default:
+      console.log(USAGE);
+      process.exitCode = command ? 1 : 0;
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,108 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { setSupabaseHandlers } from '../test/fakeSupabase';
+import { createLocalAuthProvider, setAuthProvider, type LocalSession } from '../lib/auth/providers';
+import { handleRequest } from './router';
+
+vi.mock('../lib/supabase', () => import('../test/fakeSupabase'));
+
+const SESSION_TTL_MS = 60 * 60 * 1000;
+
+const ACCOUNT = { email: 'ana@example.com', password: 'secreto', name: 'Ana' };
+
+// Row of the account in users, linked to the identity of the local provider
+const USER = { id: 'user-ana', name: 'Ana', email: ACCOUNT.email, role: 'viewer', auth_user_id: `local:${ACCOUNT.email}` };
+
+let server: Server;
+let baseUrl: string;
+
+function request(method: string, path: string, options: { token?: string; body?: unknown } = {}) {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (options.token) {
+    headers.Authorization = `Bearer ${options.token}`;
+  }
+  return fetch(`${baseUrl}${path}`, {
+    method,
+    headers,
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+  });
+}
+
+async function signIn(password = ACCOUNT.password) {
+  return request('POST', '/api/auth/local/sign-in', { body: { email: ACCOUNT.email, password } });
+}
+
+async function accessToken(): Promise<string> {
+  const session = (await (await signIn()).json()) as LocalSession;
+  return session.accessToken;
+}
+
+describe('local auth provider on the API server', () => {
+  beforeAll(async () => {
+    server = createServer(handleRequest);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  });
+
+  beforeEach(() => {
+    setAuthProvider(createLocalAuthProvider([ACCOUNT], SESSION_TTL_MS));
+    setSupabaseHandlers({
+      query: query => (query.table === 'users' ? { data: USER } : { data: [], count: 0 }),
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('signs in with the right password only', async () => {
+    const rejected = await signIn('incorrecta');
+    expect(rejected.status).toBe(401);
+    expect(await rejected.json()).toEqual({ error: 'Correo o contraseña incorrectos' });
+
+    const response = await signIn();
+    expect(response.status).toBe(200);
+    const session = (await response.json()) as LocalSession;
+    expect(session.accessToken).toMatch(/^[0-9a-f]{64}$/);
+    expect(session.identity).toEqual({ id: `local:${ACCOUNT.email}`, email: ACCOUNT.email, name: ACCOUNT.name });
+  });
+
+  it('rejects protected routes without a valid token', async () => {
+    const missing = await request('GET', '/api/me');
+    expect(missing.status).toBe(401);
+    expect(await missing.json()).toEqual({ error: 'Falta el token de autenticación' });
+
+    const forged = await request('GET', '/api/me', { token: 'forged' });
+    expect(forged.status).toBe(401);
+    expect(await forged.json()).toEqual({ error: 'Token de autenticación inválido o expirado' });
+  });
+
+  it('opens protected routes with the token of the session', async () => {
+    const response = await request('GET', '/api/me', { token: await accessToken() });
+    expect(response.status).toBe(200);
+    const body = (await response.json()) as { user: typeof USER };
+    expect(body.user.id).toBe(USER.id);
+  });
+
+  it('rejects the token once the session expires', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const token = await accessToken();
+    expect((await request('GET', '/api/me', { token })).status).toBe(200);
+
+    vi.setSystemTime(Date.now() + SESSION_TTL_MS);
+    expect((await request('GET', '/api/me', { token })).status).toBe(401);
+  });
+
+  it('rejects the token after signing out', async () => {
+    const token = await accessToken();
+    const signOut = await request('POST', '/api/auth/local/sign-out', { token });
+    expect(signOut.status).toBe(204);
+
+    expect((await request('GET', '/api/me', { token })).status).toBe(401);
+  });
+});
@@ -0,0 +1,116 @@
+import type { IncomingMessage } from 'http';
+import { getAuthProvider, type AuthIdentity } from '../lib/auth/providers';
+import { canInAnyDepartment, canInDepartment, hasRole, type Role, type UserPermissions } from '../lib/auth/roles';
+import type { Viewer } from '../lib/auth/visibility';
+import { getOrCreateUserForIdentity, type User } from '../lib/api/users';
+import { getUserPermissions } from '../lib/api/departmentMembers';
+import { HttpError } from './http';
+
+/**
+ * Identity of the caller of an authenticated route
+ */
+export interface AuthContext {
+  identity: AuthIdentity;
+  // Row of the caller in users (uploader of their documents), created on first use
+  getUser(): Promise<User>;
+  // Global and per-department roles of the caller, resolved once per request
+  getPermissions(): Promise<UserPermissions>;
+  // The caller as a viewer of documents, to filter what they can see
+  getViewer(): Promise<Viewer>;
+}
+
+const FORBIDDEN_MESSAGE = 'No tienes permiso para realizar esta acción';
+
+/**
+ * Reads the bearer token of the Authorization header
+ *
+ * @returns The token, or null if the header is missing or malformed
+ */
+export function readBearerToken(req: IncomingMessage): string | null {
+  const header = req.headers.authorization || '';
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Authenticates a request using the access token in the Authorization header
+ * The token is validated by the auth provider (Supabase Auth, or the local stand-in),
+ * so forged or expired tokens are rejected
+ *
+ * @param req - The incoming request
+ * @returns Promise that resolves to the caller's identity
+ * @throws HttpError 401 if the token is missing or invalid
+ */
+export async function authenticateRequest(req: IncomingMessage): Promise<AuthContext> {
+  const token = readBearerToken(req);
+
+  if (!token) {
+    throw new HttpError(401, 'Falta el token de autenticación');
+  }
+
+  const identity = await getAuthProvider().verifyAccessToken(token);
+
+  if (!identity) {
+    throw new HttpError(401, 'Token de autenticación inválido o expirado');
+  }
+
+  let user: Promise<User> | null = null;
+  let permissions: Promise<UserPermissions> | null = null;
+  const getUser = () => {
+    user ??= getOrCreateUserForIdentity(identity);
+    return user;
+  };
+  const getPermissions = () => {
+    permissions ??= getUser().then(getUserPermissions);
+    return permissions;
+  };
+  return {
+    identity,
+    getUser,
+    getPermissions,
+    getViewer: async () => ({ userId: (await getUser()).id, permissions: await getPermissions() }),
+  };
+}
+
+/**
+ * Checks the global role of the caller (e.g. system admin for settings)
+ *
+ * @throws HttpError 403 if the caller does not have the role
+ */
+export async function requireRole(auth: AuthContext, required: Role): Promise<void> {
+  const permissions = await auth.getPermissions();
+  if (!hasRole(permissions.role, required)) {
+    throw new HttpError(403, FORBIDDEN_MESSAGE);
+  }
+}
+
+/**
+ * Checks the role of the caller in every given department
+ *
+ * @param departmentIds - Departments of the documents the request acts on
+ * @throws HttpError 403 if the caller lacks the role in any of them
+ */
+export async function requireDepartmentRole(
+  auth: AuthContext,
+  required: Role,
+  departmentIds: string | string[]
+): Promise<void> {
+  const permissions = await auth.getPermissions();
+  const ids = Array.isArray(departmentIds) ? departmentIds : [departmentIds];
+  if (!ids.every(departmentId => canInDepartment(permissions, departmentId, required))) {
+    throw new HttpError(403, FORBIDDEN_MESSAGE);
+  }
+}
+
+/**
+ * Checks that the caller has a role in at least one department
+ * For pages that act on several departments, like the ingestion queue
+ *
+ * @throws HttpError 403 if the caller lacks the role everywhere
+ */
+export async function requireRoleInAnyDepartment(auth: AuthContext, required: Role): Promise<void> {
+  const permissions = await auth.getPermissions();
+  if (!canInAnyDepartment(permissions, required)) {
+    throw new HttpError(403, FORBIDDEN_MESSAGE);
+  }
+}
@@ -0,0 +1,72 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+
+/**
+ * Error with an HTTP status code
+ * Thrown by route handlers and caught by the router, which turns it into a JSON error response
+ */
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+/**
+ * Writes a JSON response with the given status code
+ *
+ * @param res - The server response to write to
+ * @param status - HTTP status code
+ * @param body - Value serialized as the JSON body
+ */
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json; charset=utf-8');
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Reads the raw request body into a Buffer
+ * Rejects with 413 as soon as the body grows beyond maxBytes to avoid buffering huge uploads
+ *
+ * @param req - The incoming request
+ * @param maxBytes - Maximum accepted body size in bytes
+ * @returns Promise that resolves to the complete body
+ */
+export function readBody(req: IncomingMessage, maxBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(new HttpError(413, `El cuerpo de la petición excede el límite de ${maxBytes} bytes`));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Reads and parses a JSON request body
+ *
+ * @param req - The incoming request
+ * @param maxBytes - Maximum accepted body size in bytes (default: 1MB)
+ * @returns Promise that resolves to the parsed body
+ * @throws HttpError 400 if the body is not valid JSON
+ */
+export async function readJson<T>(req: IncomingMessage, maxBytes: number = 1024 * 1024): Promise<T> {
+  const body = await readBody(req, maxBytes);
+  try {
+    return JSON.parse(body.toString('utf-8') || '{}') as T;
+  } catch {
+    throw new HttpError(400, 'El cuerpo de la petición no es JSON válido');
+  }
+}
@@ -0,0 +1,32 @@
+// Load .env before any module reads process.env
+import 'dotenv/config';
+import { createServer } from 'http';
+import { handleRequest } from './router';
+import { startIngestionWorker } from '../lib/api/ingestionJobs';
+import { startEmbeddingMigrationWorker } from '../lib/api/embeddingIndexes';
+import { startTrashPurgeWorker } from '../lib/api/documents';
+
+const port = Number(process.env.PORT) || 3000;
+
+// API server: keeps the OpenAI key and Supabase service key out of the browser
+// The React app talks to it through src/frontend/lib/api.ts
+const server = createServer((req, res) => {
+  void handleRequest(req, res);
+});
+
+server.listen(port, () => {
+  console.log(`✓ KnowledgeHub API listening on http://localhost:${port}`);
+});
+
+// Uploads only queue documents; this worker extracts, chunks and embeds them
+// in the background, retrying failures, so closing the browser never interrupts it
+// A job cut short by a restart is requeued and resumes from its saved chunks
+startIngestionWorker();
+
+// Re-embeds all chunks when an administrator switches embedding model (see
+// docs/ADD_EMBEDDING_INDEXES.sql); queries use the old index until the new one is complete
+startEmbeddingMigrationWorker();
+
+// Deleted documents wait in the trash (restorable from the Documents page) and are
+// removed for good, with their file and chunks, once DOCUMENT_TRASH_RETENTION_DAYS pass
+startTrashPurgeWorker();
@@ -0,0 +1,142 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { authenticateRequest, type AuthContext } from './auth';
+import { HttpError, sendJson } from './http';
+import { chatRoutes } from './routes/chat';
+import { documentRoutes } from './routes/documents';
+import { departmentRoutes } from './routes/departments';
+import { jobRoutes } from './routes/jobs';
+import { embeddingIndexRoutes } from './routes/embeddingIndexes';
+import { userRoutes } from './routes/users';
+import { authRoutes } from './routes/auth';
+
+/**
+ * Everything a route handler needs to serve a request
+ */
+export interface RouteContext {
+  req: IncomingMessage;
+  res: ServerResponse;
+  params: string[]; // Capture groups of the route path
+  query: URLSearchParams;
+  auth: AuthContext;
+}
+
+export interface Route {
+  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  path: RegExp;
+  handler: (ctx: RouteContext) => Promise<void>;
+}
+
+/**
+ * Route reached without an access token (signing in)
+ */
+export interface PublicRoute {
+  method: Route['method'];
+  path: RegExp;
+  handler: (ctx: Omit<RouteContext, 'auth'>) => Promise<void>;
+}
+
+// All authenticated API routes
+// More specific paths must come before generic ones that could also match
+const routes: Route[] = [
+  ...chatRoutes,
+  ...documentRoutes,
+  ...departmentRoutes,
+  ...jobRoutes,
+  ...embeddingIndexRoutes,
+  ...userRoutes,
+];
+
+// Routes that do not require authentication
+const publicRoutes: PublicRoute[] = [
+  ...authRoutes,
+];
+
+/**
+ * Adds CORS headers so the Vite frontend can call the API from another origin
+ * Authentication uses a bearer token, so no cookies are involved
+ */
+function applyCors(res: ServerResponse): void {
+  res.setHeader('Access-Control-Allow-Origin', process.env.CORS_ORIGIN?.trim() || '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+}
+
+/**
+ * Entry point for every HTTP request received by the API server
+ *
+ * Process flow:
+ * 1. Answer CORS preflight, health checks and public routes
+ * 2. Find the route that matches method and path
+ * 3. Authenticate the caller
+ * 4. Run the handler and turn thrown errors into JSON error responses
+ */
+export async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+  applyCors(res);
+
+  if (req.method === 'OPTIONS') {
+    res.statusCode = 204;
+    res.end();
+    return;
+  }
+
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  try {
+    // Health check is public so load balancers can probe the server
+    if (req.method === 'GET' && url.pathname === '/api/health') {
+      sendJson(res, 200, { status: 'ok' });
+      return;
+    }
+
+    for (const route of publicRoutes) {
+      const match = url.pathname.match(route.path);
+      if (match && route.method === req.method) {
+        await route.handler({
+          req,
+          res,
+          params: match.slice(1).map(decodeURIComponent),
+          query: url.searchParams,
+        });
+        return;
+      }
+    }
+
+    const pathMatches = routes
+      .map(route => ({ route, match: url.pathname.match(route.path) }))
+      .filter(({ match }) => match !== null);
+
+    if (pathMatches.length === 0) {
+      throw new HttpError(404, 'Ruta no encontrada');
+    }
+
+    const matched = pathMatches.find(({ route }) => route.method === req.method);
+    if (!matched) {
+      throw new HttpError(405, 'Método no permitido');
+    }
+
+    const auth = await authenticateRequest(req);
+
+    await matched.route.handler({
+      req,
+      res,
+      params: matched.match!.slice(1).map(decodeURIComponent),
+      query: url.searchParams,
+      auth,
+    });
+  } catch (error) {
+    const status = error instanceof HttpError ? error.status : 500;
+    if (status >= 500) {
+      console.error(`Error handling ${req.method} ${url.pathname}:`, error);
+    }
+
+    // Streaming handlers may have already started the response
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+
+    sendJson(res, status, {
+      error: error instanceof HttpError ? error.message : 'Error interno del servidor',
+    });
+  }
+}
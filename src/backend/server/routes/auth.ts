@@ -0,0 +1,56 @@
+import { getAuthProvider, type LocalAuthProvider } from '../../lib/auth/providers';
+import { readBearerToken } from '../auth';
+import { HttpError, readJson, sendJson } from '../http';
+import type { PublicRoute } from '../router';
+
+interface LocalSignInBody {
+  email?: unknown;
+  password?: unknown;
+}
+
+/**
+ * The local provider, or a 404 when another provider is configured
+ * With Supabase Auth the browser signs in against Supabase directly
+ */
+function localProvider(): LocalAuthProvider {
+  const provider = getAuthProvider();
+  if (provider.name !== 'local') {
+    throw new HttpError(404, 'Ruta no encontrada');
+  }
+  return provider as LocalAuthProvider;
+}
+
+// Sign-in of the local auth provider (AUTH_PROVIDER=local); reached without a token
+export const authRoutes: PublicRoute[] = [
+  {
+    // Exchanges email and password for an access token
+    method: 'POST',
+    path: /^\/api\/auth\/local\/sign-in$/,
+    handler: async ({ req, res }) => {
+      const provider = localProvider();
+      const body = await readJson<LocalSignInBody>(req);
+      if (typeof body.email !== 'string' || typeof body.password !== 'string') {
+        throw new HttpError(400, 'email y password son obligatorios');
+      }
+
+      const session = provider.signIn(body.email, body.password);
+      if (!session) {
+        throw new HttpError(401, 'Correo o contraseña incorrectos');
+      }
+      sendJson(res, 200, session);
+    },
+  },
+  {
+    // Ends the session of the token in the Authorization header
+    method: 'POST',
+    path: /^\/api\/auth\/local\/sign-out$/,
+    handler: async ({ req, res }) => {
+      const token = readBearerToken(req);
+      if (token) {
+        localProvider().signOut(token);
+      }
+      res.statusCode = 204;
+      res.end();
+    },
+  },
+];
@@ -0,0 +1,204 @@
+import { queryChat, streamQueryChat, type ChatMessage, type ChatOptions, type ChatStreamEvent } from '../../lib/api/chat';
+import type { RetrievalFilters } from '../../lib/rag/retrieval';
+import { llmConfig } from '../../lib/llm/config';
+import { MAX_TEMPERATURE, MIN_TEMPERATURE, isAllowedModel } from '../../lib/llm/settings';
+import { HttpError, readJson, sendJson } from '../http';
+import type { Route } from '../router';
+
+// Values accepted in each list filter of a chat request
+const MAX_FILTER_VALUES = 100;
+
+interface ChatRequestBody {
+  question?: unknown;
+  conversationHistory?: unknown;
+  departmentId?: unknown;
+  documentVersionId?: unknown;
+  filters?: unknown;
+  model?: unknown;
+  temperature?: unknown;
+  maxTokens?: unknown;
+}
+
+/**
+ * Validates a list filter: department IDs, document IDs or file types
+ *
+ * @throws HttpError 400 if the value is not a list of non-empty strings or is too long
+ */
+function parseFilterList(value: unknown, name: string): string[] | undefined {
+  if (value == null) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || !value.every(item => typeof item === 'string' && item.trim())) {
+    throw new HttpError(400, `filters.${name} debe ser una lista de textos`);
+  }
+  if (value.length > MAX_FILTER_VALUES) {
+    throw new HttpError(400, `filters.${name} admite como máximo ${MAX_FILTER_VALUES} valores`);
+  }
+  return value.map(item => item.trim());
+}
+
+/**
+ * Validates a date filter
+ *
+ * @returns The date as an ISO date-time
+ * @throws HttpError 400 if the value is not a date
+ */
+function parseFilterDate(value: unknown, name: string): string | undefined {
+  if (value == null) {
+    return undefined;
+  }
+  const time = typeof value === 'string' ? Date.parse(value) : NaN;
+  if (Number.isNaN(time)) {
+    throw new HttpError(400, `filters.${name} debe ser una fecha`);
+  }
+  return new Date(time).toISOString();
+}
+
+/**
+ * Validates the retrieval filters of a chat request
+ * File types are extensions without the dot, compared in lowercase
+ *
+ * @throws HttpError 400 if a filter has the wrong type
+ */
+function parseFilters(value: unknown): RetrievalFilters {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new HttpError(400, 'filters debe ser un objeto');
+  }
+  const filters = value as Record<string, unknown>;
+  return {
+    departmentIds: parseFilterList(filters.departmentIds, 'departmentIds'),
+    documentIds: parseFilterList(filters.documentIds, 'documentIds'),
+    fileTypes: parseFilterList(filters.fileTypes, 'fileTypes')?.map(type => type.replace(/^\./, '').toLowerCase()),
+    uploadedAfter: parseFilterDate(filters.uploadedAfter, 'uploadedAfter'),
+    uploadedBefore: parseFilterDate(filters.uploadedBefore, 'uploadedBefore'),
+  };
+}
+
+/**
+ * Validates the optional department, document version, filters and model settings of a chat request
+ *
+ * @param body - Parsed JSON body
+ * @returns The options to pass to the chat
+ * @throws HttpError 400 if a setting has the wrong type, is out of range or the model is not allowed
+ */
+function parseChatOptions(body: ChatRequestBody): ChatOptions {
+  const options: ChatOptions = {};
+
+  if (body.departmentId != null) {
+    if (typeof body.departmentId !== 'string') {
+      throw new HttpError(400, 'El departamento no es válido');
+    }
+    options.departmentId = body.departmentId;
+  }
+
+  if (body.documentVersionId != null) {
+    if (typeof body.documentVersionId !== 'string') {
+      throw new HttpError(400, 'La versión del documento no es válida');
+    }
+    options.documentVersionId = body.documentVersionId;
+  }
+
+  if (body.filters != null) {
+    options.filters = parseFilters(body.filters);
+  }
+
+  if (body.model != null) {
+    if (typeof body.model !== 'string' || !isAllowedModel(body.model)) {
+      throw new HttpError(400, `Modelo no permitido. Modelos disponibles: ${llmConfig.allowedModels.join(', ')}`);
+    }
+    options.model = body.model;
+  }
+
+  if (body.temperature != null) {
+    if (typeof body.temperature !== 'number' || body.temperature < MIN_TEMPERATURE || body.temperature > MAX_TEMPERATURE) {
+      throw new HttpError(400, `La temperatura debe estar entre ${MIN_TEMPERATURE} y ${MAX_TEMPERATURE}`);
+    }
+    options.temperature = body.temperature;
+  }
+
+  if (body.maxTokens != null) {
+    if (!Number.isInteger(body.maxTokens) || (body.maxTokens as number) < 1 || (body.maxTokens as number) > llmConfig.maxTokensLimit) {
+      throw new HttpError(400, `maxTokens debe ser un entero entre 1 y ${llmConfig.maxTokensLimit}`);
+    }
+    options.maxTokens = body.maxTokens as number;
+  }
+
+  return options;
+}
+
+/**
+ * Validates the body of a chat request
+ * Only role and content of each history message are kept; sources are not needed by the model
+ *
+ * @param body - Parsed JSON body
+ * @returns The question, a sanitized conversation history and the chat options
+ * @throws HttpError 400 if the question is missing or an option is not valid
+ */
+export function parseChatRequest(
+  body: ChatRequestBody
+): { question: string; conversationHistory: ChatMessage[]; options: ChatOptions } {
+  if (typeof body.question !== 'string' || body.question.trim().length === 0) {
+    throw new HttpError(400, 'La pregunta es obligatoria');
+  }
+
+  const history = Array.isArray(body.conversationHistory) ? body.conversationHistory : [];
+  const conversationHistory: ChatMessage[] = history
+    .filter((msg): msg is ChatMessage =>
+      !!msg &&
+      (msg.role === 'user' || msg.role === 'assistant') &&
+      typeof msg.content === 'string'
+    )
+    .map(msg => ({ role: msg.role, content: msg.content }));
+
+  return { question: body.question, conversationHistory, options: parseChatOptions(body) };
+}
+
+export const chatRoutes: Route[] = [
+  {
+    // Answers a question using RAG over the processed documents
+    method: 'POST',
+    path: /^\/api\/chat$/,
+    handler: async ({ req, res, auth }) => {
+      const { question, conversationHistory, options } = parseChatRequest(await readJson<ChatRequestBody>(req));
+      // Answers only draw on documents the caller can see
+      options.viewer = await auth.getViewer();
+      sendJson(res, 200, await queryChat(question, conversationHistory, options));
+    },
+  },
+  {
+    // Streams the answer as newline-delimited JSON (one ChatStreamEvent per line)
+    // Closing the connection aborts the model request
+    method: 'POST',
+    path: /^\/api\/chat\/stream$/,
+    handler: async ({ req, res, auth }) => {
+      const { question, conversationHistory, options } = parseChatRequest(await readJson<ChatRequestBody>(req));
+      options.viewer = await auth.getViewer();
+
+      const abortController = new AbortController();
+      res.on('close', () => abortController.abort());
+
+      res.statusCode = 200;
+      res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.flushHeaders();
+
+      const writeEvent = (event: ChatStreamEvent) => {
+        res.write(`${JSON.stringify(event)}\n`);
+      };
+
+      try {
+        for await (const event of streamQueryChat(question, conversationHistory, abortController.signal, options)) {
+          writeEvent(event);
+        }
+      } catch (error) {
+        // A client that went away is not an error worth reporting
+        if (!abortController.signal.aborted) {
+          console.error('Error streaming chat answer:', error);
+          writeEvent({ type: 'error', message: 'No se pudo completar la respuesta.' });
+        }
+      }
+
+      res.end();
+    },
+  },
+];
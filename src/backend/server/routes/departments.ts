@@ -0,0 +1,244 @@
+import {
+  createDepartment,
+  deleteDepartment,
+  getDepartments,
+  mergeDepartments,
+  updateDepartment,
+  updateDepartmentVisibility,
+} from '../../lib/api/departments';
+import { listDepartmentMembers, removeDepartmentMember, setDepartmentMember } from '../../lib/api/departmentMembers';
+import { DEPARTMENT_ROLES, isDepartmentRole } from '../../lib/auth/roles';
+import { VISIBILITIES, isVisibility } from '../../lib/auth/visibility';
+import { requireDepartmentRole, requireRole } from '../auth';
+import { HttpError, readJson, sendJson } from '../http';
+import type { Route } from '../router';
+
+// Postgres unique_violation: a department with that name already exists
+const UNIQUE_VIOLATION = '23505';
+// Postgres foreign_key_violation: the parent or target department does not exist
+const FOREIGN_KEY_VIOLATION = '23503';
+// Postgres raise_exception: a rule of delete_department, merge_departments or the hierarchy trigger
+const RAISE_EXCEPTION = 'P0001';
+
+interface DepartmentRequestBody {
+  name?: unknown;
+  parentId?: unknown;
+}
+
+interface MergeRequestBody {
+  targetId?: unknown;
+}
+
+interface MemberRequestBody {
+  role?: unknown;
+}
+
+interface VisibilityRequestBody {
+  visibility?: unknown;
+}
+
+/**
+ * Validates the parent of a department: a department ID, null for top level, or omitted
+ *
+ * @throws HttpError 400 if the value has the wrong type
+ */
+function parseParentId(value: unknown): string | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (value === null) {
+    return null;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, 'parentId debe ser el ID de un departamento o null');
+  }
+  return value.trim();
+}
+
+/**
+ * Translates the database errors of creating, changing, deleting or merging departments
+ *
+ * @param missingMessage - Message when a referenced department does not exist
+ */
+function departmentError(error: unknown, missingMessage: string): unknown {
+  const { code, message } = error as { code?: string; message?: string };
+  if (code === UNIQUE_VIOLATION) {
+    return new HttpError(409, 'Ya existe un departamento con ese nombre en el mismo departamento padre');
+  }
+  if (code === FOREIGN_KEY_VIOLATION) {
+    return new HttpError(400, missingMessage);
+  }
+  if (code === RAISE_EXCEPTION && message) {
+    return new HttpError(409, message);
+  }
+  return error;
+}
+
+export const departmentRoutes: Route[] = [
+  {
+    // Lists all departments ordered by name
+    method: 'GET',
+    path: /^\/api\/departments$/,
+    handler: async ({ res }) => {
+      sendJson(res, 200, await getDepartments());
+    },
+  },
+  {
+    // Creates a department, optionally inside another one (system admins)
+    method: 'POST',
+    path: /^\/api\/departments$/,
+    handler: async ({ req, res, auth }) => {
+      await requireRole(auth, 'system_admin');
+      const body = await readJson<DepartmentRequestBody>(req);
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name) {
+        throw new HttpError(400, 'name es obligatorio');
+      }
+      const parentId = parseParentId(body.parentId) ?? null;
+
+      try {
+        sendJson(res, 201, await createDepartment(name, parentId));
+      } catch (error) {
+        throw departmentError(error, 'El departamento padre no existe');
+      }
+    },
+  },
+  {
+    // Renames a department or moves it under another one (system admins)
+    method: 'PUT',
+    path: /^\/api\/departments\/([^/]+)$/,
+    handler: async ({ req, res, params, auth }) => {
+      await requireRole(auth, 'system_admin');
+      const body = await readJson<DepartmentRequestBody>(req);
+      if (body.name !== undefined && (typeof body.name !== 'string' || !body.name.trim())) {
+        throw new HttpError(400, 'name no puede estar vacío');
+      }
+      const name = typeof body.name === 'string' ? body.name.trim() : undefined;
+      const parentId = parseParentId(body.parentId);
+      if (name === undefined && parentId === undefined) {
+        throw new HttpError(400, 'Indica name o parentId');
+      }
+      if (parentId === params[0]) {
+        throw new HttpError(400, 'Un departamento no puede ser su propio padre');
+      }
+
+      let department;
+      try {
+        department = await updateDepartment(params[0], { name, parentId });
+      } catch (error) {
+        throw departmentError(error, 'El departamento padre no existe');
+      }
+      if (!department) {
+        throw new HttpError(404, 'Departamento no encontrado');
+      }
+      sendJson(res, 200, department);
+    },
+  },
+  {
+    // Deletes a department, moving its documents to ?reassignTo= (system admins)
+    method: 'DELETE',
+    path: /^\/api\/departments\/([^/]+)$/,
+    handler: async ({ res, params, query, auth }) => {
+      await requireRole(auth, 'system_admin');
+      const reassignTo = query.get('reassignTo')?.trim() || null;
+
+      let deleted;
+      try {
+        deleted = await deleteDepartment(params[0], reassignTo);
+      } catch (error) {
+        throw departmentError(error, 'El departamento de destino no existe');
+      }
+      if (!deleted) {
+        throw new HttpError(404, 'Departamento no encontrado');
+      }
+      res.statusCode = 204;
+      res.end();
+    },
+  },
+  {
+    // Merges a department into targetId, moving its documents, members and sub-departments (system admins)
+    method: 'POST',
+    path: /^\/api\/departments\/([^/]+)\/merge$/,
+    handler: async ({ req, res, params, auth }) => {
+      await requireRole(auth, 'system_admin');
+      const body = await readJson<MergeRequestBody>(req);
+      const targetId = typeof body.targetId === 'string' ? body.targetId.trim() : '';
+      if (!targetId) {
+        throw new HttpError(400, 'targetId es obligatorio');
+      }
+      if (targetId === params[0]) {
+        throw new HttpError(400, 'Elige otro departamento para fusionar');
+      }
+
+      let merged;
+      try {
+        merged = await mergeDepartments(params[0], targetId);
+      } catch (error) {
+        throw departmentError(error, 'Departamento no encontrado');
+      }
+      if (!merged) {
+        throw new HttpError(404, 'Departamento no encontrado');
+      }
+      res.statusCode = 204;
+      res.end();
+    },
+  },
+  {
+    // Changes the default visibility of the department's documents (department admins)
+    method: 'PUT',
+    path: /^\/api\/departments\/([^/]+)\/visibility$/,
+    handler: async ({ req, res, params, auth }) => {
+      await requireDepartmentRole(auth, 'department_admin', params[0]);
+      const body = await readJson<VisibilityRequestBody>(req);
+      if (!isVisibility(body.visibility)) {
+        throw new HttpError(400, `visibility debe ser uno de: ${VISIBILITIES.join(', ')}`);
+      }
+
+      const department = await updateDepartmentVisibility(params[0], body.visibility);
+      if (!department) {
+        throw new HttpError(404, 'Departamento no encontrado');
+      }
+      sendJson(res, 200, department);
+    },
+  },
+  {
+    // Members of a department and their roles (department admins)
+    method: 'GET',
+    path: /^\/api\/departments\/([^/]+)\/members$/,
+    handler: async ({ res, params, auth }) => {
+      await requireDepartmentRole(auth, 'department_admin', params[0]);
+      sendJson(res, 200, await listDepartmentMembers(params[0]));
+    },
+  },
+  {
+    // Adds a member to a department or changes their role (department admins)
+    method: 'PUT',
+    path: /^\/api\/departments\/([^/]+)\/members\/([^/]+)$/,
+    handler: async ({ req, res, params, auth }) => {
+      await requireDepartmentRole(auth, 'department_admin', params[0]);
+      const body = await readJson<MemberRequestBody>(req);
+      if (!isDepartmentRole(body.role)) {
+        throw new HttpError(400, `role debe ser uno de: ${DEPARTMENT_ROLES.join(', ')}`);
+      }
+
+      const member = await setDepartmentMember(params[0], params[1], body.role);
+      if (!member) {
+        throw new HttpError(404, 'Departamento o usuario no encontrado');
+      }
+      sendJson(res, 200, member);
+    },
+  },
+  {
+    // Removes a member from a department (department admins)
+    method: 'DELETE',
+    path: /^\/api\/departments\/([^/]+)\/members\/([^/]+)$/,
+    handler: async ({ res, params, auth }) => {
+      await requireDepartmentRole(auth, 'department_admin', params[0]);
+      if (!(await removeDepartmentMember(params[0], params[1]))) {
+        throw new HttpError(404, 'El usuario no es miembro del departamento');
+      }
+      res.statusCode = 204;
+      res.end();
+    },
+  },
+];
@@ -0,0 +1,400 @@
+import {
+  deleteDocuments,
+  filterVisibleDocuments,
+  getDocumentById,
+  getDocumentContent,
+  getDocumentDepartmentIds,
+  getDocumentTrash,
+  getDocuments,
+  hasDocumentsProcessing,
+  purgeDocuments,
+  restoreDocument,
+  updateDocumentStatus,
+  updateDocumentVisibility,
+  uploadDocument,
+  uploadSiteArchive,
+  type Document,
+} from '../../lib/api/documents';
+import { diffDocumentVersions, getDocumentVersions, uploadDocumentVersion } from '../../lib/api/documentVersions';
+import { findDuplicateDocuments } from '../../lib/api/duplicates';
+import { cancelIngestionJobs, enqueueIngestionJob, enqueueOrphanDocuments } from '../../lib/api/ingestionJobs';
+import { MAX_SITE_PAGES } from '../../lib/ingestion/siteArchive';
+import { canInDepartment, type Role } from '../../lib/auth/roles';
+import { VISIBILITIES, isVisibility, type Visibility } from '../../lib/auth/visibility';
+import { requireDepartmentRole, requireRoleInAnyDepartment, type AuthContext } from '../auth';
+import { HttpError, readBody, readJson, sendJson } from '../http';
+import type { Route } from '../router';
+
+// Same limit the Upload page enforces before sending the file
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+// Documents accepted by one bulk delete request
+const MAX_BULK_DELETE = 500;
+
+// Users in the restricted list of one document
+const MAX_RESTRICTED_USERS = 200;
+
+interface BulkDeleteRequestBody {
+  ids?: unknown;
+  permanent?: unknown;
+}
+
+interface VisibilityRequestBody {
+  visibility?: unknown;
+  restrictedTo?: unknown;
+}
+
+/**
+ * Validates the document IDs of a bulk delete request
+ *
+ * @throws HttpError 400 if ids is not a non-empty array of strings
+ */
+function parseDocumentIds(body: BulkDeleteRequestBody): string[] {
+  const { ids } = body;
+  if (!Array.isArray(ids) || ids.length === 0 || !ids.every(id => typeof id === 'string' && id.trim())) {
+    throw new HttpError(400, 'ids debe ser una lista de IDs de documentos');
+  }
+  if (ids.length > MAX_BULK_DELETE) {
+    throw new HttpError(400, `No se pueden borrar más de ${MAX_BULK_DELETE} documentos a la vez`);
+  }
+  return ids.map(id => id.trim());
+}
+
+/**
+ * Checks the caller's role in the department of a document, trashed or not
+ *
+ * @throws HttpError 404 if the document does not exist, 403 if the caller lacks the role
+ */
+async function requireDocumentRole(auth: AuthContext, required: Role, documentId: string): Promise<void> {
+  const departmentId = (await getDocumentDepartmentIds([documentId])).get(documentId);
+  if (!departmentId) {
+    throw new HttpError(404, 'Documento no encontrado');
+  }
+  await requireDepartmentRole(auth, required, departmentId);
+}
+
+/**
+ * Loads a document the caller can see
+ * Documents hidden from the caller are reported as missing, so their existence does not leak
+ *
+ * @throws HttpError 404 if the document does not exist, is in the trash or is hidden from the caller
+ */
+async function requireVisibleDocument(auth: AuthContext, documentId: string): Promise<Document> {
+  const document = await getDocumentById(documentId);
+  if (!document || (await filterVisibleDocuments(await auth.getViewer(), [document])).length === 0) {
+    throw new HttpError(404, 'Documento no encontrado');
+  }
+  return document;
+}
+
+/**
+ * Validates the body of a visibility change
+ *
+ * @returns The visibility (null: the department default) and the users allowed when restricted
+ * @throws HttpError 400 if visibility is not valid or restrictedTo is not a list of user IDs
+ */
+function parseVisibility(body: VisibilityRequestBody): { visibility: Visibility | null; restrictedTo: string[] } {
+  const { restrictedTo = [] } = body;
+  if (body.visibility !== null && !isVisibility(body.visibility)) {
+    throw new HttpError(400, `visibility debe ser null o uno de: ${VISIBILITIES.join(', ')}`);
+  }
+  const visibility = isVisibility(body.visibility) ? body.visibility : null;
+  if (!Array.isArray(restrictedTo) || !restrictedTo.every(id => typeof id === 'string' && id.trim())) {
+    throw new HttpError(400, 'restrictedTo debe ser una lista de IDs de usuarios');
+  }
+  if (restrictedTo.length > MAX_RESTRICTED_USERS) {
+    throw new HttpError(400, `Un documento restringido admite como máximo ${MAX_RESTRICTED_USERS} usuarios`);
+  }
+  // The list only matters for restricted documents; other visibilities clear it
+  return {
+    visibility,
+    restrictedTo: visibility === 'restricted' ? Array.from(new Set(restrictedTo.map(id => id.trim()))) : [],
+  };
+}
+
+export const documentRoutes: Route[] = [
+  {
+    // Lists the documents the caller can see, with their department
+    method: 'GET',
+    path: /^\/api\/documents$/,
+    handler: async ({ res, auth }) => {
+      sendJson(res, 200, await filterVisibleDocuments(await auth.getViewer(), await getDocuments()));
+    },
+  },
+  {
+    // Tells the Chat page whether any document the caller can see is still being processed
+    method: 'GET',
+    path: /^\/api\/documents\/processing$/,
+    handler: async ({ res, auth }) => {
+      sendJson(res, 200, { processing: await hasDocumentsProcessing(await auth.getViewer()) });
+    },
+  },
+  {
+    // Documents in the trash and how long they are kept
+    // Only those of departments the caller administers
+    method: 'GET',
+    path: /^\/api\/documents\/trash$/,
+    handler: async ({ res, auth }) => {
+      await requireRoleInAnyDepartment(auth, 'department_admin');
+      const permissions = await auth.getPermissions();
+      const trash = await getDocumentTrash();
+      sendJson(res, 200, {
+        ...trash,
+        documents: trash.documents.filter(doc => canInDepartment(permissions, doc.department_id, 'department_admin')),
+      });
+    },
+  },
+  {
+    // Moves several documents to the trash, or removes documents already in the trash for good
+    method: 'POST',
+    path: /^\/api\/documents\/delete$/,
+    handler: async ({ req, res, auth }) => {
+      const body = await readJson<BulkDeleteRequestBody>(req);
+      const ids = parseDocumentIds(body);
+      const departmentIds = await getDocumentDepartmentIds(ids);
+      await requireDepartmentRole(auth, 'department_admin', Array.from(departmentIds.values()));
+      if (body.permanent === true) {
+        sendJson(res, 200, { deleted: await purgeDocuments(ids) });
+        return;
+      }
+      const deleted = await deleteDocuments(ids);
+      await cancelIngestionJobs(deleted);
+      sendJson(res, 200, { deleted });
+    },
+  },
+  {
+    // Uploads a file sent as the raw request body and queues its processing
+    // File name and department travel as query parameters to avoid multipart parsing
+    method: 'POST',
+    path: /^\/api\/documents$/,
+    handler: async ({ req, res, query, auth }) => {
+      const fileName = query.get('fileName')?.trim();
+      const departmentId = query.get('departmentId')?.trim();
+
+      if (!fileName || !departmentId) {
+        throw new HttpError(400, 'fileName y departmentId son obligatorios');
+      }
+      await requireDepartmentRole(auth, 'editor', departmentId);
+
+      const data = await readBody(req, MAX_UPLOAD_BYTES);
+      if (data.length === 0) {
+        throw new HttpError(400, 'El archivo está vacío');
+      }
+
+      // The signed-in user is recorded as the uploader
+      const uploader = await auth.getUser();
+
+      const document = await uploadDocument(
+        { name: fileName, type: req.headers['content-type'] || '', data },
+        departmentId,
+        uploader.id
+      );
+      sendJson(res, 201, document);
+    },
+  },
+  {
+    // Uploads a zipped static site export (raw body) as one document per HTML page
+    method: 'POST',
+    path: /^\/api\/documents\/site$/,
+    handler: async ({ req, res, query, auth }) => {
+      const fileName = query.get('fileName')?.trim();
+      const departmentId = query.get('departmentId')?.trim();
+
+      if (!fileName || !departmentId) {
+        throw new HttpError(400, 'fileName y departmentId son obligatorios');
+      }
+      await requireDepartmentRole(auth, 'editor', departmentId);
+
+      const data = await readBody(req, MAX_UPLOAD_BYTES);
+      if (data.length === 0) {
+        throw new HttpError(400, 'El archivo está vacío');
+      }
+
+      const uploader = await auth.getUser();
+
+      let result;
+      try {
+        result = await uploadSiteArchive({ name: fileName, type: 'application/zip', data }, departmentId, uploader.id);
+      } catch (error) {
+        console.error('Error expanding site archive:', error);
+        throw new HttpError(400, `No se pudo leer el archivo ZIP (máximo ${MAX_SITE_PAGES} páginas)`);
+      }
+
+      if (result.documents.length === 0 && result.failed.length === 0) {
+        throw new HttpError(400, 'El archivo ZIP no contiene páginas HTML');
+      }
+      sendJson(res, 201, result);
+    },
+  },
+  {
+    // Looks for documents identical or very similar to a file before it is uploaded
+    // The file travels as the raw body, like an upload; nothing is stored
+    method: 'POST',
+    path: /^\/api\/documents\/duplicates$/,
+    handler: async ({ req, res, query, auth }) => {
+      await requireRoleInAnyDepartment(auth, 'editor');
+      const fileName = query.get('fileName')?.trim();
+      if (!fileName) {
+        throw new HttpError(400, 'fileName es obligatorio');
+      }
+
+      const data = await readBody(req, MAX_UPLOAD_BYTES);
+      if (data.length === 0) {
+        throw new HttpError(400, 'El archivo está vacío');
+      }
+
+      // Documents hidden from the caller are left out, names included
+      const matches = await findDuplicateDocuments({ name: fileName, type: req.headers['content-type'] || '', data });
+      const visible = await filterVisibleDocuments(await auth.getViewer(), matches.map(match => match.document));
+      sendJson(res, 200, matches.filter(match => visible.includes(match.document)));
+    },
+  },
+  {
+    // Line diff between two versions of the same document
+    method: 'GET',
+    path: /^\/api\/documents\/diff$/,
+    handler: async ({ res, query, auth }) => {
+      const from = query.get('from')?.trim();
+      const to = query.get('to')?.trim();
+      if (!from || !to) {
+        throw new HttpError(400, 'from y to son obligatorios');
+      }
+      // Versions share their visibility, and the diff requires both to be of the same document
+      await requireVisibleDocument(auth, from);
+
+      const diff = await diffDocumentVersions(from, to);
+      if (!diff) {
+        throw new HttpError(404, 'No se encontraron dos versiones del mismo documento');
+      }
+      sendJson(res, 200, diff);
+    },
+  },
+  {
+    // Lists every version of a document, newest first
+    method: 'GET',
+    path: /^\/api\/documents\/([^/]+)\/versions$/,
+    handler: async ({ res, params, auth }) => {
+      await requireVisibleDocument(auth, params[0]);
+      const versions = await getDocumentVersions(params[0]);
+      if (!versions) {
+        throw new HttpError(404, 'Documento no encontrado');
+      }
+      sendJson(res, 200, versions);
+    },
+  },
+  {
+    // Uploads a new version of a document (raw body); the previous version stays current
+    // until the new one is processed
+    method: 'POST',
+    path: /^\/api\/documents\/([^/]+)\/versions$/,
+    handler: async ({ req, res, params, query, auth }) => {
+      // Checked before the role, so editors cannot learn that a hidden document exists
+      await requireVisibleDocument(auth, params[0]);
+      await requireDocumentRole(auth, 'editor', params[0]);
+      const fileName = query.get('fileName')?.trim();
+      if (!fileName) {
+        throw new HttpError(400, 'fileName es obligatorio');
+      }
+
+      const data = await readBody(req, MAX_UPLOAD_BYTES);
+      if (data.length === 0) {
+        throw new HttpError(400, 'El archivo está vacío');
+      }
+
+      const uploader = await auth.getUser();
+
+      const version = await uploadDocumentVersion(
+        { name: fileName, type: req.headers['content-type'] || '', data },
+        params[0],
+        uploader.id
+      );
+      if (!version) {
+        throw new HttpError(404, 'Documento no encontrado');
+      }
+      sendJson(res, 201, version);
+    },
+  },
+  {
+    // Returns the text of a document split into chunks, for the document viewer
+    method: 'GET',
+    path: /^\/api\/documents\/([^/]+)\/content$/,
+    handler: async ({ res, params, auth }) => {
+      await requireVisibleDocument(auth, params[0]);
+      const content = await getDocumentContent(params[0]);
+      if (!content) {
+        throw new HttpError(404, 'Documento no encontrado');
+      }
+      sendJson(res, 200, content);
+    },
+  },
+  {
+    // Changes who can see a document and all its versions (department admins)
+    method: 'PUT',
+    path: /^\/api\/documents\/([^/]+)\/visibility$/,
+    handler: async ({ req, res, params, auth }) => {
+      await requireDocumentRole(auth, 'department_admin', params[0]);
+      const { visibility, restrictedTo } = parseVisibility(await readJson<VisibilityRequestBody>(req));
+
+      const document = await updateDocumentVisibility(params[0], visibility, restrictedTo);
+      if (!document) {
+        throw new HttpError(404, 'Documento no encontrado');
+      }
+      sendJson(res, 200, document);
+    },
+  },
+  {
+    // Queues the processing of an already uploaded document (text, chunks and embeddings)
+    // Chunks whose text did not change keep their embedding, so only new text is embedded
+    method: 'POST',
+    path: /^\/api\/documents\/([^/]+)\/process$/,
+    handler: async ({ res, params, auth }) => {
+      const document = await getDocumentById(params[0]);
+      if (!document) {
+        throw new HttpError(404, 'Documento no encontrado');
+      }
+      await requireDepartmentRole(auth, 'department_admin', document.department_id);
+
+      const job = await enqueueIngestionJob(document.id);
+      await updateDocumentStatus(document.id, 'processing');
+      sendJson(res, 202, job);
+    },
+  },
+  {
+    // Takes a document out of the trash
+    method: 'POST',
+    path: /^\/api\/documents\/([^/]+)\/restore$/,
+    handler: async ({ res, params, auth }) => {
+      await requireDocumentRole(auth, 'department_admin', params[0]);
+      const document = await restoreDocument(params[0]);
+      if (!document) {
+        throw new HttpError(404, 'El documento no está en la papelera');
+      }
+      // Versions whose processing was cancelled when they were trashed are queued again
+      const versions = await getDocumentVersions(document.id);
+      await enqueueOrphanDocuments((versions || []).map(version => version.id));
+      sendJson(res, 200, document);
+    },
+  },
+  {
+    // Moves a document to the trash; with ?permanent=true removes a document already in the trash
+    method: 'DELETE',
+    path: /^\/api\/documents\/([^/]+)$/,
+    handler: async ({ res, params, query, auth }) => {
+      await requireDocumentRole(auth, 'department_admin', params[0]);
+      if (query.get('permanent') === 'true') {
+        const purged = await purgeDocuments([params[0]]);
+        if (!purged.includes(params[0])) {
+          throw new HttpError(404, 'El documento no está en la papelera o no se pudo borrar');
+        }
+      } else {
+        const deleted = await deleteDocuments([params[0]]);
+        if (deleted.length === 0) {
+          throw new HttpError(404, 'Documento no encontrado');
+        }
+        await cancelIngestionJobs(deleted);
+      }
+      res.statusCode = 204;
+      res.end();
+    },
+  },
+];
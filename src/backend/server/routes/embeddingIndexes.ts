@@ -0,0 +1,78 @@
+import {
+  EmbeddingIndexError,
+  cancelEmbeddingMigration,
+  getEmbeddingIndexOverview,
+  rollbackEmbeddingIndex,
+  startEmbeddingMigration,
+} from '../../lib/api/embeddingIndexes';
+import { requireRole } from '../auth';
+import { HttpError, readJson, sendJson } from '../http';
+import type { Route } from '../router';
+
+interface MigrationRequestBody {
+  provider?: unknown;
+  model?: unknown;
+}
+
+/**
+ * Runs an index action, turning EmbeddingIndexError into 400 or 409 responses
+ */
+async function withIndexErrors<T>(action: () => Promise<T>): Promise<T> {
+  try {
+    return await action();
+  } catch (error) {
+    if (error instanceof EmbeddingIndexError) {
+      throw new HttpError(error.reason === 'invalid' ? 400 : 409, error.message);
+    }
+    throw error;
+  }
+}
+
+// Embedding indexes are deployment settings: system admins only
+export const embeddingIndexRoutes: Route[] = [
+  {
+    // Active embedding index, migration in progress and previous versions
+    method: 'GET',
+    path: /^\/api\/embedding-indexes$/,
+    handler: async ({ res, auth }) => {
+      await requireRole(auth, 'system_admin');
+      sendJson(res, 200, await getEmbeddingIndexOverview());
+    },
+  },
+  {
+    // Starts re-embedding every chunk with another model; the worker runs it in the background
+    method: 'POST',
+    path: /^\/api\/embedding-indexes$/,
+    handler: async ({ req, res, auth }) => {
+      await requireRole(auth, 'system_admin');
+      const body = await readJson<MigrationRequestBody>(req);
+      if (typeof body.provider !== 'string' || typeof body.model !== 'string') {
+        throw new HttpError(400, 'provider y model son obligatorios');
+      }
+      const { provider, model } = body;
+      sendJson(res, 202, await withIndexErrors(() => startEmbeddingMigration(provider, model)));
+    },
+  },
+  {
+    // Switches back to the previous index
+    method: 'POST',
+    path: /^\/api\/embedding-indexes\/rollback$/,
+    handler: async ({ res, auth }) => {
+      await requireRole(auth, 'system_admin');
+      sendJson(res, 200, await withIndexErrors(() => rollbackEmbeddingIndex()));
+    },
+  },
+  {
+    // Cancels the migration in progress; queries keep using the active index
+    method: 'POST',
+    path: /^\/api\/embedding-indexes\/([^/]+)\/cancel$/,
+    handler: async ({ res, params, auth }) => {
+      await requireRole(auth, 'system_admin');
+      const index = await cancelEmbeddingMigration(params[0]);
+      if (!index) {
+        throw new HttpError(409, 'La migración no existe o ya terminó');
+      }
+      sendJson(res, 200, index);
+    },
+  },
+];
@@ -0,0 +1,39 @@
+import { getIngestionJob, getIngestionQueueStatus, retryIngestionJob } from '../../lib/api/ingestionJobs';
+import { getDocumentDepartmentIds } from '../../lib/api/documents';
+import { requireDepartmentRole, requireRoleInAnyDepartment } from '../auth';
+import { HttpError, sendJson } from '../http';
+import type { Route } from '../router';
+
+export const jobRoutes: Route[] = [
+  {
+    // Status of the ingestion queue for the Upload page: recent jobs and counts per status
+    // Only jobs of documents the caller can see, in departments where they are an editor
+    method: 'GET',
+    path: /^\/api\/jobs$/,
+    handler: async ({ res, auth }) => {
+      await requireRoleInAnyDepartment(auth, 'editor');
+      sendJson(res, 200, await getIngestionQueueStatus(await auth.getViewer()));
+    },
+  },
+  {
+    // Queues a failed job again with a fresh set of attempts
+    // Reprocessing is managing the document: department admins only
+    method: 'POST',
+    path: /^\/api\/jobs\/([^/]+)\/retry$/,
+    handler: async ({ res, params, auth }) => {
+      // Jobs the caller cannot follow are reported as missing
+      const existing = await getIngestionJob(params[0], await auth.getViewer());
+      const departmentId = existing && (await getDocumentDepartmentIds([existing.document_id])).get(existing.document_id);
+      if (!departmentId) {
+        throw new HttpError(409, 'El trabajo no existe o no ha fallado');
+      }
+      await requireDepartmentRole(auth, 'department_admin', departmentId);
+
+      const job = await retryIngestionJob(params[0]);
+      if (!job) {
+        throw new HttpError(409, 'El trabajo no existe o no ha fallado');
+      }
+      sendJson(res, 200, job);
+    },
+  },
+];
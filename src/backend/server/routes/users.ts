@@ -0,0 +1,77 @@
+import { countUserUploads, listUsers, updateUserName, updateUserRole } from '../../lib/api/users';
+import { ROLES, isRole } from '../../lib/auth/roles';
+import { requireRole, requireRoleInAnyDepartment } from '../auth';
+import { HttpError, readJson, sendJson } from '../http';
+import type { Route } from '../router';
+
+// Longest display name accepted
+const MAX_NAME_LENGTH = 100;
+
+interface ProfileUpdateBody {
+  name?: unknown;
+}
+
+interface RoleUpdateBody {
+  role?: unknown;
+}
+
+export const userRoutes: Route[] = [
+  {
+    // Profile of the signed-in user, how many documents they have uploaded and what they can do
+    method: 'GET',
+    path: /^\/api\/me$/,
+    handler: async ({ res, auth }) => {
+      const user = await auth.getUser();
+      const [uploads, permissions] = await Promise.all([countUserUploads(user.id), auth.getPermissions()]);
+      sendJson(res, 200, { user, uploads, permissions });
+    },
+  },
+  {
+    // Changes the display name of the signed-in user
+    method: 'PATCH',
+    path: /^\/api\/me$/,
+    handler: async ({ req, res, auth }) => {
+      const body = await readJson<ProfileUpdateBody>(req);
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name || name.length > MAX_NAME_LENGTH) {
+        throw new HttpError(400, `El nombre es obligatorio (máximo ${MAX_NAME_LENGTH} caracteres)`);
+      }
+
+      const user = await auth.getUser();
+      sendJson(res, 200, await updateUserName(user.id, name));
+    },
+  },
+  {
+    // All users, to add department members (department admins) and manage roles
+    method: 'GET',
+    path: /^\/api\/users$/,
+    handler: async ({ res, auth }) => {
+      await requireRoleInAnyDepartment(auth, 'department_admin');
+      sendJson(res, 200, await listUsers());
+    },
+  },
+  {
+    // Changes the global role of a user (system admins)
+    method: 'PATCH',
+    path: /^\/api\/users\/([^/]+)\/role$/,
+    handler: async ({ req, res, params, auth }) => {
+      await requireRole(auth, 'system_admin');
+      const body = await readJson<RoleUpdateBody>(req);
+      if (!isRole(body.role)) {
+        throw new HttpError(400, `role debe ser uno de: ${ROLES.join(', ')}`);
+      }
+
+      // Keeps at least the admin making the change from locking themselves out
+      const caller = await auth.getUser();
+      if (caller.id === params[0]) {
+        throw new HttpError(400, 'No puedes cambiar tu propio rol');
+      }
+
+      const user = await updateUserRole(params[0], body.role);
+      if (!user) {
+        throw new HttpError(404, 'Usuario no encontrado');
+      }
+      sendJson(res, 200, user);
+    },
+  },
+];
@@ -0,0 +1,29 @@
+// Rows of document_chunks joined with their document, as the search fallback reads them, for tests
+
+/**
+ * A chunk of a public document of dept-sales, embedded with test-model
+ *
+ * @param id - Chunk ID; its document is doc-<id> and its file <id>.pdf
+ * @param overrides - Text of the chunk and fields of its document that the test cares about
+ */
+export function chunkRow(id: string, overrides: { content?: string; document?: Record<string, unknown> } = {}) {
+  return {
+    id,
+    document_id: `doc-${id}`,
+    chunk_index: 0,
+    content: overrides.content ?? `vacaciones del equipo ${id}`,
+    embedding: [1, 0],
+    embedding_model: 'test-model',
+    documents: {
+      department_id: 'dept-sales',
+      uploader_id: 'someone-else',
+      visibility: 'public',
+      restricted_to: [],
+      version_group_id: `doc-${id}`,
+      file_name: `${id}.pdf`,
+      uploaded_at: '2026-03-01T00:00:00Z',
+      departments: { default_visibility: 'public' },
+      ...overrides.document,
+    },
+  };
+}
@@ -0,0 +1,78 @@
+// In-memory stand-in for the Supabase client of lib/supabase.ts, for tests
+// Each test decides what every query returns; no request leaves the process
+// Use it with: vi.mock('<path to>/lib/supabase', () => import('<path to>/test/fakeSupabase'))
+
+/**
+ * A query built with the fake client: table, selected columns and every filter applied
+ */
+export interface FakeQuery {
+  table: string;
+  columns: string;
+  options?: { count?: string; head?: boolean };
+  // Filters and modifiers in call order, e.g. { method: 'eq', args: ['status', 'processed'] }
+  calls: { method: string; args: unknown[] }[];
+}
+
+export interface FakeResult {
+  data?: unknown;
+  error?: unknown;
+  count?: number | null;
+}
+
+type QueryHandler = (query: FakeQuery) => FakeResult;
+type RpcHandler = (name: string, params: Record<string, unknown>) => FakeResult;
+
+// By default tables are empty and RPC functions do not exist
+let queryHandler: QueryHandler = () => ({ data: [], count: 0 });
+let rpcHandler: RpcHandler = name => ({ data: null, error: { message: `function ${name} does not exist` } });
+
+/**
+ * Decides what the fake client returns; call again (or with no handlers) to reset
+ */
+export function setSupabaseHandlers(handlers: { query?: QueryHandler; rpc?: RpcHandler } = {}): void {
+  queryHandler = handlers.query ?? (() => ({ data: [], count: 0 }));
+  rpcHandler = handlers.rpc ?? (name => ({ data: null, error: { message: `function ${name} does not exist` } }));
+}
+
+/**
+ * Whether a query has a filter, e.g. hasCall(query, 'eq', 'status', 'processed')
+ */
+export function hasCall(query: FakeQuery, method: string, ...args: unknown[]): boolean {
+  return query.calls.some(
+    call => call.method === method && args.every((arg, i) => JSON.stringify(call.args[i]) === JSON.stringify(arg))
+  );
+}
+
+function toResponse(result: FakeResult) {
+  return { data: result.data ?? null, error: result.error ?? null, count: result.count ?? null };
+}
+
+function queryBuilder(table: string) {
+  const query: FakeQuery = { table, columns: '*', calls: [] };
+  const builder: Record<string | symbol, unknown> = new Proxy({}, {
+    get(_target, property) {
+      if (property === 'then') {
+        return (onFulfilled: (value: unknown) => unknown, onRejected?: (reason: unknown) => unknown) =>
+          Promise.resolve()
+            .then(() => toResponse(queryHandler(query)))
+            .then(onFulfilled, onRejected);
+      }
+      return (...args: unknown[]) => {
+        if (property === 'select' && query.calls.length === 0) {
+          query.columns = (args[0] as string | undefined) ?? '*';
+          query.options = args[1] as FakeQuery['options'];
+        }
+        query.calls.push({ method: String(property), args });
+        return builder;
+      };
+    },
+  });
+  return builder;
+}
+
+export const supabase = {
+  from: (table: string) => queryBuilder(table),
+  rpc: async (name: string, params: Record<string, unknown> = {}) => toResponse(rpcHandler(name, params)),
+};
+
+export const isSupabaseConfigured = true;
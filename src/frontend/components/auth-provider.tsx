@@ -0,0 +1,89 @@
+import { createContext, useCallback, useContext, useEffect, useState, ReactNode } from "react";
+import { authClient, type AuthSession } from "@/lib/session";
+import { getProfile, type User, type UserPermissions } from "@/lib/api";
+
+interface AuthContextType {
+  session: AuthSession | null;
+  // Row of the signed-in user in the knowledge base; null until it has loaded
+  user: User | null;
+  // Global and per-department roles; null until loaded, when nothing is allowed
+  permissions: UserPermissions | null;
+  // True until the stored session, and then the user and roles, have been read
+  isLoading: boolean;
+  // Replaces the loaded user, e.g. after editing the profile
+  setUser: (user: User) => void;
+  signOut: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+export function AuthProvider({ children }: AuthProviderProps) {
+  const [session, setSession] = useState<AuthSession | null>(null);
+  const [user, setUser] = useState<User | null>(null);
+  const [permissions, setPermissions] = useState<UserPermissions | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  // Session user whose profile finished loading, successfully or not
+  const [profileUserId, setProfileUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    authClient.getSession().then((current) => {
+      if (!active) return;
+      setSession(current);
+      setIsLoading(false);
+    });
+
+    const unsubscribe = authClient.onSessionChange((current) => {
+      setSession(current);
+      setIsLoading(false);
+    });
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  // Load the user row and roles whenever someone else signs in
+  const userId = session?.user.id;
+  useEffect(() => {
+    setUser(null);
+    setPermissions(null);
+    if (!userId) return;
+
+    let active = true;
+    getProfile()
+      .then((profile) => {
+        if (!active) return;
+        setUser(profile.user);
+        setPermissions(profile.permissions);
+      })
+      .catch((error) => console.error("Error loading profile:", error))
+      .finally(() => {
+        if (active) setProfileUserId(userId);
+      });
+    return () => {
+      active = false;
+    };
+  }, [userId]);
+
+  const signOut = useCallback(() => authClient.signOut(), []);
+  const isLoadingProfile = !!userId && profileUserId !== userId;
+
+  return (
+    <AuthContext.Provider value={{ session, user, permissions, isLoading: isLoading || isLoadingProfile, setUser, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error("useAuth debe usarse dentro de un AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,291 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { SlidersHorizontal, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { getDepartments, getDocuments } from "@/lib/api";
+import type { Department, Document, RetrievalFilters } from "@/lib/api";
+import { departmentPath, departmentTree } from "@/lib/departments";
+
+/**
+ * Filters chosen in the chat, kept in the URL so they survive reloads and can be linked to
+ * Dates are calendar days (YYYY-MM-DD); both ends are included
+ */
+export interface ChatFilterValues {
+  departmentIds: string[];
+  documentIds: string[]; // version_group_id of each document
+  fileTypes: string[]; // Lowercase extensions without the dot
+  from: string;
+  to: string;
+}
+
+interface ChatFilterBarProps {
+  value: ChatFilterValues;
+  onChange: (value: ChatFilterValues) => void;
+}
+
+// URL search params of each filter, e.g. /chat?department=...&type=pdf&from=2026-01-01
+const PARAMS = { department: "department", document: "document", type: "type", from: "from", to: "to" };
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Reads the chat filters from the URL search params
+ * Malformed dates are ignored
+ */
+export function readChatFilters(params: URLSearchParams): ChatFilterValues {
+  const date = (name: string) => {
+    const value = params.get(name) || "";
+    return DATE_PATTERN.test(value) ? value : "";
+  };
+  return {
+    departmentIds: params.getAll(PARAMS.department),
+    documentIds: params.getAll(PARAMS.document),
+    fileTypes: params.getAll(PARAMS.type).map((type) => type.toLowerCase()),
+    from: date(PARAMS.from),
+    to: date(PARAMS.to),
+  };
+}
+
+/**
+ * Writes the chat filters into the URL search params, keeping the other params
+ */
+export function writeChatFilters(params: URLSearchParams, value: ChatFilterValues): URLSearchParams {
+  Object.values(PARAMS).forEach((name) => params.delete(name));
+  value.departmentIds.forEach((id) => params.append(PARAMS.department, id));
+  value.documentIds.forEach((id) => params.append(PARAMS.document, id));
+  value.fileTypes.forEach((type) => params.append(PARAMS.type, type));
+  if (value.from) params.set(PARAMS.from, value.from);
+  if (value.to) params.set(PARAMS.to, value.to);
+  return params;
+}
+
+/**
+ * Number of filters in use (a date range counts once per end)
+ */
+export function countChatFilters(value: ChatFilterValues): number {
+  return (
+    value.departmentIds.length +
+    value.documentIds.length +
+    value.fileTypes.length +
+    (value.from ? 1 : 0) +
+    (value.to ? 1 : 0)
+  );
+}
+
+/**
+ * Converts the chosen filters into the filters sent with a chat question
+ * Days are taken in the local time zone; the "to" day is included by ending at the next midnight
+ *
+ * @returns undefined when no filter is in use
+ */
+export function toRetrievalFilters(value: ChatFilterValues): RetrievalFilters | undefined {
+  if (countChatFilters(value) === 0) {
+    return undefined;
+  }
+
+  const localMidnight = (day: string, addDays = 0) => {
+    const date = new Date(`${day}T00:00:00`);
+    date.setDate(date.getDate() + addDays);
+    return date.toISOString();
+  };
+  return {
+    departmentIds: value.departmentIds,
+    documentIds: value.documentIds,
+    fileTypes: value.fileTypes,
+    uploadedAfter: value.from ? localMidnight(value.from) : undefined,
+    uploadedBefore: value.to ? localMidnight(value.to, 1) : undefined,
+  };
+}
+
+/**
+ * Extension of a file name in lowercase, without the dot
+ */
+function fileType(fileName: string): string {
+  return fileName.match(/\.([^./]+)$/)?.[1].toLowerCase() ?? "";
+}
+
+function documentGroupId(document: Document): string {
+  return document.version_group_id || document.id;
+}
+
+function toggle(values: string[], value: string): string[] {
+  return values.includes(value) ? values.filter((item) => item !== value) : [...values, value];
+}
+
+function formatDay(day: string): string {
+  return format(new Date(`${day}T00:00:00`), "dd MMM yyyy");
+}
+
+/**
+ * Filter button and chips of the active filters, shown above the chat input
+ * Limits the questions to some departments (with their sub-departments), documents, file types or upload dates
+ */
+export function ChatFilterBar({ value, onChange }: ChatFilterBarProps) {
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [documents, setDocuments] = useState<Document[]>([]);
+  const [documentFilter, setDocumentFilter] = useState("");
+
+  useEffect(() => {
+    getDepartments()
+      .then(setDepartments)
+      .catch((error) => console.error("Error loading departments:", error));
+    getDocuments()
+      .then(setDocuments)
+      .catch((error) => console.error("Error loading documents:", error));
+  }, []);
+
+  const fileTypes = Array.from(new Set(documents.map((document) => fileType(document.file_name)).filter(Boolean))).sort();
+  const filteredDocuments = documents.filter((document) =>
+    document.file_name.toLowerCase().includes(documentFilter.toLowerCase())
+  );
+  const departmentName = (id: string) => departmentPath(departments, id) || "Departamento";
+  const documentName = (id: string) =>
+    documents.find((document) => documentGroupId(document) === id)?.file_name ?? "Documento";
+  const activeCount = countChatFilters(value);
+
+  const update = (changes: Partial<ChatFilterValues>) => onChange({ ...value, ...changes });
+
+  const chips = [
+    ...value.departmentIds.map((id) => ({
+      key: `department-${id}`,
+      label: departmentName(id),
+      remove: () => update({ departmentIds: value.departmentIds.filter((item) => item !== id) }),
+    })),
+    ...value.documentIds.map((id) => ({
+      key: `document-${id}`,
+      label: documentName(id),
+      remove: () => update({ documentIds: value.documentIds.filter((item) => item !== id) }),
+    })),
+    ...value.fileTypes.map((type) => ({
+      key: `type-${type}`,
+      label: type.toUpperCase(),
+      remove: () => update({ fileTypes: value.fileTypes.filter((item) => item !== type) }),
+    })),
+    ...(value.from ? [{ key: "from", label: `Desde ${formatDay(value.from)}`, remove: () => update({ from: "" }) }] : []),
+    ...(value.to ? [{ key: "to", label: `Hasta ${formatDay(value.to)}`, remove: () => update({ to: "" }) }] : []),
+  ];
+
+  return (
+    <div className="mb-3 flex flex-wrap items-center gap-2">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-7 text-xs">
+            <SlidersHorizontal className="mr-2 h-3 w-3" />
+            Filtros{activeCount > 0 && ` (${activeCount})`}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-80 space-y-4">
+          <div className="space-y-2">
+            <Label>Departamentos</Label>
+            <div className="max-h-32 overflow-y-auto space-y-1">
+              {departmentTree(departments).map(({ department, depth }) => (
+                <label
+                  key={department.id}
+                  className="flex items-center gap-2 text-sm cursor-pointer"
+                  style={{ paddingLeft: `${depth}rem` }}
+                >
+                  <Checkbox
+                    checked={value.departmentIds.includes(department.id)}
+                    onCheckedChange={() => update({ departmentIds: toggle(value.departmentIds, department.id) })}
+                  />
+                  {department.name}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Documentos</Label>
+            <Input
+              placeholder="Buscar documento..."
+              value={documentFilter}
+              onChange={(e) => setDocumentFilter(e.target.value)}
+              className="h-8"
+            />
+            <div className="max-h-40 overflow-y-auto space-y-1">
+              {filteredDocuments.length === 0 && (
+                <p className="text-xs text-muted-foreground">No hay documentos que coincidan.</p>
+              )}
+              {filteredDocuments.map((document) => (
+                <label key={document.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                  <Checkbox
+                    checked={value.documentIds.includes(documentGroupId(document))}
+                    onCheckedChange={() => update({ documentIds: toggle(value.documentIds, documentGroupId(document)) })}
+                  />
+                  <span className="truncate">{document.file_name}</span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {fileTypes.length > 0 && (
+            <div className="space-y-2">
+              <Label>Tipos de archivo</Label>
+              <div className="flex flex-wrap gap-3">
+                {fileTypes.map((type) => (
+                  <label key={type} className="flex items-center gap-2 text-sm cursor-pointer">
+                    <Checkbox
+                      checked={value.fileTypes.includes(type)}
+                      onCheckedChange={() => update({ fileTypes: toggle(value.fileTypes, type) })}
+                    />
+                    {type.toUpperCase()}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Fecha de subida</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                value={value.from}
+                max={value.to || undefined}
+                onChange={(e) => update({ from: e.target.value })}
+                className="h-8"
+                aria-label="Desde"
+              />
+              <span className="text-xs text-muted-foreground">a</span>
+              <Input
+                type="date"
+                value={value.to}
+                min={value.from || undefined}
+                onChange={(e) => update({ to: e.target.value })}
+                className="h-8"
+                aria-label="Hasta"
+              />
+            </div>
+          </div>
+
+          {activeCount > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full"
+              onClick={() => onChange({ departmentIds: [], documentIds: [], fileTypes: [], from: "", to: "" })}
+            >
+              Quitar filtros
+            </Button>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      {chips.map((chip) => (
+        <span
+          key={chip.key}
+          className="inline-flex max-w-xs items-center gap-2 rounded-full bg-primary/10 px-3 py-1 text-xs font-medium text-primary"
+        >
+          <span className="truncate">{chip.label}</span>
+          <button type="button" onClick={chip.remove} title="Quitar filtro">
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import type { ReactNode } from "react";
+import { Link } from "react-router-dom";
+import type { ChatSource } from "@/lib/api";
+
+interface CitedTextProps {
+  text: string;
+  sources?: ChatSource[];
+}
+
+// Citation markers emitted by the model, e.g. [1] or [2]
+const CITATION_PATTERN = /\[(\d+)\]/g;
+
+/**
+ * Link to the document viewer, scrolled to the cited chunk
+ */
+export function sourceLink(source: ChatSource): string {
+  return `/documents/${encodeURIComponent(source.document_id)}?chunk=${encodeURIComponent(source.chunk_id)}`;
+}
+
+/**
+ * Describes where a source is in its document, e.g. "pág. 14 · 3.2 Vacaciones"
+ * Empty when the document has no page or heading information
+ */
+export function sourceLocation(source: ChatSource): string {
+  const parts: string[] = [];
+  if (source.page) {
+    parts.push(source.page_end && source.page_end !== source.page
+      ? `págs. ${source.page}-${source.page_end}`
+      : `pág. ${source.page}`);
+  }
+  if (source.section) {
+    parts.push(source.section);
+  }
+  return parts.join(" · ");
+}
+
+/**
+ * Renders an answer replacing citation markers with links to their source
+ * Markers without a matching source (e.g. while the answer streams) stay as plain text
+ */
+export function CitedText({ text, sources = [] }: CitedTextProps) {
+  const sourcesByNumber = new Map(sources.map((source) => [source.number, source]));
+  const parts: ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const source = sourcesByNumber.get(Number(match[1]));
+    if (!source) continue;
+
+    parts.push(text.slice(lastIndex, match.index));
+    parts.push(
+      <Link
+        key={match.index}
+        to={sourceLink(source)}
+        title={[source.title, sourceLocation(source)].filter(Boolean).join(" · ")}
+        className="mx-0.5 inline-flex h-5 min-w-5 items-center justify-center rounded-md bg-primary/10 px-1 align-text-top text-xs font-semibold text-primary hover:bg-primary/20"
+      >
+        {source.number}
+      </Link>
+    );
+    lastIndex = match.index! + match[0].length;
+  }
+  parts.push(text.slice(lastIndex));
+
+  return <p className="whitespace-pre-wrap">{parts}</p>;
+}
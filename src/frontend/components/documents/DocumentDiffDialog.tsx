@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { diffDocumentVersions } from "@/lib/api";
+import type { DiffLine, Document, DocumentDiff } from "@/lib/api";
+
+interface DocumentDiffDialogProps {
+  // Versions to compare; the dialog is open while both are set
+  from: Document | null;
+  to: Document | null;
+  onClose: () => void;
+}
+
+const lineStyles: Record<DiffLine["type"], string> = {
+  equal: "text-muted-foreground",
+  added: "bg-success/10 text-success",
+  removed: "bg-destructive/10 text-destructive line-through decoration-destructive/40",
+};
+
+const linePrefix: Record<DiffLine["type"], string> = {
+  equal: " ",
+  added: "+",
+  removed: "-",
+};
+
+/**
+ * Diálogo con las diferencias de texto entre dos versiones de un documento
+ */
+export function DocumentDiffDialog({ from, to, onClose }: DocumentDiffDialogProps) {
+  const [diff, setDiff] = useState<DocumentDiff | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!from || !to) return;
+
+    let cancelled = false;
+    setDiff(null);
+    setError(null);
+    diffDocumentVersions(from.id, to.id)
+      .then((result) => {
+        if (!cancelled) setDiff(result);
+      })
+      .catch((err) => {
+        console.error("Error comparing document versions:", err);
+        if (!cancelled) setError("No se pudieron comparar las versiones.");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [from, to]);
+
+  return (
+    <Dialog open={!!from && !!to} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle>
+            Versión {from?.version_number} → versión {to?.version_number}
+          </DialogTitle>
+          <DialogDescription>
+            {diff
+              ? `${diff.added} línea${diff.added !== 1 ? "s" : ""} añadida${diff.added !== 1 ? "s" : ""}, ${diff.removed} quitada${diff.removed !== 1 ? "s" : ""}`
+              : "Comparando el texto procesado de ambas versiones"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!diff && !error && (
+          <div className="p-12 flex items-center justify-center">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        )}
+
+        {error && <p className="text-destructive">{error}</p>}
+
+        {diff && diff.hunks.length === 0 && (
+          <p className="text-sm text-muted-foreground">El texto de las dos versiones es idéntico.</p>
+        )}
+
+        {diff && diff.hunks.length > 0 && (
+          <div className="max-h-[60vh] overflow-auto rounded-lg border border-border font-mono text-xs">
+            {diff.hunks.map((hunk) => (
+              <div key={`${hunk.fromStart}-${hunk.toStart}`} className="border-b border-border last:border-b-0">
+                <p className="px-3 py-1 bg-secondary text-muted-foreground">
+                  Línea {hunk.fromStart} → {hunk.toStart}
+                </p>
+                {hunk.lines.map((line, index) => (
+                  <p key={index} className={cn("px-3 whitespace-pre-wrap break-words", lineStyles[line.type])}>
+                    {linePrefix[line.type]} {line.text}
+                  </p>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { FileText, Loader2, Trash2, Undo2 } from "lucide-react";
+import { addDays, format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { deleteDocuments, getDocumentTrash, restoreDocument } from "@/lib/api";
+import type { Document, DocumentTrash } from "@/lib/api";
+
+interface DocumentTrashPanelProps {
+  // Called after a document is restored, so the document list can be reloaded
+  onRestored: (document: Document) => void;
+}
+
+/**
+ * Papelera de documentos: restaurar un documento borrado o borrarlo definitivamente
+ * antes de que venza su periodo de retención
+ */
+export function DocumentTrashPanel({ onRestored }: DocumentTrashPanelProps) {
+  const [trash, setTrash] = useState<DocumentTrash | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const loadTrash = useCallback(async () => {
+    try {
+      setTrash(await getDocumentTrash());
+    } catch (error) {
+      console.error("Error loading document trash:", error);
+      toast({
+        title: "Error",
+        description: "No se pudo cargar la papelera.",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    void loadTrash();
+  }, [loadTrash]);
+
+  const runAction = async (doc: Document, action: () => Promise<string>) => {
+    setBusyId(doc.id);
+    try {
+      toast({ title: "Papelera", description: await action() });
+      await loadTrash();
+    } catch (error) {
+      console.error("Error in trash action:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo completar la acción.",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRestore = (doc: Document) =>
+    runAction(doc, async () => {
+      const restored = await restoreDocument(doc.id);
+      onRestored(restored);
+      return `"${doc.file_name}" restaurado.`;
+    });
+
+  const handlePurge = (doc: Document) =>
+    runAction(doc, async () => {
+      const purged = await deleteDocuments([doc.id], true);
+      if (!purged.includes(doc.id)) {
+        throw new Error(`No se pudo borrar "${doc.file_name}". Inténtalo de nuevo.`);
+      }
+      return `"${doc.file_name}" borrado definitivamente.`;
+    });
+
+  if (!trash) {
+    return (
+      <Card>
+        <CardContent className="p-12 flex items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (trash.documents.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-12 text-center">
+          <Trash2 className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+          <p className="text-muted-foreground">La papelera está vacía.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardContent className="p-0">
+        <p className="px-4 pt-4 pb-2 text-sm text-muted-foreground">
+          Los documentos se borran definitivamente, con su archivo y sus fragmentos, {trash.retentionDays} día
+          {trash.retentionDays !== 1 ? "s" : ""} después de moverlos a la papelera.
+        </p>
+        <div className="divide-y divide-border">
+          {trash.documents.map((doc) => {
+            const deletedAt = doc.deleted_at ? new Date(doc.deleted_at) : null;
+            return (
+              <div key={doc.id} className="flex items-center gap-4 p-4">
+                <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-muted shrink-0">
+                  <FileText className="h-5 w-5 text-muted-foreground" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-foreground truncate">{doc.file_name}</p>
+                  <div className="flex items-center gap-2 mt-1 flex-wrap">
+                    {doc.department && (
+                      <Badge variant="secondary" className="text-xs">
+                        {doc.department.name}
+                      </Badge>
+                    )}
+                    {deletedAt && (
+                      <span className="text-xs text-muted-foreground">
+                        Borrado: {format(deletedAt, "dd MMM yyyy")} · se elimina el{" "}
+                        {format(addDays(deletedAt, trash.retentionDays), "dd MMM yyyy")}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={busyId === doc.id}
+                  onClick={() => handleRestore(doc)}
+                >
+                  <Undo2 className="h-4 w-4 mr-1" />
+                  Restaurar
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      title="Borrar definitivamente"
+                      disabled={busyId === doc.id}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>¿Borrar definitivamente?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Se borrarán el archivo y los fragmentos indexados de "{doc.file_name}". Esta acción no se puede
+                        deshacer.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handlePurge(doc)}>Borrar</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
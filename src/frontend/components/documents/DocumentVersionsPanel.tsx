@@ -0,0 +1,200 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { GitCompare, Loader2, MessageSquare, Upload } from "lucide-react";
+import { format } from "date-fns";
+import { cn } from "@/lib/utils";
+import { useToast } from "@/hooks/use-toast";
+import { getDocumentVersions, uploadDocumentVersion } from "@/lib/api";
+import type { Document } from "@/lib/api";
+import { DocumentDiffDialog } from "./DocumentDiffDialog";
+import { useAuth } from "@/components/auth-provider";
+import { canInDepartment } from "@/lib/permissions";
+
+// Polling interval while a version is being processed
+const PROCESSING_POLL_MS = 5000;
+
+// Same formats as the Upload page, except site archives (one document per page)
+const VERSION_EXTENSIONS = ["pdf", "txt", "md", "docx", "pptx", "xlsx", "html", "htm", "png", "jpg", "jpeg"];
+const MAX_VERSION_BYTES = 10 * 1024 * 1024;
+
+interface DocumentVersionsPanelProps {
+  // Version shown in the viewer
+  documentId: string;
+}
+
+/**
+ * Historial de versiones de un documento: subir una versión nueva, abrir o comparar
+ * versiones anteriores y preguntar al chat sobre una versión concreta
+ */
+export function DocumentVersionsPanel({ documentId }: DocumentVersionsPanelProps) {
+  const [versions, setVersions] = useState<Document[] | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [comparison, setComparison] = useState<{ from: Document; to: Document } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const { permissions } = useAuth();
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setVersions(await getDocumentVersions(documentId));
+    } catch (error) {
+      console.error("Error loading document versions:", error);
+    }
+  }, [documentId]);
+
+  const isProcessing = !!versions?.some((version) => version.status === "processing");
+
+  useEffect(() => {
+    void loadVersions();
+    if (!isProcessing) return;
+    const interval = setInterval(() => void loadVersions(), PROCESSING_POLL_MS);
+    return () => clearInterval(interval);
+  }, [loadVersions, isProcessing]);
+
+  const handleFile = async (file: File) => {
+    const fileExt = file.name.split(".").pop()?.toLowerCase() || "";
+    if (!VERSION_EXTENSIONS.includes(fileExt)) {
+      toast({
+        title: "Formato no soportado",
+        description: `${file.name} no es un formato válido para una versión.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (file.size > MAX_VERSION_BYTES) {
+      toast({
+        title: "Archivo muy grande",
+        description: `${file.name} excede el límite de 10MB.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const version = await uploadDocumentVersion(documentId, file);
+      toast({
+        title: `Versión ${version.version_number} subida`,
+        description: "Las respuestas seguirán usando la versión vigente hasta que la nueva termine de procesarse.",
+      });
+      await loadVersions();
+    } catch (error) {
+      console.error("Error uploading document version:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo subir la versión.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  if (!versions) {
+    return null;
+  }
+
+  const viewed = versions.find((version) => version.id === documentId);
+  const current = versions.find((version) => version.is_current);
+  // New versions are uploads: editors of the document's department
+  const canUpload = !!viewed && canInDepartment(permissions, viewed.department_id, "editor");
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">Versiones</CardTitle>
+        {canUpload && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              className="hidden"
+              accept={VERSION_EXTENSIONS.map((ext) => `.${ext}`).join(",")}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) void handleFile(file);
+              }}
+            />
+            <Button variant="outline" size="sm" disabled={isUploading} onClick={() => fileInputRef.current?.click()}>
+              {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Subir nueva versión
+            </Button>
+          </>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {versions.map((version) => {
+          const isViewed = version.id === documentId;
+          // Compare older against newer, whichever of the two is being viewed
+          const other = isViewed ? current : viewed;
+          const canCompare = !!other && other.id !== version.id && version.status === "processed" && other.status === "processed";
+          const [older, newer] =
+            other && (other.version_number || 1) < (version.version_number || 1) ? [other, version] : [version, other];
+
+          return (
+            <div
+              key={version.id}
+              className={cn(
+                "flex items-center gap-3 rounded-lg p-3 flex-wrap",
+                isViewed ? "bg-primary/5 ring-1 ring-primary/30" : "bg-secondary/50"
+              )}
+            >
+              <Badge variant="secondary">v{version.version_number ?? 1}</Badge>
+              <div className="flex-1 min-w-0">
+                {isViewed ? (
+                  <p className="text-sm font-medium text-foreground truncate">{version.file_name}</p>
+                ) : (
+                  <Link to={`/documents/${version.id}`} className="text-sm font-medium text-foreground truncate hover:underline block">
+                    {version.file_name}
+                  </Link>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  {version.uploaded_at ? format(new Date(version.uploaded_at), "dd MMM yyyy HH:mm") : "Fecha desconocida"}
+                </p>
+              </div>
+              {version.is_current && (
+                <Badge variant="secondary" className="bg-success/10 text-success">Vigente</Badge>
+              )}
+              {version.status === "processing" && (
+                <Badge variant="secondary" className="bg-warning/10 text-warning">Procesando</Badge>
+              )}
+              {version.status === "error" && (
+                <Badge variant="secondary" className="bg-destructive/10 text-destructive">Error</Badge>
+              )}
+              {canCompare && older && newer && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8"
+                  title={`Comparar con la versión ${other.version_number}`}
+                  onClick={() => setComparison({ from: older, to: newer })}
+                >
+                  <GitCompare className="h-4 w-4 mr-1" />
+                  Comparar
+                </Button>
+              )}
+              {!version.is_current && version.status === "processed" && (
+                <Button variant="ghost" size="sm" className="h-8" asChild>
+                  <Link to={`/chat?version=${encodeURIComponent(version.id)}`} title="Preguntar sobre esta versión">
+                    <MessageSquare className="h-4 w-4 mr-1" />
+                    Preguntar
+                  </Link>
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <DocumentDiffDialog
+        from={comparison?.from ?? null}
+        to={comparison?.to ?? null}
+        onClose={() => setComparison(null)}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,176 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { getUsers, updateDocumentVisibility } from "@/lib/api";
+import type { Document, User, Visibility } from "@/lib/api";
+import { VISIBILITIES, VISIBILITY_DESCRIPTIONS, VISIBILITY_LABELS } from "@/lib/permissions";
+import { useToast } from "@/hooks/use-toast";
+
+interface DocumentVisibilityDialogProps {
+  document: Document;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved: (document: Document) => void;
+}
+
+// Select value for "use the department default" (Select items cannot have an empty value)
+const DEPARTMENT_DEFAULT = "default";
+
+/**
+ * Diálogo para elegir quién puede ver un documento y todas sus versiones
+ * Solo para administradores del departamento del documento
+ */
+export function DocumentVisibilityDialog({ document, open, onOpenChange, onSaved }: DocumentVisibilityDialogProps) {
+  const [visibility, setVisibility] = useState<Visibility | null>(document.visibility ?? null);
+  const [restrictedTo, setRestrictedTo] = useState<Set<string>>(new Set(document.restricted_to || []));
+  const [users, setUsers] = useState<User[] | null>(null);
+  const [userFilter, setUserFilter] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  // Start from the saved values every time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setVisibility(document.visibility ?? null);
+    setRestrictedTo(new Set(document.restricted_to || []));
+    setUserFilter("");
+  }, [open, document]);
+
+  // People to choose from are only needed for restricted documents
+  useEffect(() => {
+    if (!open || visibility !== "restricted" || users) return;
+    getUsers()
+      .then(setUsers)
+      .catch((err) => {
+        console.error("Error loading users:", err);
+        setUsers([]);
+      });
+  }, [open, visibility, users]);
+
+  const toggleUser = (userId: string) => {
+    setRestrictedTo((prev) => {
+      const next = new Set(prev);
+      if (next.has(userId)) {
+        next.delete(userId);
+      } else {
+        next.add(userId);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await updateDocumentVisibility(document.id, visibility, Array.from(restrictedTo));
+      onSaved(saved);
+      onOpenChange(false);
+      toast({ title: "Visibilidad actualizada", description: "El cambio se aplica a todas las versiones del documento." });
+    } catch (err) {
+      console.error("Error updating document visibility:", err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "No se pudo cambiar la visibilidad.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const filteredUsers = (users || []).filter((user) =>
+    `${user.name} ${user.email}`.toLowerCase().includes(userFilter.toLowerCase())
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isSaving && onOpenChange(next)}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>¿Quién puede ver este documento?</DialogTitle>
+          <DialogDescription>
+            Quien no pueda verlo tampoco recibirá respuestas del chat basadas en él.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Visibilidad</Label>
+            <Select
+              value={visibility ?? DEPARTMENT_DEFAULT}
+              onValueChange={(value) => setVisibility(value === DEPARTMENT_DEFAULT ? null : (value as Visibility))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={DEPARTMENT_DEFAULT}>La del departamento</SelectItem>
+                {VISIBILITIES.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {VISIBILITY_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {visibility
+                ? VISIBILITY_DESCRIPTIONS[visibility]
+                : "Usa la visibilidad por defecto del departamento, que sus administradores eligen en Miembros."}
+            </p>
+          </div>
+
+          {visibility === "restricted" && (
+            <div className="space-y-2">
+              <Label>Personas con acceso ({restrictedTo.size})</Label>
+              <Input
+                placeholder="Buscar por nombre o correo..."
+                value={userFilter}
+                onChange={(e) => setUserFilter(e.target.value)}
+              />
+              <div className="max-h-60 overflow-y-auto rounded-md border border-border divide-y divide-border">
+                {!users && (
+                  <div className="p-4 flex justify-center">
+                    <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                  </div>
+                )}
+                {users && filteredUsers.length === 0 && (
+                  <p className="p-3 text-sm text-muted-foreground">No hay usuarios que coincidan.</p>
+                )}
+                {filteredUsers.map((user) => (
+                  <label key={user.id} className="flex items-center gap-3 p-2 cursor-pointer hover:bg-secondary/50">
+                    <Checkbox checked={restrictedTo.has(user.id)} onCheckedChange={() => toggleUser(user.id)} />
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-foreground truncate">{user.name}</p>
+                      <p className="text-xs text-muted-foreground truncate">{user.email}</p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" disabled={isSaving} onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button disabled={isSaving} onClick={() => void handleSave()}>
+            {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Guardar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
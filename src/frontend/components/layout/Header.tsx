@@ -1,9 +1,25 @@
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { Search, User } from "lucide-react";
+import { LogOut, Search, User } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { useAuth } from "@/components/auth-provider";
+
+/**
+ * Up to two initials of a name, or of the email if there is no name
+ */
+function getInitials(name: string): string {
+  const words = name.split(/[\s@._-]+/).filter(Boolean);
+  return words.slice(0, 2).map((word) => word[0].toUpperCase()).join("") || "?";
+}
 
 interface HeaderProps {
   onSearch?: (query: string) => void;
@@ -12,6 +28,16 @@ interface HeaderProps {
 export function Header({ onSearch }: HeaderProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const navigate = useNavigate();
+  const { session, user, signOut } = useAuth();
+
+  // The users row has the name edited in the profile; the session is available first
+  const name = user?.name || session?.user.name || session?.user.email || "";
+  const email = user?.email || session?.user.email || "";
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate("/login", { replace: true });
+  };
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
@@ -44,14 +70,31 @@ export function Header({ onSearch }: HeaderProps) {
       <div className="flex items-center gap-3">
         <ThemeToggle />
         <div className="text-right hidden sm:block">
-          <p className="text-sm font-medium leading-none">Usuario Demo</p>
-          <p className="text-xs text-muted-foreground">demo@knowledgehub.ai</p>
+          <p className="text-sm font-medium leading-none">{name}</p>
+          <p className="text-xs text-muted-foreground">{email}</p>
         </div>
-        <Avatar className="h-9 w-9">
-          <AvatarFallback className="bg-primary text-primary-foreground">
-            UD
-          </AvatarFallback>
-        </Avatar>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button type="button" className="rounded-full" title="Tu cuenta">
+              <Avatar className="h-9 w-9">
+                <AvatarFallback className="bg-primary text-primary-foreground">
+                  {getInitials(name)}
+                </AvatarFallback>
+              </Avatar>
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={() => navigate("/profile")}>
+              <User className="mr-2 h-4 w-4" />
+              <span>Mi perfil</span>
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={handleSignOut}>
+              <LogOut className="mr-2 h-4 w-4" />
+              <span>Cerrar sesión</span>
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
     </header>
   );
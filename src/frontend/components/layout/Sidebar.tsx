@@ -2,6 +2,9 @@ import { useState } from "react";
 import { Link, useLocation } from "react-router-dom";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
+import { useAuth } from "@/components/auth-provider";
+import { canInAnyDepartment } from "@/lib/permissions";
+import type { Role } from "@/lib/api";
 import {
   Home,
   FileText,
@@ -10,18 +13,24 @@ import {
   ChevronLeft,
   ChevronRight,
   Brain,
+  Users,
+  Building2,
 } from "lucide-react";
 
-const navigation = [
+// role: needed in at least one department for the link to show
+const navigation: { name: string; href: string; icon: typeof Home; role?: Role }[] = [
   { name: "Inicio", href: "/", icon: Home },
   { name: "Documentos", href: "/documents", icon: FileText },
   { name: "Chat", href: "/chat", icon: MessageSquare },
-  { name: "Subir", href: "/upload", icon: Upload },
+  { name: "Subir", href: "/upload", icon: Upload, role: "editor" },
+  { name: "Miembros", href: "/members", icon: Users, role: "department_admin" },
+  { name: "Departamentos", href: "/departments", icon: Building2, role: "system_admin" },
 ];
 
 export function Sidebar() {
   const [collapsed, setCollapsed] = useState(false);
   const location = useLocation();
+  const { permissions } = useAuth();
 
   return (
     <aside
@@ -51,7 +60,7 @@ export function Sidebar() {
         {/* Navigation */}
         <nav className="flex-1 space-y-1 px-2 py-4">
           <div className="space-y-1">
-            {navigation.map((item) => {
+            {navigation.filter((item) => !item.role || canInAnyDepartment(permissions, item.role)).map((item) => {
               const isActive = location.pathname === item.href;
               return (
                 <Link
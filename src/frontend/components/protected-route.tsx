@@ -0,0 +1,55 @@
+import { ReactNode } from "react";
+import { Link, Navigate, useLocation } from "react-router-dom";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/components/auth-provider";
+import { canInAnyDepartment } from "@/lib/permissions";
+import type { Role } from "@/lib/api";
+
+interface ProtectedRouteProps {
+  children: ReactNode;
+  // Role needed in at least one department to open the page
+  role?: Role;
+}
+
+/**
+ * Renders its children only for signed-in users; everyone else goes to the login page,
+ * which sends them back here after signing in
+ */
+export function ProtectedRoute({ children, role }: ProtectedRouteProps) {
+  const { session, permissions, isLoading } = useAuth();
+  const location = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to="/login" replace state={{ from: location }} />;
+  }
+
+  if (role && !canInAnyDepartment(permissions, role)) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background p-4">
+        <div className="text-center space-y-4">
+          <ShieldAlert className="mx-auto h-10 w-10 text-muted-foreground" />
+          <div>
+            <h1 className="text-xl font-semibold">Sin acceso</h1>
+            <p className="text-sm text-muted-foreground">
+              Tu rol no permite abrir esta página. Pide acceso a un administrador.
+            </p>
+          </div>
+          <Button variant="outline" asChild>
+            <Link to="/">Volver al inicio</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
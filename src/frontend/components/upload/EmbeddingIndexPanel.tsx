@@ -0,0 +1,214 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Undo2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  cancelEmbeddingMigration,
+  getEmbeddingIndexes,
+  rollbackEmbeddingIndex,
+  startEmbeddingMigration,
+} from "@/lib/api";
+import type { EmbeddingIndex, EmbeddingIndexOverview } from "@/lib/api";
+
+// Polling interval while a migration is running
+const MIGRATION_POLL_MS = 3000;
+
+/**
+ * Nombre de un índice: versión, proveedor y modelo
+ */
+function indexLabel(index: EmbeddingIndex): string {
+  return `v${index.version} · ${index.provider}/${index.model}`;
+}
+
+/**
+ * Panel de administración del índice de embeddings: migrar todos los chunks a otro
+ * modelo en segundo plano, seguir el progreso y volver al índice anterior
+ */
+export function EmbeddingIndexPanel() {
+  const [overview, setOverview] = useState<EmbeddingIndexOverview | null>(null);
+  const [provider, setProvider] = useState("openai");
+  const [model, setModel] = useState("");
+  const [isBusy, setIsBusy] = useState(false);
+  const { toast } = useToast();
+
+  const loadIndexes = useCallback(async () => {
+    try {
+      setOverview(await getEmbeddingIndexes());
+    } catch (error) {
+      // The table does not exist until docs/ADD_EMBEDDING_INDEXES.sql is run
+      console.error("Error loading embedding indexes:", error);
+    }
+  }, []);
+
+  const isMigrating = !!overview?.building;
+
+  useEffect(() => {
+    void loadIndexes();
+    if (!isMigrating) return;
+    const interval = setInterval(() => void loadIndexes(), MIGRATION_POLL_MS);
+    return () => clearInterval(interval);
+  }, [loadIndexes, isMigrating]);
+
+  const runAction = async (action: () => Promise<string>) => {
+    setIsBusy(true);
+    try {
+      const message = await action();
+      toast({ title: "Índice de embeddings", description: message });
+      await loadIndexes();
+    } catch (error) {
+      console.error("Error in embedding index action:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo completar la acción.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleStart = () =>
+    runAction(async () => {
+      const index = await startEmbeddingMigration(provider, model.trim());
+      setModel("");
+      return `Migración a ${index.model} iniciada. Las búsquedas siguen usando el índice actual hasta que termine.`;
+    });
+
+  const handleCancel = (index: EmbeddingIndex) =>
+    runAction(async () => {
+      await cancelEmbeddingMigration(index.id);
+      return `Migración a ${index.model} cancelada.`;
+    });
+
+  const handleRollback = () =>
+    runAction(async () => {
+      const { active, documentsRequeued } = await rollbackEmbeddingIndex();
+      return documentsRequeued > 0
+        ? `Índice ${indexLabel(active)} restaurado; ${documentsRequeued} documento(s) en cola para procesarse de nuevo.`
+        : `Índice ${indexLabel(active)} restaurado.`;
+    });
+
+  if (!overview) {
+    return null;
+  }
+
+  const { active, building } = overview;
+  const progress = building?.chunks_total ? (building.chunks_done / building.chunks_total) * 100 : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Índice de embeddings</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-3 flex-wrap">
+          <span className="text-sm text-muted-foreground">Activo:</span>
+          {active ? (
+            <Badge variant="secondary" className="bg-success/10 text-success">
+              {indexLabel(active)}
+              {active.dimensions ? ` · ${active.dimensions} dim.` : ""}
+            </Badge>
+          ) : (
+            <span className="text-sm text-muted-foreground">ninguno</span>
+          )}
+          {active?.previous_index_id && !building && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="ghost" size="sm" className="ml-auto" disabled={isBusy}>
+                  <Undo2 className="h-4 w-4 mr-1" />
+                  Volver al anterior
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>¿Volver al índice anterior?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    Las búsquedas pasarán a usar de inmediato el modelo anterior. Los documentos
+                    procesados después del último cambio se volverán a procesar.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleRollback}>Volver atrás</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
+
+        {building ? (
+          <div className="p-3 rounded-lg bg-secondary/50 space-y-2">
+            <div className="flex items-center gap-3">
+              <p className="flex-1 min-w-0 text-sm font-medium text-foreground truncate">
+                Migrando a {indexLabel(building)}
+              </p>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title="Cancelar migración"
+                disabled={isBusy}
+                onClick={() => handleCancel(building)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <Progress value={progress} className="h-1.5" />
+            <p className="text-xs text-muted-foreground">
+              {building.chunks_done}/{building.chunks_total ?? "?"} fragmentos · las búsquedas siguen usando el índice activo
+            </p>
+            {building.last_error && (
+              <p className="text-xs text-destructive line-clamp-2">{building.last_error}</p>
+            )}
+          </div>
+        ) : (
+          <div className="flex items-center gap-2 flex-wrap">
+            <Select value={provider} onValueChange={setProvider}>
+              <SelectTrigger className="w-48 h-9 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {overview.providers.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              value={model}
+              onChange={(event) => setModel(event.target.value)}
+              placeholder="Modelo, p. ej. text-embedding-3-large"
+              className="flex-1 min-w-48 h-9"
+            />
+            <Button size="sm" disabled={isBusy || !model.trim()} onClick={handleStart}>
+              Migrar
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,161 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { RotateCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { getIngestionQueue, retryIngestionJob } from "@/lib/api";
+import { useAuth } from "@/components/auth-provider";
+import { canInAnyDepartment } from "@/lib/permissions";
+import type { IngestionJob, IngestionJobStatus, IngestionQueueStatus } from "@/lib/api";
+
+// Polling intervals: fast while documents are being processed, slow when the queue is idle
+const ACTIVE_POLL_MS = 3000;
+const IDLE_POLL_MS = 15000;
+
+const statusLabels: Record<IngestionJobStatus, string> = {
+  queued: "En cola",
+  running: "Procesando",
+  failed: "Fallido",
+  succeeded: "Completado",
+  cancelled: "Cancelado",
+};
+
+const statusColors: Record<IngestionJobStatus, string> = {
+  queued: "bg-secondary text-muted-foreground",
+  running: "bg-warning/10 text-warning",
+  failed: "bg-destructive/10 text-destructive",
+  succeeded: "bg-success/10 text-success",
+  cancelled: "bg-secondary text-muted-foreground",
+};
+
+/**
+ * Texto de detalle de un trabajo: progreso o resultado, intentos y próximo reintento
+ */
+function describeJob(job: IngestionJob): string {
+  const parts: string[] = [];
+  if (job.status === "succeeded" && job.chunks_added !== null) {
+    parts.push(
+      `${job.chunks_added} fragmentos nuevos, ${job.chunks_kept ?? 0} sin cambios, ${job.chunks_removed ?? 0} quitados`
+    );
+  } else if (job.chunks_total !== null) {
+    parts.push(`${job.chunks_done}/${job.chunks_total} fragmentos`);
+  }
+  if (job.attempts > 0) {
+    parts.push(`intento ${job.attempts}/${job.max_attempts}`);
+  }
+  if (job.status === "queued" && job.attempts > 0) {
+    parts.push(`reintento a las ${new Date(job.run_after).toLocaleTimeString()}`);
+  }
+  return parts.join(" · ");
+}
+
+interface IngestionQueuePanelProps {
+  // Changing it reloads the queue right away (after an upload)
+  refreshKey?: number;
+}
+
+/**
+ * Panel con el estado de la cola de ingesta: los documentos se procesan en el
+ * servidor aunque se cierre la página
+ */
+export function IngestionQueuePanel({ refreshKey = 0 }: IngestionQueuePanelProps) {
+  const [queue, setQueue] = useState<IngestionQueueStatus | null>(null);
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { permissions } = useAuth();
+  // Retrying is reprocessing a document: department admins (the server checks the department)
+  const canRetry = canInAnyDepartment(permissions, "department_admin");
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setQueue(await getIngestionQueue());
+    } catch (error) {
+      console.error("Error loading ingestion queue:", error);
+    }
+  }, []);
+
+  const isActive = !!queue && queue.counts.queued + queue.counts.running > 0;
+
+  useEffect(() => {
+    void loadQueue();
+    const interval = setInterval(() => void loadQueue(), isActive ? ACTIVE_POLL_MS : IDLE_POLL_MS);
+    return () => clearInterval(interval);
+  }, [loadQueue, isActive, refreshKey]);
+
+  const handleRetry = async (job: IngestionJob) => {
+    setRetryingId(job.id);
+    try {
+      await retryIngestionJob(job.id);
+      await loadQueue();
+    } catch (error) {
+      console.error("Error retrying ingestion job:", error);
+      toast({
+        title: "Error",
+        description: `No se pudo reintentar ${job.document?.file_name || "el documento"}.`,
+        variant: "destructive",
+      });
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  if (!queue || queue.jobs.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between gap-4">
+        <CardTitle className="text-lg">Cola de procesamiento</CardTitle>
+        <div className="flex items-center gap-2 flex-wrap justify-end">
+          {(Object.keys(statusLabels) as IngestionJobStatus[]).map((status) => (
+            <Badge key={status} variant="secondary" className={statusColors[status]}>
+              {statusLabels[status]}: {queue.counts[status]}
+            </Badge>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-3">
+          {queue.jobs.map((job) => (
+            <div key={job.id} className="p-3 rounded-lg bg-secondary/50">
+              <div className="flex items-center gap-3">
+                <p className="flex-1 min-w-0 text-sm font-medium text-foreground truncate">
+                  {job.document?.file_name || job.document_id}
+                </p>
+                <Badge variant="secondary" className={statusColors[job.status]}>
+                  {statusLabels[job.status]}
+                </Badge>
+                {job.status === "failed" && canRetry && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    title="Reintentar"
+                    disabled={retryingId === job.id}
+                    onClick={() => handleRetry(job)}
+                  >
+                    <RotateCw className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+
+              {job.status === "running" && job.chunks_total ? (
+                <Progress value={(job.chunks_done / job.chunks_total) * 100} className="h-1.5 mt-2" />
+              ) : null}
+
+              {describeJob(job) && (
+                <p className="mt-1 text-xs text-muted-foreground">{describeJob(job)}</p>
+              )}
+              {job.last_error && job.status !== "succeeded" && (
+                <p className="mt-1 text-xs text-destructive line-clamp-2">{job.last_error}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,461 @@
+import { authClient, getAccessToken } from "./session";
+import type { ChatMessage, ChatOptions, ChatQueryResponse, ChatSource, ChatStreamEvent } from "@backend/lib/api/chat";
+import type { Document, DocumentContent, DocumentTrash, Department, SiteUploadResult } from "@backend/lib/api/documents";
+import type { IngestionJob, IngestionJobStatus, IngestionQueueStatus } from "@backend/lib/api/ingestionJobs";
+import type { EmbeddingIndex, EmbeddingIndexOverview, EmbeddingIndexStatus } from "@backend/lib/api/embeddingIndexes";
+import type { DiffHunk, DiffLine, DocumentDiff } from "@backend/lib/api/documentVersions";
+import type { DuplicateMatch } from "@backend/lib/api/duplicates";
+import type { User } from "@backend/lib/api/users";
+import type { DepartmentMember } from "@backend/lib/api/departmentMembers";
+import type { DepartmentRole, Role, UserPermissions } from "@backend/lib/auth/roles";
+import type { Visibility } from "@backend/lib/auth/visibility";
+import type { RetrievalFilters } from "@backend/lib/rag/retrieval";
+
+// Types are shared with the server; only type information crosses this boundary
+export type { ChatMessage, ChatOptions, ChatQueryResponse, ChatSource, ChatStreamEvent, Document, DocumentContent, DocumentTrash, Department, SiteUploadResult };
+export type { IngestionJob, IngestionJobStatus, IngestionQueueStatus };
+export type { EmbeddingIndex, EmbeddingIndexOverview, EmbeddingIndexStatus };
+export type { DiffHunk, DiffLine, DocumentDiff };
+export type { DuplicateMatch };
+export type { User };
+export type { DepartmentMember, DepartmentRole, Role, UserPermissions };
+export type { Visibility };
+export type { RetrievalFilters };
+
+// Base URL of the API server
+// Empty in development: Vite proxies /api to the server (see vite.config.ts)
+const API_URL = (import.meta.env.VITE_API_URL?.trim() || "").replace(/\/$/, "");
+
+/**
+ * Sends an authenticated request to the API server
+ *
+ * @param path - API path starting with /api
+ * @param init - Fetch options (method, body, headers, signal...)
+ * @returns Promise that resolves to the successful response
+ * @throws Error with the server's message if the response is not successful
+ */
+async function authorizedFetch(path: string, init: RequestInit = {}): Promise<Response> {
+  const token = await getAccessToken();
+  const headers = new Headers(init.headers);
+  headers.set("Authorization", `Bearer ${token}`);
+
+  const response = await fetch(`${API_URL}${path}`, { ...init, headers });
+
+  if (response.status === 401) {
+    // The session expired or was revoked: sign out so the app shows the login page
+    await authClient.signOut();
+  }
+
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `La petición falló con estado ${response.status}`);
+  }
+
+  return response;
+}
+
+/**
+ * Sends an authenticated request to the API server and parses the JSON response
+ */
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await authorizedFetch(path, init);
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Asks a question to the RAG chat
+ *
+ * @param options - Department whose model settings apply, and model, temperature or max tokens to override
+ */
+export function queryChat(
+  question: string,
+  conversationHistory: ChatMessage[] = [],
+  options: ChatOptions = {}
+): Promise<ChatQueryResponse> {
+  return request<ChatQueryResponse>("/api/chat", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ question, conversationHistory, ...options }),
+  });
+}
+
+/**
+ * Asks a question and receives the answer incrementally
+ * The server sends newline-delimited JSON; each line is one ChatStreamEvent
+ *
+ * @param signal - Aborting it stops the stream and cancels generation on the server
+ * @param options - Department and model settings, as in queryChat
+ * @returns Async generator of events: tokens first, then 'done' with the sources
+ */
+export async function* streamQueryChat(
+  question: string,
+  conversationHistory: ChatMessage[] = [],
+  signal?: AbortSignal,
+  options: ChatOptions = {}
+): AsyncGenerator<ChatStreamEvent> {
+  const response = await authorizedFetch("/api/chat/stream", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ question, conversationHistory, ...options }),
+    signal,
+  });
+
+  if (!response.body) {
+    throw new Error("El navegador no soporta respuestas en streaming.");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Emit every complete line; keep the trailing partial line for the next read
+      let newlineIndex = buffer.indexOf("\n");
+      while (newlineIndex >= 0) {
+        const line = buffer.slice(0, newlineIndex).trim();
+        buffer = buffer.slice(newlineIndex + 1);
+        if (line) {
+          yield JSON.parse(line) as ChatStreamEvent;
+        }
+        newlineIndex = buffer.indexOf("\n");
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Lists all documents with their department
+ */
+export function getDocuments(): Promise<Document[]> {
+  return request<Document[]>("/api/documents");
+}
+
+/**
+ * Gets the text of a document split into chunks, for the document viewer
+ */
+export function getDocumentContent(documentId: string): Promise<DocumentContent> {
+  return request<DocumentContent>(`/api/documents/${encodeURIComponent(documentId)}/content`);
+}
+
+/**
+ * Checks whether any document is still being processed
+ */
+export async function hasDocumentsProcessing(): Promise<boolean> {
+  const { processing } = await request<{ processing: boolean }>("/api/documents/processing");
+  return processing;
+}
+
+/**
+ * Uploads a file to a department; the server stores it and queues its processing
+ * The file is sent as the raw request body
+ */
+export function uploadDocument(file: File, departmentId: string): Promise<Document> {
+  const params = new URLSearchParams({ fileName: file.name, departmentId });
+  return request<Document>(`/api/documents?${params.toString()}`, {
+    method: "POST",
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
+  });
+}
+
+/**
+ * Uploads a zipped static site export; the server creates one document per HTML page
+ */
+export function uploadSiteArchive(file: File, departmentId: string): Promise<SiteUploadResult> {
+  const params = new URLSearchParams({ fileName: file.name, departmentId });
+  return request<SiteUploadResult>(`/api/documents/site?${params.toString()}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/zip" },
+    body: file,
+  });
+}
+
+/**
+ * Looks for documents identical or very similar to a file before uploading it
+ */
+export function findDuplicateDocuments(file: File): Promise<DuplicateMatch[]> {
+  const params = new URLSearchParams({ fileName: file.name });
+  return request<DuplicateMatch[]>(`/api/documents/duplicates?${params.toString()}`, {
+    method: "POST",
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
+  });
+}
+
+/**
+ * Lists every version of a document, newest first
+ *
+ * @param documentId - ID of any of its versions
+ */
+export function getDocumentVersions(documentId: string): Promise<Document[]> {
+  return request<Document[]>(`/api/documents/${encodeURIComponent(documentId)}/versions`);
+}
+
+/**
+ * Uploads a new version of a document; the server queues its processing
+ * The previous version keeps answering questions until the new one is processed
+ */
+export function uploadDocumentVersion(documentId: string, file: File): Promise<Document> {
+  const params = new URLSearchParams({ fileName: file.name });
+  return request<Document>(`/api/documents/${encodeURIComponent(documentId)}/versions?${params.toString()}`, {
+    method: "POST",
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
+  });
+}
+
+/**
+ * Compares the text of two versions of the same document line by line
+ */
+export function diffDocumentVersions(fromId: string, toId: string): Promise<DocumentDiff> {
+  const params = new URLSearchParams({ from: fromId, to: toId });
+  return request<DocumentDiff>(`/api/documents/diff?${params.toString()}`);
+}
+
+/**
+ * Changes who can see a document and all its versions (department admins)
+ *
+ * @param visibility - New visibility; null uses the department default
+ * @param restrictedTo - Users who can see the document when it is restricted
+ */
+export function updateDocumentVisibility(
+  documentId: string,
+  visibility: Visibility | null,
+  restrictedTo: string[] = []
+): Promise<Document> {
+  return request<Document>(`/api/documents/${encodeURIComponent(documentId)}/visibility`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ visibility, restrictedTo }),
+  });
+}
+
+/**
+ * Lists the documents in the trash and how many days they are kept
+ */
+export function getDocumentTrash(): Promise<DocumentTrash> {
+  return request<DocumentTrash>("/api/documents/trash");
+}
+
+/**
+ * Moves documents to the trash; with permanent, removes documents already in the trash for good
+ *
+ * @returns IDs of the documents deleted
+ */
+export async function deleteDocuments(documentIds: string[], permanent = false): Promise<string[]> {
+  const { deleted } = await request<{ deleted: string[] }>("/api/documents/delete", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ids: documentIds, permanent }),
+  });
+  return deleted;
+}
+
+/**
+ * Takes a document out of the trash
+ */
+export function restoreDocument(documentId: string): Promise<Document> {
+  return request<Document>(`/api/documents/${encodeURIComponent(documentId)}/restore`, { method: "POST" });
+}
+
+/**
+ * Queues the (re)processing of an uploaded document: text extraction, chunking and embeddings
+ *
+ * @returns The active ingestion job of the document
+ */
+export function processDocument(documentId: string): Promise<IngestionJob> {
+  return request<IngestionJob>(
+    `/api/documents/${encodeURIComponent(documentId)}/process`,
+    { method: "POST" }
+  );
+}
+
+/**
+ * Gets the ingestion queue: recent jobs and the number of jobs per status
+ */
+export function getIngestionQueue(): Promise<IngestionQueueStatus> {
+  return request<IngestionQueueStatus>("/api/jobs");
+}
+
+/**
+ * Queues a failed ingestion job again
+ */
+export function retryIngestionJob(jobId: string): Promise<IngestionJob> {
+  return request<IngestionJob>(`/api/jobs/${encodeURIComponent(jobId)}/retry`, { method: "POST" });
+}
+
+/**
+ * Gets the active embedding index, the migration in progress and previous versions
+ */
+export function getEmbeddingIndexes(): Promise<EmbeddingIndexOverview> {
+  return request<EmbeddingIndexOverview>("/api/embedding-indexes");
+}
+
+/**
+ * Starts re-embedding every chunk with another model
+ * Queries keep using the active index until the new one is complete
+ */
+export function startEmbeddingMigration(provider: string, model: string): Promise<EmbeddingIndex> {
+  return request<EmbeddingIndex>("/api/embedding-indexes", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ provider, model }),
+  });
+}
+
+/**
+ * Cancels the embedding migration in progress
+ */
+export function cancelEmbeddingMigration(indexId: string): Promise<EmbeddingIndex> {
+  return request<EmbeddingIndex>(`/api/embedding-indexes/${encodeURIComponent(indexId)}/cancel`, { method: "POST" });
+}
+
+/**
+ * Switches back to the previous embedding index
+ *
+ * @returns The restored index and how many documents were queued to be embedded again
+ */
+export function rollbackEmbeddingIndex(): Promise<{ active: EmbeddingIndex; documentsRequeued: number }> {
+  return request<{ active: EmbeddingIndex; documentsRequeued: number }>("/api/embedding-indexes/rollback", {
+    method: "POST",
+  });
+}
+
+/**
+ * Lists all departments ordered by name
+ */
+export function getDepartments(): Promise<Department[]> {
+  return request<Department[]>("/api/departments");
+}
+
+/**
+ * Profile of the signed-in user
+ *
+ * @returns The user, how many documents they have uploaded and their roles
+ */
+export function getProfile(): Promise<{ user: User; uploads: number; permissions: UserPermissions }> {
+  return request<{ user: User; uploads: number; permissions: UserPermissions }>("/api/me");
+}
+
+/**
+ * Changes the display name of the signed-in user
+ */
+export function updateProfile(name: string): Promise<User> {
+  return request<User>("/api/me", {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name }),
+  });
+}
+
+/**
+ * Creates a department, optionally inside another one (system admins)
+ */
+export function createDepartment(name: string, parentId: string | null = null): Promise<Department> {
+  return request<Department>("/api/departments", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name, parentId }),
+  });
+}
+
+/**
+ * Renames a department or moves it under another one; parentId null makes it top-level (system admins)
+ */
+export function updateDepartment(
+  departmentId: string,
+  changes: { name?: string; parentId?: string | null }
+): Promise<Department> {
+  return request<Department>(`/api/departments/${encodeURIComponent(departmentId)}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(changes),
+  });
+}
+
+/**
+ * Deletes a department, moving its documents to reassignTo and its sub-departments to its parent (system admins)
+ */
+export async function deleteDepartment(departmentId: string, reassignTo: string | null): Promise<void> {
+  const query = reassignTo ? `?reassignTo=${encodeURIComponent(reassignTo)}` : "";
+  await authorizedFetch(`/api/departments/${encodeURIComponent(departmentId)}${query}`, { method: "DELETE" });
+}
+
+/**
+ * Merges a department into another one, moving its documents, members and sub-departments (system admins)
+ */
+export async function mergeDepartments(sourceId: string, targetId: string): Promise<void> {
+  await authorizedFetch(`/api/departments/${encodeURIComponent(sourceId)}/merge`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ targetId }),
+  });
+}
+
+/**
+ * Changes who can see the documents of a department that do not set their own visibility (department admins)
+ */
+export function updateDepartmentVisibility(departmentId: string, visibility: Visibility): Promise<Department> {
+  return request<Department>(`/api/departments/${encodeURIComponent(departmentId)}/visibility`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ visibility }),
+  });
+}
+
+/**
+ * Lists the members of a department and their roles (department admins)
+ */
+export function getDepartmentMembers(departmentId: string): Promise<DepartmentMember[]> {
+  return request<DepartmentMember[]>(`/api/departments/${encodeURIComponent(departmentId)}/members`);
+}
+
+/**
+ * Adds a user to a department or changes their role there (department admins)
+ */
+export function setDepartmentMember(departmentId: string, userId: string, role: DepartmentRole): Promise<DepartmentMember> {
+  return request<DepartmentMember>(
+    `/api/departments/${encodeURIComponent(departmentId)}/members/${encodeURIComponent(userId)}`,
+    {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ role }),
+    }
+  );
+}
+
+/**
+ * Removes a user from a department (department admins)
+ */
+export async function removeDepartmentMember(departmentId: string, userId: string): Promise<void> {
+  await authorizedFetch(
+    `/api/departments/${encodeURIComponent(departmentId)}/members/${encodeURIComponent(userId)}`,
+    { method: "DELETE" }
+  );
+}
+
+/**
+ * Lists all users, to add department members (department admins)
+ */
+export function getUsers(): Promise<User[]> {
+  return request<User[]>("/api/users");
+}
+
+/**
+ * Changes the global role of a user (system admins)
+ */
+export function updateUserRole(userId: string, role: Role): Promise<User> {
+  return request<User>(`/api/users/${encodeURIComponent(userId)}/role`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ role }),
+  });
+}
@@ -0,0 +1,42 @@
+import type { ChatMessage } from "./api";
+
+// Key for storing chat messages in sessionStorage
+// Messages persist during browser session but are cleared when session ends
+export const CHAT_STORAGE_KEY = "knowledgehub-chat-messages";
+
+/**
+ * Removes the saved chat answers that cite any of the given documents, together with
+ * the question that produced them
+ * Called after deleting documents so their content is neither shown again nor sent
+ * back to the model as conversation history
+ *
+ * @param documentIds - IDs of the deleted documents
+ */
+export function forgetCachedAnswers(documentIds: string[]): void {
+  try {
+    const saved = sessionStorage.getItem(CHAT_STORAGE_KEY);
+    if (!saved) {
+      return;
+    }
+
+    const deleted = new Set(documentIds);
+    const messages = JSON.parse(saved) as ChatMessage[];
+    const kept: ChatMessage[] = [];
+    for (const message of messages) {
+      const citesDeleted = message.sources?.some((source) => deleted.has(source.document_id));
+      if (message.role === "assistant" && citesDeleted) {
+        if (kept[kept.length - 1]?.role === "user") {
+          kept.pop();
+        }
+        continue;
+      }
+      kept.push(message);
+    }
+
+    if (kept.length !== messages.length) {
+      sessionStorage.setItem(CHAT_STORAGE_KEY, JSON.stringify(kept));
+    }
+  } catch (error) {
+    console.error("Error cleaning chat messages in sessionStorage:", error);
+  }
+}
@@ -0,0 +1,53 @@
+import type { Department } from "./api";
+
+// Same rule as subDepartmentIds on the server (src/backend/lib/api/departments.ts):
+// filtering by a department includes its sub-departments
+
+/**
+ * IDs of some departments and all their sub-departments, at any depth
+ */
+export function subDepartmentIds(departments: Department[], departmentIds: string[]): string[] {
+  const result = new Set(departmentIds);
+  for (const id of result) {
+    departments.filter((dept) => dept.parent_id === id).forEach((child) => result.add(child.id));
+  }
+  return Array.from(result);
+}
+
+/**
+ * Name of a department with its parents, e.g. "Ventas › EMEA"
+ */
+export function departmentPath(departments: Department[], departmentId: string): string {
+  const names: string[] = [];
+  const seen = new Set<string>();
+  let current = departments.find((dept) => dept.id === departmentId);
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    names.unshift(current.name);
+    current = departments.find((dept) => dept.id === current?.parent_id);
+  }
+  return names.join(" › ");
+}
+
+/**
+ * Departments in tree order: each one followed by its sub-departments, siblings by name
+ *
+ * @returns Each department with its depth (0 for top-level departments)
+ */
+export function departmentTree(departments: Department[]): { department: Department; depth: number }[] {
+  const ids = new Set(departments.map((dept) => dept.id));
+  const byName = (a: Department, b: Department) => a.name.localeCompare(b.name);
+  const result: { department: Department; depth: number }[] = [];
+
+  const visit = (parentId: string | null, depth: number) => {
+    departments
+      .filter((dept) => (parentId ? dept.parent_id === parentId : !dept.parent_id || !ids.has(dept.parent_id)))
+      .sort(byName)
+      .forEach((department) => {
+        result.push({ department, depth });
+        visit(department.id, depth + 1);
+      });
+  };
+  visit(null, 0);
+  return result;
+}
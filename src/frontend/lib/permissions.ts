@@ -0,0 +1,52 @@
+import type { DepartmentRole, Role, UserPermissions, Visibility } from "./api";
+
+// Same order as ROLES on the server (src/backend/lib/auth/roles.ts)
+const ROLE_ORDER: Role[] = ["viewer", "editor", "department_admin", "system_admin"];
+
+export const DEPARTMENT_ROLES: DepartmentRole[] = ["viewer", "editor", "department_admin"];
+export const ROLES: Role[] = ROLE_ORDER;
+
+export const ROLE_LABELS: Record<Role, string> = {
+  viewer: "Lector",
+  editor: "Editor",
+  department_admin: "Administrador de departamento",
+  system_admin: "Administrador del sistema",
+};
+
+// Same order as VISIBILITIES on the server (src/backend/lib/auth/visibility.ts)
+export const VISIBILITIES: Visibility[] = ["public", "department", "restricted"];
+
+export const VISIBILITY_LABELS: Record<Visibility, string> = {
+  public: "Todos los usuarios",
+  department: "Solo el departamento",
+  restricted: "Restringido",
+};
+
+export const VISIBILITY_DESCRIPTIONS: Record<Visibility, string> = {
+  public: "Cualquier usuario puede verlo y el chat lo usa para responder a todos.",
+  department: "Solo los miembros del departamento y sus administradores.",
+  restricted: "Solo las personas elegidas y los administradores del departamento.",
+};
+
+// The API enforces these same checks; the UI only uses them to hide what the user cannot do
+
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLE_ORDER.indexOf(role) >= ROLE_ORDER.indexOf(required);
+}
+
+/**
+ * Whether the user has at least a role in a department (global role or department role)
+ */
+export function canInDepartment(permissions: UserPermissions | null, departmentId: string, required: Role): boolean {
+  if (!permissions) return false;
+  const departmentRole = permissions.departments[departmentId];
+  return hasRole(permissions.role, required) || (!!departmentRole && hasRole(departmentRole, required));
+}
+
+/**
+ * Whether the user has at least a role in some department
+ */
+export function canInAnyDepartment(permissions: UserPermissions | null, required: Role): boolean {
+  if (!permissions) return false;
+  return hasRole(permissions.role, required) || Object.values(permissions.departments).some((role) => hasRole(role, required));
+}
@@ -0,0 +1,214 @@
+import { createClient, type Session } from "@supabase/supabase-js";
+
+/**
+ * Signed-in person, as known by the auth provider
+ */
+export interface SessionUser {
+  id: string;
+  email: string;
+  name?: string;
+}
+
+export interface AuthSession {
+  accessToken: string;
+  user: SessionUser;
+}
+
+/**
+ * Signs people in and keeps their session; the API server validates the access token
+ * Supabase Auth in production; a local stand-in (AUTH_PROVIDER=local on the server)
+ * for tests and local development
+ */
+export interface AuthClient {
+  // Magic links and self sign-up need an email service, only Supabase has one
+  supportsMagicLink: boolean;
+  supportsSignUp: boolean;
+  getSession(): Promise<AuthSession | null>;
+  /**
+   * @throws Error with a message for the user if the credentials are wrong
+   */
+  signInWithPassword(email: string, password: string): Promise<void>;
+  // Emails a link that signs the person in when opened
+  sendMagicLink(email: string): Promise<void>;
+  /**
+   * @returns Whether the account must confirm its email before signing in
+   */
+  signUp(email: string, password: string, name: string): Promise<{ confirmationRequired: boolean }>;
+  signOut(): Promise<void>;
+  /**
+   * Calls the listener whenever the session starts, ends or is refreshed
+   * @returns Function that removes the listener
+   */
+  onSessionChange(listener: (session: AuthSession | null) => void): () => void;
+}
+
+// Public Supabase credentials: only used here to sign in with Supabase Auth
+// All data access goes through the API server (see ./api.ts)
+const supabaseUrl = import.meta.env.VITE_SUPABASE_URL?.trim() || "";
+const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY?.trim() || "";
+
+// Same base URL as ./api.ts; the local stand-in signs in through the API server
+const API_URL = (import.meta.env.VITE_API_URL?.trim() || "").replace(/\/$/, "");
+
+const LOCAL_SESSION_STORAGE_KEY = "knowledgehub-local-session";
+
+// Supabase Auth answers in English; these are the errors people actually hit
+const supabaseErrorMessages: Record<string, string> = {
+  "Invalid login credentials": "Correo o contraseña incorrectos.",
+  "Email not confirmed": "Confirma tu correo con el enlace que te enviamos antes de iniciar sesión.",
+  "User already registered": "Ya existe una cuenta con ese correo.",
+  "Signups not allowed for otp": "No hay ninguna cuenta con ese correo.",
+};
+
+function supabaseError(error: { message: string }): Error {
+  return new Error(supabaseErrorMessages[error.message] || error.message);
+}
+
+function toAuthSession(session: Session | null): AuthSession | null {
+  if (!session?.user.email) {
+    return null;
+  }
+  const name = session.user.user_metadata?.name;
+  return {
+    accessToken: session.access_token,
+    user: {
+      id: session.user.id,
+      email: session.user.email,
+      name: typeof name === "string" && name.trim() ? name.trim() : undefined,
+    },
+  };
+}
+
+/**
+ * Supabase Auth: email/password, magic links and sign-up
+ * Requires the Email provider in Supabase > Authentication > Providers
+ */
+function createSupabaseAuthClient(): AuthClient {
+  const client = createClient(
+    supabaseUrl || "https://placeholder.supabase.co",
+    supabaseAnonKey || "placeholder-key"
+  );
+
+  return {
+    supportsMagicLink: true,
+    supportsSignUp: true,
+    async getSession() {
+      const { data } = await client.auth.getSession();
+      return toAuthSession(data.session);
+    },
+    async signInWithPassword(email, password) {
+      const { error } = await client.auth.signInWithPassword({ email, password });
+      if (error) throw supabaseError(error);
+    },
+    async sendMagicLink(email) {
+      const { error } = await client.auth.signInWithOtp({
+        email,
+        options: { emailRedirectTo: window.location.origin, shouldCreateUser: false },
+      });
+      if (error) throw supabaseError(error);
+    },
+    async signUp(email, password, name) {
+      const { data, error } = await client.auth.signUp({
+        email,
+        password,
+        options: { data: { name }, emailRedirectTo: window.location.origin },
+      });
+      if (error) throw supabaseError(error);
+      return { confirmationRequired: !data.session };
+    },
+    async signOut() {
+      await client.auth.signOut();
+    },
+    onSessionChange(listener) {
+      const { data } = client.auth.onAuthStateChange((_event, session) => listener(toAuthSession(session)));
+      return () => data.subscription.unsubscribe();
+    },
+  };
+}
+
+/**
+ * Local stand-in: the API server signs in the accounts of LOCAL_AUTH_USERS
+ * The session is kept in localStorage until it expires or the server restarts
+ */
+function createLocalAuthClient(): AuthClient {
+  const listeners = new Set<(session: AuthSession | null) => void>();
+
+  const readSession = (): AuthSession | null => {
+    const stored = localStorage.getItem(LOCAL_SESSION_STORAGE_KEY);
+    if (!stored) return null;
+    try {
+      const session = JSON.parse(stored) as { accessToken: string; expiresAt: number; identity: SessionUser };
+      if (session.expiresAt <= Date.now()) return null;
+      return { accessToken: session.accessToken, user: session.identity };
+    } catch {
+      return null;
+    }
+  };
+
+  const notify = () => {
+    const session = readSession();
+    listeners.forEach((listener) => listener(session));
+  };
+
+  return {
+    supportsMagicLink: false,
+    supportsSignUp: false,
+    async getSession() {
+      return readSession();
+    },
+    async signInWithPassword(email, password) {
+      const response = await fetch(`${API_URL}/api/auth/local/sign-in`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email, password }),
+      });
+      const body = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(body?.error || "No se pudo iniciar sesión.");
+      }
+      localStorage.setItem(LOCAL_SESSION_STORAGE_KEY, JSON.stringify(body));
+      notify();
+    },
+    async sendMagicLink() {
+      throw new Error("El inicio de sesión con enlace no está disponible con cuentas locales.");
+    },
+    async signUp() {
+      throw new Error("Las cuentas locales se definen en LOCAL_AUTH_USERS.");
+    },
+    async signOut() {
+      const session = readSession();
+      localStorage.removeItem(LOCAL_SESSION_STORAGE_KEY);
+      notify();
+      if (session) {
+        await fetch(`${API_URL}/api/auth/local/sign-out`, {
+          method: "POST",
+          headers: { Authorization: `Bearer ${session.accessToken}` },
+        }).catch(() => undefined);
+      }
+    },
+    onSessionChange(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+// Must match AUTH_PROVIDER on the API server
+export const authClient: AuthClient =
+  import.meta.env.VITE_AUTH_PROVIDER?.trim().toLowerCase() === "local"
+    ? createLocalAuthClient()
+    : createSupabaseAuthClient();
+
+/**
+ * Returns the access token of the signed-in user for the API server
+ *
+ * @returns Promise that resolves to the current access token
+ * @throws Error if nobody is signed in
+ */
+export async function getAccessToken(): Promise<string> {
+  const session = await authClient.getSession();
+  if (!session) {
+    throw new Error("Tu sesión ha terminado. Inicia sesión de nuevo.");
+  }
+  return session.accessToken;
+}
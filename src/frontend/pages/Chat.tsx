@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect } from "react";
-import { useSearchParams } from "react-router-dom";
+import { Link, useSearchParams } from "react-router-dom";
 import { AppLayout } from "@/components/layout/AppLayout";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -11,32 +11,50 @@ import {
   FileText,
   Copy,
   RefreshCw,
+  Square,
+  X,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { queryChat } from "@backend/lib/api/chat";
+import { streamQueryChat, hasDocumentsProcessing, getDocumentVersions } from "@/lib/api";
 import { useToast } from "@/hooks/use-toast";
-import { hasDocumentsProcessing } from "@backend/lib/api/documents";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import type { ChatMessage } from "@backend/lib/api/chat";
+import type { ChatMessage, ChatOptions, Document } from "@/lib/api";
+import { CitedText, sourceLink, sourceLocation } from "@/components/chat/CitedText";
+import {
+  ChatFilterBar,
+  readChatFilters,
+  toRetrievalFilters,
+  writeChatFilters,
+  type ChatFilterValues,
+} from "@/components/chat/ChatFilterBar";
+import { CHAT_STORAGE_KEY } from "@/lib/chatStorage";
 
 interface Message extends ChatMessage {
   id: string;
   timestamp: Date;
 }
 
-// Key for storing chat messages in sessionStorage
-// Messages persist during browser session but are cleared when session ends
-const STORAGE_KEY = 'knowledgehub-chat-messages';
+/**
+ * Checks if an error comes from aborting a fetch (user pressed stop)
+ */
+const isAbortError = (error: unknown) =>
+  error instanceof DOMException && error.name === "AbortError";
 
 export default function Chat() {
   // Get query parameter from URL (for search from Header or SearchHero)
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const initialQuery = searchParams.get("q") || "";
+  // Previous document version the questions are limited to (linked from the document viewer)
+  const versionId = searchParams.get("version");
+  const [versionScope, setVersionScope] = useState<Document | null>(null);
+  // Departments, documents, file types and dates the questions are limited to
+  const filters = readChatFilters(searchParams);
   
   // State management for chat messages and UI
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState(initialQuery);
   const [isTyping, setIsTyping] = useState(false);
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
   const [showProcessingDialog, setShowProcessingDialog] = useState(false);
   
   // Ref for scrolling to bottom of messages
@@ -46,6 +64,9 @@ export default function Chat() {
   // Flag to track initial load and prevent saving during load
   const isInitialLoad = useRef(true);
 
+  // Controller of the answer being streamed, used by the stop button
+  const abortControllerRef = useRef<AbortController | null>(null);
+
   /**
    * Scrolls the messages container to the bottom
    * Called when new messages are added to keep latest message visible
@@ -58,7 +79,7 @@ export default function Chat() {
   // Restores conversation history from previous session
   useEffect(() => {
     try {
-      const savedMessages = sessionStorage.getItem(STORAGE_KEY);
+      const savedMessages = sessionStorage.getItem(CHAT_STORAGE_KEY);
       if (savedMessages) {
         const parsedMessages = JSON.parse(savedMessages);
         // Convert timestamps from string to Date objects
@@ -76,7 +97,7 @@ export default function Chat() {
     } catch (error) {
       console.error('Error loading messages from sessionStorage:', error);
       // If error, clear corrupted storage
-      sessionStorage.removeItem(STORAGE_KEY);
+      sessionStorage.removeItem(CHAT_STORAGE_KEY);
       isInitialLoad.current = false;
     }
   }, []);
@@ -91,12 +112,46 @@ export default function Chat() {
     }
 
     try {
-      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(messages));
+      sessionStorage.setItem(CHAT_STORAGE_KEY, JSON.stringify(messages));
     } catch (error) {
       console.error('Error saving messages to sessionStorage:', error);
     }
   }, [messages]);
 
+  // Cancel any answer still streaming when leaving the page
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  // Load the name and number of the version the questions are limited to
+  useEffect(() => {
+    if (!versionId) {
+      setVersionScope(null);
+      return;
+    }
+
+    getDocumentVersions(versionId)
+      .then((versions) => setVersionScope(versions.find((version) => version.id === versionId) ?? null))
+      .catch((error) => console.error('Error loading document version:', error));
+  }, [versionId]);
+
+  /**
+   * Goes back to asking about the current version of every document
+   */
+  const clearVersionScope = () => {
+    setSearchParams((params) => {
+      params.delete("version");
+      return params;
+    });
+  };
+
+  /**
+   * Applies new chat filters, keeping them in the URL
+   */
+  const handleFiltersChange = (value: ChatFilterValues) => {
+    setSearchParams((params) => writeChatFilters(params, value));
+  };
+
   // Auto-scroll to bottom when messages change
   // Keeps latest message visible when new messages arrive
   useEffect(() => {
@@ -112,6 +167,63 @@ export default function Chat() {
     }
   }, [initialQuery, messages.length]);
 
+  /**
+   * Streams the AI answer for a question into a new assistant message
+   * The message is created with the first token and grows as tokens arrive;
+   * sources are attached when the stream finishes
+   * 
+   * @param question - The user question to answer
+   * @param conversationHistory - Previous messages sent as context
+   */
+  const streamAnswer = async (question: string, conversationHistory: ChatMessage[]) => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const aiMessageId = (Date.now() + 1).toString();
+    let hasStarted = false;
+
+    try {
+      const options: ChatOptions = { filters: toRetrievalFilters(filters) };
+      if (versionId) {
+        options.documentVersionId = versionId;
+      }
+      for await (const event of streamQueryChat(question, conversationHistory, abortController.signal, options)) {
+        if (event.type === "token") {
+          if (!hasStarted) {
+            hasStarted = true;
+            setStreamingMessageId(aiMessageId);
+            setMessages((prev) => [
+              ...prev,
+              { id: aiMessageId, role: "assistant", content: event.text, timestamp: new Date() },
+            ]);
+          } else {
+            setMessages((prev) =>
+              prev.map((msg) =>
+                msg.id === aiMessageId ? { ...msg, content: msg.content + event.text } : msg
+              )
+            );
+          }
+        } else if (event.type === "done") {
+          setMessages((prev) =>
+            prev.map((msg) => (msg.id === aiMessageId ? { ...msg, sources: event.sources } : msg))
+          );
+        } else if (event.type === "error") {
+          throw new Error(event.message);
+        }
+      }
+    } finally {
+      abortControllerRef.current = null;
+      setStreamingMessageId(null);
+    }
+  };
+
+  /**
+   * Stops the answer being streamed
+   * The text received so far is kept
+   */
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   /**
    * Handles sending a message to the chat API
    * Processes user input and gets AI response using RAG
@@ -120,7 +232,8 @@ export default function Chat() {
    */
   const handleSend = async (messageText?: string) => {
     const text = messageText || input;
-    if (!text.trim()) return;
+    // Ignore submits (e.g. Enter key) while an answer is still streaming
+    if (!text.trim() || isTyping) return;
 
     // Check if documents are currently being processed
     // Prevent queries while documents are being chunked/embedded
@@ -152,22 +265,13 @@ export default function Chat() {
         sources: msg.sources,
       }));
 
-      // Call chat API with question and conversation history
-      // API performs RAG search and generates AI response
-      const response = await queryChat(text, conversationHistory);
-
-      // Create AI message from API response
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: "assistant",
-        content: response.answer,
-        sources: response.sources,
-        timestamp: new Date(),
-      };
-
-      // Add AI response to chat
-      setMessages((prev) => [...prev, aiMessage]);
+      // Stream the answer from the chat API
+      // API performs RAG search and generates the AI response token by token
+      await streamAnswer(text, conversationHistory);
     } catch (error) {
+      // Stopped by the user: keep the partial answer, nothing to report
+      if (isAbortError(error)) return;
+
       console.error('Error querying chat:', error);
       
       // Friendly error message for user
@@ -201,7 +305,7 @@ export default function Chat() {
     // Clear sessionStorage when starting new conversation
     // Ensures fresh start without old messages
     try {
-      sessionStorage.removeItem(STORAGE_KEY);
+      sessionStorage.removeItem(CHAT_STORAGE_KEY);
     } catch (error) {
       console.error('Error clearing sessionStorage:', error);
     }
@@ -284,20 +388,12 @@ export default function Chat() {
           sources: msg.sources,
         }));
 
-      // Call chat API with original question
+      // Stream a new answer for the original question
       // This generates a new response (potentially different due to randomness)
-      const response = await queryChat(lastUserMessage.content, conversationHistory);
-
-      const aiMessage: Message = {
-        id: Date.now().toString(),
-        role: "assistant",
-        content: response.answer,
-        sources: response.sources,
-        timestamp: new Date(),
-      };
-
-      setMessages((prev) => [...prev, aiMessage]);
+      await streamAnswer(lastUserMessage.content, conversationHistory);
     } catch (error) {
+      if (isAbortError(error)) return;
+
       console.error('Error refreshing message:', error);
       toast({
         title: "Error al regenerar",
@@ -365,7 +461,11 @@ export default function Chat() {
                       : "bg-secondary"
                   )}
                 >
-                  <p className="whitespace-pre-wrap">{message.content}</p>
+                  {message.role === "assistant" ? (
+                    <CitedText text={message.content} sources={message.sources} />
+                  ) : (
+                    <p className="whitespace-pre-wrap">{message.content}</p>
+                  )}
 
                   {/* Sources */}
                   {message.sources && message.sources.length > 0 && (
@@ -375,25 +475,34 @@ export default function Chat() {
                       </p>
                       <div className="space-y-2">
                         {message.sources.map((source, index) => (
-                          <div
+                          <Link
                             key={index}
+                            to={sourceLink(source)}
                             className="flex items-center gap-2 text-sm p-2 rounded-lg bg-background/50 hover:bg-background cursor-pointer transition-colors"
                           >
+                            <span className="flex h-5 min-w-5 items-center justify-center rounded-md bg-primary/10 px-1 text-xs font-semibold text-primary shrink-0">
+                              {source.number}
+                            </span>
                             <FileText className="h-4 w-4 text-primary shrink-0" />
                             <div className="min-w-0">
-                              <p className="font-medium truncate">{source.title}</p>
+                              <p className="font-medium truncate">
+                                {source.title}
+                                {sourceLocation(source) && (
+                                  <span className="font-normal text-muted-foreground"> · {sourceLocation(source)}</span>
+                                )}
+                              </p>
                               <p className="text-xs text-muted-foreground truncate">
                                 {source.excerpt}
                               </p>
                             </div>
-                          </div>
+                          </Link>
                         ))}
                       </div>
                     </div>
                   )}
 
-                  {/* Actions for AI messages */}
-                  {message.role === "assistant" && (
+                  {/* Actions for AI messages (hidden while the answer streams) */}
+                  {message.role === "assistant" && message.id !== streamingMessageId && (
                     <div className="flex items-center gap-2 mt-4 pt-2">
                       <Button
                         variant="ghost"
@@ -425,8 +534,8 @@ export default function Chat() {
               </div>
             ))}
 
-            {/* Typing Indicator */}
-            {isTyping && (
+            {/* Typing Indicator (until the first token arrives) */}
+            {isTyping && !streamingMessageId && (
               <div className="flex gap-4">
                 <div className="h-8 w-8 rounded-full bg-primary flex items-center justify-center shrink-0">
                   <Bot className="h-4 w-4 text-primary-foreground" />
@@ -451,6 +560,20 @@ export default function Chat() {
 
           {/* Input Area */}
           <div className="p-4 border-t border-border">
+            <ChatFilterBar value={filters} onChange={handleFiltersChange} />
+            {versionId && (
+              <div className="mb-3 flex items-center gap-2">
+                <span className="inline-flex items-center gap-2 rounded-full bg-warning/10 px-3 py-1 text-xs font-medium text-warning">
+                  <FileText className="h-3 w-3" />
+                  {versionScope
+                    ? `Preguntando sobre ${versionScope.file_name} (versión ${versionScope.version_number})`
+                    : "Preguntando sobre una versión anterior"}
+                  <button type="button" onClick={clearVersionScope} title="Preguntar sobre las versiones vigentes">
+                    <X className="h-3 w-3" />
+                  </button>
+                </span>
+              </div>
+            )}
             <form
               onSubmit={(e) => {
                 e.preventDefault();
@@ -465,14 +588,26 @@ export default function Chat() {
                 placeholder="Escribe tu pregunta..."
                 className="flex-1 h-12 px-4 rounded-xl bg-secondary border-0 text-foreground placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-primary/50"
               />
-              <Button
-                type="submit"
-                variant="hero"
-                size="lg"
-                disabled={!input.trim() || isTyping}
-              >
-                <Send className="h-5 w-5" />
-              </Button>
+              {isTyping ? (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="lg"
+                  onClick={handleStop}
+                  title="Detener respuesta"
+                >
+                  <Square className="h-5 w-5" />
+                </Button>
+              ) : (
+                <Button
+                  type="submit"
+                  variant="hero"
+                  size="lg"
+                  disabled={!input.trim()}
+                >
+                  <Send className="h-5 w-5" />
+                </Button>
+              )}
             </form>
           </div>
         </Card>
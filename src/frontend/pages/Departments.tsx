@@ -0,0 +1,342 @@
+import { useCallback, useEffect, useState } from "react";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GitMerge, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  createDepartment,
+  deleteDepartment,
+  getDepartments,
+  getDocuments,
+  mergeDepartments,
+  updateDepartment,
+} from "@/lib/api";
+import type { Department } from "@/lib/api";
+import { departmentPath, departmentTree, subDepartmentIds } from "@/lib/departments";
+
+// Select value for "no parent" (Select items cannot have an empty value)
+const TOP_LEVEL = "none";
+
+type PendingAction = { kind: "edit" | "merge" | "delete"; department: Department };
+
+export default function Departments() {
+  const [departments, setDepartments] = useState<Department[] | null>(null);
+  const [documentCounts, setDocumentCounts] = useState<Map<string, number>>(new Map());
+  const [newName, setNewName] = useState("");
+  const [newParentId, setNewParentId] = useState(TOP_LEVEL);
+  const [pending, setPending] = useState<PendingAction | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editParentId, setEditParentId] = useState(TOP_LEVEL);
+  const [targetId, setTargetId] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const showError = useCallback(
+    (error: unknown, fallback: string) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : fallback,
+        variant: "destructive",
+      });
+    },
+    [toast]
+  );
+
+  // Cargar departamentos y el número de documentos de cada uno
+  const loadData = useCallback(async () => {
+    try {
+      const [deptsData, docsData] = await Promise.all([getDepartments(), getDocuments()]);
+      const counts = new Map<string, number>();
+      docsData.forEach((doc) => counts.set(doc.department_id, (counts.get(doc.department_id) ?? 0) + 1));
+      setDepartments(deptsData);
+      setDocumentCounts(counts);
+    } catch (error) {
+      console.error("Error loading departments:", error);
+      showError(error, "No se pudieron cargar los departamentos.");
+      setDepartments([]);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    void loadData();
+  }, [loadData]);
+
+  const openAction = (kind: PendingAction["kind"], department: Department) => {
+    setPending({ kind, department });
+    setEditName(department.name);
+    setEditParentId(department.parent_id || TOP_LEVEL);
+    setTargetId("");
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+
+    setIsSaving(true);
+    try {
+      const created = await createDepartment(name, newParentId === TOP_LEVEL ? null : newParentId);
+      setDepartments((prev) => [...(prev || []), created]);
+      setNewName("");
+      toast({ title: "Departamento creado", description: `${created.name} ya está disponible.` });
+    } catch (error) {
+      showError(error, "No se pudo crear el departamento.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!pending) return;
+    const { kind, department } = pending;
+
+    setIsSaving(true);
+    try {
+      if (kind === "edit") {
+        const updated = await updateDepartment(department.id, {
+          name: editName.trim(),
+          parentId: editParentId === TOP_LEVEL ? null : editParentId,
+        });
+        setDepartments((prev) => prev?.map((dept) => (dept.id === updated.id ? updated : dept)) ?? null);
+        toast({ title: "Departamento actualizado", description: `${updated.name} se guardó correctamente.` });
+      } else if (kind === "merge") {
+        await mergeDepartments(department.id, targetId);
+        await loadData();
+        toast({
+          title: "Departamentos fusionados",
+          description: `${department.name} se fusionó en ${departmentPath(departments || [], targetId)}.`,
+        });
+      } else {
+        await deleteDepartment(department.id, targetId || null);
+        await loadData();
+        toast({ title: "Departamento eliminado", description: `${department.name} se eliminó.` });
+      }
+      setPending(null);
+    } catch (error) {
+      showError(error, "No se pudo guardar el cambio.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const tree = departmentTree(departments || []);
+  const pendingDepartment = pending?.department;
+  const pendingDocuments = pendingDepartment ? documentCounts.get(pendingDepartment.id) ?? 0 : 0;
+  // A department cannot move under itself or its sub-departments, nor merge into them
+  const excludedIds = new Set(pendingDepartment ? subDepartmentIds(departments || [], [pendingDepartment.id]) : []);
+  const otherDepartments = tree.filter(({ department }) =>
+    pending?.kind === "delete" ? department.id !== pendingDepartment?.id : !excludedIds.has(department.id)
+  );
+  const canConfirm =
+    !isSaving &&
+    (pending?.kind === "edit"
+      ? !!editName.trim()
+      : pending?.kind === "merge"
+        ? !!targetId
+        : pendingDocuments === 0 || !!targetId);
+
+  return (
+    <AppLayout>
+      <div className="space-y-6 max-w-4xl mx-auto animate-fade-in">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Departamentos</h1>
+          <p className="text-sm text-muted-foreground">
+            Crea, renombra, organiza en subdepartamentos, fusiona y elimina departamentos
+          </p>
+        </div>
+
+        {/* New Department */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Nuevo departamento</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="flex flex-wrap gap-2">
+              <Input
+                className="flex-1 min-w-48"
+                placeholder="Nombre del departamento"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+              />
+              <Select value={newParentId} onValueChange={setNewParentId}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={TOP_LEVEL}>Sin departamento padre</SelectItem>
+                  {tree.map(({ department }) => (
+                    <SelectItem key={department.id} value={department.id}>
+                      Dentro de {departmentPath(departments || [], department.id)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button type="submit" disabled={!newName.trim() || isSaving}>
+                <Plus className="mr-2 h-4 w-4" />
+                Crear
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {/* Department Tree */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Departamentos</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!departments ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="divide-y divide-border">
+                {tree.length === 0 && (
+                  <p className="py-3 text-sm text-muted-foreground">Todavía no hay departamentos.</p>
+                )}
+                {tree.map(({ department, depth }) => (
+                  <div key={department.id} className="flex items-center gap-3 py-3">
+                    <div className="flex-1 min-w-0" style={{ paddingLeft: `${depth * 1.5}rem` }}>
+                      <p className="text-sm font-medium truncate">{department.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {documentCounts.get(department.id) ?? 0} documentos
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground"
+                      title="Renombrar o mover"
+                      onClick={() => openAction("edit", department)}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground"
+                      title="Fusionar con otro departamento"
+                      disabled={tree.length < 2}
+                      onClick={() => openAction("merge", department)}
+                    >
+                      <GitMerge className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      title="Eliminar"
+                      onClick={() => openAction("delete", department)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Edit, Merge and Delete */}
+        <Dialog open={pending !== null} onOpenChange={(open) => !open && !isSaving && setPending(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                {pending?.kind === "edit"
+                  ? "Editar departamento"
+                  : pending?.kind === "merge"
+                    ? `Fusionar ${pendingDepartment?.name}`
+                    : `Eliminar ${pendingDepartment?.name}`}
+              </DialogTitle>
+              <DialogDescription>
+                {pending?.kind === "edit" &&
+                  "Los documentos, miembros y subdepartamentos no cambian."}
+                {pending?.kind === "merge" &&
+                  "Sus documentos, miembros y subdepartamentos pasan al departamento elegido y este desaparece. Quien ya era miembro de los dos conserva el rol mayor."}
+                {pending?.kind === "delete" &&
+                  (pendingDocuments > 0
+                    ? `Tiene ${pendingDocuments} documentos: elige a qué departamento moverlos. Sus subdepartamentos suben un nivel y sus miembros pierden el acceso que tenían por él.`
+                    : "Sus subdepartamentos suben un nivel y sus miembros pierden el acceso que tenían por él.")}
+              </DialogDescription>
+            </DialogHeader>
+
+            {pending?.kind === "edit" ? (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="department-name">Nombre</Label>
+                  <Input id="department-name" value={editName} onChange={(e) => setEditName(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Departamento padre</Label>
+                  <Select value={editParentId} onValueChange={setEditParentId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={TOP_LEVEL}>Sin departamento padre</SelectItem>
+                      {otherDepartments.map(({ department }) => (
+                        <SelectItem key={department.id} value={department.id}>
+                          {departmentPath(departments || [], department.id)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            ) : (
+              pending && (
+                <div className="space-y-2">
+                  <Label>{pending.kind === "merge" ? "Fusionar en" : "Mover sus documentos a"}</Label>
+                  <Select value={targetId} onValueChange={setTargetId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Seleccionar departamento" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {otherDepartments.map(({ department }) => (
+                        <SelectItem key={department.id} value={department.id}>
+                          {departmentPath(departments || [], department.id)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" disabled={isSaving} onClick={() => setPending(null)}>
+                Cancelar
+              </Button>
+              <Button
+                variant={pending?.kind === "edit" ? "default" : "destructive"}
+                disabled={!canConfirm}
+                onClick={() => void handleConfirm()}
+              >
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {pending?.kind === "edit" ? "Guardar" : pending?.kind === "merge" ? "Fusionar" : "Eliminar"}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </AppLayout>
+  );
+}
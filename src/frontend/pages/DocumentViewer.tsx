@@ -0,0 +1,164 @@
+import { useState, useEffect } from "react";
+import { Link, useParams, useSearchParams } from "react-router-dom";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, FileText, Loader2, Lock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getDocumentContent } from "@/lib/api";
+import type { Document, DocumentContent } from "@/lib/api";
+import { DocumentVersionsPanel } from "@/components/documents/DocumentVersionsPanel";
+import { DocumentVisibilityDialog } from "@/components/documents/DocumentVisibilityDialog";
+import { useAuth } from "@/components/auth-provider";
+import { VISIBILITY_LABELS, canInDepartment } from "@/lib/permissions";
+
+export default function DocumentViewer() {
+  const { id } = useParams<{ id: string }>();
+  // Chunk cited in the chat; the viewer scrolls to it and highlights it
+  const [searchParams] = useSearchParams();
+  const citedChunkId = searchParams.get("chunk");
+
+  const [content, setContent] = useState<DocumentContent | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showVisibility, setShowVisibility] = useState(false);
+  const { permissions } = useAuth();
+  const canManage = !!content && canInDepartment(permissions, content.document.department_id, "department_admin");
+
+  // Cargar el texto del documento
+  useEffect(() => {
+    if (!id) return;
+
+    const loadContent = async () => {
+      try {
+        setIsLoading(true);
+        setError(null);
+        setContent(await getDocumentContent(id));
+      } catch (err) {
+        console.error('Error loading document content:', err);
+        setError('No se pudo cargar el documento. Es posible que haya sido eliminado.');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadContent();
+  }, [id]);
+
+  const handleVisibilitySaved = (document: Document) => {
+    setContent((prev) => (prev ? { ...prev, document: { ...prev.document, ...document } } : prev));
+  };
+
+  // Scroll to the cited passage once the text is rendered
+  useEffect(() => {
+    if (!content || !citedChunkId) return;
+    document.getElementById(`chunk-${citedChunkId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [content, citedChunkId]);
+
+  return (
+    <AppLayout>
+      <div className="space-y-6 animate-fade-in">
+        {/* Header */}
+        <div className="flex items-center gap-4">
+          <Button variant="outline" size="icon" asChild>
+            <Link to="/documents" title="Volver a documentos">
+              <ArrowLeft className="h-4 w-4" />
+            </Link>
+          </Button>
+          <div className="min-w-0 flex-1">
+            <h1 className="text-2xl font-bold text-foreground truncate">
+              {content?.document.file_name || "Documento"}
+            </h1>
+            <div className="mt-1 flex items-center gap-2">
+              {content?.document.department && (
+                <Badge variant="secondary">
+                  {content.document.department.name}
+                </Badge>
+              )}
+              {content?.document.is_current === false && (
+                <Badge variant="secondary" className="bg-warning/10 text-warning">
+                  Versión anterior (v{content.document.version_number})
+                </Badge>
+              )}
+              {content?.document.visibility && content.document.visibility !== "public" && (
+                <Badge variant="secondary" className="bg-accent/10 text-accent">
+                  <Lock className="mr-1 h-3 w-3" />
+                  {VISIBILITY_LABELS[content.document.visibility]}
+                </Badge>
+              )}
+            </div>
+          </div>
+          {canManage && (
+            <Button variant="outline" className="shrink-0" onClick={() => setShowVisibility(true)}>
+              <Lock className="mr-2 h-4 w-4" />
+              Visibilidad
+            </Button>
+          )}
+        </div>
+
+        {content && canManage && (
+          <DocumentVisibilityDialog
+            document={content.document}
+            open={showVisibility}
+            onOpenChange={setShowVisibility}
+            onSaved={handleVisibilitySaved}
+          />
+        )}
+
+        {/* Version History */}
+        {id && !error && <DocumentVersionsPanel documentId={id} />}
+
+        {/* Loading State */}
+        {isLoading && (
+          <Card>
+            <CardContent className="p-12 flex items-center justify-center">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Error State */}
+        {error && !isLoading && (
+          <Card>
+            <CardContent className="p-6">
+              <p className="text-destructive">{error}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Empty State */}
+        {!isLoading && !error && content && content.chunks.length === 0 && (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+              <p className="text-muted-foreground">
+                Este documento todavía no tiene texto procesado.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Document Text */}
+        {!isLoading && !error && content && content.chunks.length > 0 && (
+          <Card>
+            <CardContent className="p-6 space-y-4">
+              {content.chunks.map((chunk) => (
+                <p
+                  key={chunk.id}
+                  id={`chunk-${chunk.id}`}
+                  className={cn(
+                    "whitespace-pre-wrap leading-relaxed text-foreground",
+                    chunk.id === citedChunkId && "rounded-lg bg-primary/10 p-3 ring-1 ring-primary/40"
+                  )}
+                >
+                  {chunk.text}
+                </p>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
@@ -4,6 +4,17 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import {
   Search,
   FileText,
@@ -11,11 +22,20 @@ import {
   Grid,
   List,
   Loader2,
+  Trash2,
+  ArrowLeft,
+  Lock,
+  MessageSquare,
 } from "lucide-react";
-import { Link } from "react-router-dom";
-import { getDocuments } from "@backend/lib/api/documents";
-import type { Document, Department } from "@backend/lib/api/documents";
-import { getDepartments } from "@backend/lib/api/departments";
+import { Link, useNavigate } from "react-router-dom";
+import { getDocuments, getDepartments, deleteDocuments } from "@/lib/api";
+import type { Document, Department, Visibility } from "@/lib/api";
+import { forgetCachedAnswers } from "@/lib/chatStorage";
+import { useToast } from "@/hooks/use-toast";
+import { DocumentTrashPanel } from "@/components/documents/DocumentTrashPanel";
+import { useAuth } from "@/components/auth-provider";
+import { VISIBILITY_LABELS, canInAnyDepartment, canInDepartment } from "@/lib/permissions";
+import { departmentTree, subDepartmentIds } from "@/lib/departments";
 import { format } from "date-fns";
 
 const departmentColors: Record<string, string> = {
@@ -32,6 +52,7 @@ const statusColors: Record<string, string> = {
 };
 
 export default function Documents() {
+  const navigate = useNavigate();
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedDepartment, setSelectedDepartment] = useState<string>("Todos");
   const [viewMode, setViewMode] = useState<"grid" | "list">("list");
@@ -39,6 +60,17 @@ export default function Documents() {
   const [departments, setDepartments] = useState<Department[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Documents waiting for the user to confirm they go to the trash
+  const [pendingDelete, setPendingDelete] = useState<Document[] | null>(null);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const { toast } = useToast();
+  const { permissions } = useAuth();
+  // Deleting and restoring is for department admins; uploading for editors
+  const canManageAny = canInAnyDepartment(permissions, "department_admin");
+  const canUpload = canInAnyDepartment(permissions, "editor");
+  const canManage = (doc: Document) => canInDepartment(permissions, doc.department_id, "department_admin");
 
   // Cargar documentos y departamentos
   useEffect(() => {
@@ -63,16 +95,89 @@ export default function Documents() {
     loadData();
   }, []);
 
+  // A department also shows the documents of its sub-departments
+  const selectedDepartmentIds = new Set(
+    subDepartmentIds(departments, departments.filter((d) => d.name === selectedDepartment).map((d) => d.id))
+  );
+
   const filteredDocuments = documents.filter((doc) => {
     const matchesSearch = doc.file_name.toLowerCase().includes(searchQuery.toLowerCase());
     const matchesDepartment = 
       selectedDepartment === "Todos" || 
       doc.department?.id === selectedDepartment ||
-      doc.department?.name === selectedDepartment;
+      selectedDepartmentIds.has(doc.department_id);
     return matchesSearch && matchesDepartment;
   });
 
-  const departmentList = ["Todos", ...departments.map((d) => d.name)];
+  const departmentList = ["Todos", ...departmentTree(departments).map(({ department }) => department.name)];
+
+  // Own visibility of the document, else the default of its department
+  const visibilityOf = (doc: Document): Visibility =>
+    doc.visibility ?? departments.find((d) => d.id === doc.department_id)?.default_visibility ?? "public";
+
+  // Opens the chat limited to this document (all its versions)
+  const askAbout = (doc: Document) =>
+    navigate(`/chat?document=${encodeURIComponent(doc.version_group_id || doc.id)}`);
+
+  // Only documents the user can delete can be selected
+  const selectableDocuments = filteredDocuments.filter(canManage);
+  const allFilteredSelected =
+    selectableDocuments.length > 0 && selectableDocuments.every((doc) => selectedIds.has(doc.id));
+
+  const toggleSelected = (documentId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(documentId)) {
+        next.delete(documentId);
+      } else {
+        next.add(documentId);
+      }
+      return next;
+    });
+  };
+
+  const toggleAllFiltered = () => {
+    setSelectedIds(allFilteredSelected ? new Set() : new Set(selectableDocuments.map((doc) => doc.id)));
+  };
+
+  /**
+   * Moves the documents waiting for confirmation to the trash
+   * Saved chat answers citing them are removed too
+   */
+  const handleConfirmDelete = async () => {
+    if (!pendingDelete) return;
+
+    setIsDeleting(true);
+    try {
+      const deleted = await deleteDocuments(pendingDelete.map((doc) => doc.id));
+      const deletedIds = new Set(deleted);
+      setDocuments((prev) => prev.filter((doc) => !deletedIds.has(doc.id)));
+      setSelectedIds((prev) => new Set([...prev].filter((id) => !deletedIds.has(id))));
+      forgetCachedAnswers(deleted);
+      toast({
+        title: "Documentos en la papelera",
+        description: `${deleted.length} documento${deleted.length !== 1 ? "s" : ""} movido${deleted.length !== 1 ? "s" : ""} a la papelera. Puedes restaurarlos desde allí.`,
+      });
+    } catch (err) {
+      console.error('Error deleting documents:', err);
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "No se pudieron borrar los documentos.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsDeleting(false);
+      setPendingDelete(null);
+    }
+  };
+
+  const handleRestored = (restored: Document) => {
+    setDocuments((prev) =>
+      [restored, ...prev.filter((doc) => doc.id !== restored.id)].sort((a, b) =>
+        (b.uploaded_at || "").localeCompare(a.uploaded_at || "")
+      )
+    );
+  };
 
   return (
     <AppLayout>
@@ -80,208 +185,366 @@ export default function Documents() {
         {/* Header */}
         <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
           <div>
-            <h1 className="text-2xl font-bold text-foreground">Documentos</h1>
+            <h1 className="text-2xl font-bold text-foreground">{showTrash ? "Papelera" : "Documentos"}</h1>
             <p className="text-sm text-muted-foreground">
-              {isLoading ? "Cargando..." : `${documents.length} documento${documents.length !== 1 ? "s" : ""} en total`}
+              {showTrash
+                ? "Documentos borrados que aún se pueden restaurar"
+                : isLoading ? "Cargando..." : `${documents.length} documento${documents.length !== 1 ? "s" : ""} en total`}
             </p>
           </div>
-          <Button variant="hero" asChild>
-            <Link to="/upload">
-              <Upload className="mr-2 h-4 w-4" />
-              Subir Documento
-            </Link>
-          </Button>
+          <div className="flex items-center gap-2">
+            {canManageAny && (
+              <Button variant="outline" onClick={() => setShowTrash(!showTrash)}>
+                {showTrash ? <ArrowLeft className="mr-2 h-4 w-4" /> : <Trash2 className="mr-2 h-4 w-4" />}
+                {showTrash ? "Volver a documentos" : "Papelera"}
+              </Button>
+            )}
+            {canUpload && (
+              <Button variant="hero" asChild>
+                <Link to="/upload">
+                  <Upload className="mr-2 h-4 w-4" />
+                  Subir Documento
+                </Link>
+              </Button>
+            )}
+          </div>
         </div>
 
-        {/* Filters */}
-        <Card>
-          <CardContent className="p-4">
-            <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
-              {/* Search */}
-              <div className="relative flex-1 max-w-md">
-                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                <Input
-                  placeholder="Buscar documentos..."
-                  className="pl-10"
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                />
-              </div>
+        {showTrash && <DocumentTrashPanel onRestored={handleRestored} />}
 
-              {/* Department Filter */}
-              <div className="flex items-center gap-2 flex-wrap">
-                {departmentList.map((department) => (
+        {!showTrash && (
+          <>
+          {/* Filters */}
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex flex-col gap-4 lg:flex-row lg:items-center lg:justify-between">
+                {/* Search */}
+                <div className="relative flex-1 max-w-md">
+                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Buscar documentos..."
+                    className="pl-10"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                  />
+                </div>
+
+                {/* Department Filter */}
+                <div className="flex items-center gap-2 flex-wrap">
+                  {departmentList.map((department) => (
+                    <button
+                      key={department}
+                      onClick={() => setSelectedDepartment(department)}
+                      className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
+                        selectedDepartment === department
+                          ? "bg-primary text-primary-foreground"
+                          : "bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                      }`}
+                    >
+                      {department}
+                    </button>
+                  ))}
+                </div>
+
+                {/* View Toggle */}
+                <div className="flex items-center gap-1 bg-secondary rounded-lg p-1">
+                  <button
+                    onClick={() => setViewMode("grid")}
+                    className={`p-2 rounded-md transition-colors ${
+                      viewMode === "grid" ? "bg-background shadow-sm" : ""
+                    }`}
+                  >
+                    <Grid className="h-4 w-4" />
+                  </button>
                   <button
-                    key={department}
-                    onClick={() => setSelectedDepartment(department)}
-                    className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${
-                      selectedDepartment === department
-                        ? "bg-primary text-primary-foreground"
-                        : "bg-secondary text-secondary-foreground hover:bg-secondary/80"
+                    onClick={() => setViewMode("list")}
+                    className={`p-2 rounded-md transition-colors ${
+                      viewMode === "list" ? "bg-background shadow-sm" : ""
                     }`}
                   >
-                    {department}
+                    <List className="h-4 w-4" />
                   </button>
-                ))}
+                </div>
               </div>
+            </CardContent>
+          </Card>
 
-              {/* View Toggle */}
-              <div className="flex items-center gap-1 bg-secondary rounded-lg p-1">
-                <button
-                  onClick={() => setViewMode("grid")}
-                  className={`p-2 rounded-md transition-colors ${
-                    viewMode === "grid" ? "bg-background shadow-sm" : ""
-                  }`}
+          {/* Selection Bar */}
+          {!isLoading && !error && selectableDocuments.length > 0 && (
+            <div className="flex items-center gap-3 px-1">
+              <Checkbox
+                checked={allFilteredSelected}
+                onCheckedChange={toggleAllFiltered}
+                aria-label="Seleccionar todos"
+              />
+              <span className="text-sm text-muted-foreground">
+                {selectedIds.size > 0
+                  ? `${selectedIds.size} seleccionado${selectedIds.size !== 1 ? "s" : ""}`
+                  : "Seleccionar todos"}
+              </span>
+              {selectedIds.size > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="ml-auto text-destructive"
+                  onClick={() => setPendingDelete(documents.filter((doc) => selectedIds.has(doc.id)))}
                 >
-                  <Grid className="h-4 w-4" />
-                </button>
-                <button
-                  onClick={() => setViewMode("list")}
-                  className={`p-2 rounded-md transition-colors ${
-                    viewMode === "list" ? "bg-background shadow-sm" : ""
-                  }`}
-                >
-                  <List className="h-4 w-4" />
-                </button>
-              </div>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Mover a la papelera
+                </Button>
+              )}
             </div>
-          </CardContent>
-        </Card>
+          )}
 
-        {/* Loading State */}
-        {isLoading && (
-          <Card>
-            <CardContent className="p-12 flex items-center justify-center">
-              <Loader2 className="h-8 w-8 animate-spin text-primary" />
-            </CardContent>
-          </Card>
-        )}
+          {/* Loading State */}
+          {isLoading && (
+            <Card>
+              <CardContent className="p-12 flex items-center justify-center">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </CardContent>
+            </Card>
+          )}
 
-        {/* Error State */}
-        {error && !isLoading && (
-          <Card>
-            <CardContent className="p-6">
-              <p className="text-destructive">{error}</p>
-            </CardContent>
-          </Card>
-        )}
+          {/* Error State */}
+          {error && !isLoading && (
+            <Card>
+              <CardContent className="p-6">
+                <p className="text-destructive">{error}</p>
+              </CardContent>
+            </Card>
+          )}
 
-        {/* Empty State */}
-        {!isLoading && !error && filteredDocuments.length === 0 && (
-          <Card>
-            <CardContent className="p-12 text-center">
-              <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-              <p className="text-muted-foreground">
-                {documents.length === 0
-                  ? "No hay documentos subidos aún. Sube tu primer documento para comenzar."
-                  : "No se encontraron documentos que coincidan con tu búsqueda."}
-              </p>
-            </CardContent>
-          </Card>
-        )}
+          {/* Empty State */}
+          {!isLoading && !error && filteredDocuments.length === 0 && (
+            <Card>
+              <CardContent className="p-12 text-center">
+                <FileText className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                <p className="text-muted-foreground">
+                  {documents.length === 0
+                    ? "No hay documentos subidos aún. Sube tu primer documento para comenzar."
+                    : "No se encontraron documentos que coincidan con tu búsqueda."}
+                </p>
+              </CardContent>
+            </Card>
+          )}
 
-        {/* Documents Grid/List */}
-        {!isLoading && !error && filteredDocuments.length > 0 && (
-          <>
-            {viewMode === "grid" ? (
-              <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-                {filteredDocuments.map((doc) => {
-                  const fileExt = doc.file_name.split('.').pop()?.toUpperCase() || '';
-                  const uploadDate = doc.uploaded_at 
-                    ? format(new Date(doc.uploaded_at), "dd MMM yyyy")
-                    : "Fecha desconocida";
+          {/* Documents Grid/List */}
+          {!isLoading && !error && filteredDocuments.length > 0 && (
+            <>
+              {viewMode === "grid" ? (
+                <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+                  {filteredDocuments.map((doc) => {
+                    const fileExt = doc.file_name.split('.').pop()?.toUpperCase() || '';
+                    const uploadDate = doc.uploaded_at 
+                      ? format(new Date(doc.uploaded_at), "dd MMM yyyy")
+                      : "Fecha desconocida";
                   
-                  return (
-                    <Card key={doc.id} className="hover-lift cursor-pointer">
-                      <CardContent className="p-5">
-                        <div className="flex items-start gap-3">
-                          <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-primary/10 shrink-0">
-                            <FileText className="h-6 w-6 text-primary" />
-                          </div>
-                          <div className="min-w-0 flex-1">
-                            <h3 className="font-semibold text-foreground line-clamp-2">
-                              {doc.file_name}
-                            </h3>
-                            <div className="mt-2 flex items-center gap-2 flex-wrap">
-                              {doc.department && (
+                    return (
+                      <Card
+                        key={doc.id}
+                        className="hover-lift cursor-pointer"
+                        onClick={() => navigate(`/documents/${doc.id}`)}
+                      >
+                        <CardContent className="p-5">
+                          <div className="flex items-start gap-3">
+                            {canManage(doc) && (
+                              <Checkbox
+                                checked={selectedIds.has(doc.id)}
+                                onCheckedChange={() => toggleSelected(doc.id)}
+                                onClick={(e) => e.stopPropagation()}
+                                aria-label={`Seleccionar ${doc.file_name}`}
+                                className="mt-1"
+                              />
+                            )}
+                            <div className="flex h-12 w-12 items-center justify-center rounded-lg bg-primary/10 shrink-0">
+                              <FileText className="h-6 w-6 text-primary" />
+                            </div>
+                            <div className="min-w-0 flex-1">
+                              <h3 className="font-semibold text-foreground line-clamp-2">
+                                {doc.file_name}
+                              </h3>
+                              <div className="mt-2 flex items-center gap-2 flex-wrap">
+                                {doc.department && (
+                                  <Badge
+                                    variant="secondary"
+                                    className={departmentColors[doc.department.name] || ""}
+                                  >
+                                    {doc.department.name}
+                                  </Badge>
+                                )}
                                 <Badge
                                   variant="secondary"
-                                  className={departmentColors[doc.department.name] || ""}
+                                  className={statusColors[doc.status]}
                                 >
-                                  {doc.department.name}
+                                  {doc.status === "processed" ? "Procesado" : doc.status === "processing" ? "Procesando" : "Error"}
                                 </Badge>
-                              )}
+                                {visibilityOf(doc) !== "public" && (
+                                  <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                                    <Lock className="h-3 w-3" />
+                                    {VISIBILITY_LABELS[visibilityOf(doc)]}
+                                  </span>
+                                )}
+                              </div>
+                              <p className="mt-2 text-xs text-muted-foreground">
+                                Subido: {uploadDate}
+                              </p>
+                            </div>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 shrink-0 text-muted-foreground hover:text-primary"
+                              title="Preguntar sobre este documento"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                askAbout(doc);
+                              }}
+                            >
+                              <MessageSquare className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
+                </div>
+              ) : (
+                <Card>
+                  <CardContent className="p-0">
+                    <div className="divide-y divide-border">
+                      {filteredDocuments.map((doc) => {
+                        const fileExt = doc.file_name.split('.').pop()?.toUpperCase() || '';
+                        const uploadDate = doc.uploaded_at 
+                          ? format(new Date(doc.uploaded_at), "dd MMM yyyy")
+                          : "Fecha desconocida";
+                      
+                        return (
+                          <div
+                            key={doc.id}
+                            className="flex items-center gap-4 p-4 hover:bg-secondary/50 transition-colors cursor-pointer"
+                            onClick={() => navigate(`/documents/${doc.id}`)}
+                          >
+                            {canManage(doc) && (
+                              <Checkbox
+                                checked={selectedIds.has(doc.id)}
+                                onCheckedChange={() => toggleSelected(doc.id)}
+                                onClick={(e) => e.stopPropagation()}
+                                aria-label={`Seleccionar ${doc.file_name}`}
+                              />
+                            )}
+                            <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10 shrink-0">
+                              <FileText className="h-5 w-5 text-primary" />
+                            </div>
+                            <div className="flex-1 min-w-0">
+                              <p className="font-medium text-foreground truncate">
+                                {doc.file_name}
+                              </p>
+                              <div className="flex items-center gap-2 mt-1">
+                                {doc.department && (
+                                  <Badge
+                                    variant="secondary"
+                                    className={`${departmentColors[doc.department.name] || ""} text-xs`}
+                                  >
+                                    {doc.department.name}
+                                  </Badge>
+                                )}
+                                <span className="text-xs text-muted-foreground">
+                                  {fileExt}
+                                </span>
+                                {(doc.version_number ?? 1) > 1 && (
+                                  <span className="text-xs text-muted-foreground">
+                                    v{doc.version_number}
+                                  </span>
+                                )}
+                                {visibilityOf(doc) !== "public" && (
+                                  <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                                    <Lock className="h-3 w-3" />
+                                    {VISIBILITY_LABELS[visibilityOf(doc)]}
+                                  </span>
+                                )}
+                              </div>
+                            </div>
+                            <div className="text-right shrink-0">
                               <Badge
                                 variant="secondary"
                                 className={statusColors[doc.status]}
                               >
                                 {doc.status === "processed" ? "Procesado" : doc.status === "processing" ? "Procesando" : "Error"}
                               </Badge>
+                              <p className="text-xs text-muted-foreground mt-1">{uploadDate}</p>
                             </div>
-                            <p className="mt-2 text-xs text-muted-foreground">
-                              Subido: {uploadDate}
-                            </p>
-                          </div>
-                        </div>
-                      </CardContent>
-                    </Card>
-                  );
-                })}
-              </div>
-            ) : (
-              <Card>
-                <CardContent className="p-0">
-                  <div className="divide-y divide-border">
-                    {filteredDocuments.map((doc) => {
-                      const fileExt = doc.file_name.split('.').pop()?.toUpperCase() || '';
-                      const uploadDate = doc.uploaded_at 
-                        ? format(new Date(doc.uploaded_at), "dd MMM yyyy")
-                        : "Fecha desconocida";
-                      
-                      return (
-                        <div
-                          key={doc.id}
-                          className="flex items-center gap-4 p-4 hover:bg-secondary/50 transition-colors"
-                        >
-                          <div className="flex h-10 w-10 items-center justify-center rounded-lg bg-primary/10 shrink-0">
-                            <FileText className="h-5 w-5 text-primary" />
-                          </div>
-                          <div className="flex-1 min-w-0">
-                            <p className="font-medium text-foreground truncate">
-                              {doc.file_name}
-                            </p>
-                            <div className="flex items-center gap-2 mt-1">
-                              {doc.department && (
-                                <Badge
-                                  variant="secondary"
-                                  className={`${departmentColors[doc.department.name] || ""} text-xs`}
-                                >
-                                  {doc.department.name}
-                                </Badge>
-                              )}
-                              <span className="text-xs text-muted-foreground">
-                                {fileExt}
-                              </span>
-                            </div>
-                          </div>
-                          <div className="text-right shrink-0">
-                            <Badge
-                              variant="secondary"
-                              className={statusColors[doc.status]}
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 shrink-0 text-muted-foreground hover:text-primary"
+                              title="Preguntar sobre este documento"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                askAbout(doc);
+                              }}
                             >
-                              {doc.status === "processed" ? "Procesado" : doc.status === "processing" ? "Procesando" : "Error"}
-                            </Badge>
-                            <p className="text-xs text-muted-foreground mt-1">{uploadDate}</p>
+                              <MessageSquare className="h-4 w-4" />
+                            </Button>
+                            {canManage(doc) && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                                title="Mover a la papelera"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setPendingDelete([doc]);
+                                }}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
                           </div>
-                        </div>
-                      );
-                    })}
-                  </div>
-                </CardContent>
-              </Card>
-            )}
+                        );
+                      })}
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </>
+          )}
           </>
         )}
+
+        {/* Delete Confirmation */}
+        <AlertDialog
+          open={pendingDelete !== null}
+          onOpenChange={(open) => {
+            if (!open && !isDeleting) setPendingDelete(null);
+          }}
+        >
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                {pendingDelete?.length === 1
+                  ? `¿Mover "${pendingDelete[0].file_name}" a la papelera?`
+                  : `¿Mover ${pendingDelete?.length ?? 0} documentos a la papelera?`}
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                Dejarán de aparecer en las búsquedas y en el chat. Podrás restaurarlos desde la papelera
+                antes de que se borren definitivamente.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel disabled={isDeleting}>Cancelar</AlertDialogCancel>
+              <AlertDialogAction
+                disabled={isDeleting}
+                onClick={(e) => {
+                  // Keep the dialog open until the request finishes
+                  e.preventDefault();
+                  void handleConfirmDelete();
+                }}
+              >
+                {isDeleting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Mover a la papelera
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </div>
     </AppLayout>
   );
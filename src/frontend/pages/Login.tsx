@@ -1,41 +1,103 @@
 import { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { Navigate, useLocation, useNavigate, type Location } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { Brain, Eye, EyeOff, ArrowRight } from "lucide-react";
+import { Brain, Eye, EyeOff, ArrowRight, Mail } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth-provider";
+import { authClient } from "@/lib/session";
+
+type Mode = "sign-in" | "sign-up";
 
 export default function Login() {
+  const [mode, setMode] = useState<Mode>("sign-in");
+  const [name, setName] = useState("");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const navigate = useNavigate();
+  const location = useLocation();
+  const { session } = useAuth();
   const { toast } = useToast();
 
+  // Page the user tried to open before being sent here
+  const from = (location.state as { from?: Location } | null)?.from?.pathname || "/";
+
+  if (session) {
+    return <Navigate to={from} replace />;
+  }
+
+  const showError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : "No se pudo completar la operación.",
+      variant: "destructive",
+    });
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setIsLoading(true);
+    if (!email.trim() || !password || (mode === "sign-up" && !name.trim())) {
+      toast({
+        title: "Error",
+        description: "Por favor completa todos los campos.",
+        variant: "destructive",
+      });
+      return;
+    }
 
-    // Simulate login (MVP: simple validation)
-    setTimeout(() => {
-      if (email && password) {
-        toast({
-          title: "Bienvenido",
-          description: "Has iniciado sesión correctamente.",
-        });
-        navigate("/");
+    setIsLoading(true);
+    try {
+      if (mode === "sign-up") {
+        const { confirmationRequired } = await authClient.signUp(email.trim(), password, name.trim());
+        if (confirmationRequired) {
+          toast({
+            title: "Revisa tu correo",
+            description: "Te enviamos un enlace para confirmar tu cuenta.",
+          });
+          setMode("sign-in");
+          return;
+        }
       } else {
-        toast({
-          title: "Error",
-          description: "Por favor completa todos los campos.",
-          variant: "destructive",
-        });
+        await authClient.signInWithPassword(email.trim(), password);
       }
+      toast({
+        title: "Bienvenido",
+        description: "Has iniciado sesión correctamente.",
+      });
+      navigate(from, { replace: true });
+    } catch (error) {
+      showError(error);
+    } finally {
       setIsLoading(false);
-    }, 1000);
+    }
+  };
+
+  const handleMagicLink = async () => {
+    if (!email.trim()) {
+      toast({
+        title: "Error",
+        description: "Escribe tu correo electrónico para recibir el enlace.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await authClient.sendMagicLink(email.trim());
+      toast({
+        title: "Revisa tu correo",
+        description: "Te enviamos un enlace para iniciar sesión.",
+      });
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   return (
@@ -60,12 +122,25 @@ export default function Login() {
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
+            {mode === "sign-up" && (
+              <div className="space-y-2">
+                <Label htmlFor="name">Nombre</Label>
+                <Input
+                  id="name"
+                  placeholder="Tu nombre"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  className="h-11"
+                />
+              </div>
+            )}
             <div className="space-y-2">
               <Label htmlFor="email">Correo electrónico</Label>
               <Input
                 id="email"
                 type="email"
                 placeholder="admin@empresa.com"
+                autoComplete="email"
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
                 className="h-11"
@@ -78,6 +153,7 @@ export default function Login() {
                   id="password"
                   type={showPassword ? "text" : "password"}
                   placeholder="••••••••"
+                  autoComplete={mode === "sign-up" ? "new-password" : "current-password"}
                   value={password}
                   onChange={(e) => setPassword(e.target.value)}
                   className="h-11 pr-10"
@@ -96,22 +172,6 @@ export default function Login() {
               </div>
             </div>
 
-            <div className="flex items-center justify-between text-sm">
-              <label className="flex items-center gap-2 cursor-pointer">
-                <input
-                  type="checkbox"
-                  className="h-4 w-4 rounded border-input text-primary focus:ring-primary"
-                />
-                <span className="text-muted-foreground">Recordarme</span>
-              </label>
-              <a
-                href="#"
-                className="text-primary hover:underline"
-              >
-                ¿Olvidaste tu contraseña?
-              </a>
-            </div>
-
             <Button
               type="submit"
               variant="hero"
@@ -119,21 +179,43 @@ export default function Login() {
               disabled={isLoading}
             >
               {isLoading ? (
-                "Iniciando sesión..."
+                mode === "sign-up" ? "Creando cuenta..." : "Iniciando sesión..."
               ) : (
                 <>
-                  Iniciar Sesión
+                  {mode === "sign-up" ? "Crear Cuenta" : "Iniciar Sesión"}
                   <ArrowRight className="ml-2 h-4 w-4" />
                 </>
               )}
             </Button>
+
+            {authClient.supportsMagicLink && mode === "sign-in" && (
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full h-11"
+                disabled={isLoading}
+                onClick={handleMagicLink}
+              >
+                <Mail className="mr-2 h-4 w-4" />
+                Enviarme un enlace de acceso
+              </Button>
+            )}
           </form>
 
-          <div className="mt-6 text-center">
-            <p className="text-sm text-muted-foreground">
-              Demo: Usa cualquier email y contraseña
-            </p>
-          </div>
+          {authClient.supportsSignUp && (
+            <div className="mt-6 text-center">
+              <p className="text-sm text-muted-foreground">
+                {mode === "sign-in" ? "¿No tienes cuenta? " : "¿Ya tienes cuenta? "}
+                <button
+                  type="button"
+                  onClick={() => setMode(mode === "sign-in" ? "sign-up" : "sign-in")}
+                  className="text-primary hover:underline"
+                >
+                  {mode === "sign-in" ? "Crear cuenta" : "Iniciar sesión"}
+                </button>
+              </p>
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
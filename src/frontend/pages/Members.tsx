@@ -0,0 +1,357 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth-provider";
+import {
+  DEPARTMENT_ROLES,
+  ROLES,
+  ROLE_LABELS,
+  VISIBILITIES,
+  VISIBILITY_DESCRIPTIONS,
+  VISIBILITY_LABELS,
+  canInDepartment,
+  hasRole,
+} from "@/lib/permissions";
+import { departmentPath } from "@/lib/departments";
+import {
+  getDepartmentMembers,
+  getDepartments,
+  getUsers,
+  removeDepartmentMember,
+  setDepartmentMember,
+  updateDepartmentVisibility,
+  updateUserRole,
+} from "@/lib/api";
+import type { Department, DepartmentMember, DepartmentRole, Role, User, Visibility } from "@/lib/api";
+
+export default function Members() {
+  const { user: currentUser, permissions } = useAuth();
+  const [departments, setDepartments] = useState<Department[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [departmentId, setDepartmentId] = useState<string>("");
+  const [members, setMembers] = useState<DepartmentMember[] | null>(null);
+  const [newMemberId, setNewMemberId] = useState<string>("");
+  const [newMemberRole, setNewMemberRole] = useState<DepartmentRole>("viewer");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const isSystemAdmin = !!permissions && hasRole(permissions.role, "system_admin");
+  // Departments whose members the user can manage
+  const managedDepartments = departments.filter((dept) => canInDepartment(permissions, dept.id, "department_admin"));
+
+  const showError = useCallback(
+    (error: unknown, fallback: string) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : fallback,
+        variant: "destructive",
+      });
+    },
+    [toast]
+  );
+
+  // Cargar departamentos y usuarios
+  useEffect(() => {
+    const loadData = async () => {
+      try {
+        const [deptsData, usersData] = await Promise.all([getDepartments(), getUsers()]);
+        setDepartments(deptsData);
+        setUsers(usersData);
+      } catch (error) {
+        console.error("Error loading members data:", error);
+        showError(error, "No se pudieron cargar los departamentos.");
+      }
+    };
+
+    loadData();
+  }, [showError]);
+
+  // Select the first department the user manages
+  useEffect(() => {
+    if (!departmentId && managedDepartments.length > 0) {
+      setDepartmentId(managedDepartments[0].id);
+    }
+  }, [departmentId, managedDepartments]);
+
+  // Cargar los miembros del departamento elegido
+  useEffect(() => {
+    if (!departmentId) return;
+    setMembers(null);
+    getDepartmentMembers(departmentId)
+      .then(setMembers)
+      .catch((error) => {
+        console.error("Error loading department members:", error);
+        showError(error, "No se pudieron cargar los miembros.");
+        setMembers([]);
+      });
+  }, [departmentId, showError]);
+
+  const saveMember = async (userId: string, role: DepartmentRole) => {
+    setIsSaving(true);
+    try {
+      await setDepartmentMember(departmentId, userId, role);
+      setMembers(await getDepartmentMembers(departmentId));
+      setNewMemberId("");
+    } catch (error) {
+      showError(error, "No se pudo guardar el miembro.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemoveMember = async (userId: string) => {
+    setIsSaving(true);
+    try {
+      await removeDepartmentMember(departmentId, userId);
+      setMembers((prev) => prev?.filter((member) => member.user_id !== userId) ?? null);
+    } catch (error) {
+      showError(error, "No se pudo quitar el miembro.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDepartmentVisibility = async (visibility: Visibility) => {
+    setIsSaving(true);
+    try {
+      const updated = await updateDepartmentVisibility(departmentId, visibility);
+      setDepartments((prev) => prev.map((dept) => (dept.id === updated.id ? updated : dept)));
+      toast({
+        title: "Visibilidad actualizada",
+        description: `Los documentos de ${updated.name} sin visibilidad propia ahora son: ${VISIBILITY_LABELS[visibility].toLowerCase()}.`,
+      });
+    } catch (error) {
+      showError(error, "No se pudo cambiar la visibilidad.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleGlobalRole = async (userId: string, role: Role) => {
+    try {
+      const updated = await updateUserRole(userId, role);
+      setUsers((prev) => prev.map((u) => (u.id === updated.id ? updated : u)));
+      toast({
+        title: "Rol actualizado",
+        description: `${updated.name} ahora es ${ROLE_LABELS[updated.role].toLowerCase()}.`,
+      });
+    } catch (error) {
+      showError(error, "No se pudo cambiar el rol.");
+    }
+  };
+
+  const selectedDepartment = departments.find((dept) => dept.id === departmentId);
+  const departmentVisibility = selectedDepartment?.default_visibility ?? "public";
+  const memberIds = new Set(members?.map((member) => member.user_id));
+  const candidates = users.filter((u) => !memberIds.has(u.id));
+
+  return (
+    <AppLayout>
+      <div className="space-y-6 max-w-4xl mx-auto animate-fade-in">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Miembros y Roles</h1>
+          <p className="text-sm text-muted-foreground">
+            Quién puede consultar, subir y administrar los documentos de cada departamento
+          </p>
+        </div>
+
+        {/* Department Members */}
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-4">
+            <CardTitle className="text-lg">Miembros del departamento</CardTitle>
+            <Select value={departmentId} onValueChange={setDepartmentId}>
+              <SelectTrigger className="w-56">
+                <SelectValue placeholder="Seleccionar departamento" />
+              </SelectTrigger>
+              <SelectContent>
+                {managedDepartments.map((dept) => (
+                  <SelectItem key={dept.id} value={dept.id}>
+                    {departmentPath(departments, dept.id)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {/* Default Visibility */}
+            {selectedDepartment && (
+              <div className="flex flex-wrap items-center gap-3 rounded-lg bg-secondary/50 p-3">
+                <div className="flex-1 min-w-48">
+                  <p className="text-sm font-medium">Quién puede ver sus documentos</p>
+                  <p className="text-xs text-muted-foreground">
+                    {VISIBILITY_DESCRIPTIONS[departmentVisibility]} Cada documento puede cambiarlo desde su página.
+                  </p>
+                </div>
+                <Select
+                  value={departmentVisibility}
+                  disabled={isSaving}
+                  onValueChange={(visibility) => void handleDepartmentVisibility(visibility as Visibility)}
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VISIBILITIES.map((visibility) => (
+                      <SelectItem key={visibility} value={visibility}>
+                        {VISIBILITY_LABELS[visibility]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {!members ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="divide-y divide-border">
+                {members.length === 0 && (
+                  <p className="py-3 text-sm text-muted-foreground">
+                    Sin miembros: solo se aplican los roles globales.
+                  </p>
+                )}
+                {members.map((member) => (
+                  <div key={member.user_id} className="flex items-center gap-3 py-3">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{member.user?.name}</p>
+                      <p className="text-xs text-muted-foreground truncate">{member.user?.email}</p>
+                    </div>
+                    <Select
+                      value={member.role}
+                      disabled={isSaving}
+                      onValueChange={(role) => void saveMember(member.user_id, role as DepartmentRole)}
+                    >
+                      <SelectTrigger className="w-56 h-8 text-sm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DEPARTMENT_ROLES.map((role) => (
+                          <SelectItem key={role} value={role}>
+                            {ROLE_LABELS[role]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                      title="Quitar del departamento"
+                      disabled={isSaving}
+                      onClick={() => void handleRemoveMember(member.user_id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Add Member */}
+            {members && candidates.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 border-t border-border pt-4">
+                <Select value={newMemberId} onValueChange={setNewMemberId}>
+                  <SelectTrigger className="flex-1 min-w-48">
+                    <SelectValue placeholder="Agregar usuario" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {candidates.map((u) => (
+                      <SelectItem key={u.id} value={u.id}>
+                        {u.name} ({u.email})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={newMemberRole} onValueChange={(role) => setNewMemberRole(role as DepartmentRole)}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {DEPARTMENT_ROLES.map((role) => (
+                      <SelectItem key={role} value={role}>
+                        {ROLE_LABELS[role]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button disabled={!newMemberId || isSaving} onClick={() => void saveMember(newMemberId, newMemberRole)}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Agregar
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* System Administration */}
+        {isSystemAdmin && (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Roles globales</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="mb-2 text-sm text-muted-foreground">
+                  El rol global se aplica en todos los departamentos.
+                </p>
+                <div className="divide-y divide-border">
+                  {users.map((u) => (
+                    <div key={u.id} className="flex items-center gap-3 py-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium truncate">{u.name}</p>
+                        <p className="text-xs text-muted-foreground truncate">{u.email}</p>
+                      </div>
+                      <Select
+                        value={u.role}
+                        disabled={u.id === currentUser?.id}
+                        onValueChange={(role) => void handleGlobalRole(u.id, role as Role)}
+                      >
+                        <SelectTrigger className="w-56 h-8 text-sm">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {ROLE_LABELS[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Departamentos</CardTitle>
+              </CardHeader>
+              <CardContent className="flex flex-wrap items-center justify-between gap-3">
+                <p className="text-sm text-muted-foreground">
+                  Crea, renombra, organiza, fusiona y elimina departamentos desde su propia página.
+                </p>
+                <Button variant="outline" asChild>
+                  <Link to="/departments">Gestionar departamentos</Link>
+                </Button>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
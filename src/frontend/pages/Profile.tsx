@@ -0,0 +1,134 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { AppLayout } from "@/components/layout/AppLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { FileText, Loader2, LogOut, Mail } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/components/auth-provider";
+import { getProfile, updateProfile } from "@/lib/api";
+
+export default function Profile() {
+  const { user, setUser, signOut } = useAuth();
+  const [name, setName] = useState("");
+  const [uploads, setUploads] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  // Cargar el perfil y el número de documentos subidos
+  useEffect(() => {
+    const loadProfile = async () => {
+      try {
+        const profile = await getProfile();
+        setUser(profile.user);
+        setName(profile.user.name);
+        setUploads(profile.uploads);
+      } catch (error) {
+        console.error("Error loading profile:", error);
+        toast({
+          title: "Error",
+          description: "No se pudo cargar tu perfil.",
+          variant: "destructive",
+        });
+      }
+    };
+
+    loadProfile();
+  }, [setUser, toast]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      const updated = await updateProfile(name.trim());
+      setUser(updated);
+      setName(updated.name);
+      toast({
+        title: "Perfil actualizado",
+        description: "Tu nombre se ha guardado.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "No se pudo guardar tu perfil.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    await signOut();
+    navigate("/login", { replace: true });
+  };
+
+  return (
+    <AppLayout>
+      <div className="space-y-6 max-w-2xl mx-auto animate-fade-in">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Mi Perfil</h1>
+          <p className="text-sm text-muted-foreground">
+            Tus datos en la base de conocimiento
+          </p>
+        </div>
+
+        {!user ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Datos de la cuenta</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <form onSubmit={handleSave} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Nombre</Label>
+                    <Input
+                      id="name"
+                      value={name}
+                      maxLength={100}
+                      onChange={(e) => setName(e.target.value)}
+                    />
+                  </div>
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Mail className="h-4 w-4" />
+                    {user.email}
+                  </div>
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <FileText className="h-4 w-4" />
+                    {uploads === null
+                      ? "Cargando documentos..."
+                      : `${uploads} ${uploads === 1 ? "documento subido" : "documentos subidos"}`}
+                  </div>
+                  <Button type="submit" disabled={isSaving || !name.trim() || name.trim() === user.name}>
+                    {isSaving ? "Guardando..." : "Guardar cambios"}
+                  </Button>
+                </form>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardContent className="flex items-center justify-between p-6">
+                <div>
+                  <p className="font-medium">Cerrar sesión</p>
+                  <p className="text-sm text-muted-foreground">Sal de tu cuenta en este navegador</p>
+                </div>
+                <Button variant="outline" onClick={handleSignOut}>
+                  <LogOut className="mr-2 h-4 w-4" />
+                  Cerrar sesión
+                </Button>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </AppLayout>
+  );
+}
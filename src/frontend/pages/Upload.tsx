@@ -18,14 +18,23 @@ import {
   X,
   CheckCircle2,
   AlertCircle,
+  AlertTriangle,
   Loader2,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { IngestionQueuePanel } from "@/components/upload/IngestionQueuePanel";
+import { EmbeddingIndexPanel } from "@/components/upload/EmbeddingIndexPanel";
+import { useAuth } from "@/components/auth-provider";
+import { canInDepartment, hasRole } from "@/lib/permissions";
 import { useToast } from "@/hooks/use-toast";
-import { uploadDocument } from "@backend/lib/api/documents";
-import { getDepartments } from "@backend/lib/api/departments";
-import { getOrCreateDemoUser } from "@backend/lib/api/users";
-import type { Department } from "@backend/lib/api/documents";
+import {
+  uploadDocument,
+  uploadDocumentVersion,
+  uploadSiteArchive,
+  getDepartments,
+  findDuplicateDocuments,
+} from "@/lib/api";
+import type { Department, Document, DuplicateMatch, SiteUploadResult } from "@/lib/api";
 
 interface FileUpload {
   id: string;
@@ -33,24 +42,45 @@ interface FileUpload {
   progress: number;
   status: "pending" | "uploading" | "processing" | "complete" | "error";
   departmentId?: string;
+  checkingDuplicates: boolean;
+  duplicates: DuplicateMatch[]; // Documents already in the knowledge base that look the same
+  versionOf?: Document; // Upload as a new version of this document instead of a new document
 }
 
+// Formats the backend can extract text from (see ingestion/extractText.ts)
+// ZIP files are static site exports, expanded into one document per HTML page
+const ALLOWED_EXTENSIONS = ["pdf", "txt", "md", "docx", "pptx", "xlsx", "html", "htm", "zip", "png", "jpg", "jpeg"];
+const ALLOWED_MIME_TYPES = [
+  "application/pdf",
+  "text/plain",
+  "text/markdown",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  "text/html",
+  "application/zip",
+  "image/png",
+  "image/jpeg",
+];
+
+// A ZIP is a static site export: the server creates one document per page
+const isSiteArchive = (file: File) => file.name.toLowerCase().endsWith(".zip");
+
 export default function UploadPage() {
   const [files, setFiles] = useState<FileUpload[]>([]);
   const [isDragging, setIsDragging] = useState(false);
   const [departments, setDepartments] = useState<Department[]>([]);
   const [isLoadingDepartments, setIsLoadingDepartments] = useState(true);
-  const [demoUserId, setDemoUserId] = useState<string | null>(null);
+  const [queueRefreshKey, setQueueRefreshKey] = useState(0);
   const { toast } = useToast();
+  const { permissions } = useAuth();
+  // Files can only go to departments where the user is an editor
+  const uploadDepartments = departments.filter((dept) => canInDepartment(permissions, dept.id, "editor"));
 
-  // Cargar departamentos y usuario demo al montar el componente
+  // Cargar departamentos al montar el componente
   useEffect(() => {
     const loadData = async () => {
       try {
-        // Obtener o crear usuario demo
-        const user = await getOrCreateDemoUser();
-        setDemoUserId(user.id);
-
         // Cargar departamentos
         const depts = await getDepartments();
         setDepartments(depts);
@@ -94,21 +124,15 @@ export default function UploadPage() {
   };
 
   const addFiles = (newFiles: File[]) => {
-    const allowedTypes = [
-      "application/pdf",
-      "text/plain",
-      "text/markdown",
-    ];
-
     const validFiles = newFiles.filter((file) => {
       const fileExt = file.name.split('.').pop()?.toLowerCase();
-      const isAllowedType = allowedTypes.includes(file.type) || 
-                           ['pdf', 'txt', 'md'].includes(fileExt || '');
+      const isAllowedType = ALLOWED_MIME_TYPES.includes(file.type) || 
+                           ALLOWED_EXTENSIONS.includes(fileExt || '');
       
       if (!isAllowedType) {
         toast({
           title: "Formato no soportado",
-          description: `${file.name} no es un formato válido. Use PDF, TXT o MD.`,
+          description: `${file.name} no es un formato válido. Use PDF, Word, PowerPoint, Excel, HTML, ZIP, TXT, MD, PNG o JPEG.`,
           variant: "destructive",
         });
         return false;
@@ -129,9 +153,34 @@ export default function UploadPage() {
       file,
       progress: 0,
       status: "pending",
+      // Site archives become many documents, they are not compared
+      checkingDuplicates: !isSiteArchive(file),
+      duplicates: [],
     }));
 
     setFiles((prev) => [...prev, ...fileUploads]);
+    fileUploads
+      .filter((fileUpload) => fileUpload.checkingDuplicates)
+      .forEach((fileUpload) => void checkDuplicates(fileUpload));
+  };
+
+  // Warns before processing when the file (or a close copy) is already uploaded
+  const checkDuplicates = async (fileUpload: FileUpload) => {
+    let duplicates: DuplicateMatch[] = [];
+    try {
+      duplicates = await findDuplicateDocuments(fileUpload.file);
+    } catch (error) {
+      console.error('Error checking duplicates:', error);
+    }
+    setFiles((prev) =>
+      prev.map((f) => (f.id === fileUpload.id ? { ...f, duplicates, checkingDuplicates: false } : f))
+    );
+  };
+
+  const updateFileVersionOf = (id: string, versionOf: Document | undefined) => {
+    setFiles((prev) =>
+      prev.map((f) => (f.id === id ? { ...f, versionOf } : f))
+    );
   };
 
   const removeFile = (id: string) => {
@@ -145,7 +194,8 @@ export default function UploadPage() {
   };
 
   const uploadFile = async (fileUpload: FileUpload) => {
-    if (!fileUpload.departmentId) {
+    // A new version keeps the department of its document
+    if (!fileUpload.departmentId && !fileUpload.versionOf) {
       toast({
         title: "Departamento requerido",
         description: "Por favor, selecciona un departamento para este archivo.",
@@ -154,15 +204,6 @@ export default function UploadPage() {
       return;
     }
 
-    if (!demoUserId) {
-      toast({
-        title: "Error",
-        description: "No se pudo identificar al usuario. Por favor, recarga la página.",
-        variant: "destructive",
-      });
-      return;
-    }
-
     // Update to uploading
     setFiles((prev) =>
       prev.map((f) =>
@@ -186,14 +227,18 @@ export default function UploadPage() {
           f.id === fileUpload.id ? { ...f, status: "processing", progress: 30 } : f)
       );
 
-      // Upload document to Supabase (this now also processes chunks)
-      // Processing happens inside uploadDocument function
-      // Document is chunked and embedded immediately after upload
-      await uploadDocument(
-        fileUpload.file,
-        fileUpload.departmentId,
-        demoUserId
-      );
+      // Upload document through the API server
+      // The server stores the file and queues it; its worker chunks and embeds it
+      // in the background (see the queue panel below)
+      // A ZIP is a static site export: the server creates one document per page
+      let siteResult: SiteUploadResult | null = null;
+      if (fileUpload.versionOf) {
+        await uploadDocumentVersion(fileUpload.versionOf.id, fileUpload.file);
+      } else if (isSiteArchive(fileUpload.file)) {
+        siteResult = await uploadSiteArchive(fileUpload.file, fileUpload.departmentId as string);
+      } else {
+        await uploadDocument(fileUpload.file, fileUpload.departmentId as string);
+      }
 
       // Completar
       setFiles((prev) =>
@@ -202,10 +247,27 @@ export default function UploadPage() {
         )
       );
 
-      toast({
-        title: "Documento procesado",
-        description: `${fileUpload.file.name} ha sido subido y procesado correctamente.`,
-      });
+      setQueueRefreshKey((key) => key + 1);
+
+      if (siteResult) {
+        toast({
+          title: "Sitio en cola",
+          description: `${fileUpload.file.name}: ${siteResult.documents.length} página(s) subidas y en cola de procesamiento${
+            siteResult.failed.length > 0 ? `, ${siteResult.failed.length} con errores` : ""
+          }.`,
+          variant: siteResult.failed.length > 0 ? "destructive" : "default",
+        });
+      } else if (fileUpload.versionOf) {
+        toast({
+          title: "Versión en cola",
+          description: `${fileUpload.file.name} se subió como nueva versión de ${fileUpload.versionOf.file_name}.`,
+        });
+      } else {
+        toast({
+          title: "Documento en cola",
+          description: `${fileUpload.file.name} ha sido subido y se procesará en segundo plano.`,
+        });
+      }
     } catch (error) {
       console.error('Error uploading file:', error);
       setFiles((prev) =>
@@ -214,8 +276,8 @@ export default function UploadPage() {
         )
       );
       toast({
-        title: "Error al procesar",
-        description: `No se pudo procesar ${fileUpload.file.name}. Por favor, intenta de nuevo.`,
+        title: "Error al subir",
+        description: `No se pudo subir ${fileUpload.file.name}. Por favor, intenta de nuevo.`,
         variant: "destructive",
       });
     }
@@ -225,7 +287,7 @@ export default function UploadPage() {
     const pendingFiles = files.filter((f) => f.status === "pending");
     
     // Validar que todos tengan departamento asignado
-    const filesWithoutDepartment = pendingFiles.filter((f) => !f.departmentId);
+    const filesWithoutDepartment = pendingFiles.filter((f) => !f.departmentId && !f.versionOf);
     if (filesWithoutDepartment.length > 0) {
       toast({
         title: "Departamento requerido",
@@ -270,7 +332,7 @@ export default function UploadPage() {
               <input
                 type="file"
                 multiple
-                accept=".pdf,.txt,.md"
+                accept={ALLOWED_EXTENSIONS.map((ext) => `.${ext}`).join(",")}
                 onChange={handleFileInput}
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
               />
@@ -295,7 +357,7 @@ export default function UploadPage() {
                       : "Arrastra archivos o haz clic para seleccionar"}
                   </p>
                   <p className="text-sm text-muted-foreground mt-1">
-                    Formatos soportados: PDF, TXT, MD · Máximo 10MB por archivo
+                    Formatos soportados: PDF, DOCX, PPTX, XLSX, HTML, ZIP (sitio web), TXT, MD, PNG, JPEG · Máximo 10MB por archivo
                   </p>
                 </div>
               </div>
@@ -337,7 +399,7 @@ export default function UploadPage() {
                         </span>
                       </div>
 
-                      {fileUpload.status === "pending" && (
+                      {fileUpload.status === "pending" && !fileUpload.versionOf && (
                         <div className="mt-2">
                           <Select
                             value={fileUpload.departmentId}
@@ -350,7 +412,7 @@ export default function UploadPage() {
                               <SelectValue placeholder="Seleccionar departamento" />
                             </SelectTrigger>
                             <SelectContent>
-                              {departments.map((dept) => (
+                              {uploadDepartments.map((dept) => (
                                 <SelectItem key={dept.id} value={dept.id}>
                                   {dept.name}
                                 </SelectItem>
@@ -360,6 +422,52 @@ export default function UploadPage() {
                         </div>
                       )}
 
+                      {fileUpload.status === "pending" && fileUpload.checkingDuplicates && (
+                        <p className="mt-2 text-xs text-muted-foreground flex items-center gap-1">
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                          Buscando documentos duplicados...
+                        </p>
+                      )}
+
+                      {fileUpload.status === "pending" && fileUpload.versionOf && (
+                        <p className="mt-2 text-xs text-muted-foreground">
+                          Se subirá como nueva versión de «{fileUpload.versionOf.file_name}»
+                          {fileUpload.versionOf.department ? ` (${fileUpload.versionOf.department.name})` : ""} ·{" "}
+                          <button
+                            type="button"
+                            className="underline hover:text-foreground"
+                            onClick={() => updateFileVersionOf(fileUpload.id, undefined)}
+                          >
+                            Subir como documento nuevo
+                          </button>
+                        </p>
+                      )}
+
+                      {fileUpload.status === "pending" && !fileUpload.versionOf && fileUpload.duplicates.length > 0 && (
+                        <div className="mt-2 space-y-1 rounded-md border border-warning/30 bg-warning/10 p-2">
+                          {fileUpload.duplicates.map((match) => (
+                            <div key={match.document.id} className="flex items-center gap-2 text-xs text-warning">
+                              <AlertTriangle className="h-3 w-3 shrink-0" />
+                              <span className="flex-1 min-w-0 truncate">
+                                {match.exact ? "Archivo idéntico a" : `Parecido al ${Math.round(match.similarity * 100)}% a`}{" "}
+                                «{match.document.file_name}»
+                                {match.document.department ? ` (${match.document.department.name})` : ""}
+                              </span>
+                              {canInDepartment(permissions, match.document.department_id, "editor") && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="h-6 px-2 text-xs shrink-0"
+                                  onClick={() => updateFileVersionOf(fileUpload.id, match.document)}
+                                >
+                                  Subir como nueva versión
+                                </Button>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
                       {(fileUpload.status === "uploading" ||
                         fileUpload.status === "processing") && (
                         <div className="mt-2 space-y-1">
@@ -367,7 +475,7 @@ export default function UploadPage() {
                           <p className="text-xs text-muted-foreground">
                             {fileUpload.status === "uploading"
                               ? `Subiendo... ${fileUpload.progress}%`
-                              : "Procesando e indexando..."}
+                              : "Guardando y poniendo en cola..."}
                           </p>
                         </div>
                       )}
@@ -375,14 +483,14 @@ export default function UploadPage() {
                       {fileUpload.status === "complete" && (
                         <p className="mt-1 text-xs text-success flex items-center gap-1">
                           <CheckCircle2 className="h-3 w-3" />
-                          Procesado correctamente
+                          Subido · en cola de procesamiento
                         </p>
                       )}
 
                       {fileUpload.status === "error" && (
                         <p className="mt-1 text-xs text-destructive flex items-center gap-1">
                           <AlertCircle className="h-3 w-3" />
-                          Error al procesar
+                          Error al subir
                         </p>
                       )}
                     </div>
@@ -413,6 +521,12 @@ export default function UploadPage() {
           </Card>
         )}
 
+        {/* Ingestion Queue */}
+        <IngestionQueuePanel refreshKey={queueRefreshKey} />
+
+        {/* Administración: cambio de modelo de embeddings */}
+        {permissions && hasRole(permissions.role, "system_admin") && <EmbeddingIndexPanel />}
+
         {/* Instructions */}
         <Card>
           <CardContent className="p-6">
@@ -442,7 +556,7 @@ export default function UploadPage() {
                 <span className="h-5 w-5 rounded-full bg-primary/10 text-primary text-xs flex items-center justify-center shrink-0 mt-0.5">
                   4
                 </span>
-                Una vez procesados, podrás consultar su contenido vía chat
+                Sigue su procesamiento en la cola; podrás cerrar la página y, una vez procesados, consultar su contenido vía chat
               </li>
             </ul>
           </CardContent>
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -8,6 +9,10 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
+    // Forward API calls to the backend server (npm run dev:server)
+    proxy: {
+      "/api": process.env.API_PROXY_TARGET || "http://localhost:3000",
+    },
   },
   plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
   resolve: {
@@ -16,4 +21,13 @@ export default defineConfig(({ mode }) => ({
       "@backend": path.resolve(__dirname, "./src/backend"),
     },
   },
+  // npm test: backend tests run in Node with the fake chat model, never calling a real one
+  test: {
+    include: ["src/**/*.test.ts"],
+    environment: "node",
+    env: {
+      LLM_PROVIDER: "fake",
+      RAG_RERANKER: "none",
+    },
+  },
 }));